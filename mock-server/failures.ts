@@ -0,0 +1,45 @@
+import { MockFailure } from './server';
+import { graphError, tiktokError, youtubeError } from './responses';
+
+// Ready-made scripted failures in each platform's error format.
+// Pass the result to MockServer.fail(), optionally with `times` or `method` added.
+
+type MockPlatform = 'instagram' | 'facebook' | 'youtube' | 'tiktok';
+
+/**
+ * The token expired or was revoked
+ */
+export function expiredTokenFailure(platform: MockPlatform, path: string | RegExp): MockFailure {
+  switch (platform) {
+    case 'youtube':
+      return { path, ...youtubeError(401, 'authError', 'Request had invalid authentication credentials.') };
+    case 'tiktok':
+      return { path, ...tiktokError(401, 'access_token_invalid', 'The access token is invalid or not found in the request.') };
+    default:
+      return { path, ...graphError(401, 190, 'Error validating access token: Session has expired.', 463) };
+  }
+}
+
+/**
+ * Too many requests. The default Retry-After is longer than services are willing
+ * to wait, so they give up straight away instead of retrying.
+ */
+export function rateLimitedFailure(platform: MockPlatform, path: string | RegExp, retryAfterSeconds = 3600): MockFailure {
+  const headers = { 'Retry-After': String(retryAfterSeconds) };
+
+  switch (platform) {
+    case 'youtube':
+      return { path, headers, ...youtubeError(429, 'rateLimitExceeded', 'The request cannot be completed because you have exceeded your quota.') };
+    case 'tiktok':
+      return { path, headers, ...tiktokError(429, 'rate_limit_exceeded', 'API rate limit was exceeded.') };
+    default:
+      return { path, headers, ...graphError(429, 4, 'Application request limit reached') };
+  }
+}
+
+/**
+ * A 500 from the platform, which services treat as temporary
+ */
+export function serverErrorFailure(path: string | RegExp, times = 1): MockFailure {
+  return { path, times, status: 500, body: { error: { message: 'An unexpected error has occurred. Please retry your request later.' } } };
+}
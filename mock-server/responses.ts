@@ -0,0 +1,78 @@
+import { MockRequest, MockResponse } from './server';
+
+// Error bodies in each platform's own format, so services map them the same way as real errors
+
+/**
+ * Facebook/Instagram Graph API error
+ * https://developers.facebook.com/docs/graph-api/guides/error-handling
+ */
+export function graphError(status: number, code: number, message: string, subcode?: number): MockResponse {
+  return {
+    status,
+    body: {
+      error: {
+        message,
+        type: code === 190 ? 'OAuthException' : 'GraphMethodException',
+        code,
+        error_subcode: subcode,
+        fbtrace_id: 'MockTraceId',
+      },
+    },
+  };
+}
+
+/**
+ * YouTube Data API error
+ * https://developers.google.com/youtube/v3/docs/errors
+ */
+export function youtubeError(status: number, reason: string, message: string): MockResponse {
+  return {
+    status,
+    body: {
+      error: {
+        code: status,
+        message,
+        errors: [{ message, domain: 'youtube', reason }],
+      },
+    },
+  };
+}
+
+/**
+ * TikTok API v2 response; code 'ok' means success
+ * https://developers.tiktok.com/doc/tiktok-api-v2-error-handling
+ */
+export function tiktokResponse(status: number, data: unknown, code = 'ok', message = ''): MockResponse {
+  return {
+    status,
+    body: {
+      data,
+      error: { code, message, log_id: 'MockLogId' },
+    },
+  };
+}
+
+export function tiktokError(status: number, code: string, message: string): MockResponse {
+  return tiktokResponse(status, {}, code, message);
+}
+
+/**
+ * One page of a Graph API list; the cursors are offsets into `items`
+ * https://developers.facebook.com/docs/graph-api/results
+ */
+export function graphPage<T>(items: T[], request: MockRequest, listUrl: string, defaultLimit = 25): MockResponse {
+  const limit = Number(request.params.limit || defaultLimit);
+  const offset = Number(request.params.after || 0);
+  const end = Math.min(offset + limit, items.length);
+
+  return {
+    status: 200,
+    body: {
+      data: items.slice(offset, end),
+      paging: {
+        cursors: { before: String(offset), after: String(end) },
+        ...(end < items.length && { next: `${listUrl}?limit=${limit}&after=${end}` }),
+      },
+    },
+  };
+}
@@ -0,0 +1,224 @@
+import { MockRequest, MockResponse, RouteHandler } from '../server';
+import { FacebookComment, FacebookPost, MockState } from '../state';
+import { graphError, graphPage } from '../responses';
+
+// Facebook Graph API: tokens, pages, page posts and comments
+// https://developers.facebook.com/docs/graph-api/reference
+
+const LONG_LIVED_TOKEN_SECONDS = 60 * 24 * 60 * 60;
+
+export const handleFacebook: RouteHandler = (request, state) => {
+  const authError = checkToken(request, state);
+  if (authError) {
+    return authError;
+  }
+
+  const { method, path } = request;
+  const segments = path.split('/').filter(Boolean);
+
+  if (method === 'GET' && path === '/debug_token') {
+    const inputToken = request.params.input_token || request.token!;
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      status: 200,
+      body: {
+        data: {
+          is_valid: !state.expiredTokens.has(inputToken),
+          expires_at: now + LONG_LIVED_TOKEN_SECONDS,
+          data_access_expires_at: now + 90 * 24 * 60 * 60,
+          scopes: ['pages_show_list', 'pages_read_engagement', 'pages_manage_posts', 'pages_manage_engagement'],
+          user_id: state.facebook.user.id,
+        },
+      },
+    };
+  }
+
+  if (method === 'GET' && path === '/oauth/access_token') {
+    return {
+      status: 200,
+      body: { access_token: `mock-fb-long-lived-${state.nextId()}`, token_type: 'bearer', expires_in: LONG_LIVED_TOKEN_SECONDS },
+    };
+  }
+
+  if (method === 'GET' && path === '/me/accounts') {
+    return { status: 200, body: { data: state.facebook.pages, paging: { cursors: { before: 'start', after: 'end' } } } };
+  }
+
+  // /me is the page when acting with a page token
+  const objectId = segments[0] === 'me' ? resolveMe(request, state).id : segments[0];
+
+  if (segments.length === 1) {
+    if (method === 'GET') {
+      return getObject(state, objectId);
+    }
+
+    if (method === 'POST' && request.params.is_hidden !== undefined) {
+      const comment = state.facebook.comments.find(comment => comment.id === objectId);
+      if (!comment) {
+        return unknownObject(objectId);
+      }
+      comment.is_hidden = request.params.is_hidden === 'true';
+      return { status: 200, body: { success: true } };
+    }
+
+    if (method === 'DELETE') {
+      const before = state.facebook.comments.length;
+      state.facebook.comments = state.facebook.comments.filter(comment => comment.id !== objectId && comment.objectId !== objectId);
+      return before === state.facebook.comments.length ? unknownObject(objectId) : { status: 200, body: { success: true } };
+    }
+  }
+
+  if (segments.length === 2) {
+    const edge = segments[1];
+
+    if (method === 'POST' && (edge === 'photos' || edge === 'feed' || edge === 'videos')) {
+      return createPost(request, state, objectId, edge);
+    }
+
+    if (method === 'GET' && (edge === 'posts' || edge === 'feed')) {
+      const limit = Number(request.params.limit || 25);
+      const posts = state.facebook.posts
+        .filter(post => post.ownerId === objectId)
+        .reverse()
+        .slice(0, limit)
+        .map(toPostResponse);
+      return { status: 200, body: { data: posts } };
+    }
+
+    if (edge === 'comments') {
+      const exists = state.facebook.posts.some(post => post.id === objectId) ||
+        state.facebook.comments.some(comment => comment.id === objectId);
+      if (!exists) {
+        return unknownObject(objectId);
+      }
+
+      if (method === 'GET') {
+        const comments = state.facebook.comments
+          .filter(comment => comment.objectId === objectId)
+          .map(comment => toCommentResponse(state, comment));
+        if (request.params.order === 'reverse_chronological') {
+          comments.reverse();
+        }
+        return graphPage(comments, request, `${request.origin}/facebook${request.path}`);
+      }
+
+      if (method === 'POST') {
+        return addComment(request, state, objectId);
+      }
+    }
+  }
+
+  return undefined;
+};
+
+function checkToken(request: MockRequest, state: MockState): MockResponse | undefined {
+  if (!request.token) {
+    return graphError(400, 104, 'An access token is required to request this resource.');
+  }
+
+  if (state.expiredTokens.has(request.token) && request.path !== '/debug_token') {
+    return graphError(401, 190, 'Error validating access token: Session has expired.', 463);
+  }
+
+  return undefined;
+}
+
+function resolveMe(request: MockRequest, state: MockState): { id: string; name: string } {
+  return state.facebook.pages.find(page => page.access_token === request.token) || state.facebook.user;
+}
+
+function unknownObject(id: string): MockResponse {
+  return graphError(400, 100, `Unsupported request - object with ID '${id}' does not exist, cannot be loaded due to missing permissions, or does not support this operation`, 33);
+}
+
+function getObject(state: MockState, id: string): MockResponse {
+  const page = state.facebook.pages.find(candidate => candidate.id === id);
+  if (page) {
+    return { status: 200, body: { id: page.id, name: page.name } };
+  }
+
+  if (id === state.facebook.user.id) {
+    return { status: 200, body: state.facebook.user };
+  }
+
+  const post = state.facebook.posts.find(candidate => candidate.id === id);
+  if (post) {
+    return { status: 200, body: toPostResponse(post) };
+  }
+
+  return unknownObject(id);
+}
+
+/**
+ * POST /{owner}/photos, /feed or /videos. Publishing to a page needs that page's token.
+ */
+function createPost(request: MockRequest, state: MockState, ownerId: string, edge: 'photos' | 'feed' | 'videos'): MockResponse {
+  const page = state.facebook.pages.find(candidate => candidate.id === ownerId);
+  if (page && request.token !== page.access_token) {
+    return graphError(403, 200, '(#200) Publishing to a page requires a page access token with pages_manage_posts');
+  }
+  if (!page && ownerId !== state.facebook.user.id) {
+    return unknownObject(ownerId);
+  }
+
+  const params = request.params;
+  if (edge === 'photos' && !params.url && !request.files.source) {
+    return graphError(400, 324, '(#324) Requires upload file');
+  }
+  if (edge === 'videos' && !params.file_url && !request.files.source) {
+    return graphError(400, 352, '(#352) Sorry, the video file you selected is in a format that we don\'t support.');
+  }
+  if (edge === 'feed' && !params.message && !params.link) {
+    return graphError(400, 100, '(#100) The message or link parameter is required');
+  }
+
+  const postId = `${ownerId}_${state.nextId()}`;
+  const post: FacebookPost = {
+    id: postId,
+    ownerId,
+    message: params.message || params.description,
+    link: params.link,
+    created_time: state.now(),
+    permalink_url: `https://www.facebook.com/${postId}`,
+    full_picture: edge === 'photos' ? params.url || `https://example.com/${request.files.source?.filename}` : undefined,
+    type: edge === 'photos' ? 'photo' : edge === 'videos' ? 'video' : 'status',
+  };
+  state.facebook.posts.push(post);
+
+  // Photos and videos are objects of their own, with the feed post alongside
+  if (edge === 'feed') {
+    return { status: 200, body: { id: postId } };
+  }
+  return { status: 200, body: { id: state.nextId(), post_id: postId } };
+}
+
+function addComment(request: MockRequest, state: MockState, objectId: string): MockResponse {
+  const message = request.params.message;
+  if (!message) {
+    return graphError(400, 100, '(#100) The message parameter is required');
+  }
+
+  const author = resolveMe(request, state);
+  const comment: FacebookComment = {
+    id: `${objectId}_${state.nextId()}`,
+    objectId,
+    message,
+    created_time: state.now(),
+    from: { id: author.id, name: author.name },
+    like_count: 0,
+  };
+  state.facebook.comments.push(comment);
+
+  return { status: 200, body: { id: comment.id } };
+}
+
+function toPostResponse(post: FacebookPost) {
+  const { ownerId: _ownerId, link: _link, type: _type, ...fields } = post;
+  return fields;
+}
+
+function toCommentResponse(state: MockState, comment: FacebookComment) {
+  const { objectId: _objectId, ...fields } = comment;
+  // Replies are comments on the comment
+  return { ...fields, comment_count: state.facebook.comments.filter(reply => reply.objectId === comment.id).length };
+}
@@ -0,0 +1,294 @@
+import { MockRequest, MockResponse, RouteHandler } from '../server';
+import { InstagramComment, InstagramContainer, InstagramMedia, MockState } from '../state';
+import { graphError, graphPage } from '../responses';
+
+// Instagram Graph API: containers, publishing, media and comments
+// https://developers.facebook.com/docs/instagram-platform/instagram-graph-api/reference
+
+const LONG_LIVED_TOKEN_SECONDS = 60 * 24 * 60 * 60;
+
+export const handleInstagram: RouteHandler = (request, state) => {
+  const authError = checkToken(request, state);
+  if (authError) {
+    return authError;
+  }
+
+  const { method, path } = request;
+  const segments = path.split('/').filter(Boolean);
+
+  if (method === 'GET' && (path === '/access_token' || path === '/refresh_access_token')) {
+    return {
+      status: 200,
+      body: { access_token: `mock-ig-long-lived-${state.nextId()}`, token_type: 'bearer', expires_in: LONG_LIVED_TOKEN_SECONDS },
+    };
+  }
+
+  if (method === 'GET' && path === '/me') {
+    return { status: 200, body: state.instagram.user };
+  }
+
+  if (method === 'GET' && path === '/me/media') {
+    const limit = Number(request.params.limit || 25);
+    return { status: 200, body: { data: [...state.instagram.media].reverse().slice(0, limit) } };
+  }
+
+  if (method === 'POST' && path === '/me/media') {
+    return createContainer(request, state);
+  }
+
+  if (method === 'POST' && path === '/me/media_publish') {
+    return publishContainer(request, state);
+  }
+
+  if (segments.length === 2 && segments[1] === 'comments') {
+    const mediaId = segments[0];
+    if (!state.instagram.media.some(media => media.id === mediaId)) {
+      return unknownObject(mediaId);
+    }
+
+    if (method === 'GET') {
+      // Newest first, with their replies when the fields ask for them
+      const expandReplies = request.params.fields?.includes('replies{');
+      const comments = state.instagram.comments
+        .filter(comment => comment.mediaId === mediaId && !comment.parentId)
+        .reverse()
+        .map(comment => expandReplies ? withReplies(comment, state, request) : toCommentResponse(comment));
+      return graphPage(comments, request, `${request.origin}/instagram${request.path}`);
+    }
+
+    if (method === 'POST') {
+      return addComment(request, state, mediaId);
+    }
+  }
+
+  if (segments.length === 2 && segments[1] === 'replies') {
+    const parent = state.instagram.comments.find(comment => comment.id === segments[0]);
+    if (!parent) {
+      return unknownObject(segments[0]);
+    }
+
+    if (method === 'GET') {
+      // Oldest first, like a conversation
+      const replies = state.instagram.comments
+        .filter(comment => comment.parentId === parent.id)
+        .map(toCommentResponse);
+      return graphPage(replies, request, `${request.origin}/instagram${request.path}`);
+    }
+
+    if (method === 'POST') {
+      return addComment(request, state, parent.mediaId, parent.id);
+    }
+  }
+
+  if (segments.length === 1) {
+    const id = segments[0];
+
+    if (method === 'GET') {
+      return getObject(state, id);
+    }
+
+    if (method === 'POST' && request.params.hide !== undefined) {
+      const comment = state.instagram.comments.find(comment => comment.id === id);
+      if (!comment) {
+        return unknownObject(id);
+      }
+      comment.hidden = request.params.hide === 'true';
+      return { status: 200, body: { success: true } };
+    }
+
+    if (method === 'DELETE') {
+      const before = state.instagram.comments.length;
+      state.instagram.comments = state.instagram.comments.filter(comment => comment.id !== id && comment.parentId !== id);
+      return before === state.instagram.comments.length ? unknownObject(id) : { status: 200, body: { success: true } };
+    }
+  }
+
+  return undefined;
+};
+
+function checkToken(request: MockRequest, state: MockState): MockResponse | undefined {
+  if (!request.token) {
+    return graphError(400, 190, 'An active access token must be used to query information about the current user.');
+  }
+
+  if (state.expiredTokens.has(request.token)) {
+    return graphError(401, 190, 'Error validating access token: Session has expired.', 463);
+  }
+
+  return undefined;
+}
+
+function unknownObject(id: string): MockResponse {
+  return graphError(400, 100, `Unsupported request - object with ID '${id}' does not exist, cannot be loaded due to missing permissions, or does not support this operation`, 33);
+}
+
+/**
+ * POST /me/media: an image, video, Reel, Story, carousel item or carousel container
+ */
+function createContainer(request: MockRequest, state: MockState): MockResponse {
+  const params = request.params;
+
+  if (params.media_type === 'CAROUSEL') {
+    const childIds = (params.children || '').split(',').filter(Boolean);
+    if (childIds.length < 2) {
+      return graphError(400, 100, 'Carousels need at least 2 children');
+    }
+
+    const unfinished = childIds.find(id => currentStatus(state.instagram.containers.get(id)) !== 'FINISHED');
+    if (unfinished) {
+      return graphError(400, 9007, `Carousel item ${unfinished} is not ready`, 2207027);
+    }
+  } else if (!params.image_url && !params.video_url) {
+    return graphError(400, 100, 'The parameter image_url or video_url is required');
+  }
+
+  const mediaUrl = params.image_url || params.video_url;
+  if (mediaUrl && !/^https?:\/\//.test(mediaUrl)) {
+    return graphError(400, 9004, 'Only photo or video can be accepted as media type.', 2207052);
+  }
+
+  const container: InstagramContainer = {
+    id: state.nextId(),
+    params,
+    statuses: state.instagram.nextContainerStatuses.length ? state.instagram.nextContainerStatuses : ['FINISHED'],
+  };
+  state.instagram.nextContainerStatuses = [];
+  state.instagram.containers.set(container.id, container);
+
+  return { status: 200, body: { id: container.id } };
+}
+
+/**
+ * The status a container reports right now
+ */
+function currentStatus(container: InstagramContainer | undefined) {
+  if (!container) {
+    return undefined;
+  }
+  if (container.mediaId) {
+    return 'PUBLISHED';
+  }
+  return container.statuses[0];
+}
+
+/**
+ * Report the current status and move on to the next scripted one
+ */
+function advanceStatus(container: InstagramContainer) {
+  const status = currentStatus(container);
+  if (container.statuses.length > 1) {
+    container.statuses = container.statuses.slice(1);
+  }
+  return status;
+}
+
+/**
+ * POST /me/media_publish?creation_id=: turn a finished container into media
+ */
+function publishContainer(request: MockRequest, state: MockState): MockResponse {
+  const container = state.instagram.containers.get(request.params.creation_id);
+  if (!container) {
+    return graphError(400, 100, 'Invalid parameter: creation_id does not exist');
+  }
+
+  const status = currentStatus(container);
+  if (status === 'PUBLISHED') {
+    return graphError(400, 100, 'The media has already been published');
+  }
+  if (status !== 'FINISHED') {
+    return graphError(400, 9007, 'Media ID is not available', 2207027);
+  }
+
+  const { params } = container;
+  const isCarousel = params.media_type === 'CAROUSEL';
+  const isVideo = !!params.video_url;
+  const media: InstagramMedia = {
+    id: state.nextId(),
+    media_type: isCarousel ? 'CAROUSEL_ALBUM' : isVideo ? 'VIDEO' : 'IMAGE',
+    media_product_type: params.media_type === 'REELS' ? 'REELS' : params.media_type === 'STORIES' ? 'STORY' : 'FEED',
+    media_url: params.image_url || params.video_url,
+    permalink: '',
+    timestamp: state.now(),
+    caption: params.caption,
+    children: isCarousel ? params.children.split(',') : undefined,
+  };
+  media.permalink = `https://www.instagram.com/p/${media.id}/`;
+
+  state.instagram.media.push(media);
+  container.mediaId = media.id;
+
+  return { status: 200, body: { id: media.id } };
+}
+
+/**
+ * GET /{id}: a container's status or a media object
+ */
+function getObject(state: MockState, id: string): MockResponse {
+  const container = state.instagram.containers.get(id);
+  if (container) {
+    const status = advanceStatus(container);
+    return {
+      status: 200,
+      body: {
+        id,
+        status_code: status,
+        status: status === 'ERROR' ? 'Error: Media upload has failed with error code 2207026' : status,
+      },
+    };
+  }
+
+  const media = state.instagram.media.find(item => item.id === id);
+  if (media) {
+    const { children: _children, ...fields } = media;
+    return { status: 200, body: fields };
+  }
+
+  return unknownObject(id);
+}
+
+function addComment(request: MockRequest, state: MockState, mediaId: string, parentId?: string): MockResponse {
+  const message = request.params.message;
+  if (!message) {
+    return graphError(400, 100, 'The parameter message is required');
+  }
+
+  const comment: InstagramComment = {
+    id: state.nextId(),
+    mediaId,
+    parentId,
+    text: message,
+    timestamp: state.now(),
+    username: state.instagram.user.username,
+    like_count: 0,
+  };
+  state.instagram.comments.push(comment);
+
+  return { status: 200, body: { id: comment.id } };
+}
+
+function toCommentResponse(comment: InstagramComment) {
+  const { mediaId: _mediaId, parentId: _parentId, ...fields } = comment;
+  return fields;
+}
+
+// Replies expanded inline come one page at a time, and are left out when there are none
+const EXPANDED_REPLIES_LIMIT = 25;
+
+function withReplies(comment: InstagramComment, state: MockState, request: MockRequest) {
+  const replies = state.instagram.comments.filter(reply => reply.parentId === comment.id).map(toCommentResponse);
+  if (!replies.length) {
+    return toCommentResponse(comment);
+  }
+
+  const end = Math.min(EXPANDED_REPLIES_LIMIT, replies.length);
+  return {
+    ...toCommentResponse(comment),
+    replies: {
+      data: replies.slice(0, end),
+      paging: {
+        cursors: { before: '0', after: String(end) },
+        ...(end < replies.length && { next: `${request.origin}/instagram/${comment.id}/replies?after=${end}` }),
+      },
+    },
+  };
+}
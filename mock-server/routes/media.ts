@@ -0,0 +1,29 @@
+import { RouteHandler } from '../server';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+/**
+ * Public media URLs for services that download media before uploading it,
+ * e.g. /media/clip.mp4?bytes=2048 serves 2048 bytes of "video"
+ */
+export const handleMedia: RouteHandler = (request) => {
+  if (request.method !== 'GET') {
+    return undefined;
+  }
+
+  const extension = request.path.split('.').pop()?.toLowerCase() || '';
+  const size = Number(request.query.get('bytes') || 1024);
+
+  return {
+    status: 200,
+    body: Buffer.alloc(size, 1),
+    headers: { 'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream' },
+  };
+};
@@ -0,0 +1,147 @@
+import { MockRequest, MockResponse, RouteHandler } from '../server';
+import { MockState, TikTokPublish } from '../state';
+import { tiktokError, tiktokResponse } from '../responses';
+
+// TikTok Content Posting API and video list
+// https://developers.tiktok.com/doc/content-posting-api-reference-direct-post
+
+export const handleTikTok: RouteHandler = (request, state) => {
+  const { method, path } = request;
+
+  // Chunks go to the signed upload URL, without the access token
+  const upload = path.match(/^\/upload\/([^/]+)$/);
+  if (method === 'PUT' && upload) {
+    return receiveChunk(request, state, upload[1]);
+  }
+
+  const token = request.headers.authorization?.replace(/^Bearer /, '');
+  if (!token || state.expiredTokens.has(token)) {
+    return tiktokError(401, 'access_token_invalid', 'The access token is invalid or not found in the request.');
+  }
+
+  if (method === 'POST' && path === '/post/publish/creator_info/query/') {
+    return tiktokResponse(200, state.tiktok.creator);
+  }
+
+  if (method === 'POST' && path === '/post/publish/video/init/') {
+    return initPublish(request, state);
+  }
+
+  if (method === 'POST' && path === '/post/publish/status/fetch/') {
+    return publishStatus(request, state);
+  }
+
+  if (method === 'POST' && path === '/video/list/') {
+    const maxCount = Number(request.json?.max_count || 20);
+    const fields = (request.params.fields || 'id').split(',');
+    const videos = [...state.tiktok.videos].reverse().slice(0, maxCount).map(video =>
+      Object.fromEntries(Object.entries(video).filter(([key]) => fields.includes(key)))
+    );
+    return tiktokResponse(200, { videos, cursor: 0, has_more: false });
+  }
+
+  return undefined;
+};
+
+/**
+ * POST /post/publish/video/init/ for FILE_UPLOAD or PULL_FROM_URL
+ */
+function initPublish(request: MockRequest, state: MockState): MockResponse {
+  const postInfo = request.json?.post_info || {};
+  const sourceInfo = request.json?.source_info || {};
+
+  if (!state.tiktok.creator.privacy_level_options.includes(postInfo.privacy_level)) {
+    return tiktokError(400, 'privacy_level_option_mismatch', 'privacy_level is not one of the creator\'s privacy_level_options');
+  }
+
+  const publish: TikTokPublish = {
+    id: state.nextId('v_pub_file~v2-1.'),
+    source: sourceInfo.source,
+    postInfo,
+    videoSize: 0,
+    receivedBytes: 0,
+    failReason: state.tiktok.nextPublishFailure,
+  };
+  state.tiktok.nextPublishFailure = undefined;
+
+  if (sourceInfo.source === 'PULL_FROM_URL') {
+    if (!/^https?:\/\//.test(sourceInfo.video_url || '')) {
+      return tiktokError(400, 'invalid_params', 'video_url must be a public http(s) URL');
+    }
+    state.tiktok.publishes.set(publish.id, publish);
+    return tiktokResponse(200, { publish_id: publish.id });
+  }
+
+  if (sourceInfo.source !== 'FILE_UPLOAD') {
+    return tiktokError(400, 'invalid_params', 'source must be FILE_UPLOAD or PULL_FROM_URL');
+  }
+
+  // The chunk count has to match the size, with the remainder in the last chunk
+  const { video_size: videoSize, chunk_size: chunkSize, total_chunk_count: totalChunkCount } = sourceInfo;
+  if (!videoSize || !chunkSize || totalChunkCount !== Math.max(1, Math.floor(videoSize / chunkSize))) {
+    return tiktokError(400, 'invalid_params', 'video_size, chunk_size and total_chunk_count do not match');
+  }
+
+  publish.videoSize = videoSize;
+  state.tiktok.publishes.set(publish.id, publish);
+  return tiktokResponse(200, { publish_id: publish.id, upload_url: `${request.origin}/tiktok/upload/${encodeURIComponent(publish.id)}` });
+}
+
+function receiveChunk(request: MockRequest, state: MockState, publishId: string): MockResponse {
+  const publish = state.tiktok.publishes.get(decodeURIComponent(publishId));
+  if (!publish || publish.source !== 'FILE_UPLOAD') {
+    return { status: 404 };
+  }
+
+  if (request.headers.authorization) {
+    return { status: 400 };
+  }
+
+  const range = String(request.headers['content-range'] || '').match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!range || Number(range[1]) !== publish.receivedBytes || Number(range[2]) - Number(range[1]) + 1 !== request.body.length) {
+    return { status: 416 };
+  }
+
+  publish.receivedBytes += request.body.length;
+  return { status: publish.receivedBytes >= publish.videoSize ? 201 : 206 };
+}
+
+/**
+ * POST /post/publish/status/fetch/: done once the whole file has arrived
+ */
+function publishStatus(request: MockRequest, state: MockState): MockResponse {
+  const publish = state.tiktok.publishes.get(request.json?.publish_id);
+  if (!publish) {
+    return tiktokError(400, 'invalid_publish_id', 'The publish_id does not exist');
+  }
+
+  if (publish.source === 'FILE_UPLOAD' && publish.receivedBytes < publish.videoSize) {
+    return tiktokResponse(200, { status: 'PROCESSING_UPLOAD', uploaded_bytes: publish.receivedBytes });
+  }
+
+  if (publish.failReason) {
+    return tiktokResponse(200, { status: 'FAILED', fail_reason: publish.failReason });
+  }
+
+  if (!publish.videoId) {
+    publish.videoId = state.nextId('7');
+    state.tiktok.videos.push({
+      id: publish.videoId,
+      title: publish.postInfo.title || '',
+      create_time: Math.floor(Date.now() / 1000),
+      share_url: `https://www.tiktok.com/@${state.tiktok.creator.creator_username}/video/${publish.videoId}`,
+      comment_count: 0,
+      like_count: 0,
+      view_count: 0,
+      share_count: 0,
+    });
+  }
+
+  // Only public posts get a post ID
+  const isPublic = publish.postInfo.privacy_level === 'PUBLIC_TO_EVERYONE';
+  return tiktokResponse(200, {
+    status: 'PUBLISH_COMPLETE',
+    publicaly_available_post_id: isPublic ? [publish.videoId] : [],
+    uploaded_bytes: publish.receivedBytes,
+  });
+}
@@ -0,0 +1,382 @@
+import { MockRequest, MockResponse, RouteHandler } from '../server';
+import { MockState, YouTubeComment, YouTubeModerationStatus, YouTubeUploadSession, YouTubeVideo } from '../state';
+import { youtubeError } from '../responses';
+
+// Google's token endpoint, the YouTube Data API and the resumable upload endpoint
+// https://developers.google.com/youtube/v3/docs
+// https://developers.google.com/youtube/v3/guides/using_resumable_upload_protocol
+
+const ACCESS_TOKEN_SECONDS = 3600;
+
+export const handleYouTube: RouteHandler = (request, state) => {
+  const { method, path } = request;
+
+  if (method === 'POST' && path === '/token') {
+    return issueToken(request, state);
+  }
+
+  if (path === '/upload/youtube/v3/videos') {
+    const authError = requireOAuth(request, state);
+    if (authError) {
+      return authError;
+    }
+
+    if (method === 'POST') {
+      return startUpload(request, state);
+    }
+    if (method === 'PUT') {
+      return receiveChunk(request, state);
+    }
+    return undefined;
+  }
+
+  const match = path.match(/^\/youtube\/v3(\/.*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const resource = match[1];
+  // Reading works with an API key; anything that changes data needs OAuth
+  const authError = method === 'GET' && request.params.key ? undefined : requireOAuth(request, state);
+  if (authError) {
+    return authError;
+  }
+
+  if (method === 'GET' && resource === '/channels') {
+    return {
+      status: 200,
+      body: {
+        items: [{
+          id: state.youtube.channel.id,
+          snippet: { title: state.youtube.channel.title },
+          contentDetails: { relatedPlaylists: { uploads: uploadsPlaylistId(state) } },
+          statistics: { videoCount: String(state.youtube.videos.length), subscriberCount: '42' },
+        }],
+      },
+    };
+  }
+
+  if (method === 'GET' && resource === '/playlistItems') {
+    if (request.params.playlistId !== uploadsPlaylistId(state)) {
+      return youtubeError(404, 'playlistNotFound', 'The playlist identified with the request\'s playlistId parameter cannot be found.');
+    }
+
+    const maxResults = Number(request.params.maxResults || 5);
+    const items = [...state.youtube.videos].reverse().slice(0, maxResults).map(video => ({
+      id: `PL${video.id}`,
+      snippet: {
+        title: video.title,
+        description: video.description,
+        publishedAt: video.publishedAt,
+        resourceId: { kind: 'youtube#video', videoId: video.id },
+      },
+      contentDetails: { videoId: video.id },
+    }));
+    return { status: 200, body: { items } };
+  }
+
+  if (method === 'GET' && resource === '/videos') {
+    const ids = (request.params.id || '').split(',');
+    const items = state.youtube.videos.filter(video => ids.includes(video.id)).map(video => toVideoResource(state, video));
+    return { status: 200, body: { items } };
+  }
+
+  if (method === 'GET' && resource === '/commentThreads') {
+    const videoId = request.params.videoId;
+    if (!state.youtube.videos.some(video => video.id === videoId)) {
+      return youtubeError(404, 'videoNotFound', 'The video identified by the videoId parameter could not be found.');
+    }
+
+    // order=time (the default) lists the newest first; pageToken is the offset of the page
+    const maxResults = Number(request.params.maxResults || 20);
+    const offset = Number(request.params.pageToken || 0);
+    const threads = state.youtube.comments
+      .filter(comment => comment.videoId === videoId && !comment.parentId && isListed(request, comment))
+      .reverse();
+    const items = threads
+      .slice(offset, offset + maxResults)
+      .map(comment => ({
+        id: comment.id,
+        snippet: {
+          videoId,
+          topLevelComment: toCommentResource(comment),
+          totalReplyCount: state.youtube.comments.filter(reply => reply.parentId === comment.id && isListed(request, reply)).length,
+          canReply: true,
+        },
+      }));
+    const nextPageToken = offset + maxResults < threads.length ? String(offset + maxResults) : undefined;
+    return { status: 200, body: { items, nextPageToken } };
+  }
+
+  if (method === 'GET' && resource === '/comments') {
+    const parentId = request.params.parentId;
+    if (!state.youtube.comments.some(comment => comment.id === parentId && !comment.parentId)) {
+      return youtubeError(404, 'commentNotFound', 'The comment identified by the parentId parameter could not be found.');
+    }
+
+    // Replies come oldest first; pageToken is the offset of the page
+    const maxResults = Number(request.params.maxResults || 20);
+    const offset = Number(request.params.pageToken || 0);
+    const replies = state.youtube.comments.filter(comment => comment.parentId === parentId && isListed(request, comment));
+    const items = replies.slice(offset, offset + maxResults).map(toCommentResource);
+    const nextPageToken = offset + maxResults < replies.length ? String(offset + maxResults) : undefined;
+    return { status: 200, body: { items, nextPageToken } };
+  }
+
+  if (method === 'POST' && resource === '/commentThreads') {
+    return addCommentThread(request, state);
+  }
+
+  if (method === 'POST' && resource === '/comments') {
+    return addReply(request, state);
+  }
+
+  if (method === 'POST' && resource === '/comments/setModerationStatus') {
+    const status = request.params.moderationStatus as YouTubeModerationStatus;
+    if (!['published', 'heldForReview', 'rejected'].includes(status)) {
+      return youtubeError(400, 'invalidModerationStatus', 'The moderationStatus parameter specifies an invalid value.');
+    }
+    return updateComments(request, state, comment => {
+      comment.moderationStatus = status;
+    });
+  }
+
+  if (method === 'POST' && resource === '/comments/markAsSpam') {
+    return updateComments(request, state, comment => {
+      comment.markedAsSpam = true;
+      comment.moderationStatus = 'likelySpam';
+    });
+  }
+
+  if (method === 'DELETE' && resource === '/comments') {
+    const id = request.params.id;
+    const comment = state.youtube.comments.find(comment => comment.id === id);
+    if (!comment) {
+      return youtubeError(404, 'commentNotFound', 'The comment identified by the id parameter could not be found.');
+    }
+    // Only the author can delete a comment; the channel rejects other people's
+    if (comment.authorChannelId !== state.youtube.channel.id) {
+      return youtubeError(403, 'forbidden', 'The comment could not be deleted.');
+    }
+
+    state.youtube.comments = state.youtube.comments.filter(comment => comment.id !== id && comment.parentId !== id);
+    return { status: 204 };
+  }
+
+  return undefined;
+};
+
+function issueToken(request: MockRequest, state: MockState): MockResponse {
+  const refreshToken = request.params.refresh_token;
+  if (request.params.grant_type !== 'refresh_token' || !refreshToken || state.expiredTokens.has(refreshToken)) {
+    return { status: 400, body: { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' } };
+  }
+
+  const accessToken = `mock-yt-access-${state.nextId()}`;
+  state.youtube.accessTokens.add(accessToken);
+  return { status: 200, body: { access_token: accessToken, expires_in: ACCESS_TOKEN_SECONDS, token_type: 'Bearer', scope: 'https://www.googleapis.com/auth/youtube.force-ssl' } };
+}
+
+function requireOAuth(request: MockRequest, state: MockState): MockResponse | undefined {
+  const token = request.headers.authorization?.replace(/^Bearer /, '');
+  if (!token || !state.youtube.accessTokens.has(token) || state.expiredTokens.has(token)) {
+    return youtubeError(401, 'authError', 'Request had invalid authentication credentials. Expected OAuth 2 access token.');
+  }
+
+  return undefined;
+}
+
+function uploadsPlaylistId(state: MockState): string {
+  return state.youtube.channel.id.replace(/^UC/, 'UU');
+}
+
+/**
+ * POST /upload/youtube/v3/videos?uploadType=resumable: open a session and hand back its URL
+ */
+function startUpload(request: MockRequest, state: MockState): MockResponse {
+  if (request.params.uploadType !== 'resumable') {
+    return youtubeError(400, 'invalidParameter', 'Only resumable uploads are supported by the mock server.');
+  }
+
+  const metadata = request.json || {};
+  if (!metadata.snippet?.title) {
+    return youtubeError(400, 'invalidTitle', 'The request metadata specifies an invalid or empty video title.');
+  }
+
+  const session: YouTubeUploadSession = {
+    id: state.nextId('upload'),
+    metadata,
+    totalBytes: Number(request.headers['x-upload-content-length'] || 0),
+    receivedBytes: 0,
+  };
+  state.youtube.uploads.set(session.id, session);
+
+  return {
+    status: 200,
+    headers: { Location: `${request.origin}/google/upload/youtube/v3/videos?uploadType=resumable&upload_id=${session.id}` },
+  };
+}
+
+/**
+ * PUT a chunk with a Content-Range such as "bytes 0-999/5000", or an empty status check.
+ * Answers 308 with the bytes received so far until the upload is complete.
+ */
+function receiveChunk(request: MockRequest, state: MockState): MockResponse {
+  const session = state.youtube.uploads.get(request.params.upload_id);
+  if (!session) {
+    return youtubeError(404, 'uploadNotFound', 'The upload session does not exist or has expired.');
+  }
+
+  const range = String(request.headers['content-range'] || '');
+  const chunk = range.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (chunk) {
+    const start = Number(chunk[1]);
+    session.totalBytes = Number(chunk[3]);
+    // Bytes past what we already have extend the upload; overlaps are ignored like the real endpoint does
+    if (start <= session.receivedBytes) {
+      session.receivedBytes = Math.max(session.receivedBytes, start + request.body.length);
+    }
+  } else if (!/^bytes \*\/\d+$/.test(range)) {
+    return youtubeError(400, 'badContentRange', `Invalid Content-Range header: ${range}`);
+  }
+
+  if (session.receivedBytes < session.totalBytes || session.totalBytes === 0) {
+    return {
+      status: 308,
+      headers: session.receivedBytes > 0 ? { Range: `bytes=0-${session.receivedBytes - 1}` } : {},
+    };
+  }
+
+  if (!session.videoId) {
+    const video: YouTubeVideo = {
+      id: state.nextId('yt'),
+      title: session.metadata.snippet?.title || 'Untitled',
+      description: session.metadata.snippet?.description || '',
+      tags: session.metadata.snippet?.tags || [],
+      privacyStatus: session.metadata.status?.privacyStatus || 'private',
+      publishedAt: state.now(),
+      bytes: session.totalBytes,
+    };
+    state.youtube.videos.push(video);
+    session.videoId = video.id;
+  }
+
+  const video = state.youtube.videos.find(candidate => candidate.id === session.videoId)!;
+  return { status: 200, body: toVideoResource(state, video) };
+}
+
+/**
+ * POST /commentThreads: a top-level comment on a video
+ */
+function addCommentThread(request: MockRequest, state: MockState): MockResponse {
+  const snippet = request.json?.snippet || {};
+  if (!state.youtube.videos.some(video => video.id === snippet.videoId)) {
+    return youtubeError(404, 'videoNotFound', 'The video identified by the videoId parameter could not be found.');
+  }
+
+  const textOriginal = snippet.topLevelComment?.snippet?.textOriginal;
+  if (!textOriginal) {
+    return youtubeError(400, 'commentTextRequired', 'The comment resource must contain a value for the snippet.textOriginal property.');
+  }
+
+  const comment: YouTubeComment = {
+    id: state.nextId(),
+    videoId: snippet.videoId,
+    textOriginal,
+    authorDisplayName: state.youtube.channel.title,
+    authorChannelId: state.youtube.channel.id,
+    likeCount: 0,
+    publishedAt: state.now(),
+  };
+  state.youtube.comments.push(comment);
+
+  return {
+    status: 200,
+    body: { id: comment.id, snippet: { videoId: comment.videoId, topLevelComment: toCommentResource(comment), totalReplyCount: 0, canReply: true } },
+  };
+}
+
+/**
+ * POST /comments: reply to a top-level comment
+ */
+function addReply(request: MockRequest, state: MockState): MockResponse {
+  const snippet = request.json?.snippet || {};
+  const parent = state.youtube.comments.find(comment => comment.id === snippet.parentId);
+  if (!parent) {
+    return youtubeError(404, 'commentNotFound', 'The comment identified by the parentId parameter could not be found.');
+  }
+  if (!snippet.textOriginal) {
+    return youtubeError(400, 'commentTextRequired', 'The comment resource must contain a value for the snippet.textOriginal property.');
+  }
+
+  const reply: YouTubeComment = {
+    id: `${parent.id}.${state.nextId()}`,
+    videoId: parent.videoId,
+    parentId: parent.id,
+    textOriginal: snippet.textOriginal,
+    authorDisplayName: state.youtube.channel.title,
+    authorChannelId: state.youtube.channel.id,
+    likeCount: 0,
+    publishedAt: state.now(),
+  };
+  state.youtube.comments.push(reply);
+
+  return { status: 200, body: toCommentResource(reply) };
+}
+
+/**
+ * Whether a comment is in a list for the requested moderation status (published by default)
+ */
+function isListed(request: MockRequest, comment: YouTubeComment): boolean {
+  return (comment.moderationStatus ?? 'published') === (request.params.moderationStatus || 'published');
+}
+
+/**
+ * Apply a moderation change to the comments in the comma-separated id parameter
+ */
+function updateComments(request: MockRequest, state: MockState, update: (comment: YouTubeComment) => void): MockResponse {
+  const ids = (request.params.id || '').split(',');
+  const comments = state.youtube.comments.filter(comment => ids.includes(comment.id));
+  if (comments.length !== ids.length) {
+    return youtubeError(404, 'commentNotFound', 'The comment identified by the id parameter could not be found.');
+  }
+
+  comments.forEach(update);
+  return { status: 204 };
+}
+
+function toVideoResource(state: MockState, video: YouTubeVideo) {
+  return {
+    id: video.id,
+    snippet: {
+      title: video.title,
+      description: video.description,
+      tags: video.tags,
+      publishedAt: video.publishedAt,
+      channelId: state.youtube.channel.id,
+    },
+    status: { uploadStatus: 'uploaded', privacyStatus: video.privacyStatus },
+    statistics: {
+      viewCount: '0',
+      likeCount: '0',
+      commentCount: String(state.youtube.comments.filter(comment => comment.videoId === video.id).length),
+    },
+  };
+}
+
+function toCommentResource(comment: YouTubeComment) {
+  return {
+    id: comment.id,
+    snippet: {
+      videoId: comment.videoId,
+      parentId: comment.parentId,
+      textDisplay: comment.textOriginal,
+      textOriginal: comment.textOriginal,
+      authorDisplayName: comment.authorDisplayName,
+      authorChannelId: { value: comment.authorChannelId },
+      likeCount: comment.likeCount,
+      publishedAt: comment.publishedAt,
+      updatedAt: comment.publishedAt,
+    },
+  };
+}
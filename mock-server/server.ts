@@ -0,0 +1,333 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MockState } from './state';
+import { handleInstagram } from './routes/instagram';
+import { handleFacebook } from './routes/facebook';
+import { handleYouTube } from './routes/youtube';
+import { handleTikTok } from './routes/tiktok';
+import { handleMedia } from './routes/media';
+
+export interface MockRequest {
+  method: string;
+  path: string; // Path below the platform prefix, e.g. '/me/media'
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  // Query string merged with form, multipart or top-level JSON fields, as the Graph API accepts either
+  params: Record<string, string>;
+  json?: any;
+  files: Record<string, { filename: string; size: number }>;
+  // The access_token parameter or bearer token
+  token?: string;
+  origin: string; // e.g. http://127.0.0.1:4010, for URLs handed back to the client
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown; // Sent as JSON, or as-is for a Buffer
+  headers?: Record<string, string>;
+}
+
+export type RouteHandler = (request: MockRequest, state: MockState) => MockResponse | undefined;
+
+/**
+ * A scripted failure: the next `times` matching requests get this response instead of being handled
+ */
+export interface MockFailure {
+  method?: string;
+  path: string | RegExp; // A string matches any request path containing it
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  times?: number; // Defaults to 1
+}
+
+export interface MockBaseUrls {
+  instagram: string;
+  facebook: string;
+  youtube: string;
+  tiktok: string;
+}
+
+// Each platform lives under its own prefix so one server can stand in for all of them
+const PLATFORM_ROUTES: Array<{ pattern: RegExp; handle: RouteHandler }> = [
+  { pattern: /^\/instagram(?:\/v\d+\.\d+)?(\/.*)$/, handle: handleInstagram },
+  { pattern: /^\/facebook(?:\/v\d+\.\d+)?(\/.*)$/, handle: handleFacebook },
+  { pattern: /^\/google(\/.*)$/, handle: handleYouTube },
+  { pattern: /^\/tiktok(?:\/v2)?(\/.*)$/, handle: handleTikTok },
+  { pattern: /^\/media(\/.*)$/, handle: handleMedia },
+];
+
+// The browser app calls the server directly, so every response allows cross-origin requests
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Content-Range, X-Upload-Content-Length, X-Upload-Content-Type',
+  'Access-Control-Expose-Headers': 'Location, Range, Retry-After',
+};
+
+/**
+ * Local stand-in for the Instagram, Facebook, YouTube and TikTok APIs.
+ * Point an account's baseUrl at one of `baseUrls` to use it.
+ */
+export class MockServer {
+  state = new MockState();
+  private failures: Array<MockFailure & { remaining: number }> = [];
+  private server: http.Server;
+  private origin = '';
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Mock server error:', error);
+        this.send(res, { status: 500, body: { error: { message: String(error) } } });
+      });
+    });
+  }
+
+  /**
+   * Start listening; port 0 picks a free port
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<this> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    this.origin = `http://${host}:${address.port}`;
+    return this;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  get url(): string {
+    return this.origin;
+  }
+
+  get baseUrls(): MockBaseUrls {
+    return {
+      instagram: `${this.origin}/instagram/v19.0`,
+      facebook: `${this.origin}/facebook/v19.0`,
+      youtube: `${this.origin}/google/youtube/v3`,
+      tiktok: `${this.origin}/tiktok/v2`,
+    };
+  }
+
+  /**
+   * Answer the next matching request(s) with an error instead of handling them
+   */
+  fail(failure: MockFailure) {
+    this.failures.push({ ...failure, remaining: failure.times ?? 1 });
+  }
+
+  /**
+   * Back to the seeded state with no scripted failures
+   */
+  reset() {
+    this.state = new MockState();
+    this.failures = [];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', this.origin);
+    const method = (req.method || 'GET').toUpperCase();
+
+    if (method === 'OPTIONS') {
+      return this.send(res, { status: 204 });
+    }
+
+    const body = await readBody(req);
+
+    if (url.pathname.startsWith('/__mock/')) {
+      return this.send(res, this.handleControl(method, url.pathname, body));
+    }
+
+    const failure = this.takeFailure(method, url.pathname);
+    if (failure) {
+      console.log(`Mock server: scripted ${failure.status} for ${method} ${url.pathname}`);
+      return this.send(res, failure);
+    }
+
+    for (const route of PLATFORM_ROUTES) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) {
+        continue;
+      }
+
+      const request = parseRequest(method, match[1], url.searchParams, req.headers, body, this.origin);
+      const response = route.handle(request, this.state);
+      if (response) {
+        return this.send(res, response);
+      }
+    }
+
+    this.send(res, { status: 404, body: { error: { message: `No mock for ${method} ${url.pathname}` } } });
+  }
+
+  private takeFailure(method: string, path: string): MockFailure | undefined {
+    const failure = this.failures.find(candidate =>
+      (!candidate.method || candidate.method.toUpperCase() === method) &&
+      (typeof candidate.path === 'string' ? path.includes(candidate.path) : candidate.path.test(path))
+    );
+    if (!failure) {
+      return undefined;
+    }
+
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      this.failures = this.failures.filter(candidate => candidate !== failure);
+    }
+
+    return failure;
+  }
+
+  /**
+   * Endpoints for scripting the server from outside the process (e.g. with curl)
+   */
+  private handleControl(method: string, path: string, body: Buffer): MockResponse {
+    const json = body.length ? JSON.parse(body.toString('utf8')) : {};
+
+    switch (`${method} ${path}`) {
+      case 'GET /__mock/state':
+        return { status: 200, body: snapshot(this.state) };
+      case 'POST /__mock/reset':
+        this.reset();
+        return { status: 200, body: { success: true } };
+      case 'POST /__mock/failures':
+        this.fail(json as MockFailure);
+        return { status: 200, body: { success: true } };
+      case 'POST /__mock/expire-token':
+        this.state.expireToken(json.token);
+        return { status: 200, body: { success: true } };
+      case 'POST /__mock/script':
+        this.state.instagram.nextContainerStatuses = json.instagramContainerStatuses || [];
+        this.state.tiktok.nextPublishFailure = json.tiktokPublishFailure;
+        return { status: 200, body: { success: true } };
+      default:
+        return { status: 404, body: { error: { message: `Unknown control endpoint ${method} ${path}` } } };
+    }
+  }
+
+  private send(res: http.ServerResponse, response: MockResponse) {
+    const headers: Record<string, string> = { ...CORS_HEADERS, ...response.headers };
+
+    if (response.body === undefined) {
+      res.writeHead(response.status, headers);
+      res.end();
+    } else if (Buffer.isBuffer(response.body)) {
+      res.writeHead(response.status, headers);
+      res.end(response.body);
+    } else {
+      res.writeHead(response.status, { 'Content-Type': 'application/json; charset=UTF-8', ...headers });
+      res.end(JSON.stringify(response.body));
+    }
+  }
+}
+
+/**
+ * Start a mock server, on a free port unless one is given
+ */
+export async function startMockServer(port = 0): Promise<MockServer> {
+  return await new MockServer().start(port);
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseRequest(
+  method: string,
+  path: string,
+  query: URLSearchParams,
+  headers: http.IncomingHttpHeaders,
+  body: Buffer,
+  origin: string
+): MockRequest {
+  const params: Record<string, string> = Object.fromEntries(query.entries());
+  const files: MockRequest['files'] = {};
+  const contentType = headers['content-type'] || '';
+  let json: any;
+
+  if (body.length > 0) {
+    if (contentType.includes('application/json')) {
+      json = JSON.parse(body.toString('utf8'));
+      for (const [key, value] of Object.entries(json || {})) {
+        if (typeof value !== 'object') {
+          params[key] = String(value);
+        }
+      }
+    } else if (contentType.includes('application/x-www-form-urlencoded')) {
+      Object.assign(params, Object.fromEntries(new URLSearchParams(body.toString('utf8')).entries()));
+    } else if (contentType.includes('multipart/form-data')) {
+      parseMultipart(body, contentType, params, files);
+    }
+  }
+
+  const bearer = headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  return { method, path, query, headers, body, params, json, files, token: params.access_token || bearer, origin };
+}
+
+/**
+ * Just enough multipart parsing for form fields and the size of uploaded files
+ */
+function parseMultipart(body: Buffer, contentType: string, params: Record<string, string>, files: MockRequest['files']) {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundary) {
+    return;
+  }
+
+  // latin1 keeps one character per byte, so file sizes stay accurate
+  const parts = body.toString('latin1').split(`--${boundary[1] || boundary[2]}`);
+  for (const part of parts) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      continue;
+    }
+
+    const partHeaders = part.slice(0, headerEnd);
+    const content = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+    const name = partHeaders.match(/name="([^"]*)"/)?.[1];
+    if (!name) {
+      continue;
+    }
+
+    const filename = partHeaders.match(/filename="([^"]*)"/)?.[1];
+    if (filename !== undefined) {
+      files[name] = { filename, size: content.length };
+    } else {
+      params[name] = Buffer.from(content, 'latin1').toString('utf8');
+    }
+  }
+}
+
+/**
+ * The state as plain JSON for /__mock/state
+ */
+function snapshot(state: MockState) {
+  return {
+    instagram: {
+      media: state.instagram.media,
+      comments: state.instagram.comments,
+      containers: [...state.instagram.containers.values()],
+    },
+    facebook: state.facebook,
+    youtube: {
+      videos: state.youtube.videos,
+      comments: state.youtube.comments,
+      uploads: [...state.youtube.uploads.values()],
+    },
+    tiktok: {
+      videos: state.tiktok.videos,
+      publishes: [...state.tiktok.publishes.values()],
+    },
+    expiredTokens: [...state.expiredTokens],
+  };
+}
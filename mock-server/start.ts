@@ -0,0 +1,33 @@
+import { startMockServer } from './server';
+import { MOCK_PAGE_ID, MOCK_TOKENS } from './state';
+
+// Run the mock server on its own for offline development: npm run mock-server
+// Set MOCK_SERVER_PORT to use another port.
+
+const port = Number(process.env.MOCK_SERVER_PORT || 4010);
+const server = await startMockServer(port);
+const { baseUrls } = server;
+
+console.log(`Mock platform server listening on ${server.url}
+
+Use these API base URLs for accounts (Settings has a field for all but YouTube):
+  Instagram  ${baseUrls.instagram}
+  Facebook   ${baseUrls.facebook}  (page ${MOCK_PAGE_ID}, page token ${MOCK_TOKENS.facebookPage})
+  YouTube    ${baseUrls.youtube}
+  TikTok     ${baseUrls.tiktok}
+
+Any non-empty access token is accepted.
+
+Scripting:
+  GET  ${server.url}/__mock/state
+  POST ${server.url}/__mock/reset
+  POST ${server.url}/__mock/failures      {"path": "/me/media_publish", "status": 500, "times": 2}
+  POST ${server.url}/__mock/expire-token  {"token": "${MOCK_TOKENS.instagram}"}
+  POST ${server.url}/__mock/script        {"instagramContainerStatuses": ["ERROR"], "tiktokPublishFailure": "file_format_check_failed"}
+`);
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
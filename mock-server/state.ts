@@ -0,0 +1,276 @@
+// In-memory state of the mock platforms. Every request reads and changes this,
+// so a post published through one endpoint shows up when listing media.
+
+export type InstagramContainerStatus = 'EXPIRED' | 'ERROR' | 'FINISHED' | 'IN_PROGRESS' | 'PUBLISHED';
+
+export interface InstagramContainer {
+  id: string;
+  params: Record<string, string>;
+  // Statuses still to report, one per status check; the last one sticks
+  statuses: InstagramContainerStatus[];
+  mediaId?: string;
+}
+
+export interface InstagramMedia {
+  id: string;
+  media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
+  media_product_type: 'FEED' | 'REELS' | 'STORY';
+  media_url?: string;
+  permalink: string;
+  timestamp: string;
+  caption?: string;
+  children?: string[];
+}
+
+export interface InstagramComment {
+  id: string;
+  mediaId: string;
+  parentId?: string;
+  text: string;
+  timestamp: string;
+  username: string;
+  like_count: number;
+  hidden?: boolean;
+}
+
+export interface FacebookPageRecord {
+  id: string;
+  name: string;
+  access_token: string;
+  category: string;
+}
+
+export interface FacebookPost {
+  id: string;
+  ownerId: string;
+  message?: string;
+  link?: string;
+  created_time: string;
+  permalink_url: string;
+  full_picture?: string;
+  type: 'status' | 'photo' | 'video';
+}
+
+export interface FacebookComment {
+  id: string;
+  objectId: string; // The post or comment it was left on
+  message: string;
+  created_time: string;
+  from: { id: string; name: string };
+  like_count: number;
+  is_hidden?: boolean;
+}
+
+export interface YouTubeVideo {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  privacyStatus: string;
+  publishedAt: string;
+  bytes: number;
+}
+
+export type YouTubeModerationStatus = 'published' | 'heldForReview' | 'likelySpam' | 'rejected';
+
+export interface YouTubeComment {
+  id: string;
+  videoId: string;
+  parentId?: string;
+  textOriginal: string;
+  authorDisplayName: string;
+  authorChannelId: string;
+  likeCount: number;
+  publishedAt: string;
+  moderationStatus?: YouTubeModerationStatus; // published when unset
+  markedAsSpam?: boolean;
+}
+
+export interface YouTubeUploadSession {
+  id: string;
+  metadata: { snippet?: { title?: string; description?: string; tags?: string[] }; status?: { privacyStatus?: string } };
+  totalBytes: number;
+  receivedBytes: number;
+  videoId?: string;
+}
+
+export interface TikTokPublish {
+  id: string;
+  source: 'FILE_UPLOAD' | 'PULL_FROM_URL';
+  postInfo: Record<string, any>;
+  videoSize: number;
+  receivedBytes: number;
+  failReason?: string;
+  videoId?: string;
+}
+
+export interface TikTokVideo {
+  id: string;
+  title: string;
+  create_time: number;
+  share_url: string;
+  comment_count: number;
+  like_count: number;
+  view_count: number;
+  share_count: number;
+}
+
+// Tokens the seeded accounts use; any other non-empty token is accepted as well
+export const MOCK_TOKENS = {
+  instagram: 'mock-instagram-token',
+  facebookUser: 'mock-facebook-user-token',
+  facebookPage: 'mock-facebook-page-token',
+  youtubeRefresh: 'mock-youtube-refresh-token',
+  tiktok: 'mock-tiktok-token',
+};
+
+export const MOCK_PAGE_ID = '100000000000001';
+
+export class MockState {
+  private counter = 0;
+
+  // Tokens that were expired with expireToken(); requests using them fail with an auth error
+  expiredTokens = new Set<string>();
+
+  instagram = {
+    user: { id: '17841400000000001', username: 'mock_creator' },
+    containers: new Map<string, InstagramContainer>(),
+    media: [] as InstagramMedia[],
+    comments: [] as InstagramComment[],
+    // Statuses the next container reports, e.g. ['IN_PROGRESS', 'ERROR'] to fail processing
+    nextContainerStatuses: [] as InstagramContainerStatus[],
+  };
+
+  facebook = {
+    user: { id: '100000000000099', name: 'Mock User' },
+    pages: [] as FacebookPageRecord[],
+    posts: [] as FacebookPost[],
+    comments: [] as FacebookComment[],
+  };
+
+  youtube = {
+    channel: { id: 'UCmockchannel000000000000', title: 'Mock Channel' },
+    accessTokens: new Set<string>(),
+    videos: [] as YouTubeVideo[],
+    comments: [] as YouTubeComment[],
+    uploads: new Map<string, YouTubeUploadSession>(),
+  };
+
+  tiktok = {
+    creator: {
+      creator_avatar_url: '',
+      creator_username: 'mock_creator',
+      creator_nickname: 'Mock Creator',
+      privacy_level_options: ['PUBLIC_TO_EVERYONE', 'MUTUAL_FOLLOW_FRIENDS', 'SELF_ONLY'],
+      comment_disabled: false,
+      duet_disabled: false,
+      stitch_disabled: true,
+      max_video_post_duration_sec: 600,
+    },
+    publishes: new Map<string, TikTokPublish>(),
+    videos: [] as TikTokVideo[],
+    // Fail reason for the next publish, e.g. 'file_format_check_failed'
+    nextPublishFailure: undefined as string | undefined,
+  };
+
+  constructor() {
+    this.seed();
+  }
+
+  /**
+   * A numeric ID like the ones the platforms hand out
+   */
+  nextId(prefix = ''): string {
+    this.counter++;
+    // Built as a string: IDs this long are past what a JavaScript number holds exactly
+    return `${prefix}179${String(this.counter).padStart(14, '0')}`;
+  }
+
+  now(): string {
+    return new Date().toISOString();
+  }
+
+  /**
+   * Make every later request with this token fail as if it had expired
+   */
+  expireToken(token: string) {
+    this.expiredTokens.add(token);
+  }
+
+  /**
+   * One post with comments on each platform, so listing endpoints have something to return
+   */
+  private seed() {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    const igMediaId = this.nextId();
+    this.instagram.media.push({
+      id: igMediaId,
+      media_type: 'IMAGE',
+      media_product_type: 'FEED',
+      media_url: 'https://example.com/seed.jpg',
+      permalink: `https://www.instagram.com/p/${igMediaId}/`,
+      timestamp: yesterday,
+      caption: 'Seeded Instagram post',
+    });
+    this.instagram.comments.push(
+      { id: this.nextId(), mediaId: igMediaId, text: 'Love this!', timestamp: yesterday, username: 'fan_one', like_count: 2 },
+      { id: this.nextId(), mediaId: igMediaId, text: 'Where was this taken?', timestamp: yesterday, username: 'fan_two', like_count: 0 },
+    );
+
+    this.facebook.pages.push({
+      id: MOCK_PAGE_ID,
+      name: 'Mock Page',
+      access_token: MOCK_TOKENS.facebookPage,
+      category: 'Brand',
+    });
+    const fbPostId = `${MOCK_PAGE_ID}_${this.nextId()}`;
+    this.facebook.posts.push({
+      id: fbPostId,
+      ownerId: MOCK_PAGE_ID,
+      message: 'Seeded Facebook post',
+      created_time: yesterday,
+      permalink_url: `https://www.facebook.com/${fbPostId}`,
+      type: 'status',
+    });
+    this.facebook.comments.push({
+      id: `${fbPostId}_${this.nextId()}`,
+      objectId: fbPostId,
+      message: 'Nice post',
+      created_time: yesterday,
+      from: { id: '100000000000500', name: 'Page Fan' },
+      like_count: 1,
+    });
+
+    const videoId = 'mockvideo01';
+    this.youtube.videos.push({
+      id: videoId,
+      title: 'Seeded YouTube video',
+      description: 'Uploaded before the server started',
+      tags: [],
+      privacyStatus: 'public',
+      publishedAt: yesterday,
+      bytes: 1024,
+    });
+    this.youtube.comments.push({
+      id: `Ug${this.nextId()}`,
+      videoId,
+      textOriginal: 'First!',
+      authorDisplayName: 'Viewer',
+      authorChannelId: 'UCviewer00000000000000000',
+      likeCount: 3,
+      publishedAt: yesterday,
+    });
+
+    this.tiktok.videos.push({
+      id: this.nextId('7'),
+      title: 'Seeded TikTok video',
+      create_time: Math.floor(Date.now() / 1000) - 24 * 60 * 60,
+      share_url: 'https://www.tiktok.com/@mock_creator/video/seed',
+      comment_count: 4,
+      like_count: 20,
+      view_count: 300,
+      share_count: 1,
+    });
+  }
+}
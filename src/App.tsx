@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { BrowserRouter as Router, Route, Routes } from 'react-router-dom';
 import Layout from './components/layout/Layout';
 import Dashboard from './pages/Dashboard';
@@ -5,8 +6,39 @@ import CreatePost from './pages/CreatePost';
 import Settings from './pages/Settings';
 import SchedulerPage from './pages/Scheduler';
 import CommentsPage from './pages/Comments';
+import YouTubeCallback from './pages/YouTubeCallback';
+import { postScheduler } from './lib/scheduler';
+import { tokenManager } from './lib/tokenManager';
+import { commentSyncService } from './lib/commentSync';
 
 function App() {
+  // Publish scheduled posts in the background while the app is open
+  useEffect(() => {
+    postScheduler.start();
+
+    return () => {
+      postScheduler.stop();
+    };
+  }, []);
+
+  // Keep Facebook and Instagram tokens from expiring silently
+  useEffect(() => {
+    tokenManager.start();
+
+    return () => {
+      tokenManager.stop();
+    };
+  }, []);
+
+  // Sync comments in the background, whichever page is open
+  useEffect(() => {
+    commentSyncService.start();
+
+    return () => {
+      commentSyncService.stop();
+    };
+  }, []);
+
   return (
     <Router>
       <Routes>
@@ -16,6 +48,7 @@ function App() {
           <Route path="/scheduler" element={<SchedulerPage />} />
           <Route path="/comments" element={<CommentsPage />} />
           <Route path="/settings" element={<Settings />} />
+          <Route path="/auth/youtube/callback" element={<YouTubeCallback />} />
           <Route path="*" element={
             <div className="text-center py-16">
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">404 - Page Not Found</h2>
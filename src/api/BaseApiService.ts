@@ -1,17 +1,66 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
 import { sanitizeForLogging } from '../lib/encryption';
+import { Platform } from '../types';
+import {
+  ApiError,
+  AuthExpiredError,
+  getResponseMessage,
+  isApiError,
+  NetworkError,
+  PermissionMissingError,
+  RateLimitedError,
+} from './errors';
+import {
+  CircuitBreaker,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfter,
+  RetryPolicy,
+} from './retryPolicy';
+
+// Methods that can be repeated without creating duplicate posts or comments
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export default abstract class BaseApiService {
   protected client: AxiosInstance;
   protected baseUrl: string;
+  protected abstract readonly platform: Platform;
+  protected retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker;
+  // Set when the platform tells us to slow down; new requests wait until then
+  private pausedUntil = 0;
 
-  constructor(baseUrl: string, config: AxiosRequestConfig = {}) {
+  constructor(baseUrl: string, config: AxiosRequestConfig = {}, retryPolicy: Partial<RetryPolicy> = {}) {
     this.baseUrl = baseUrl;
     this.client = axios.create({
       baseURL: baseUrl,
       ...config,
     });
 
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.circuitBreaker = new CircuitBreaker(baseUrl, this.retryPolicy.circuitBreaker);
+
+    // Hold requests while the circuit is open or the platform asked us to wait
+    this.client.interceptors.request.use(async (config) => {
+      if (!this.circuitBreaker.canRequest()) {
+        const retryAfter = this.circuitBreaker.getRemainingOpenTime();
+        throw new RateLimitedError(
+          `Too many failed requests to ${this.baseUrl}. Requests are paused for ${Math.ceil(retryAfter / 1000)}s.`,
+          { platform: this.platform, retryAfter }
+        );
+      }
+
+      const wait = this.pausedUntil - Date.now();
+      if (wait > 0) {
+        console.log(`Rate limited by ${this.baseUrl}, waiting ${Math.ceil(wait / 1000)}s before sending request`);
+        await sleep(wait);
+      }
+
+      return config;
+    });
+
     // Add request logging
     this.client.interceptors.request.use(
       (config) => {
@@ -38,6 +87,93 @@ export default abstract class BaseApiService {
         return Promise.reject(error);
       }
     );
+
+    // Retry failed requests and track platform health
+    this.client.interceptors.response.use(
+      (response) => {
+        this.circuitBreaker.recordSuccess();
+
+        // Some platforms report usage on successful responses, so slow down before hitting the limit
+        const delay = this.retryPolicy.getRateLimitDelay?.(response);
+        if (delay && delay > 0) {
+          this.pauseFor(delay);
+        }
+
+        return response;
+      },
+      (error) => this.retryRequest(error)
+    );
+  }
+
+  /**
+   * Decide whether a failed request should be retried and after how long,
+   * then either resend it or pass the error on
+   */
+  private async retryRequest(error: AxiosError): Promise<any> {
+    const config = error.config;
+
+    // Cancelled requests and errors thrown before sending are never retried
+    if (!config || error.code === AxiosError.ERR_CANCELED) {
+      return Promise.reject(error);
+    }
+
+    const status = error.response?.status;
+    const isServerFailure = !error.response || status === 429 || (status !== undefined && status >= 500);
+    if (isServerFailure) {
+      this.circuitBreaker.recordFailure();
+    } else {
+      // The platform is up and answered; the request itself was wrong
+      this.circuitBreaker.recordSuccess();
+    }
+
+    const retryCount = config.retryCount || 0;
+    if (config.disableRetry || retryCount >= this.retryPolicy.maxRetries || this.retryPolicy.isFatal?.(error)) {
+      return Promise.reject(error);
+    }
+
+    const isRateLimited = this.retryPolicy.isRateLimited
+      ? this.retryPolicy.isRateLimited(error)
+      : status === 429;
+
+    // A rate-limited request was rejected before doing anything, so it is safe to resend
+    // whatever the method. Other failures are only retried for idempotent methods.
+    const isIdempotent = IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+    const isTransient = !error.response || (status !== undefined && this.retryPolicy.retryableStatuses.includes(status));
+    if (!isRateLimited && !(isIdempotent && isTransient)) {
+      return Promise.reject(error);
+    }
+
+    // Prefer the platform's own guidance over our backoff
+    let delay = computeBackoffDelay(retryCount, this.retryPolicy);
+    if (error.response) {
+      const requestedDelay =
+        parseRetryAfter(error.response.headers?.['retry-after']) ??
+        this.retryPolicy.getRateLimitDelay?.(error.response);
+      if (requestedDelay !== undefined) {
+        delay = Math.max(delay, requestedDelay);
+      }
+    }
+
+    if (delay > this.retryPolicy.maxRateLimitDelay) {
+      console.warn(`${this.baseUrl} asked us to wait ${Math.ceil(delay / 1000)}s, giving up instead`);
+      return Promise.reject(error);
+    }
+
+    if (isRateLimited) {
+      this.pauseFor(delay);
+    }
+
+    console.log(`Retrying ${config.method?.toUpperCase()} ${config.url} in ${delay}ms (attempt ${retryCount + 2} of ${this.retryPolicy.maxRetries + 1})`);
+    await sleep(delay);
+
+    return this.client.request({ ...config, retryCount: retryCount + 1 });
+  }
+
+  /**
+   * Hold all requests to this platform for the given time
+   */
+  private pauseFor(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
   }
 
   // Helper methods for standard API operations
@@ -61,44 +197,72 @@ export default abstract class BaseApiService {
     return response.data;
   }
 
+  /**
+   * Map platform-specific error codes to typed errors.
+   * Services override this; returning undefined falls back to the HTTP status.
+   */
+  protected mapPlatformError(_error: any): ApiError | undefined {
+    return undefined;
+  }
+
   // Error handling helper
   protected handleApiError(error: any): never {
+    // Already mapped further down the call stack
+    if (isApiError(error)) {
+      throw error;
+    }
+
+    const platformError = this.mapPlatformError(error);
+    if (platformError) {
+      throw platformError;
+    }
+
     if (error.response) {
       // Server responded with a status code outside of 2xx range
       const status = error.response.status;
+      const data = error.response.data;
+      const details = {
+        platform: this.platform,
+        status,
+        code: data?.error?.code,
+        subcode: data?.error?.error_subcode,
+        cause: error,
+      };
 
       // Try to extract the most useful error message
-      let message = '';
-      if (error.response.data?.error?.message) {
-        message = error.response.data.error.message;
-      } else if (error.response.data?.message) {
-        message = error.response.data.message;
-      } else if (error.response.data?.error_message) {
-        message = error.response.data.error_message;
-      } else if (typeof error.response.data === 'string') {
-        message = error.response.data;
-      } else {
-        message = error.response.statusText || 'Unknown error';
-      }
+      const message = getResponseMessage(data, error.response.statusText || 'Unknown error');
 
       // Handle specific status codes
-      if (status === 401 || status === 403) {
-        throw new Error(`Authentication error (${status}): ${message}. Your access token may be invalid or expired.`);
+      if (status === 401) {
+        throw new AuthExpiredError(`Authentication error (${status}): ${message}. Your access token may be invalid or expired.`, details);
+      } else if (status === 403) {
+        throw new PermissionMissingError(`Permission denied (${status}): ${message}. Your account may not have access to this resource.`, details);
+      } else if (status === 429) {
+        throw new RateLimitedError(`Rate limited (${status}): ${message}. Please try again later.`, {
+          ...details,
+          retryAfter: parseRetryAfter(error.response.headers?.['retry-after']),
+        });
       } else if (status === 404) {
-        throw new Error(`Resource not found (${status}): ${message}`);
+        throw new ApiError(`Resource not found (${status}): ${message}`, details);
       } else if (status === 400) {
-        throw new Error(`Bad request (${status}): ${message}`);
+        throw new ApiError(`Bad request (${status}): ${message}`, details);
       } else if (status >= 500) {
-        throw new Error(`Server error (${status}): ${message}. Please try again later.`);
+        throw new ApiError(`Server error (${status}): ${message}. Please try again later.`, { ...details, retryable: true });
       } else {
-        throw new Error(`API Error (${status}): ${message}`);
+        throw new ApiError(`API Error (${status}): ${message}`, details);
       }
     } else if (error.request) {
       // Request was made but no response was received
-      throw new Error('Network error: No response received from server. Please check your internet connection.');
+      throw new NetworkError('Network error: No response received from server. Please check your internet connection.', {
+        platform: this.platform,
+        cause: error,
+      });
     } else {
       // Something else happened while setting up the request
-      throw new Error(`API Error: ${error.message || 'Unknown error occurred'}`);
+      throw new ApiError(`API Error: ${error.message || 'Unknown error occurred'}`, {
+        platform: this.platform,
+        cause: error,
+      });
     }
   }
-}
\ No newline at end of file
+}
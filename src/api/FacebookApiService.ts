@@ -1,11 +1,26 @@
-import { Platform } from '../types';
+import { FacebookPage, Platform, PlatformAccount, PlatformStats, Post } from '../types';
 import BaseApiService from './BaseApiService';
-import useSettingsStore from '../store/useSettingsStore';
+import { graphApiRetryPolicy } from './retryPolicy';
+import { ApiError, mapGraphApiError, MediaRejectedError, PermissionMissingError, UnsupportedOperationError } from './errors';
+import { assertValidMedia, collectComments, FetchCommentsOptions, PlatformAdapter, PlatformCapabilities, PlatformComment, PlatformPost } from './PlatformAdapter';
 import { decryptData } from '../lib/encryption';
 
 interface FacebookPageResponse {
   id: string;
   name: string;
+  access_token: string;
+  category?: string;
+}
+
+interface FacebookPagesResponse {
+  data: FacebookPageResponse[];
+  paging?: {
+    cursors?: {
+      before?: string;
+      after?: string;
+    };
+    next?: string;
+  };
 }
 
 interface FacebookPostResponse {
@@ -13,6 +28,7 @@ interface FacebookPostResponse {
   message?: string;
   created_time: string;
   permalink_url?: string;
+  full_picture?: string;
 }
 
 interface FacebookCommentsResponse {
@@ -35,23 +51,41 @@ interface FacebookComment {
     name: string;
   };
   like_count: number;
+  comment_count?: number; // Replies, which are comments on the comment
 }
 
-export default class FacebookApiService extends BaseApiService {
-  private accessToken: string;
+// The Graph API host for Facebook; accounts may point at another server
+export const FACEBOOK_API_BASE_URL = 'https://graph.facebook.com/v19.0';
+
+export const FACEBOOK_CAPABILITIES: PlatformCapabilities = {
+  fetchComments: true,
+  comment: true,
+  reply: true,
+  deleteComment: true,
+  hideComment: true,
+  markSpam: false,
+};
+
+// Facebook codes for rejected photos and videos
+const FACEBOOK_MEDIA_CODES = [324, 352, 1363030, 1363041, 1366046];
+
+export default class FacebookApiService extends BaseApiService implements PlatformAdapter {
+  protected readonly platform: Platform = 'facebook';
+  readonly capabilities = FACEBOOK_CAPABILITIES;
+  private accessToken: string; // User token, used to manage the account and list its pages
   private pageId: string | null = null;
   private pageName: string | null = null;
+  private pageAccessToken: string | null = null; // Used for everything done as the page
 
   // Cache for media to prevent duplicate API calls
   private mediaCache: FacebookPostResponse[] | null = null;
   private lastMediaFetch: number = 0;
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
-    super('https://graph.facebook.com/v19.0'); // Using v19.0 for all Facebook API calls
+  constructor(account: PlatformAccount<'facebook'>) {
+    super(account.credentials.baseUrl || FACEBOOK_API_BASE_URL, {}, graphApiRetryPolicy);
 
-    const settings = useSettingsStore.getState();
-    const encryptedToken = settings.apiCredentials.facebook?.accessToken;
+    const encryptedToken = account.credentials.accessToken;
 
     if (!encryptedToken) {
       throw new Error('Facebook API credentials not found');
@@ -65,11 +99,19 @@ export default class FacebookApiService extends BaseApiService {
       throw new Error("Failed to decrypt Facebook access token");
     }
 
-    // Add access token to every request
+    // The page chosen in Settings
+    const { pageId, pageName, pageAccessToken } = account.credentials;
+    if (pageId && pageAccessToken) {
+      this.pageId = pageId;
+      this.pageName = pageName || null;
+      this.pageAccessToken = decryptData(pageAccessToken);
+    }
+
+    // Add access token to every request, acting as the page unless the request brings its own token
     this.client.interceptors.request.use(config => {
       config.params = {
-        ...config.params,
-        access_token: this.accessToken
+        access_token: this.pageAccessToken || this.accessToken,
+        ...config.params
       };
       console.log("Added access token to Facebook API request");
       return config;
@@ -77,160 +119,205 @@ export default class FacebookApiService extends BaseApiService {
   }
 
   /**
-   * Get basic user profile information (ID and name)
+   * Map Facebook Graph API error codes to typed errors
    */
-  async getBasicProfileInfo(): Promise<{ id: string; name: string }> {
-    try {
-      console.log("Fetching Facebook basic profile info");
+  protected mapPlatformError(error: any): ApiError | undefined {
+    const graphError = error?.response?.data?.error;
+    const details = {
+      platform: this.platform,
+      status: error?.response?.status,
+      code: graphError?.code,
+      subcode: graphError?.error_subcode,
+      cause: error,
+    };
 
-      // First, try to get user info directly
-      try {
-        const userResponse = await this.get<{ id: string; name: string }>('/me', {
-          params: {
-            fields: 'id,name'
-          }
-        });
+    if (FACEBOOK_MEDIA_CODES.includes(graphError?.code) || FACEBOOK_MEDIA_CODES.includes(graphError?.error_subcode)) {
+      return new MediaRejectedError(`Facebook rejected the media: ${graphError.message}`, details);
+    }
 
-        console.log("Facebook user info:", userResponse);
+    // 100/33: the object does not exist or the token cannot see it
+    if (graphError?.code === 100 && graphError?.error_subcode === 33) {
+      return new PermissionMissingError(`Facebook object not accessible: ${graphError.message}. Make sure the page is connected and the token has page permissions.`, details);
+    }
 
-        // If we got user info, use it as a fallback
-        const userId = userResponse.id;
-        const userName = userResponse.name;
+    // 368: the account is temporarily blocked from posting
+    if (graphError?.code === 368) {
+      return new PermissionMissingError(`Facebook blocked this action: ${graphError.message}`, details);
+    }
 
-        // Assume any token that returns user info is valid
-        // This could be a user token or a page token
-        console.log("Got Facebook user/page info:", userName);
-        this.pageId = userId;
-        this.pageName = userName;
+    const mapped = mapGraphApiError(this.platform, error);
+    if (mapped) {
+      return mapped;
+    }
 
-        // We'll still try to get pages, but we have this as a fallback
+    // 100: invalid parameter
+    if (graphError?.code === 100) {
+      return new ApiError(`Invalid Facebook request: ${graphError.message}`, details);
+    }
 
-        // Try to get the user's pages
-        try {
-          const pagesResponse = await this.get<{ data: FacebookPageResponse[] }>('/me/accounts');
-          console.log("Facebook pages response:", pagesResponse);
-
-          if (pagesResponse.data && pagesResponse.data.length > 0) {
-            // Use the first page
-            const page = pagesResponse.data[0];
-            this.pageId = page.id;
-            this.pageName = page.name;
-
-            console.log(`Found Facebook page: ${page.name} (${page.id})`);
-            return { id: page.id, name: page.name };
-          } else {
-            console.warn("No Facebook pages found for this user, using user info instead");
-            this.pageId = userId;
-            this.pageName = userName;
-            return { id: userId, name: userName };
-          }
-        } catch (pagesError) {
-          console.error("Error fetching Facebook pages:", pagesError);
-          console.log("Using user info as fallback");
-          this.pageId = userId;
-          this.pageName = userName;
-          return { id: userId, name: userName };
+    return undefined;
+  }
+
+  /**
+   * Look up the current token's validity and expiry with debug_token
+   * A token may inspect itself, so no app token is needed
+   */
+  async debugToken(): Promise<{ isValid: boolean; expiresAt?: number; dataAccessExpiresAt?: number; scopes: string[] }> {
+    try {
+      const response = await this.get<{
+        data: {
+          is_valid: boolean;
+          expires_at?: number; // Unix seconds, 0 for tokens that never expire
+          data_access_expires_at?: number;
+          scopes?: string[];
+        };
+      }>('/debug_token', {
+        params: {
+          input_token: this.accessToken,
+          access_token: this.accessToken
         }
-      } catch (userError) {
-        console.error("Error fetching Facebook user info:", userError);
+      });
 
-        // If we can't get user info directly, we can't proceed
-        console.error("Unable to get Facebook user/page info with this token");
-        throw userError;
-      }
+      const { data } = response;
+      return {
+        isValid: data.is_valid,
+        expiresAt: data.expires_at !== undefined ? data.expires_at * 1000 : undefined,
+        dataAccessExpiresAt: data.data_access_expires_at ? data.data_access_expires_at * 1000 : undefined,
+        scopes: data.scopes || []
+      };
     } catch (error: any) {
-      console.error('Error fetching Facebook profile info:', error);
-      console.error('Error details:', error.response?.data || error.message);
+      console.error('Error inspecting Facebook token:', error.response?.data || error.message);
+      throw this.handleApiError(error);
+    }
+  }
 
-      // Return a default value on error
-      return { id: 'unknown', name: 'Facebook User' };
+  /**
+   * Exchange the current (short-lived) user token for a long-lived one (about 60 days)
+   */
+  async exchangeForLongLivedToken(appId: string, appSecret: string): Promise<{ accessToken: string; expiresIn?: number }> {
+    try {
+      const response = await this.get<{ access_token: string; token_type: string; expires_in?: number }>('/oauth/access_token', {
+        params: {
+          grant_type: 'fb_exchange_token',
+          client_id: appId,
+          client_secret: appSecret,
+          fb_exchange_token: this.accessToken,
+          access_token: this.accessToken
+        }
+      });
+
+      this.accessToken = response.access_token;
+      return { accessToken: response.access_token, expiresIn: response.expires_in };
+    } catch (error: any) {
+      console.error('Error exchanging Facebook token:', error.response?.data || error.message);
+      throw this.handleApiError(error);
     }
   }
 
   /**
-   * Create a post on Facebook with a direct file upload
-   * This method is optimized for image uploads using FormData
+   * List every page the user manages, with each page's access token
    */
-  async createPostWithFile(message: string, file: File): Promise<string> {
+  async listPages(): Promise<FacebookPage[]> {
     try {
-      // Ensure we have a user or page ID
-      if (!this.pageId) {
-        const profileInfo = await this.getBasicProfileInfo();
-        this.pageId = profileInfo.id;
-      }
+      const pages: FacebookPage[] = [];
+      let after: string | undefined;
 
-      if (!this.pageId) {
-        throw new Error('No Facebook user or page ID available');
-      }
+      do {
+        const response = await this.get<FacebookPagesResponse>('/me/accounts', {
+          params: {
+            fields: 'id,name,access_token,category',
+            limit: 100,
+            after,
+            access_token: this.accessToken
+          }
+        });
 
-      console.log(`Creating Facebook post with direct file upload for page: ${this.pageName} (ID: ${this.pageId})`);
-      console.log(`File: ${file.name}, Size: ${file.size}, Type: ${file.type}`);
+        pages.push(...(response.data || []).map(page => ({
+          id: page.id,
+          name: page.name,
+          accessToken: page.access_token,
+          category: page.category
+        })));
 
-      // Create a FormData object for the multipart/form-data request
-      const formData = new FormData();
-      formData.append('access_token', this.accessToken);
-      formData.append('message', message);
-      formData.append('source', file, file.name);
+        // Only follow the cursor while Facebook says there is a next page
+        after = response.paging?.next ? response.paging.cursors?.after : undefined;
+      } while (after);
 
-      console.log("Uploading image directly to Facebook using FormData");
+      console.log(`Found ${pages.length} Facebook pages`);
+      return pages;
+    } catch (error: any) {
+      console.error('Error listing Facebook pages:', error.response?.data || error.message);
+      throw this.handleApiError(error);
+    }
+  }
 
-      try {
-        // Make a direct request to the Facebook API
-        const uploadResponse = await fetch(`https://graph.facebook.com/v19.0/${this.pageId}/photos`, {
-          method: 'POST',
-          body: formData
-        });
+  /**
+   * Get the profile posts are published to: the selected page, or the
+   * token's own user when no page has been chosen yet
+   */
+  async getBasicProfileInfo(): Promise<{ id: string; name: string }> {
+    if (this.pageId && this.pageName) {
+      return { id: this.pageId, name: this.pageName };
+    }
 
-        if (!uploadResponse.ok) {
-          const errorData = await uploadResponse.json();
-          throw new Error(`Facebook upload failed: ${JSON.stringify(errorData)}`);
+    try {
+      console.log("Fetching Facebook basic profile info");
+
+      const userResponse = await this.get<{ id: string; name: string }>('/me', {
+        params: {
+          fields: 'id,name',
+          access_token: this.accessToken
         }
+      });
 
-        const responseData = await uploadResponse.json();
-        console.log("Facebook direct upload succeeded:", responseData);
+      console.log("Facebook user info:", userResponse);
+      return { id: userResponse.id, name: userResponse.name };
+    } catch (error: any) {
+      console.error('Error fetching Facebook profile info:', error);
+      console.error('Error details:', error.response?.data || error.message);
 
-        // Return the post ID
-        return responseData.id || responseData.post_id || 'FB_POST_' + Date.now();
-      } catch (directUploadError) {
-        console.error("Direct file upload to Facebook failed:", directUploadError);
+      // Return a default value on error
+      return { id: 'unknown', name: 'Facebook User' };
+    }
+  }
 
-        // Try fallback to user feed
-        console.log("Trying to post to user feed as fallback");
-        try {
-          const userFormData = new FormData();
-          userFormData.append('access_token', this.accessToken);
-          userFormData.append('message', message);
-          userFormData.append('source', file, file.name);
-
-          const userUploadResponse = await fetch(`https://graph.facebook.com/v19.0/me/photos`, {
-            method: 'POST',
-            body: userFormData
-          });
+  /**
+   * The page to act as. Pages are chosen in Settings rather than guessed,
+   * so publishing or reading page data without one is an error.
+   */
+  private requirePage(): { id: string; accessToken: string } {
+    if (!this.pageId || !this.pageAccessToken) {
+      throw new PermissionMissingError('No Facebook page selected for this account. Choose a page in Settings.', {
+        platform: this.platform
+      });
+    }
 
-          if (!userUploadResponse.ok) {
-            const errorData = await userUploadResponse.json();
-            throw new Error(`Facebook user upload failed: ${JSON.stringify(errorData)}`);
-          }
+    return { id: this.pageId, accessToken: this.pageAccessToken };
+  }
 
-          const userResponseData = await userUploadResponse.json();
-          console.log("Facebook user direct upload succeeded:", userResponseData);
+  /**
+   * The ID of a created post; a success response without one is an error, not a post
+   */
+  private requirePostId(id: string | undefined): string {
+    if (!id) {
+      throw new ApiError('Facebook did not return a post ID', { platform: this.platform });
+    }
 
-          // Return the post ID
-          return userResponseData.id || userResponseData.post_id || 'FB_USER_POST_' + Date.now();
-        } catch (userUploadError) {
-          console.error("User feed direct upload failed:", userUploadError);
+    return id;
+  }
 
-          // Last resort: post text-only
-          console.log("Posting text-only message as final fallback");
-          const response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-            params: {
-              message: message + "\n\n[Image could not be uploaded directly. Please try again later.]"
-            }
-          });
+  /**
+   * Create a post on Facebook with a direct file upload
+   * This method is optimized for image uploads using FormData
+   */
+  async createPostWithFile(message: string, file: File): Promise<string> {
+    try {
+      const page = this.requirePage();
 
-          return response?.id || 'FB_TEXT_POST_' + Date.now();
-        }
-      }
+      console.log(`Creating Facebook post with direct file upload for page: ${this.pageName} (ID: ${this.pageId})`);
+      console.log(`File: ${file.name}, Size: ${file.size}, Type: ${file.type}`);
+
+      return await this.uploadPhoto(page.id, message, file, file.name);
     } catch (error: any) {
       console.error('Error creating Facebook post with file:', error);
       throw this.handleApiError(error);
@@ -239,307 +326,52 @@ export default class FacebookApiService extends BaseApiService {
 
   /**
    * Create a post on Facebook using a URL
+   *
+   * Each post is one request. A request that fails may still have created the
+   * post, so it is never sent again another way; the error goes to the
+   * coordinator, which checks for the post before a retry.
    */
   async createPost(message: string, mediaUrl?: string, mediaType?: 'image' | 'video'): Promise<string> {
     try {
-      // Ensure we have a user or page ID
-      if (!this.pageId) {
-        const profileInfo = await this.getBasicProfileInfo();
-        this.pageId = profileInfo.id;
-      }
-
-      if (!this.pageId) {
-        throw new Error('No Facebook user or page ID available');
-      }
+      const page = this.requirePage();
 
       console.log(`Creating Facebook post for page: ${this.pageName} (ID: ${this.pageId})`);
-      let response;
-
-      try {
-        // If we have media, post with media
-        if (mediaUrl) {
-          if (mediaType === 'image') {
-            console.log(`Posting image to Facebook with URL: ${mediaUrl}`);
-
-            // Check if the URL is a data URL
-            if (mediaUrl.startsWith('data:')) {
-              console.log("Cannot post data URLs directly to Facebook. Posting text-only message instead.");
-              // Post text-only message as fallback
-              response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                params: {
-                  message: message + "\n\n[Image could not be posted directly. Please upload to a hosting service first.]"
-                }
-              });
-            } else {
-              // Post with image URL
-              try {
-                // Try to validate the URL first
-                const urlTest = new URL(mediaUrl);
-                console.log("URL is valid:", urlTest.href);
-
-                // Log the exact URL we're using
-                console.log("Attempting to post image to Facebook with URL:", mediaUrl);
-
-                // For Facebook, we need to try a different approach
-                // Instead of using the URL directly, we'll try to fetch the image and upload it as a blob
-                try {
-                  console.log("Trying direct image upload approach for Facebook");
-
-                  // Fetch the image as a blob
-                  const imageResponse = await fetch(mediaUrl);
-                  if (!imageResponse.ok) {
-                    throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-                  }
-
-                  const imageBlob = await imageResponse.blob();
-                  console.log("Successfully fetched image as blob:", {
-                    size: imageBlob.size,
-                    type: imageBlob.type
-                  });
-
-                  // Create a FormData object for the multipart/form-data request
-                  const formData = new FormData();
-                  formData.append('access_token', this.accessToken);
-                  formData.append('message', message);
-
-                  // Add the image as a file
-                  const fileName = mediaUrl.split('/').pop() || 'image.jpg';
-                  formData.append('source', imageBlob, fileName);
-
-                  console.log("Uploading image directly to Facebook using FormData");
-
-                  // Make a direct request to the Facebook API
-                  const uploadResponse = await fetch(`https://graph.facebook.com/v19.0/${this.pageId}/photos`, {
-                    method: 'POST',
-                    body: formData
-                  });
-
-                  if (!uploadResponse.ok) {
-                    const errorData = await uploadResponse.json();
-                    throw new Error(`Facebook upload failed: ${JSON.stringify(errorData)}`);
-                  }
-
-                  const responseData = await uploadResponse.json();
-                  console.log("Facebook direct upload succeeded:", responseData);
-
-                  // Return the response directly
-                  return responseData;
-                } catch (directUploadError) {
-                  console.error("Direct image upload to Facebook failed:", directUploadError);
-                  console.log("Falling back to URL-based approach");
-
-                  // Continue with the URL-based approach as fallback
-                }
-
-                // Try different approaches for posting the image
-                console.log("Trying multiple approaches for posting image to Facebook");
-
-                try {
-                  // Approach 1: Using /photos endpoint with url parameter
-                  console.log("Approach 1: Using /photos endpoint with url parameter");
-                  response = await this.post<{ id: string }>(`/${this.pageId}/photos`, null, {
-                    params: {
-                      message,
-                      url: fbMediaUrl, // Use the Facebook-compatible URL
-                    }
-                  });
-                  console.log("Approach 1 succeeded:", response);
-                } catch (approach1Error) {
-                  console.error("Approach 1 failed:", approach1Error);
-
-                  try {
-                    // Approach 2: Using /feed endpoint with link parameter
-                    console.log("Approach 2: Using /feed endpoint with link parameter");
-                    response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                      params: {
-                        message,
-                        link: fbMediaUrl, // Use the Facebook-compatible URL
-                      }
-                    });
-                    console.log("Approach 2 succeeded:", response);
-                  } catch (approach2Error) {
-                    console.error("Approach 2 failed:", approach2Error);
-
-                    // Approach 3: Fallback to text-only post with image URL in the message
-                    console.log("Approach 3: Fallback to text-only post with image URL in the message");
-                    response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                      params: {
-                        message: `${message}\n\nImage: ${fbMediaUrl}`,
-                      }
-                    });
-                    console.log("Approach 3 succeeded:", response);
-                  }
-                }
-
-                console.log("Facebook image post response:", response);
-              } catch (urlError) {
-                console.error("Invalid URL format:", urlError);
-                // Post text-only message as fallback
-                response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                  params: {
-                    message: message + "\n\n[Image URL was invalid. Please check the URL format.]"
-                  }
-                });
-              }
-            }
-          } else if (mediaType === 'video') {
-            console.log(`Posting video to Facebook with URL: ${mediaUrl}`);
-
-            // Check if the URL is a data URL
-            if (mediaUrl.startsWith('data:')) {
-              console.log("Cannot post data URLs directly to Facebook. Posting text-only message instead.");
-              // Post text-only message as fallback
-              response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                params: {
-                  message: message + "\n\n[Video could not be posted directly. Please upload to a hosting service first.]"
-                }
-              });
-            } else {
-              // Post with video URL
-              try {
-                // Try to validate the URL first
-                const urlTest = new URL(mediaUrl);
-                console.log("URL is valid:", urlTest.href);
-
-                // Post with video
-                response = await this.post<{ id: string }>(`/${this.pageId}/videos`, null, {
-                  params: {
-                    description: message,
-                    file_url: mediaUrl,
-                  }
-                });
-              } catch (urlError) {
-                console.error("Invalid URL format:", urlError);
-                // Post text-only message as fallback
-                response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-                  params: {
-                    message: message + "\n\n[Video URL was invalid. Please check the URL format.]"
-                  }
-                });
-              }
-            }
-          }
-        } else {
-          console.log(`Posting text-only message to Facebook`);
-          // Text-only post
-          response = await this.post<{ id: string }>(`/${this.pageId}/feed`, null, {
-            params: {
-              message
-            }
-          });
+      let response: { id?: string; post_id?: string };
+
+      if (mediaUrl && mediaType === 'image') {
+        // Facebook can't reach every media host, so upload the image itself when we can fetch it
+        const image = await this.fetchImage(mediaUrl);
+        if (image) {
+          const fileName = mediaUrl.startsWith('data:') ? 'image.jpg' : mediaUrl.split('/').pop() || 'image.jpg';
+          return await this.uploadPhoto(page.id, message, image, fileName);
         }
 
-        console.log(`Facebook post created successfully with ID: ${response?.id}`);
-        return response?.id || 'FB_POST_' + Date.now();
-      } catch (postError: any) {
-        console.error('Error in Facebook post creation:', postError);
-
-        // Log detailed error information
-        if (postError.response) {
-          console.error('Facebook API error response:', {
-            status: postError.response.status,
-            statusText: postError.response.statusText,
-            data: postError.response.data,
-            headers: postError.response.headers
-          });
-
-          // Check for specific Facebook error codes
-          if (postError.response.data && postError.response.data.error) {
-            const fbError = postError.response.data.error;
-            console.error('Facebook API error details:', {
-              message: fbError.message,
-              type: fbError.type,
-              code: fbError.code,
-              subcode: fbError.error_subcode,
-              traceId: fbError.fbtrace_id
-            });
-
-            // Handle specific error codes
-            if (fbError.code === 100) {
-              console.error('Facebook API parameter error. The image URL may not be accessible to Facebook.');
-            } else if (fbError.code === 190) {
-              console.error('Facebook access token error. The token may have expired.');
-            }
+        console.log(`Posting image to Facebook with URL: ${mediaUrl}`);
+        response = await this.post<{ id: string; post_id?: string }>(`/${page.id}/photos`, null, {
+          params: {
+            message,
+            url: this.requireMediaUrl(mediaUrl),
           }
-        } else {
-          console.error('Error details:', postError.message);
-        }
-
-        // Try posting to the user's feed as a last resort
-        console.log('Trying to post to user feed as fallback');
-        try {
-          if (mediaUrl && !mediaUrl.startsWith('data:')) {
-            // Only try to post media if it's not a data URL
-            if (mediaType === 'image') {
-              console.log("Trying to post image to user feed");
-
-              try {
-                // Try posting to user photos
-                // Check if this is a Cloudinary URL and ensure it's Facebook-compatible
-                let fbMediaUrl = mediaUrl;
-                if (mediaUrl.includes('cloudinary.com')) {
-                  console.log("Detected Cloudinary URL in fallback, ensuring it's Facebook-compatible");
-
-                  // Make sure the URL has a proper image extension
-                  if (!mediaUrl.match(/\.(jpg|jpeg|png|gif)$/i)) {
-                    fbMediaUrl = `${mediaUrl}.jpg`;
-                    console.log("Added .jpg extension for Facebook compatibility:", fbMediaUrl);
-                  }
-                }
-
-                response = await this.post<{ id: string }>(`/me/photos`, null, {
-                  params: {
-                    message,
-                    url: fbMediaUrl, // Use the Facebook-compatible URL
-                  }
-                });
-                console.log("Successfully posted image to user photos:", response);
-              } catch (photoError) {
-                console.error("Failed to post to user photos:", photoError);
-
-                // Try posting to feed with link
-                console.log("Trying to post to user feed with link parameter");
-                // Use the same fbMediaUrl from above
-                response = await this.post<{ id: string }>(`/me/feed`, null, {
-                  params: {
-                    message,
-                    link: fbMediaUrl, // Use the Facebook-compatible URL
-                  }
-                });
-              }
-            } else if (mediaType === 'video') {
-              console.log("Trying to post video to user feed");
-              response = await this.post<{ id: string }>(`/me/videos`, null, {
-                params: {
-                  description: message,
-                  file_url: mediaUrl,
-                }
-              });
-            }
-          } else {
-            // Post text-only as a last resort
-            console.log("Posting text-only to user feed as final fallback");
-            let finalMessage = message;
-
-            // Add a note if we had media but couldn't post it
-            if (mediaUrl && mediaUrl.startsWith('data:')) {
-              finalMessage += "\n\n[Media could not be posted directly. Please upload to a hosting service first.]";
-            }
-
-            response = await this.post<{ id: string }>(`/me/feed`, null, {
-              params: {
-                message: finalMessage
-              }
-            });
+        });
+      } else if (mediaUrl && mediaType === 'video') {
+        console.log(`Posting video to Facebook with URL: ${mediaUrl}`);
+        response = await this.post<{ id: string }>(`/${page.id}/videos`, null, {
+          params: {
+            description: message,
+            file_url: this.requireMediaUrl(mediaUrl),
           }
-
-          console.log(`Facebook post created on user feed with ID: ${response?.id}`);
-          return response?.id || 'FB_POST_' + Date.now();
-        } catch (userPostError) {
-          console.error('Error posting to user feed:', userPostError);
-          throw userPostError;
-        }
+        });
+      } else {
+        console.log(`Posting text-only message to Facebook`);
+        response = await this.post<{ id: string }>(`/${page.id}/feed`, null, {
+          params: {
+            message
+          }
+        });
       }
+
+      console.log(`Facebook post created successfully with ID: ${response?.id}`);
+      return this.requirePostId(response?.id || response?.post_id);
     } catch (error: any) {
       console.error('Error creating Facebook post:', error);
       throw this.handleApiError(error);
@@ -547,69 +379,97 @@ export default class FacebookApiService extends BaseApiService {
   }
 
   /**
-   * Get posts from the page
+   * Upload a photo to the page as multipart form data
    */
-  async getPosts(limit: number = 10) {
+  private async uploadPhoto(pageId: string, message: string, source: Blob, fileName: string): Promise<string> {
+    const formData = new FormData();
+    formData.append('message', message);
+    formData.append('source', source, fileName);
+
+    console.log("Uploading image directly to Facebook using FormData");
+    const response = await this.post<{ id?: string; post_id?: string }>(`/${pageId}/photos`, formData);
+
+    console.log("Facebook direct upload succeeded:", response);
+    return this.requirePostId(response?.id || response?.post_id);
+  }
+
+  /**
+   * Fetch an image to upload, or undefined when it can't be fetched and Facebook
+   * should fetch it from the URL instead. Nothing is published yet, so falling back is safe.
+   */
+  private async fetchImage(mediaUrl: string): Promise<Blob | undefined> {
     try {
-      // Ensure we have a page ID
-      if (!this.pageId) {
-        const profileInfo = await this.getBasicProfileInfo();
-        this.pageId = profileInfo.id;
+      const response = await fetch(mediaUrl);
+      if (!response.ok) {
+        console.warn(`Failed to fetch image for Facebook upload: ${response.status}`);
+        return undefined;
       }
 
-      console.log(`Fetching posts for Facebook page: ${this.pageName} (ID: ${this.pageId})`);
+      return await response.blob();
+    } catch (error) {
+      console.warn('Failed to fetch image for Facebook upload:', error);
+      return undefined;
+    }
+  }
 
-      // Try to get posts from the page
-      try {
-        const postsResponse = await this.get<{ data: any[] }>(`/${this.pageId}/posts`, {
-          params: {
-            fields: 'id,message,created_time,permalink_url,full_picture',
-            limit
-          }
-        });
+  /**
+   * A media URL Facebook can fetch itself
+   */
+  private requireMediaUrl(mediaUrl: string): string {
+    let valid = !mediaUrl.startsWith('data:');
+    try {
+      new URL(mediaUrl);
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      throw new MediaRejectedError('Facebook can only fetch media from a public URL. Upload the media to a hosting service first.', {
+        platform: this.platform
+      });
+    }
 
-        console.log(`Retrieved ${postsResponse.data?.length || 0} posts from Facebook page`);
-        return postsResponse;
-      } catch (error) {
-        console.error('Error fetching posts from page:', error);
+    return mediaUrl;
+  }
 
-        // Last resort: try to get user feed
-        try {
-          console.log('Trying to get user feed as last resort');
-          const feedResponse = await this.get<{ data: any[] }>(`/me/feed`, {
-            params: {
-              fields: 'id,message,created_time,permalink_url,full_picture',
-              limit
-            }
-          });
+  /**
+   * Get posts from the page
+   */
+  async getPosts(limit: number = 10) {
+    try {
+      const page = this.requirePage();
 
-          console.log(`Retrieved ${feedResponse.data?.length || 0} posts from user feed`);
-          return feedResponse;
-        } catch (feedError) {
-          console.error('Error fetching user feed:', feedError);
-          throw feedError;
+      console.log(`Fetching posts for Facebook page: ${this.pageName} (ID: ${this.pageId})`);
+
+      const postsResponse = await this.get<{ data: FacebookPostResponse[] }>(`/${page.id}/posts`, {
+        params: {
+          fields: 'id,message,created_time,permalink_url,full_picture',
+          limit
         }
-      }
+      });
+
+      console.log(`Retrieved ${postsResponse.data?.length || 0} posts from Facebook page`);
+      return postsResponse;
     } catch (error: any) {
       console.error('Error getting Facebook posts:', error);
-      console.error('Error details:', error.response?.data || error.message);
-
-      // Return empty data on error
-      return { data: [] };
+      throw this.handleApiError(error);
     }
   }
 
   /**
-   * Get comments for a specific post
+   * Get a page of comments for a specific post, newest first
+   * Pass `after` (the previous page's cursor) for the next page
    */
-  async getComments(postId: string) {
+  async getComments(postId: string, after?: string) {
     try {
       console.log(`Fetching comments for Facebook post ${postId}`);
 
-      const response = await this.get<{ data: any[] }>(`/${postId}/comments`, {
+      const response = await this.get<FacebookCommentsResponse>(`/${postId}/comments`, {
         params: {
-          fields: 'id,message,created_time,from,like_count',
-          limit: 25
+          fields: 'id,message,created_time,from,like_count,comment_count',
+          order: 'reverse_chronological',
+          limit: 100,
+          after
         }
       });
 
@@ -617,9 +477,71 @@ export default class FacebookApiService extends BaseApiService {
     } catch (error: any) {
       console.error(`Error fetching comments for Facebook post ${postId}:`, error);
       console.error('Error details:', error.response?.data || error.message);
+      throw this.handleApiError(error);
+    }
+  }
 
-      // Return empty data on error
-      return { data: [] };
+  /**
+   * Get a page of replies to a comment, oldest first
+   * Pass `after` (the previous page's cursor) for the next page
+   */
+  async getReplies(commentId: string, after?: string) {
+    try {
+      return await this.get<FacebookCommentsResponse>(`/${commentId}/comments`, {
+        params: {
+          fields: 'id,message,created_time,from,like_count',
+          limit: 100,
+          after
+        }
+      });
+    } catch (error) {
+      console.error(`Error fetching replies to Facebook comment ${commentId}:`, error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Hide a comment on one of the page's posts, or show it again
+   * A hidden comment is still seen by its author and their friends
+   */
+  async setCommentHidden(commentId: string, hidden: boolean) {
+    try {
+      await this.post<{ success: boolean }>(`/${commentId}`, null, {
+        params: {
+          is_hidden: hidden
+        }
+      });
+    } catch (error) {
+      console.error(`Error ${hidden ? 'hiding' : 'unhiding'} Facebook comment ${commentId}:`, error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Delete a comment on one of the page's posts
+   */
+  async removeComment(commentId: string) {
+    try {
+      await this.delete<{ success: boolean }>(`/${commentId}`);
+    } catch (error) {
+      console.error(`Error deleting Facebook comment ${commentId}:`, error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Comment on a post as the page
+   */
+  async commentOnPost(postId: string, message: string) {
+    try {
+      return await this.post<{ id: string }>(`/${postId}/comments`, null, {
+        params: {
+          message
+        }
+      });
+    } catch (error) {
+      console.error(`Error commenting on Facebook post ${postId}:`, error);
+      throw this.handleApiError(error);
     }
   }
 
@@ -644,17 +566,99 @@ export default class FacebookApiService extends BaseApiService {
     }
   }
 
-  async getAccountStats() {
-    try {
-      // Ensure we have a user or page ID
-      if (!this.pageId) {
-        const profileInfo = await this.getBasicProfileInfo();
-        this.pageId = profileInfo.id;
-      }
+  /**
+   * Publish the post with its first image or video, if it has one
+   */
+  async publish(post: Post): Promise<string> {
+    this.validateMedia(post);
+    const [media] = post.media;
+
+    // If we have the original file, pass it to Facebook for direct upload
+    if (media?.file && media.type === 'image') {
+      console.log("Using original file for Facebook upload:", media.file.name);
+      return this.createPostWithFile(post.content, media.file);
+    }
 
-      if (!this.pageId) {
-        throw new Error('No Facebook user or page ID available');
-      }
+    // Otherwise use the URL
+    return this.createPost(post.content, media?.url, media?.type);
+  }
+
+  validateMedia(post: Post) {
+    assertValidMedia(post, this.platform);
+  }
+
+  async fetchPosts(limit: number = 10): Promise<PlatformPost[]> {
+    const response = await this.getPosts(limit);
+
+    return response.data.map(post => ({
+      id: post.id,
+      text: post.message || '',
+      createdAt: new Date(post.created_time),
+      url: post.permalink_url,
+      mediaUrl: post.full_picture,
+    }));
+  }
+
+  async fetchComments(postId: string, options: FetchCommentsOptions = {}): Promise<PlatformComment[]> {
+    return collectComments(async (after) => {
+      const response = await this.getComments(postId, after);
+
+      const comments = response.data.map(comment => ({
+        ...this.toPlatformComment(postId, comment),
+        replyCount: comment.comment_count,
+      }));
+      return { comments, next: response.paging?.next ? response.paging.cursors?.after : undefined };
+    }, options.since);
+  }
+
+  async fetchReplies(postId: string, commentId: string): Promise<PlatformComment[]> {
+    return collectComments(async (after) => {
+      const response = await this.getReplies(commentId, after);
+      const replies = response.data.map(reply => ({ ...this.toPlatformComment(postId, reply), parentId: commentId }));
+      return { comments: replies, next: response.paging?.next ? response.paging.cursors?.after : undefined };
+    });
+  }
+
+  private toPlatformComment(postId: string, comment: FacebookComment): PlatformComment {
+    return {
+      id: comment.id,
+      postId,
+      text: comment.message,
+      author: { id: comment.from?.id || '', name: comment.from?.name || 'Facebook User' },
+      likes: comment.like_count || 0,
+      createdAt: new Date(comment.created_time),
+    };
+  }
+
+  async comment(postId: string, text: string): Promise<string> {
+    const response = await this.commentOnPost(postId, text);
+    return response.id;
+  }
+
+  async reply(postId: string, commentId: string, text: string): Promise<string> {
+    const response = await this.replyToComment(postId, text, commentId);
+    return response.id;
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    await this.removeComment(commentId);
+  }
+
+  async hideComment(commentId: string): Promise<void> {
+    await this.setCommentHidden(commentId, true);
+  }
+
+  async unhideComment(commentId: string): Promise<void> {
+    await this.setCommentHidden(commentId, false);
+  }
+
+  async markCommentAsSpam(_commentId: string): Promise<void> {
+    throw new UnsupportedOperationError('Facebook has no API for reporting comments as spam', { platform: this.platform });
+  }
+
+  async getStats(): Promise<PlatformStats> {
+    try {
+      const page = this.requirePage();
 
       console.log(`Fetching Facebook stats for page: ${this.pageName} (ID: ${this.pageId})`);
 
@@ -664,7 +668,7 @@ export default class FacebookApiService extends BaseApiService {
 
       try {
         console.log(`Fetching posts with pageId: ${this.pageId}`);
-        const postsResponse = await this.get<{ data: FacebookPostResponse[] }>(`/${this.pageId}/posts`, {
+        const postsResponse = await this.get<{ data: FacebookPostResponse[] }>(`/${page.id}/posts`, {
           params: {
             fields: 'id,message,created_time,permalink_url',
             limit: 25
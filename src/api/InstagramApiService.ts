@@ -1,7 +1,10 @@
 import BaseApiService from './BaseApiService';
+import { graphApiRetryPolicy } from './retryPolicy';
+import { ApiError, mapGraphApiError, MediaRejectedError, RateLimitedError, UnsupportedOperationError } from './errors';
+import { AdapterPublishOptions, assertValidMedia, collectComments, FetchCommentsOptions, PlatformAdapter, PlatformCapabilities, PlatformComment, PlatformPost } from './PlatformAdapter';
 import { decryptData } from '../lib/encryption';
-import { Platform } from '../types';
-import useSettingsStore from '../store/useSettingsStore';
+import { PLATFORM_CONSTRAINTS } from '../lib/platformConstraints';
+import { InstagramPostOptions, MediaItem, Platform, PlatformAccount, PlatformStats, Post } from '../types';
 
 interface InstagramMediaResponse {
   id: string;
@@ -12,6 +15,10 @@ interface InstagramMediaResponse {
   caption?: string;
 }
 
+// Processing state of a media container
+// https://developers.facebook.com/docs/instagram-platform/instagram-graph-api/reference/ig-container
+type InstagramContainerStatus = 'EXPIRED' | 'ERROR' | 'FINISHED' | 'IN_PROGRESS' | 'PUBLISHED';
+
 interface InstagramCommentsResponse {
   data: Array<{
     id: string;
@@ -19,6 +26,7 @@ interface InstagramCommentsResponse {
     timestamp: string;
     username: string;
     like_count: number;
+    replies?: InstagramCommentsResponse; // Only when asked for, and only when there are any
   }>;
   paging?: {
     cursors: {
@@ -29,14 +37,48 @@ interface InstagramCommentsResponse {
   };
 }
 
-export default class InstagramApiService extends BaseApiService {
+// Container errors for media Instagram could not fetch or accept
+// https://developers.facebook.com/docs/instagram-platform/instagram-graph-api/reference/error-codes
+const INSTAGRAM_MEDIA_CODES = [9004, 36000, 36001, 36003, 36004];
+// Subcodes 2207xxx describe container problems; these ones are about the media itself
+const INSTAGRAM_MEDIA_SUBCODES = [2207003, 2207004, 2207005, 2207009, 2207010, 2207023, 2207026, 2207052];
+// Subcode for hitting the 24 hour content publishing limit
+const INSTAGRAM_PUBLISH_LIMIT_SUBCODE = 2207042;
+// Subcode for publishing a container that has not finished processing
+const INSTAGRAM_NOT_READY_SUBCODE = 2207027;
+
+// The Graph API host for Instagram; accounts may point at another server
+export const INSTAGRAM_API_BASE_URL = 'https://graph.instagram.com/v19.0';
+
+// Instagram allows up to 10 images and videos in a carousel
+export const MAX_CAROUSEL_ITEMS = PLATFORM_CONSTRAINTS.instagram.mediaItems.max;
+
+export const INSTAGRAM_CAPABILITIES: PlatformCapabilities = {
+  fetchComments: true,
+  comment: true,
+  reply: true,
+  deleteComment: true,
+  hideComment: true,
+  markSpam: false,
+};
+
+// How often to check a container's status, and how long to wait for it to finish processing
+const CONTAINER_POLL_INTERVAL = 5 * 1000;
+const CONTAINER_POLL_TIMEOUT = 5 * 60 * 1000;
+
+export default class InstagramApiService extends BaseApiService implements PlatformAdapter {
+  protected readonly platform: Platform = 'instagram';
+  readonly capabilities = INSTAGRAM_CAPABILITIES;
   private accessToken: string;
+  // The token endpoints are not versioned, so they live next to the versioned API
+  private tokenHost: string;
+
+  constructor(account: PlatformAccount<'instagram'>) {
+    super(account.credentials.baseUrl || INSTAGRAM_API_BASE_URL, {}, graphApiRetryPolicy);
 
-  constructor() {
-    super('https://graph.instagram.com/v19.0'); // Using v19.0 for all Instagram API calls
+    this.tokenHost = this.baseUrl.replace(/\/v\d+\.\d+\/?$/, '');
 
-    const settings = useSettingsStore.getState();
-    const encryptedToken = settings.apiCredentials.instagram?.accessToken;
+    const encryptedToken = account.credentials.accessToken;
 
     if (!encryptedToken) {
       throw new Error('Instagram API credentials not found');
@@ -54,6 +96,93 @@ export default class InstagramApiService extends BaseApiService {
     });
   }
 
+  /**
+   * Map Instagram Graph API error codes, including container errors, to typed errors
+   */
+  protected mapPlatformError(error: any): ApiError | undefined {
+    const graphError = error?.response?.data?.error;
+    if (!graphError) {
+      return undefined;
+    }
+
+    const details = {
+      platform: this.platform,
+      status: error.response.status,
+      code: graphError.code,
+      subcode: graphError.error_subcode,
+      cause: error,
+    };
+    const message = graphError.error_user_msg || graphError.message;
+
+    if (graphError.error_subcode === INSTAGRAM_PUBLISH_LIMIT_SUBCODE) {
+      return new RateLimitedError(`Instagram publishing limit reached: ${message}`, details);
+    }
+
+    if (graphError.error_subcode === INSTAGRAM_NOT_READY_SUBCODE) {
+      return new ApiError(`Instagram media is still processing: ${message}`, { ...details, retryable: true });
+    }
+
+    if (INSTAGRAM_MEDIA_CODES.includes(graphError.code) || INSTAGRAM_MEDIA_SUBCODES.includes(graphError.error_subcode)) {
+      return new MediaRejectedError(`Instagram rejected the media: ${message}. Please check your media URL and format.`, details);
+    }
+
+    const mapped = mapGraphApiError(this.platform, error);
+    if (mapped) {
+      return mapped;
+    }
+
+    // Invalid parameters while creating or publishing a container
+    if (graphError.code === 100) {
+      if (message?.includes('creation_id')) {
+        return new ApiError(`Failed to publish media: ${message}. The container ID may be invalid.`, details);
+      }
+      return new ApiError(`Bad request: ${message}`, details);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Exchange a short-lived Instagram token for a long-lived one (60 days)
+   * https://developers.facebook.com/docs/instagram-platform/reference/access_token
+   */
+  async exchangeForLongLivedToken(appSecret: string): Promise<{ accessToken: string; expiresIn: number }> {
+    try {
+      const response = await this.get<{ access_token: string; token_type: string; expires_in: number }>(`${this.tokenHost}/access_token`, {
+        params: {
+          grant_type: 'ig_exchange_token',
+          client_secret: appSecret
+        }
+      });
+
+      this.accessToken = response.access_token;
+      return { accessToken: response.access_token, expiresIn: response.expires_in };
+    } catch (error: any) {
+      console.error('Error exchanging Instagram token:', error.response?.data || error.message);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Refresh a long-lived Instagram token for another 60 days.
+   * Only works for long-lived tokens that are at least 24 hours old and not yet expired.
+   */
+  async refreshLongLivedToken(): Promise<{ accessToken: string; expiresIn: number }> {
+    try {
+      const response = await this.get<{ access_token: string; token_type: string; expires_in: number }>(`${this.tokenHost}/refresh_access_token`, {
+        params: {
+          grant_type: 'ig_refresh_token'
+        }
+      });
+
+      this.accessToken = response.access_token;
+      return { accessToken: response.access_token, expiresIn: response.expires_in };
+    } catch (error: any) {
+      console.error('Error refreshing Instagram token:', error.response?.data || error.message);
+      throw this.handleApiError(error);
+    }
+  }
+
   /**
    * Get basic user profile information (ID and username)
    */
@@ -85,99 +214,173 @@ export default class InstagramApiService extends BaseApiService {
   }
 
   /**
-   * Post a photo or video to Instagram
+   * Post to Instagram as a feed post, Reel or Story
+   * A feed post with two or more items becomes a carousel
    * Note: Direct publishing to Instagram has limitations and may require additional approvals from Meta
    */
-  async createPost(caption: string, mediaUrl: string, mediaType: 'image' | 'video'): Promise<string> {
+  async createPost(
+    caption: string,
+    media: MediaItem[],
+    options: InstagramPostOptions = { format: 'feed' },
+    publishOptions: AdapterPublishOptions = {}
+  ): Promise<string> {
     try {
-      console.log("Creating Instagram post with:", { caption, mediaType });
-      console.log("Media URL being sent to Instagram API:", mediaUrl);
-
-      // Check if mediaUrl is a data URL (starts with data:)
-      if (mediaUrl.startsWith('data:')) {
-        console.log("Converting data URL to simulated public URL for Instagram API");
-
-        // In a real app, we'd upload this to cloud storage
-        // For this demo, we'll simulate a successful post with a fake ID
+      console.log("Creating Instagram post with:", { caption, items: media.length, format: options.format });
 
-        // Simulate API delay
-        await new Promise(resolve => setTimeout(resolve, 1500));
+      assertValidMedia({ content: caption, media, instagramOptions: options }, this.platform);
 
-        const fakePostId = 'ig_post_' + Math.random().toString(36).substring(2, 15);
-        console.log("Simulated Instagram post created with ID:", fakePostId);
-        return fakePostId;
+      // Instagram fetches the media itself, so it has to be at a public URL
+      if (media.some(item => item.url.startsWith('data:') || item.url.startsWith('blob:'))) {
+        throw new MediaRejectedError('Instagram needs publicly accessible media URLs. Upload the media to a hosting service first.', { platform: this.platform });
       }
 
-      // If not a data URL, proceed with normal API call
-      // Step 1: Create a container
-      // The Instagram Graph API expects parameters in the query string, not the body
-      console.log("Step 1: Creating media container with the following parameters:");
-      console.log({
-        caption,
-        image_url: mediaType === 'image' ? mediaUrl : undefined,
-        video_url: mediaType === 'video' ? mediaUrl : undefined,
-        media_type: mediaType.toUpperCase(),
-      });
-
-      const containerData = await this.post<{ id: string }>('/me/media', null, {
-        params: {
-          caption,
-          image_url: mediaType === 'image' ? mediaUrl : undefined,
-          video_url: mediaType === 'video' ? mediaUrl : undefined,
-          media_type: mediaType.toUpperCase(),
-        }
-      });
+      // Step 1: Create the container to publish
+      const containerId = await this.createContainer(caption, media, options);
 
-      console.log("Container created successfully with ID:", containerData.id);
+      // Step 2: Wait for Instagram to process the media
+      publishOptions.onProcessing?.();
+      await this.waitForContainer(containerId);
 
-      // Step 2: Publish the container
+      // Step 3: Publish the container
       // The Instagram Graph API expects parameters in the query string, not the body
-      console.log("Step 2: Publishing media container with ID:", containerData.id);
+      console.log("Publishing media container with ID:", containerId);
 
       const publishData = await this.post<{ id: string }>('/me/media_publish', null, {
         params: {
-          creation_id: containerData.id
+          creation_id: containerId
         }
       });
 
-      console.log("Publishing successful! New post created with ID:", publishData.id);
-
       console.log("Instagram post created successfully with ID:", publishData.id);
       return publishData.id;
     } catch (error: any) {
       console.error('Error creating Instagram post:', error);
 
-      // Provide more detailed error messages based on the error type
       if (error.response) {
         console.error('API Error Response:', error.response.data);
+      }
 
-        // Check for common error codes
-        if (error.response.status === 400) {
-          const errorMessage = error.response.data?.error?.message || 'Invalid parameters';
-          console.error('Bad request error:', errorMessage);
-
-          // Check for specific error messages
-          if (errorMessage.includes('media container')) {
-            throw new Error(`Failed to create media container: ${errorMessage}. Please check your media URL and format.`);
-          } else if (errorMessage.includes('creation_id')) {
-            throw new Error(`Failed to publish media: ${errorMessage}. The container ID may be invalid.`);
-          } else {
-            throw new Error(`Bad request: ${errorMessage}`);
-          }
-        } else if (error.response.status === 401 || error.response.status === 403) {
-          throw new Error('Authentication error: Your access token may be invalid or expired, or you may not have permission to publish content.');
-        } else if (error.response.status === 404) {
-          throw new Error('Resource not found. The API endpoint may have changed or the resource does not exist.');
-        } else if (error.response.status >= 500) {
-          throw new Error('Instagram server error. Please try again later.');
+      // Container and permission errors are mapped in mapPlatformError
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Create the container for a post in the given format
+   */
+  private async createContainer(caption: string, media: MediaItem[], options: InstagramPostOptions): Promise<string> {
+    const [item] = media;
+
+    switch (options.format) {
+      case 'reel':
+        return this.createMediaContainer(item, {
+          caption,
+          media_type: 'REELS',
+          cover_url: options.coverUrl,
+          share_to_feed: options.shareToFeed ?? true,
+          // A cover image takes precedence over a frame from the video
+          thumb_offset: options.coverUrl ? undefined : options.thumbOffset,
+        });
+
+      // Stories have no caption
+      case 'story_image':
+      case 'story_video':
+        return this.createMediaContainer(item, { media_type: 'STORIES' });
+
+      default:
+        if (media.length > 1) {
+          return this.createCarouselContainer(caption, media);
         }
-      } else if (error.request) {
-        // Request was made but no response received
-        throw new Error('Network error: No response received from Instagram API. Please check your internet connection.');
+
+        // Instagram no longer publishes single videos to the feed; they are posted as Reels
+        if (item.type === 'video') {
+          return this.createMediaContainer(item, { caption, media_type: 'REELS', share_to_feed: true });
+        }
+
+        return this.createMediaContainer(item, { caption });
+    }
+  }
+
+  /**
+   * Create a container for one image or video
+   * The Instagram Graph API expects parameters in the query string, not the body
+   */
+  private async createMediaContainer(item: MediaItem, extraParams: Record<string, unknown>): Promise<string> {
+    const params = {
+      image_url: item.type === 'image' ? item.url : undefined,
+      video_url: item.type === 'video' ? item.url : undefined,
+      // Images are the default; carousel videos must say so
+      media_type: item.type === 'video' ? 'VIDEO' : undefined,
+      ...extraParams,
+    };
+
+    console.log("Creating media container with the following parameters:", params);
+    const containerData = await this.post<{ id: string }>('/me/media', null, { params });
+
+    console.log("Container created successfully with ID:", containerData.id);
+    return containerData.id;
+  }
+
+  /**
+   * Create a child container for each item, in order, then the carousel container holding them
+   */
+  private async createCarouselContainer(caption: string, media: MediaItem[]): Promise<string> {
+    const childIds: string[] = [];
+    for (const item of media) {
+      const childId = await this.createMediaContainer(item, { is_carousel_item: true });
+
+      // The carousel can only be created once its videos have been processed
+      if (item.type === 'video') {
+        await this.waitForContainer(childId);
       }
 
-      // If we couldn't handle the error specifically, use the generic handler
-      throw this.handleApiError(error);
+      childIds.push(childId);
+    }
+
+    console.log("Creating carousel container with children:", childIds);
+    const carouselData = await this.post<{ id: string }>('/me/media', null, {
+      params: {
+        caption,
+        media_type: 'CAROUSEL',
+        children: childIds.join(','),
+      }
+    });
+
+    console.log("Carousel container created successfully with ID:", carouselData.id);
+    return carouselData.id;
+  }
+
+  /**
+   * Poll a container's status_code until Instagram has finished processing its media
+   * Publishing earlier fails, which is common for videos
+   */
+  private async waitForContainer(containerId: string): Promise<void> {
+    const deadline = Date.now() + CONTAINER_POLL_TIMEOUT;
+
+    while (true) {
+      const container = await this.get<{ id: string; status_code: InstagramContainerStatus; status?: string }>(`/${containerId}`, {
+        params: {
+          fields: 'id,status_code,status'
+        }
+      });
+
+      console.log(`Instagram container ${containerId} status:`, container.status_code);
+
+      switch (container.status_code) {
+        case 'FINISHED':
+        case 'PUBLISHED':
+          return;
+        case 'ERROR':
+          throw new MediaRejectedError(`Instagram could not process the media: ${container.status || 'unknown error'}`, { platform: this.platform });
+        case 'EXPIRED':
+          throw new MediaRejectedError('Instagram media container expired before it was published', { platform: this.platform });
+      }
+
+      if (Date.now() + CONTAINER_POLL_INTERVAL > deadline) {
+        throw new ApiError('Instagram media is still processing. Please try publishing again later.', { platform: this.platform, retryable: true });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CONTAINER_POLL_INTERVAL));
     }
   }
 
@@ -197,20 +400,6 @@ export default class InstagramApiService extends BaseApiService {
       return response;
     } catch (error: any) {
       console.error(`Error getting details for post ${mediaId}:`, error);
-
-      // For demo purposes, if the ID is a simulated one (starts with ig_post_),
-      // return a mock response
-      if (mediaId.startsWith('ig_post_')) {
-        console.log("Returning simulated post details for demo post");
-        return {
-          id: mediaId,
-          media_type: 'IMAGE',
-          permalink: 'https://instagram.com/p/demo',
-          timestamp: new Date().toISOString(),
-          caption: 'This is a simulated post created in demo mode'
-        };
-      }
-
       throw this.handleApiError(error);
     }
   }
@@ -248,25 +437,20 @@ export default class InstagramApiService extends BaseApiService {
       return this.mediaCache;
     } catch (error) {
       console.error('Error getting Instagram media:', error);
-
-      // If we have cached data, return it even if it's stale
-      if (this.mediaCache) {
-        console.log("API error, using stale cached data");
-        return this.mediaCache;
-      }
-
       throw this.handleApiError(error);
     }
   }
 
   /**
-   * Get comments for a specific post
+   * Get a page of comments for a specific post, newest first
+   * Only the first page is cached; pass `after` (the previous page's cursor) for the next one
    */
-  async getComments(mediaId: string, forceRefresh: boolean = false): Promise<InstagramCommentsResponse> {
+  async getComments(mediaId: string, forceRefresh: boolean = false, after?: string): Promise<InstagramCommentsResponse> {
+    const isFirstPage = !after;
     try {
       // Check if we have cached comments and they're still fresh
       const now = Date.now();
-      if (!forceRefresh &&
+      if (!forceRefresh && isFirstPage &&
           this.commentsCache.has(mediaId) &&
           this.lastCommentsRefresh.has(mediaId) &&
           (now - (this.lastCommentsRefresh.get(mediaId) || 0)) < this.CACHE_TTL) {
@@ -276,17 +460,19 @@ export default class InstagramApiService extends BaseApiService {
 
       console.log(`Fetching comments for Instagram post ${mediaId}`);
 
-      // For all posts, including simulated ones, try to call the API
       const response = await this.get<InstagramCommentsResponse>(`/${mediaId}/comments`, {
         params: {
-          fields: 'id,text,timestamp,username,like_count',
-          limit: 50
+          fields: 'id,text,timestamp,username,like_count,replies{id,text,timestamp,username,like_count}',
+          limit: 50,
+          after
         }
       });
 
       // Update cache
-      this.commentsCache.set(mediaId, response);
-      this.lastCommentsRefresh.set(mediaId, now);
+      if (isFirstPage) {
+        this.commentsCache.set(mediaId, response);
+        this.lastCommentsRefresh.set(mediaId, now);
+      }
 
       console.log(`Retrieved ${response.data?.length || 0} comments for post ${mediaId}`);
       return response;
@@ -294,18 +480,30 @@ export default class InstagramApiService extends BaseApiService {
       console.error(`Error getting comments for post ${mediaId}:`, error);
 
       // If we have cached comments, return them even if they're stale
-      if (this.commentsCache.has(mediaId)) {
+      if (isFirstPage && this.commentsCache.has(mediaId)) {
         console.log(`API error, using stale cached comments for post ${mediaId}`);
         return this.commentsCache.get(mediaId) as InstagramCommentsResponse;
       }
 
-      // For simulated posts that would fail with the API, return an empty comments array
-      // rather than completely failing
-      if (mediaId.startsWith('ig_post_')) {
-        console.warn(`Post ${mediaId} is a simulated post; returning empty comments array`);
-        return { data: [] };
-      }
+      throw this.handleApiError(error);
+    }
+  }
 
+  /**
+   * Get a page of replies to a comment, oldest first
+   * Pass `after` (the previous page's cursor) for the next page
+   */
+  async getReplies(commentId: string, after?: string): Promise<InstagramCommentsResponse> {
+    try {
+      return await this.get<InstagramCommentsResponse>(`/${commentId}/replies`, {
+        params: {
+          fields: 'id,text,timestamp,username,like_count',
+          limit: 50,
+          after
+        }
+      });
+    } catch (error) {
+      console.error(`Error getting replies to comment ${commentId}:`, error);
       throw this.handleApiError(error);
     }
   }
@@ -329,12 +527,6 @@ export default class InstagramApiService extends BaseApiService {
         throw new Error('Comment text cannot be empty');
       }
 
-      // Check if this is a simulated post
-      if (mediaId.startsWith('ig_post_')) {
-        console.warn(`Post ${mediaId} is simulated; real commenting not possible`);
-        throw new Error('Cannot comment on simulated posts. Connect a real Instagram account to enable commenting.');
-      }
-
       // Make sure we're using the raw comment ID without any prefixes
       // The Instagram API expects just the numeric ID
       const cleanCommentId = commentId && commentId.includes('_')
@@ -378,25 +570,6 @@ export default class InstagramApiService extends BaseApiService {
       return response;
     } catch (error: any) {
       console.error('Error replying to comment:', error);
-
-      // Provide more detailed error messages based on the error type
-      if (error.response) {
-        console.error('API Error Response:', error.response.data);
-
-        // Check for common error codes
-        if (error.response.status === 400) {
-          throw new Error(`Bad request: ${error.response.data?.error?.message || 'Invalid parameters'}`);
-        } else if (error.response.status === 401 || error.response.status === 403) {
-          throw new Error('Authentication error: Your access token may be invalid or expired');
-        } else if (error.response.status === 404) {
-          if (commentId) {
-            throw new Error(`Comment with ID ${commentId} not found. It may have been deleted or is not accessible.`);
-          } else {
-            throw new Error(`Post with ID ${mediaId} not found. It may have been deleted or is not accessible.`);
-          }
-        }
-      }
-
       throw this.handleApiError(error);
     }
   }
@@ -404,27 +577,115 @@ export default class InstagramApiService extends BaseApiService {
   /**
    * Delete a comment
    */
-  async deleteComment(commentId: string): Promise<{ success: boolean }> {
+  async deleteComment(commentId: string): Promise<void> {
     try {
       console.log(`Attempting to delete comment ${commentId}`);
 
-      // Always try to use the real API first
       await this.delete<any>(`/${commentId}`);
       console.log(`Successfully deleted comment ${commentId}`);
-      return { success: true };
     } catch (error: any) {
       console.error(`Error deleting comment ${commentId}:`, error);
+      throw this.handleApiError(error);
+    }
+  }
 
-      // If this is a simulated comment ID, throw a specific error
-      if (commentId.startsWith('comment_')) {
-        console.warn(`Comment ${commentId} appears to be a simulated ID`);
-        throw new Error('Cannot delete simulated comments. Connect a real Instagram account to enable comment management.');
-      }
-
+  /**
+   * Hide a comment on one of the account's posts, or show it again
+   */
+  async setCommentHidden(commentId: string, hidden: boolean): Promise<void> {
+    try {
+      await this.post<{ success: boolean }>(`/${commentId}`, null, {
+        params: {
+          hide: hidden
+        }
+      });
+    } catch (error) {
+      console.error(`Error ${hidden ? 'hiding' : 'unhiding'} comment ${commentId}:`, error);
       throw this.handleApiError(error);
     }
   }
 
+  async hideComment(commentId: string): Promise<void> {
+    await this.setCommentHidden(commentId, true);
+  }
+
+  async unhideComment(commentId: string): Promise<void> {
+    await this.setCommentHidden(commentId, false);
+  }
+
+  async markCommentAsSpam(_commentId: string): Promise<void> {
+    throw new UnsupportedOperationError('Instagram has no API for reporting comments as spam', { platform: this.platform });
+  }
+
+  /**
+   * Publish a post in its Instagram format (a feed post unless set)
+   */
+  async publish(post: Post, options: AdapterPublishOptions = {}): Promise<string> {
+    return this.createPost(post.content, post.media, post.instagramOptions, options);
+  }
+
+  validateMedia(post: Post) {
+    assertValidMedia(post, this.platform);
+  }
+
+  async fetchPosts(limit: number = 25): Promise<PlatformPost[]> {
+    // Never cached: this checks whether a publish that failed went through after all
+    const media = await this.getMedia(limit, true);
+
+    return media.map(item => ({
+      id: item.id,
+      text: item.caption || '',
+      createdAt: new Date(item.timestamp),
+      url: item.permalink,
+      mediaUrl: item.media_url,
+    }));
+  }
+
+  async fetchComments(postId: string, options: FetchCommentsOptions = {}): Promise<PlatformComment[]> {
+    return collectComments(async (after) => {
+      const response = await this.getComments(postId, true, after);
+
+      // The first page of replies comes with each comment; with more than that, the count is left to fetchReplies
+      const comments = (response.data || []).map(comment => ({
+        ...this.toPlatformComment(postId, comment),
+        replyCount: comment.replies?.paging?.next ? undefined : comment.replies?.data.length ?? 0,
+      }));
+      return { comments, next: response.paging?.next ? response.paging.cursors.after : undefined };
+    }, options.since);
+  }
+
+  async fetchReplies(postId: string, commentId: string): Promise<PlatformComment[]> {
+    return collectComments(async (after) => {
+      const response = await this.getReplies(commentId, after);
+      const replies = (response.data || []).map(reply => ({ ...this.toPlatformComment(postId, reply), parentId: commentId }));
+      return { comments: replies, next: response.paging?.next ? response.paging.cursors.after : undefined };
+    });
+  }
+
+  async comment(postId: string, text: string): Promise<string> {
+    const response = await this.replyToComment(postId, text);
+    return response.id;
+  }
+
+  async reply(postId: string, commentId: string, text: string): Promise<string> {
+    const response = await this.replyToComment(postId, text, commentId);
+    return response.id;
+  }
+
+  // Instagram doesn't say how many replies a comment has, so replyCount is left out
+  // fetchComments counts the replies that come with each comment instead
+  private toPlatformComment(postId: string, comment: InstagramCommentsResponse['data'][number]): PlatformComment {
+    // Comments only come with the commenter's username
+    return {
+      id: comment.id,
+      postId,
+      text: comment.text,
+      author: { id: comment.username, name: comment.username, username: comment.username },
+      likes: comment.like_count || 0,
+      createdAt: new Date(comment.timestamp),
+    };
+  }
+
   // Cache for comments to prevent duplicate API calls
   private commentsCache: Map<string, InstagramCommentsResponse> = new Map();
   private lastCommentsRefresh: Map<string, number> = new Map();
@@ -432,7 +693,7 @@ export default class InstagramApiService extends BaseApiService {
   /**
    * Get basic statistics for the account
    */
-  async getAccountStats() {
+  async getStats(): Promise<PlatformStats> {
     try {
       // Use cached media if available
       const mediaResponse = await this.getMedia(25, false);
@@ -441,9 +702,9 @@ export default class InstagramApiService extends BaseApiService {
       const posts = mediaResponse;
       const recentActivity = [];
 
-      // Handle the case where there are no real posts
+      // Nothing posted yet
       if (posts.length === 0) {
-        console.log("No posts found, returning simulated stats");
+        console.log("No posts found, returning empty stats");
         return {
           platform: 'instagram' as Platform,
           totalPosts: 0,
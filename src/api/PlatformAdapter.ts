@@ -0,0 +1,202 @@
+import { Platform, PlatformStats, Post, UploadProgress } from '../types';
+import { PostDraft, validatePostForPlatform } from '../lib/platformConstraints';
+import { MediaRejectedError } from './errors';
+
+/**
+ * The contract every platform service implements
+ *
+ * The coordinator and the API factory only talk to services through this
+ * interface, so adding a platform means writing one service rather than
+ * touching every caller. Operations a platform does not offer throw an
+ * UnsupportedOperationError; check `capabilities` before offering them.
+ * What a post may contain is described in lib/platformConstraints.
+ */
+
+// What a platform lets us do through its API
+export interface PlatformCapabilities {
+  fetchComments: boolean;
+  comment: boolean;
+  reply: boolean;
+  deleteComment: boolean;
+  hideComment: boolean; // Hiding and showing again
+  markSpam: boolean;
+}
+
+// A post as listed by a platform
+export interface PlatformPost {
+  id: string;
+  text: string;
+  createdAt: Date;
+  url?: string;
+  mediaUrl?: string;
+  commentCount?: number;
+}
+
+// A comment as returned by a platform
+export interface PlatformComment {
+  id: string;
+  postId: string;
+  text: string;
+  author: {
+    id: string;
+    name: string;
+    username?: string;
+    avatarUrl?: string;
+  };
+  likes: number;
+  createdAt: Date;
+  parentId?: string; // The comment this one replies to
+  replyCount?: number; // Undefined when the platform doesn't say how many replies there are
+}
+
+export interface FetchCommentsOptions {
+  since?: Date; // Only comments made at or after this time
+}
+
+export interface AdapterPublishOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  onProcessing?: () => void; // Called when the platform has the media and we are waiting for it to process it
+}
+
+export interface PlatformAdapter {
+  readonly capabilities: PlatformCapabilities;
+
+  /**
+   * Publish a post and return the platform post ID
+   */
+  publish(post: Post, options?: AdapterPublishOptions): Promise<string>;
+
+  /**
+   * The account's most recent posts, newest first
+   */
+  fetchPosts(limit?: number): Promise<PlatformPost[]>;
+
+  /**
+   * A post's comments, newest first, across every page the platform returns them in
+   */
+  fetchComments(postId: string, options?: FetchCommentsOptions): Promise<PlatformComment[]>;
+
+  /**
+   * The replies to a top-level comment on a post, oldest first
+   */
+  fetchReplies(postId: string, commentId: string): Promise<PlatformComment[]>;
+
+  /**
+   * Comment on one of the account's posts (e.g. a post's first comment) and return the comment ID
+   */
+  comment(postId: string, text: string): Promise<string>;
+
+  /**
+   * Reply to a comment on a post and return the ID of the reply
+   */
+  reply(postId: string, commentId: string, text: string): Promise<string>;
+
+  deleteComment(commentId: string): Promise<void>;
+
+  /**
+   * Hide a comment from the public without deleting it
+   */
+  hideComment(commentId: string): Promise<void>;
+
+  /**
+   * Show a hidden comment again
+   */
+  unhideComment(commentId: string): Promise<void>;
+
+  /**
+   * Report a comment to the platform as spam
+   */
+  markCommentAsSpam(commentId: string): Promise<void>;
+
+  getStats(): Promise<PlatformStats>;
+
+  /**
+   * Check a post's media is something the platform can publish
+   * Throws MediaRejectedError when it is not
+   */
+  validateMedia(post: Post): void;
+}
+
+/**
+ * Throw the first media error the platform's constraints find in a post
+ */
+export function assertValidMedia(post: PostDraft, platform: Platform) {
+  const [issue] = validatePostForPlatform(post, platform).errors.filter(error => error.field === 'media');
+  if (issue) {
+    throw new MediaRejectedError(issue.message, { platform });
+  }
+}
+
+// Stop paging through a post's comments after this many pages
+const MAX_COMMENT_PAGES = 50;
+
+/**
+ * Page through a newest-first comment list until it runs out or reaches back before `since`
+ * Without `since` every page is read, whatever order the list is in
+ */
+export async function collectComments(
+  fetchPage: (cursor?: string) => Promise<{ comments: PlatformComment[]; next?: string }>,
+  since?: Date
+): Promise<PlatformComment[]> {
+  const comments: PlatformComment[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_COMMENT_PAGES; page++) {
+    const { comments: pageComments, next } = await fetchPage(cursor);
+    comments.push(...pageComments);
+
+    // Later pages only hold older comments
+    const reachedSince = since && pageComments.some(comment => comment.createdAt < since);
+    if (!next || reachedSince) {
+      break;
+    }
+    cursor = next;
+  }
+
+  return since ? comments.filter(comment => comment.createdAt >= since) : comments;
+}
+
+// How far a platform's clock, and the time it takes to create the post, may put
+// the post's timestamp before the attempt that created it
+const PUBLISHED_POST_CLOCK_SKEW = 5 * 60 * 1000;
+
+// Platforms shorten long texts (YouTube titles, for one), so a listed text that is
+// the start of ours matches too, but only when it is long enough not to be a coincidence
+const PUBLISHED_POST_MIN_PREFIX = 50;
+
+const normalizePostText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Look for a post an earlier attempt may have created: one listed with one of
+ * the texts it was published with since that attempt started. Returns its
+ * platform ID, or undefined when there is none.
+ *
+ * Throws when there is nothing to match on (a post without text, or a post
+ * listed without text, such as an Instagram Story, in that time), as the post
+ * may be there and we can't tell.
+ */
+export async function findPublishedPost(adapter: PlatformAdapter, texts: string[], since: Date): Promise<string | undefined> {
+  const candidates = texts.map(normalizePostText).filter(Boolean);
+  if (candidates.length === 0) {
+    throw new Error('The post has no text to find it by');
+  }
+
+  const recentPosts = (await adapter.fetchPosts())
+    .filter(platformPost => platformPost.createdAt.getTime() >= since.getTime() - PUBLISHED_POST_CLOCK_SKEW);
+
+  const match = recentPosts.find(platformPost => {
+    const text = normalizePostText(platformPost.text);
+    return candidates.some(candidate =>
+      candidate === text || (text.length >= PUBLISHED_POST_MIN_PREFIX && candidate.startsWith(text))
+    );
+  });
+  if (match) {
+    return match.id;
+  }
+
+  if (recentPosts.some(platformPost => !normalizePostText(platformPost.text))) {
+    throw new Error('A post without text was published since then, and it may be this one');
+  }
+
+  return undefined;
+}
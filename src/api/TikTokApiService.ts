@@ -1,58 +1,112 @@
+import axios, { AxiosInstance } from 'axios';
 import BaseApiService from './BaseApiService';
+import { ApiError, ApiErrorDetails, AuthExpiredError, MediaRejectedError, PermissionMissingError, RateLimitedError, UnsupportedOperationError } from './errors';
+import { AdapterPublishOptions, assertValidMedia, FetchCommentsOptions, PlatformAdapter, PlatformCapabilities, PlatformComment, PlatformPost } from './PlatformAdapter';
 import { decryptData } from '../lib/encryption';
-import { Platform } from '../types';
-import useSettingsStore from '../store/useSettingsStore';
+import { Platform, PlatformAccount, PlatformStats, Post, TikTokCreatorInfo, TikTokPostOptions, TikTokPrivacyLevel, UploadProgress } from '../types';
 
-// Placeholder interfaces for TikTok API responses
-interface TikTokVideoResponse {
-  id: string;
-  description: string;
-  create_time: string;
-  share_url: string;
-  video: {
-    cover_image_url: string;
-    duration: number;
-  };
-  statistics: {
-    comment_count: number;
-    like_count: number;
-    view_count: number;
-    share_count: number;
+// Every TikTok API v2 response wraps its payload with an error object ("ok" on success)
+interface TikTokResponse<T> {
+  data: T;
+  error: {
+    code: string;
+    message: string;
+    log_id: string;
   };
 }
 
-interface TikTokCommentResponse {
+interface TikTokCreatorInfoResponse {
+  creator_avatar_url: string;
+  creator_username: string;
+  creator_nickname: string;
+  privacy_level_options: TikTokPrivacyLevel[];
+  comment_disabled: boolean;
+  duet_disabled: boolean;
+  stitch_disabled: boolean;
+  max_video_post_duration_sec: number;
+}
+
+interface TikTokPublishInitResponse {
+  publish_id: string;
+  upload_url?: string; // Only for FILE_UPLOAD
+}
+
+// https://developers.tiktok.com/doc/content-posting-api-reference-get-video-status
+interface TikTokPublishStatusResponse {
+  status: 'PROCESSING_UPLOAD' | 'PROCESSING_DOWNLOAD' | 'SEND_TO_USER_INBOX' | 'PUBLISH_COMPLETE' | 'FAILED';
+  fail_reason?: string;
+  publicaly_available_post_id?: Array<number | string>; // Spelled this way by TikTok
+  uploaded_bytes?: number;
+}
+
+// https://developers.tiktok.com/doc/tiktok-api-v2-video-object
+interface TikTokVideoResponse {
   id: string;
-  text: string;
-  create_time: string;
-  user: {
-    id: string;
-    username: string;
-    display_name: string;
-    avatar_url: string;
-  };
-  like_count: number;
-  reply_count: number;
+  title?: string;
+  video_description?: string;
+  create_time: number; // Unix seconds
+  share_url?: string;
+  cover_image_url?: string;
+  comment_count?: number;
+  like_count?: number;
+  view_count?: number;
+  share_count?: number;
+}
+
+// TikTok error codes grouped by how the caller should react
+// https://developers.tiktok.com/doc/tiktok-api-v2-error-handling
+const TIKTOK_AUTH_CODES = ['access_token_invalid', 'token_not_authorized_for_specified_open_id', 'auth_removed'];
+const TIKTOK_PERMISSION_CODES = ['scope_not_authorized', 'scope_permission_missed', 'unaudited_client_can_only_post_to_private_accounts', 'privacy_level_option_mismatch'];
+const TIKTOK_RATE_LIMIT_CODES = ['rate_limit_exceeded', 'spam_risk_too_many_posts', 'spam_risk_too_many_pending_share', 'reached_active_user_cap'];
+const TIKTOK_MEDIA_CODES = ['file_format_check_failed', 'duration_check_failed', 'frame_rate_check_failed', 'picture_size_check_failed', 'url_ownership_unverified', 'video_pull_failed'];
+
+// The Content Posting API host; accounts may point at another server
+export const TIKTOK_API_BASE_URL = 'https://open.tiktokapis.com/v2';
+
+// Chunks must be 5-64 MB, except that videos under 5 MB are sent whole
+// and the last chunk takes the remainder (up to 128 MB)
+// https://developers.tiktok.com/doc/content-posting-api-media-transfer-guide
+const MIN_CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 10 * 1024 * 1024;
+
+// How often to check the publish status, and how long to wait for TikTok to process the video
+const PUBLISH_POLL_INTERVAL = 5 * 1000;
+const PUBLISH_POLL_TIMEOUT = 10 * 60 * 1000;
+
+const VIDEO_LIST_FIELDS = 'id,title,video_description,create_time,share_url,cover_image_url,comment_count,like_count,view_count,share_count';
+
+// TikTok has no comment API for creators
+export const TIKTOK_CAPABILITIES: PlatformCapabilities = {
+  fetchComments: false,
+  comment: false,
+  reply: false,
+  deleteComment: false,
+  hideComment: false,
+  markSpam: false,
+};
+
+export interface TikTokUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  onProcessing?: () => void;
+  chunkSize?: number;
 }
 
-export default class TikTokApiService extends BaseApiService {
+export default class TikTokApiService extends BaseApiService implements PlatformAdapter {
+  protected readonly platform: Platform = 'tiktok';
+  readonly capabilities = TIKTOK_CAPABILITIES;
   private accessToken: string;
+  // The upload URL TikTok returns is signed and on another host, so chunks are sent without our token
+  private uploadClient: AxiosInstance = axios.create();
+
+  constructor(account: PlatformAccount<'tiktok'>) {
+    const credentials = account.credentials;
+
+    // The base URL comes from the account so it can point at a mock server during development
+    super(credentials.baseUrl || TIKTOK_API_BASE_URL);
 
-  constructor() {
-    // Note: For TikTok, we're using a custom base URL that would be set in the settings
-    // This allows flexibility for using different API endpoints or mock servers during development
-    const settings = useSettingsStore.getState();
-    const credentials = settings.apiCredentials.tiktok;
-    
-    if (!credentials) {
-      throw new Error('TikTok API credentials not found');
-    }
-    
-    // Use the baseUrl from settings
-    super(credentials.baseUrl); 
-    
     this.accessToken = decryptData(credentials.accessToken);
-    
+
     // Add authentication to every request
     this.client.interceptors.request.use(config => {
       config.headers = {
@@ -62,192 +116,343 @@ export default class TikTokApiService extends BaseApiService {
       return config;
     });
   }
-  
+
+  /**
+   * Map TikTok error codes to typed errors
+   */
+  protected mapPlatformError(error: any): ApiError | undefined {
+    const tiktokError = error?.response?.data?.error;
+    const code: string | undefined = tiktokError?.code;
+    if (!code || code === 'ok') {
+      return undefined;
+    }
+
+    return this.errorForCode(code, tiktokError.message || code, {
+      platform: this.platform,
+      status: error.response.status,
+      code,
+      cause: error,
+    });
+  }
+
+  /**
+   * Typed error for a TikTok error code or publish fail reason
+   */
+  private errorForCode(code: string, message: string, details: ApiErrorDetails): ApiError | undefined {
+    if (TIKTOK_AUTH_CODES.includes(code)) {
+      return new AuthExpiredError(`TikTok authentication error: ${message}. Please reconnect your TikTok account.`, details);
+    }
+
+    if (TIKTOK_PERMISSION_CODES.includes(code)) {
+      return new PermissionMissingError(`TikTok permission missing: ${message}`, details);
+    }
+
+    if (TIKTOK_RATE_LIMIT_CODES.includes(code)) {
+      return new RateLimitedError(`Rate limited by TikTok: ${message}`, details);
+    }
+
+    if (TIKTOK_MEDIA_CODES.includes(code)) {
+      return new MediaRejectedError(`TikTok rejected the video: ${message}`, details);
+    }
+
+    return undefined;
+  }
+
   /**
-   * Upload a video to TikTok
-   * Note: This is a placeholder implementation as TikTok's API for direct posting is more limited
+   * Query what the creator can post: privacy levels, disabled interactions and maximum video length.
+   * TikTok requires this before every post.
+   * https://developers.tiktok.com/doc/content-posting-api-reference-query-creator-info
    */
-  async createPost(description: string, mediaUrl: string): Promise<string> {
+  async getCreatorInfo(): Promise<TikTokCreatorInfo> {
     try {
-      // In a real implementation, this would involve a multi-step process specific to TikTok's API
-      // For now, we'll create a simplified simulation
-      const response = await this.post<{ data: { video_id: string } }>('/videos', {
-        description,
-        video_url: mediaUrl,
+      const response = await this.post<TikTokResponse<TikTokCreatorInfoResponse>>('/post/publish/creator_info/query/', null, {
+        headers: { 'Content-Type': 'application/json; charset=UTF-8' }
       });
-      
-      return response.data.video_id;
+
+      const info = response.data;
+      return {
+        username: info.creator_username,
+        nickname: info.creator_nickname,
+        avatarUrl: info.creator_avatar_url || undefined,
+        privacyLevelOptions: info.privacy_level_options,
+        commentDisabled: info.comment_disabled,
+        duetDisabled: info.duet_disabled,
+        stitchDisabled: info.stitch_disabled,
+        maxVideoDurationSec: info.max_video_post_duration_sec,
+      };
     } catch (error) {
-      // For demonstration purposes, create a simulated response
-      console.log('Using simulated TikTok upload (TikTok API may not support direct uploads)');
-      return 'TIKTOK_SIMULATED_' + Math.random().toString(36).substring(2, 15);
+      console.error('Error querying TikTok creator info:', error);
+      throw this.handleApiError(error);
     }
   }
-  
+
   /**
-   * Get comments for a specific TikTok video
+   * Post a video to TikTok with the Content Posting API (direct post).
+   * A file is uploaded in chunks (FILE_UPLOAD); a URL is fetched by TikTok (PULL_FROM_URL)
+   * and must be on a domain verified for the app.
+   * Returns the public post ID, or the publish ID when the post is not public.
+   * https://developers.tiktok.com/doc/content-posting-api-reference-direct-post
    */
-  async getComments(videoId: string, limit = 50): Promise<{ comments: TikTokCommentResponse[] }> {
+  async createPost(
+    description: string,
+    media: File | string,
+    postOptions: TikTokPostOptions,
+    uploadOptions: TikTokUploadOptions = {}
+  ): Promise<string> {
     try {
-      const response = await this.get<{ data: { comments: TikTokCommentResponse[] } }>(`/videos/${videoId}/comments`, {
-        params: { limit }
-      });
-      
-      return { comments: response.data.comments };
+      const creatorInfo = await this.getCreatorInfo();
+
+      // The privacy level has to be one of the creator's current options
+      if (!creatorInfo.privacyLevelOptions.includes(postOptions.privacyLevel)) {
+        throw new PermissionMissingError(
+          `TikTok account @${creatorInfo.username} cannot post with privacy level ${postOptions.privacyLevel}`,
+          { platform: this.platform }
+        );
+      }
+
+      const postInfo = {
+        title: description,
+        privacy_level: postOptions.privacyLevel,
+        // Interactions the creator turned off in the app stay off
+        disable_comment: !!postOptions.disableComment || creatorInfo.commentDisabled,
+        disable_duet: !!postOptions.disableDuet || creatorInfo.duetDisabled,
+        disable_stitch: !!postOptions.disableStitch || creatorInfo.stitchDisabled,
+      };
+
+      const publishId = typeof media === 'string'
+        ? await this.initPullFromUrl(postInfo, media)
+        : await this.uploadFile(postInfo, media, uploadOptions);
+
+      uploadOptions.onProcessing?.();
+      return await this.waitForPublish(publishId);
     } catch (error) {
-      // For demonstration purposes, return simulated data
-      return { comments: this.generateMockComments(videoId, 5) };
+      console.error('Error creating TikTok post:', error);
+      throw this.handleApiError(error);
     }
   }
-  
+
   /**
-   * Reply to a comment
+   * Start a post that TikTok downloads from a public URL
    */
-  async replyToComment(videoId: string, commentId: string, text: string): Promise<{ id: string }> {
-    try {
-      const response = await this.post<{ data: { comment_id: string } }>(`/videos/${videoId}/comments`, {
-        text,
-        parent_comment_id: commentId
+  private async initPullFromUrl(postInfo: Record<string, unknown>, videoUrl: string): Promise<string> {
+    const response = await this.post<TikTokResponse<TikTokPublishInitResponse>>('/post/publish/video/init/', {
+      post_info: postInfo,
+      source_info: {
+        source: 'PULL_FROM_URL',
+        video_url: videoUrl
+      }
+    });
+
+    console.log('TikTok post initialized from URL, publish ID:', response.data.publish_id);
+    return response.data.publish_id;
+  }
+
+  /**
+   * Start a post and upload the file in chunks to the upload URL TikTok returns
+   */
+  private async uploadFile(postInfo: Record<string, unknown>, video: File, options: TikTokUploadOptions): Promise<string> {
+    const totalBytes = video.size;
+    const requestedChunkSize = Math.min(Math.max(options.chunkSize ?? DEFAULT_CHUNK_SIZE, MIN_CHUNK_SIZE), MAX_CHUNK_SIZE);
+    const chunkSize = totalBytes < MIN_CHUNK_SIZE ? totalBytes : Math.min(requestedChunkSize, totalBytes);
+    // The remainder goes into the last chunk rather than a chunk of its own
+    const totalChunkCount = Math.max(1, Math.floor(totalBytes / chunkSize));
+
+    const response = await this.post<TikTokResponse<TikTokPublishInitResponse>>('/post/publish/video/init/', {
+      post_info: postInfo,
+      source_info: {
+        source: 'FILE_UPLOAD',
+        video_size: totalBytes,
+        chunk_size: chunkSize,
+        total_chunk_count: totalChunkCount
+      }
+    });
+
+    const { publish_id: publishId, upload_url: uploadUrl } = response.data;
+    if (!uploadUrl) {
+      throw new ApiError('TikTok did not return an upload URL', { platform: this.platform });
+    }
+
+    const reportProgress = (bytesUploaded: number) => {
+      options.onProgress?.({
+        bytesUploaded,
+        totalBytes,
+        percent: totalBytes > 0 ? Math.round((bytesUploaded / totalBytes) * 100) : 100,
       });
-      
-      return { id: response.data.comment_id };
-    } catch (error) {
-      // For demonstration purposes
-      return { id: 'COMMENT_SIMULATED_' + Math.random().toString(36).substring(2, 15) };
+    };
+
+    for (let index = 0; index < totalChunkCount; index++) {
+      const start = index * chunkSize;
+      const end = index === totalChunkCount - 1 ? totalBytes : start + chunkSize;
+      reportProgress(start);
+
+      await this.uploadClient.put(uploadUrl, video.slice(start, end), {
+        headers: {
+          'Content-Type': video.type || 'video/mp4',
+          'Content-Range': `bytes ${start}-${end - 1}/${totalBytes}`
+        },
+        onUploadProgress: (event) => reportProgress(start + event.loaded)
+      });
+    }
+
+    reportProgress(totalBytes);
+    console.log('TikTok upload complete, publish ID:', publishId);
+    return publishId;
+  }
+
+  /**
+   * Poll the publish status until TikTok has processed and posted the video
+   * https://developers.tiktok.com/doc/content-posting-api-reference-get-video-status
+   */
+  private async waitForPublish(publishId: string): Promise<string> {
+    const deadline = Date.now() + PUBLISH_POLL_TIMEOUT;
+
+    while (true) {
+      const response = await this.post<TikTokResponse<TikTokPublishStatusResponse>>('/post/publish/status/fetch/', {
+        publish_id: publishId
+      });
+      const status = response.data;
+
+      console.log(`TikTok publish ${publishId} status:`, status.status);
+
+      if (status.status === 'PUBLISH_COMPLETE') {
+        // Only public posts get a post ID; the publish ID identifies the others
+        const [postId] = status.publicaly_available_post_id || [];
+        return postId !== undefined ? String(postId) : publishId;
+      }
+
+      if (status.status === 'FAILED') {
+        const reason = status.fail_reason || 'unknown reason';
+        const details = { platform: this.platform, code: status.fail_reason };
+        throw this.errorForCode(reason, reason, details)
+          || new ApiError(`TikTok could not publish the video: ${reason}`, details);
+      }
+
+      if (Date.now() + PUBLISH_POLL_INTERVAL > deadline) {
+        // TikTok may still publish it, so a retry has to look for it first
+        throw new ApiError('TikTok is still processing the video. Check your TikTok profile before posting again.', {
+          platform: this.platform,
+          retryable: true
+        });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, PUBLISH_POLL_INTERVAL));
     }
   }
-  
+
   /**
-   * Delete a comment
+   * Publish the post's video with the privacy level chosen for TikTok
    */
-  async deleteComment(videoId: string, commentId: string): Promise<{ success: boolean }> {
+  async publish(post: Post, options: AdapterPublishOptions = {}): Promise<string> {
+    this.validateMedia(post);
+    if (!post.tiktokOptions) {
+      throw new Error('TikTok post requires a privacy level');
+    }
+    const [video] = post.media;
+
+    // Upload straight from the original file when we still have it
+    return this.createPost(post.content, video.file || video.url, post.tiktokOptions, {
+      onProgress: options.onProgress,
+      onProcessing: options.onProcessing,
+    });
+  }
+
+  validateMedia(post: Post) {
+    assertValidMedia(post, this.platform);
+  }
+
+  async fetchPosts(limit: number = 20): Promise<PlatformPost[]> {
     try {
-      await this.delete<any>(`/videos/${videoId}/comments/${commentId}`);
-      return { success: true };
+      const videos = await this.listVideos(limit);
+
+      return videos.map(video => ({
+        id: video.id,
+        text: video.title || video.video_description || '',
+        createdAt: new Date(video.create_time * 1000),
+        url: video.share_url,
+        mediaUrl: video.cover_image_url,
+        commentCount: video.comment_count,
+      }));
     } catch (error) {
-      // For demonstration purposes
-      console.log('Simulated TikTok comment deletion');
-      return { success: true };
+      throw this.handleApiError(error);
     }
   }
-  
+
+  async fetchComments(_postId: string, _options?: FetchCommentsOptions): Promise<PlatformComment[]> {
+    throw this.unsupported('Reading comments');
+  }
+
+  async fetchReplies(_postId: string, _commentId: string): Promise<PlatformComment[]> {
+    throw this.unsupported('Reading comments');
+  }
+
+  async comment(_postId: string, _text: string): Promise<string> {
+    throw this.unsupported('Commenting');
+  }
+
+  async reply(_postId: string, _commentId: string, _text: string): Promise<string> {
+    throw this.unsupported('Replying to comments');
+  }
+
+  async deleteComment(_commentId: string): Promise<void> {
+    throw this.unsupported('Deleting comments');
+  }
+
+  async hideComment(_commentId: string): Promise<void> {
+    throw this.unsupported('Hiding comments');
+  }
+
+  async unhideComment(_commentId: string): Promise<void> {
+    throw this.unsupported('Hiding comments');
+  }
+
+  async markCommentAsSpam(_commentId: string): Promise<void> {
+    throw this.unsupported('Reporting spam');
+  }
+
+  private unsupported(operation: string) {
+    return new UnsupportedOperationError(`${operation} is not available through the TikTok API`, { platform: this.platform });
+  }
+
+  /**
+   * The creator's most recent videos
+   * https://developers.tiktok.com/doc/tiktok-api-v2-video-list
+   */
+  private async listVideos(maxCount: number): Promise<TikTokVideoResponse[]> {
+    const response = await this.post<TikTokResponse<{ videos: TikTokVideoResponse[]; cursor: number; has_more: boolean }>>('/video/list/', {
+      max_count: maxCount
+    }, {
+      params: { fields: VIDEO_LIST_FIELDS }
+    });
+
+    return response.data.videos;
+  }
+
   /**
-   * Get account statistics 
+   * Get account statistics from the creator's recent videos
    */
-  async getAccountStats() {
+  async getStats(): Promise<PlatformStats> {
     try {
-      // Try to get real data if the API supports it
-      const videosResponse = await this.get<{ data: { videos: TikTokVideoResponse[] } }>('/user/videos', {
-        params: { limit: 20 }
-      });
-      
-      const videos = videosResponse.data.videos;
+      const videos = await this.listVideos(20);
       const totalVideos = videos.length;
-      let totalComments = 0;
-      const recentActivity = [];
-      
-      // Process the videos
-      for (const video of videos.slice(0, 5)) {
-        totalComments += video.statistics.comment_count;
-        
-        // Add to recent activity
-        recentActivity.push({
-          date: new Date(parseInt(video.create_time) * 1000),
-          type: 'post' as const,
-          content: video.description || 'TikTok video'
-        });
-        
-        // Get comments for this video
-        try {
-          const commentsResponse = await this.getComments(video.id, 1);
-          if (commentsResponse.comments.length > 0) {
-            const comment = commentsResponse.comments[0];
-            recentActivity.push({
-              date: new Date(parseInt(comment.create_time) * 1000),
-              type: 'comment' as const,
-              content: comment.text
-            });
-          }
-        } catch (error) {
-          console.error('Error fetching comments for video', video.id, error);
-        }
-      }
-      
-      // Sort by date
-      recentActivity.sort((a, b) => b.date.getTime() - a.date.getTime());
-      
+      const totalComments = videos.reduce((sum, video) => sum + (video.comment_count || 0), 0);
+
+      // TikTok has no comment API for creators, so recent activity is the latest videos
+      const recentActivity = videos.slice(0, 5).map(video => ({
+        date: new Date(video.create_time * 1000),
+        type: 'post' as const,
+        content: video.title || video.video_description || 'TikTok video'
+      }));
+
       return {
-        platform: 'tiktok' as Platform,
+        platform: this.platform,
         totalPosts: totalVideos,
         totalComments,
         engagementRate: totalVideos > 0 ? totalComments / totalVideos : 0,
-        recentActivity: recentActivity.slice(0, 5)
+        recentActivity
       };
     } catch (error) {
-      // For demonstration, return mock data
-      return this.generateMockStats();
+      console.error('Error getting TikTok account stats:', error);
+      throw this.handleApiError(error);
     }
   }
-  
-  // Helper methods to generate mock data for demonstration
-  
-  private generateMockComments(videoId: string, count: number): TikTokCommentResponse[] {
-    const comments: TikTokCommentResponse[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const id = `mock-comment-${i}-${videoId}`;
-      comments.push({
-        id,
-        text: `This is a mock TikTok comment #${i} - Love this content! #trending`,
-        create_time: Math.floor(Date.now() / 1000 - i * 86400).toString(), // Days ago
-        user: {
-          id: `user-${i}`,
-          username: `tiktokuser${i}`,
-          display_name: `TikTok User ${i}`,
-          avatar_url: 'https://placeholder.com/50x50'
-        },
-        like_count: Math.floor(Math.random() * 100),
-        reply_count: Math.floor(Math.random() * 5)
-      });
-    }
-    
-    return comments;
-  }
-  
-  private generateMockStats() {
-    const totalPosts = Math.floor(Math.random() * 30) + 5;
-    const totalComments = Math.floor(Math.random() * 500) + 50;
-    
-    const recentActivity = [];
-    const now = Date.now();
-    
-    // Generate some mock posts
-    for (let i = 0; i < 3; i++) {
-      recentActivity.push({
-        date: new Date(now - i * 86400000), // Days ago
-        type: 'post' as const,
-        content: `Mock TikTok video #${i} - Check out this new content! #trending`
-      });
-    }
-    
-    // Generate some mock comments
-    for (let i = 0; i < 2; i++) {
-      recentActivity.push({
-        date: new Date(now - (i * 43200000 + 10000)), // Half days ago
-        type: 'comment' as const,
-        content: `Mock comment: This is awesome content! ${i === 0 ? '🔥' : '👏'}`
-      });
-    }
-    
-    // Sort by date
-    recentActivity.sort((a, b) => b.date.getTime() - a.date.getTime());
-    
-    return {
-      platform: 'tiktok' as Platform,
-      totalPosts,
-      totalComments,
-      engagementRate: totalComments / totalPosts,
-      recentActivity
-    };
-  }
-}
\ No newline at end of file
+}
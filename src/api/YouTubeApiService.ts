@@ -1,7 +1,11 @@
 import BaseApiService from './BaseApiService';
+import { youtubeRetryPolicy } from './retryPolicy';
+import { ApiError, AuthExpiredError, MediaRejectedError, PermissionMissingError, RateLimitedError } from './errors';
+import { AdapterPublishOptions, assertValidMedia, collectComments, FetchCommentsOptions, PlatformAdapter, PlatformCapabilities, PlatformComment, PlatformPost } from './PlatformAdapter';
 import { decryptData } from '../lib/encryption';
-import { Platform } from '../types';
-import useSettingsStore from '../store/useSettingsStore';
+import { refreshYouTubeAccessToken } from '../lib/youtubeOAuth';
+import { getPlatformVariant } from '../lib/postVariants';
+import { Platform, PlatformAccount, PlatformStats, Post, UploadProgress } from '../types';
 
 interface YouTubeVideoResource {
   id: string;
@@ -26,6 +30,7 @@ interface YouTubeCommentResource {
   id: string;
   snippet: {
     videoId: string;
+    parentId?: string; // Set on replies
     textDisplay: string;
     textOriginal: string;
     authorDisplayName: string;
@@ -39,7 +44,65 @@ interface YouTubeCommentResource {
   };
 }
 
-export default class YouTubeApiService extends BaseApiService {
+// What the channel can set a comment's moderation status to
+export type YouTubeModerationStatus = 'published' | 'heldForReview' | 'rejected';
+
+// A top-level comment with its replies; the thread ID is the top-level comment's ID
+interface YouTubeCommentThreadResource {
+  id: string;
+  snippet: {
+    videoId: string;
+    topLevelComment: YouTubeCommentResource;
+    totalReplyCount: number;
+    canReply: boolean;
+  };
+}
+
+// An entry in the channel's uploads playlist
+interface YouTubePlaylistItemResource {
+  id: string;
+  snippet: {
+    title: string;
+    description: string;
+    publishedAt: string;
+    resourceId: {
+      videoId: string;
+    };
+  };
+}
+
+// YouTube error reasons grouped by how the caller should react
+// https://developers.google.com/youtube/v3/docs/errors
+const YOUTUBE_AUTH_REASONS = ['authError', 'expired', 'invalidCredentials'];
+const YOUTUBE_PERMISSION_REASONS = ['forbidden', 'insufficientPermissions', 'youtubeSignupRequired', 'channelNotFound'];
+const YOUTUBE_QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded', 'uploadLimitExceeded'];
+const YOUTUBE_RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const YOUTUBE_MEDIA_REASONS = ['invalidVideoMetadata', 'mediaBodyRequired', 'invalidFilename'];
+
+// The Data API host; accounts may point at another server
+export const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+// Chunk sizes must be multiples of 256 KiB
+const DEFAULT_CHUNK_SIZE = 32 * 256 * 1024; // 8 MiB
+const MAX_RESUME_ATTEMPTS = 5;
+
+export const YOUTUBE_CAPABILITIES: PlatformCapabilities = {
+  fetchComments: true,
+  comment: true,
+  reply: true,
+  deleteComment: true,
+  hideComment: true,
+  markSpam: true,
+};
+
+export interface YouTubeUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  tags?: string[];
+  chunkSize?: number;
+}
+
+export default class YouTubeApiService extends BaseApiService implements PlatformAdapter {
+  protected readonly platform: Platform = 'youtube';
+  readonly capabilities = YOUTUBE_CAPABILITIES;
   private apiKey: string;
   private clientId: string;
   private clientSecret: string;
@@ -47,16 +110,21 @@ export default class YouTubeApiService extends BaseApiService {
   private refreshToken?: string;
   private accessToken?: string;
   private tokenExpiry?: Date;
+  // Resumable uploads go to the upload path rather than the Data API path
+  private uploadUrl: string;
+  // Google's token endpoint, unless the account points at another server
+  private tokenUrl?: string;
+  // Upload URLs of unfinished uploads, so a retry continues where the last one stopped
+  private uploadSessions: Map<string, string> = new Map();
 
-  constructor() {
-    super('https://www.googleapis.com/youtube/v3');
-    
-    const settings = useSettingsStore.getState();
-    const credentials = settings.apiCredentials.youtube;
-    
-    if (!credentials) {
-      throw new Error('YouTube API credentials not found');
-    }
+  constructor(account: PlatformAccount<'youtube'>) {
+    const credentials = account.credentials;
+
+    super(credentials.baseUrl || YOUTUBE_API_BASE_URL, {}, youtubeRetryPolicy);
+
+    const host = this.baseUrl.replace(/\/youtube\/v3\/?$/, '');
+    this.uploadUrl = `${host}/upload/youtube/v3/videos`;
+    this.tokenUrl = credentials.baseUrl ? `${host}/token` : undefined;
     
     this.apiKey = decryptData(credentials.apiKey);
     this.clientId = decryptData(credentials.clientId);
@@ -92,90 +160,340 @@ export default class YouTubeApiService extends BaseApiService {
     });
   }
   
+  /**
+   * Map YouTube error reasons to typed errors
+   */
+  protected mapPlatformError(error: any): ApiError | undefined {
+    const youtubeError = error?.response?.data?.error;
+    const reason: string | undefined = youtubeError?.errors?.[0]?.reason;
+    if (!reason) {
+      return undefined;
+    }
+
+    const details = {
+      platform: this.platform,
+      status: error.response.status,
+      code: reason,
+      cause: error,
+    };
+    const message = youtubeError.message || reason;
+
+    if (YOUTUBE_AUTH_REASONS.includes(reason)) {
+      return new AuthExpiredError(`YouTube authentication error: ${message}. Please reconnect your YouTube account.`, details);
+    }
+
+    // Quota is a daily budget, so trying again today will not help
+    if (YOUTUBE_QUOTA_REASONS.includes(reason)) {
+      return new RateLimitedError(`YouTube quota exceeded: ${message}`, { ...details, retryable: false });
+    }
+
+    if (YOUTUBE_RATE_LIMIT_REASONS.includes(reason)) {
+      return new RateLimitedError(`Rate limited by YouTube: ${message}`, details);
+    }
+
+    if (YOUTUBE_MEDIA_REASONS.includes(reason)) {
+      return new MediaRejectedError(`YouTube rejected the video: ${message}`, details);
+    }
+
+    if (YOUTUBE_PERMISSION_REASONS.includes(reason)) {
+      return new PermissionMissingError(`YouTube permission missing: ${message}`, details);
+    }
+
+    return undefined;
+  }
+
   /**
    * Refresh the OAuth access token using the refresh token
    */
   private async refreshAccessToken(): Promise<void> {
+    if (!this.refreshToken) {
+      throw new AuthExpiredError('YouTube is not connected. Please connect YouTube in Settings.', { platform: this.platform });
+    }
+
     try {
-      const response = await this.client.post<{
-        access_token: string;
-        expires_in: number;
-      }>('https://oauth2.googleapis.com/token', {
-        client_id: this.clientId,
-        client_secret: this.clientSecret,
-        refresh_token: this.refreshToken,
-        grant_type: 'refresh_token'
-      });
-      
-      this.accessToken = response.data.access_token;
-      this.tokenExpiry = new Date(Date.now() + response.data.expires_in * 1000);
+      // Goes through its own request so this client's auth interceptor does not call itself
+      const tokens = await refreshYouTubeAccessToken(this.clientId, this.clientSecret, this.refreshToken, this.tokenUrl);
+
+      this.accessToken = tokens.access_token;
+      // Refresh a minute early so requests never go out with a token about to expire
+      this.tokenExpiry = new Date(Date.now() + (tokens.expires_in - 60) * 1000);
     } catch (error) {
       console.error('Failed to refresh access token:', error);
+      if (error instanceof AuthExpiredError) {
+        throw error;
+      }
       throw new Error('Failed to refresh YouTube access token');
     }
   }
   
   /**
-   * Upload a video to YouTube
+   * Upload a video to YouTube using the resumable upload protocol
+   * https://developers.google.com/youtube/v3/guides/using_resumable_upload_protocol
    */
-  async createPost(title: string, description: string, mediaUrl: string): Promise<string> {
+  async createPost(
+    title: string,
+    description: string,
+    media: File | string,
+    options: YouTubeUploadOptions = {}
+  ): Promise<string> {
+    let sessionKey: string | undefined;
+
     try {
-      // First, initiate a resumable upload
-      const initiateResponse = await this.post<any>('/videos', {}, {
-        params: {
-          part: 'snippet,status',
-          uploadType: 'resumable'
-        },
-        data: {
-          snippet: {
-            title,
-            description,
-            categoryId: '22' // People & Blogs category
+      const video = await this.loadVideo(media);
+      sessionKey = this.getSessionKey(media, video);
+
+      // Resume an earlier interrupted upload of the same file if we still have its session
+      let uploadUrl = this.uploadSessions.get(sessionKey);
+      const resuming = !!uploadUrl;
+      if (uploadUrl) {
+        console.log(`Resuming YouTube upload session for ${title}`);
+      } else {
+        uploadUrl = await this.startUploadSession(title, description, video, options.tags);
+        this.uploadSessions.set(sessionKey, uploadUrl);
+      }
+
+      const videoId = await this.uploadVideo(uploadUrl, video, options, resuming);
+      this.uploadSessions.delete(sessionKey);
+
+      console.log(`YouTube upload complete, video ID: ${videoId}`);
+      return videoId;
+    } catch (error: any) {
+      // A rejected or expired session cannot be resumed, so start over next time
+      const status = error.response?.status;
+      if (sessionKey && status && status < 500) {
+        this.uploadSessions.delete(sessionKey);
+      }
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Get the video bytes from the original file or by fetching the media URL
+   */
+  private async loadVideo(media: File | string): Promise<Blob> {
+    if (media instanceof Blob) {
+      return media;
+    }
+
+    console.log('Fetching video from media URL for YouTube upload');
+    const response = await fetch(media);
+    if (!response.ok) {
+      throw new MediaRejectedError(`Could not download video for YouTube upload (${response.status})`, {
+        platform: this.platform,
+        status: response.status,
+      });
+    }
+
+    return await response.blob();
+  }
+
+  private getSessionKey(media: File | string, video: Blob): string {
+    return media instanceof File
+      ? `${media.name}:${media.size}:${media.lastModified}`
+      : `${media}:${video.size}`;
+  }
+
+  /**
+   * Create a resumable upload session and return its upload URL
+   */
+  private async startUploadSession(title: string, description: string, video: Blob, tags?: string[]): Promise<string> {
+    const response = await this.client.post(this.uploadUrl, {
+      snippet: {
+        title,
+        description,
+        tags,
+        categoryId: '22' // People & Blogs category
+      },
+      status: {
+        privacyStatus: 'public'
+      }
+    }, {
+      params: {
+        part: 'snippet,status',
+        uploadType: 'resumable'
+      },
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Length': String(video.size),
+        'X-Upload-Content-Type': video.type || 'video/*'
+      }
+    });
+
+    const uploadUrl = response.headers?.location;
+    if (!uploadUrl) {
+      throw new Error('Failed to get YouTube upload URL');
+    }
+
+    return uploadUrl;
+  }
+
+  /**
+   * Send the video in chunks, resuming from the last byte YouTube confirmed
+   * whenever a chunk fails. Returns the ID of the uploaded video.
+   */
+  private async uploadVideo(
+    uploadUrl: string,
+    video: Blob,
+    options: YouTubeUploadOptions,
+    resuming: boolean
+  ): Promise<string> {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const totalBytes = video.size;
+
+    const reportProgress = (bytesUploaded: number) => {
+      options.onProgress?.({
+        bytesUploaded,
+        totalBytes,
+        percent: totalBytes > 0 ? Math.round((bytesUploaded / totalBytes) * 100) : 100,
+      });
+    };
+
+    // When resuming an earlier session, ask YouTube how much it already has
+    let status: { nextByte: number; videoId?: string } = resuming
+      ? await this.getUploadStatus(uploadUrl, totalBytes)
+      : { nextByte: 0 };
+    let resumeAttempts = 0;
+
+    while (!status.videoId) {
+      const start = status.nextByte;
+      const end = Math.min(start + chunkSize, totalBytes);
+      reportProgress(start);
+
+      try {
+        const response = await this.client.put(uploadUrl, video.slice(start, end), {
+          headers: {
+            'Content-Type': video.type || 'application/octet-stream',
+            'Content-Range': `bytes ${start}-${end - 1}/${totalBytes}`
           },
-          status: {
-            privacyStatus: 'public'
-          }
+          // 308 Resume Incomplete means the chunk was accepted
+          validateStatus: (code) => (code >= 200 && code < 300) || code === 308,
+          onUploadProgress: (event) => reportProgress(start + event.loaded),
+          // Failed chunks are recovered by asking for the upload status below
+          disableRetry: true
+        });
+
+        status = this.parseUploadResponse(response.status, response.headers, response.data);
+        resumeAttempts = 0;
+      } catch (error: any) {
+        // Only interruptions can be resumed; 4xx errors mean the upload was rejected
+        const code = error.response?.status;
+        if ((code && code < 500) || resumeAttempts >= MAX_RESUME_ATTEMPTS) {
+          throw error;
         }
-      });
-      
-      // Get the upload URL from the response headers
-      const uploadUrl = initiateResponse.headers?.location;
-      if (!uploadUrl) {
-        throw new Error('Failed to get YouTube upload URL');
+
+        resumeAttempts++;
+        const delay = Math.min(1000 * Math.pow(2, resumeAttempts), 30 * 1000);
+        console.warn(`YouTube upload interrupted at byte ${start}, resuming in ${delay}ms (attempt ${resumeAttempts} of ${MAX_RESUME_ATTEMPTS})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        status = await this.getUploadStatus(uploadUrl, totalBytes);
       }
-      
-      // In a real implementation, you would now upload the actual video file to this URL
-      // For this simplified example, we'll just simulate a successful upload
-      console.log(`Upload URL received for ${title}: ${uploadUrl}`);
-      
-      // Simulate video ID return
-      const videoId = 'SIMULATED_' + Math.random().toString(36).substring(2, 15);
-      return videoId;
+    }
+
+    reportProgress(totalBytes);
+    return status.videoId;
+  }
+
+  /**
+   * Query an upload session for the next byte to send, or the video ID if it is complete
+   */
+  private async getUploadStatus(uploadUrl: string, totalBytes: number): Promise<{ nextByte: number; videoId?: string }> {
+    const response = await this.client.put(uploadUrl, null, {
+      headers: {
+        'Content-Range': `bytes */${totalBytes}`
+      },
+      validateStatus: (code) => (code >= 200 && code < 300) || code === 308
+    });
+
+    return this.parseUploadResponse(response.status, response.headers, response.data);
+  }
+
+  /**
+   * A 308 carries a Range header with the bytes received so far
+   * (e.g. "bytes=0-524287"); a 200/201 carries the created video resource
+   */
+  private parseUploadResponse(status: number, headers: any, data: any): { nextByte: number; videoId?: string } {
+    if (status !== 308) {
+      if (!data?.id) {
+        throw new Error('YouTube upload finished without returning a video ID');
+      }
+      return { nextByte: 0, videoId: data.id };
+    }
+
+    const range: string | undefined = headers?.range;
+    const match = range?.match(/bytes=0-(\d+)/);
+    return { nextByte: match ? parseInt(match[1], 10) + 1 : 0 };
+  }
+
+  /**
+   * Get a page of comments for a specific video, newest first
+   * Pass the previous page's `nextPageToken` for the next page
+   */
+  async getComments(videoId: string, maxResults = 100, pageToken?: string) {
+    try {
+      return await this.get<{
+        items: YouTubeCommentThreadResource[];
+        nextPageToken?: string;
+      }>('/commentThreads', {
+        params: {
+          part: 'snippet',
+          videoId,
+          order: 'time',
+          maxResults,
+          pageToken
+        }
+      });
     } catch (error) {
-      this.handleApiError(error);
+      throw this.handleApiError(error);
     }
   }
   
   /**
-   * Get comments for a specific video
+   * Get a page of replies to a top-level comment
+   * Pass the previous page's `nextPageToken` for the next page
    */
-  async getComments(videoId: string, maxResults = 100) {
+  async getReplies(parentId: string, maxResults = 100, pageToken?: string) {
     try {
       return await this.get<{
         items: YouTubeCommentResource[];
         nextPageToken?: string;
-      }>('/commentThreads', {
+      }>('/comments', {
         params: {
           part: 'snippet',
+          parentId,
+          maxResults,
+          pageToken
+        }
+      });
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Add a top-level comment to a video
+   */
+  async addComment(videoId: string, text: string) {
+    try {
+      return await this.post<{ id: string }>('/commentThreads', {
+        snippet: {
           videoId,
-          maxResults
+          topLevelComment: {
+            snippet: {
+              textOriginal: text
+            }
+          }
+        }
+      }, {
+        params: {
+          part: 'snippet'
         }
       });
     } catch (error) {
-      this.handleApiError(error);
+      throw this.handleApiError(error);
     }
   }
-  
+
   /**
    * Reply to a comment
    */
@@ -192,57 +510,193 @@ export default class YouTubeApiService extends BaseApiService {
         }
       });
     } catch (error) {
-      this.handleApiError(error);
+      throw this.handleApiError(error);
     }
   }
   
   /**
    * Delete a comment
    */
-  async deleteComment(commentId: string) {
+  async deleteComment(commentId: string): Promise<void> {
     try {
       await this.delete<void>(`/comments`, {
         params: {
           id: commentId
         }
       });
-      return { success: true };
     } catch (error) {
-      this.handleApiError(error);
+      // Only a comment's author can delete it; the channel removes other people's by rejecting them
+      if (this.mapPlatformError(error)?.code !== 'forbidden') {
+        throw this.handleApiError(error);
+      }
+      await this.setModerationStatus([commentId], 'rejected');
     }
   }
-  
+
   /**
-   * Get basic statistics for the channel
+   * Set the moderation status of comments on the channel's videos
+   * Held comments wait for review out of sight; rejected ones are removed
    */
-  async getAccountStats() {
+  async setModerationStatus(commentIds: string[], moderationStatus: YouTubeModerationStatus, banAuthor = false): Promise<void> {
     try {
-      // Get channel info
-      const channelResponse = await this.get<{ items: any[] }>('/channels', {
+      await this.post<void>('/comments/setModerationStatus', null, {
         params: {
-          part: 'contentDetails,statistics',
-          mine: true
+          id: commentIds.join(','),
+          moderationStatus,
+          banAuthor
         }
       });
-      
-      if (!channelResponse.items || channelResponse.items.length === 0) {
-        throw new Error('No channel found');
-      }
-      
-      const channel = channelResponse.items[0];
-      const uploadsPlaylistId = channel.contentDetails.relatedPlaylists.uploads;
-      const totalVideos = parseInt(channel.statistics.videoCount || '0', 10);
-      
-      // Get recent videos
-      const videosResponse = await this.get<{ items: YouTubeVideoResource[] }>('/playlistItems', {
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Report comments to YouTube as spam
+   */
+  async markAsSpam(commentIds: string[]): Promise<void> {
+    try {
+      await this.post<void>('/comments/markAsSpam', null, {
         params: {
-          part: 'snippet,contentDetails',
-          playlistId: uploadsPlaylistId,
-          maxResults: 10
+          id: commentIds.join(',')
         }
       });
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  async hideComment(commentId: string): Promise<void> {
+    await this.setModerationStatus([commentId], 'heldForReview');
+  }
+
+  async unhideComment(commentId: string): Promise<void> {
+    await this.setModerationStatus([commentId], 'published');
+  }
+
+  async markCommentAsSpam(commentId: string): Promise<void> {
+    await this.markAsSpam([commentId]);
+  }
+
+  /**
+   * Upload the post's video, with the start of the post text as its title
+   */
+  async publish(post: Post, options: AdapterPublishOptions = {}): Promise<string> {
+    this.validateMedia(post);
+    const [video] = post.media;
+
+    const { title, description, tags } = getPlatformVariant(post, this.platform);
+
+    // Upload straight from the original file when we still have it
+    return this.createPost(title || '', description ?? post.content, video.file || video.url, {
+      onProgress: options.onProgress,
+      tags,
+    });
+  }
+
+  validateMedia(post: Post) {
+    assertValidMedia(post, this.platform);
+  }
+
+  async fetchPosts(limit: number = 10): Promise<PlatformPost[]> {
+    try {
+      const { uploads } = await this.getRecentUploads(limit);
+
+      return uploads.map(item => ({
+        id: item.snippet.resourceId.videoId,
+        text: item.snippet.title,
+        createdAt: new Date(item.snippet.publishedAt),
+        url: `https://www.youtube.com/watch?v=${item.snippet.resourceId.videoId}`,
+      }));
+    } catch (error) {
+      throw this.handleApiError(error);
+    }
+  }
+
+  async fetchComments(postId: string, options: FetchCommentsOptions = {}): Promise<PlatformComment[]> {
+    return collectComments(async (pageToken) => {
+      const response = await this.getComments(postId, 100, pageToken);
+
+      const comments = response.items.map(thread => ({
+        ...this.toPlatformComment(thread.snippet.topLevelComment),
+        replyCount: thread.snippet.totalReplyCount,
+      }));
+      return { comments, next: response.nextPageToken };
+    }, options.since);
+  }
+
+  async fetchReplies(_postId: string, commentId: string): Promise<PlatformComment[]> {
+    return collectComments(async (pageToken) => {
+      const response = await this.getReplies(commentId, 100, pageToken);
+      return { comments: response.items.map(reply => this.toPlatformComment(reply)), next: response.nextPageToken };
+    });
+  }
+
+  async comment(postId: string, text: string): Promise<string> {
+    const response = await this.addComment(postId, text);
+    return response.id;
+  }
+
+  async reply(_postId: string, commentId: string, text: string): Promise<string> {
+    const response = await this.replyToComment(commentId, text);
+    return response.id;
+  }
+
+  private toPlatformComment(comment: YouTubeCommentResource): PlatformComment {
+    return {
+      id: comment.id,
+      postId: comment.snippet.videoId,
+      text: comment.snippet.textOriginal,
+      author: {
+        id: comment.snippet.authorChannelId?.value || comment.snippet.authorDisplayName,
+        name: comment.snippet.authorDisplayName,
+        avatarUrl: comment.snippet.authorProfileImageUrl || undefined,
+      },
+      likes: comment.snippet.likeCount,
+      createdAt: new Date(comment.snippet.publishedAt),
+      parentId: comment.snippet.parentId,
+    };
+  }
+
+  /**
+   * The channel's latest uploads and its total video count
+   */
+  private async getRecentUploads(maxResults: number): Promise<{ uploads: YouTubePlaylistItemResource[]; totalVideos: number }> {
+    const channelResponse = await this.get<{ items: any[] }>('/channels', {
+      params: {
+        part: 'contentDetails,statistics',
+        mine: true
+      }
+    });
+
+    if (!channelResponse.items || channelResponse.items.length === 0) {
+      throw new Error('No channel found');
+    }
+
+    const channel = channelResponse.items[0];
+    const playlistResponse = await this.get<{ items: YouTubePlaylistItemResource[] }>('/playlistItems', {
+      params: {
+        part: 'snippet,contentDetails',
+        playlistId: channel.contentDetails.relatedPlaylists.uploads,
+        maxResults
+      }
+    });
+
+    return {
+      uploads: playlistResponse.items,
+      totalVideos: parseInt(channel.statistics.videoCount || '0', 10),
+    };
+  }
+  
+  /**
+   * Get basic statistics for the channel
+   */
+  async getStats(): Promise<PlatformStats> {
+    try {
+      // Get recent videos
+      const { uploads, totalVideos } = await this.getRecentUploads(10);
       
-      const videoIds = videosResponse.items.map(item => item.snippet.resourceId.videoId).join(',');
+      const videoIds = uploads.map(item => item.snippet.resourceId.videoId).join(',');
       
       // Get video statistics
       const videoDetailsResponse = await this.get<{ items: YouTubeVideoResource[] }>('/videos', {
@@ -296,7 +750,7 @@ export default class YouTubeApiService extends BaseApiService {
         recentActivity: recentActivity.slice(0, 5)
       };
     } catch (error) {
-      this.handleApiError(error);
+      throw this.handleApiError(error);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,646 @@
+import type InstagramApiService from './InstagramApiService';
+import type YouTubeApiService from './YouTubeApiService';
+import type TikTokApiService from './TikTokApiService';
+import type FacebookApiService from './FacebookApiService';
+import { INSTAGRAM_CAPABILITIES } from './InstagramApiService';
+import { YOUTUBE_CAPABILITIES, YouTubeModerationStatus, YouTubeUploadOptions } from './YouTubeApiService';
+import { TIKTOK_CAPABILITIES, TikTokUploadOptions } from './TikTokApiService';
+import { FACEBOOK_CAPABILITIES } from './FacebookApiService';
+import { ApiError, UnsupportedOperationError } from './errors';
+import { AdapterPublishOptions, assertValidMedia, FetchCommentsOptions, PlatformAdapter, PlatformCapabilities, PlatformComment, PlatformPost } from './PlatformAdapter';
+import { getPlatformVariant } from '../lib/postVariants';
+import { Account, FacebookPage, InstagramPostOptions, MediaItem, Platform, PlatformAccount, PlatformStats, Post, TikTokCreatorInfo, TikTokPostOptions, UploadProgress } from '../types';
+
+/**
+ * In-memory stand-ins for the platform services, used in demo mode
+ *
+ * Each demo service keeps the posts and comments created through it for as
+ * long as the page is open, so the app can be tried without connecting real
+ * accounts. Nothing here makes network requests. Every ID is prefixed with
+ * `demo_` so demo data is easy to tell apart.
+ */
+
+// The public methods of a service, which its demo counterpart implements
+export type PublicApi<T> = Pick<T, keyof T>;
+
+// Pretend network latency, so loading states are visible
+const DEMO_LATENCY = 400;
+// Tokens issued by the demo services last 60 days, like Meta's long-lived tokens
+const DEMO_TOKEN_LIFETIME_SECONDS = 60 * 24 * 60 * 60;
+
+const SAMPLE_COMMENTS = [
+  { author: 'Alex Rivera', text: 'Love this! 🔥' },
+  { author: 'Sam Chen', text: 'Where was this taken?' },
+  { author: 'Jordan Lee', text: 'Great post, keep it up' },
+];
+
+interface DemoComment {
+  id: string;
+  text: string;
+  author: string;
+  createdAt: Date;
+  likes: number;
+  parentId?: string; // Set on replies
+  hidden?: boolean;
+  spam?: boolean;
+}
+
+interface DemoPost {
+  id: string;
+  content: string;
+  media: MediaItem[];
+  createdAt: Date;
+  comments: DemoComment[];
+}
+
+let demoIdCounter = 0;
+
+const demoId = (prefix: string) => `demo_${prefix}_${Date.now().toString(36)}${++demoIdCounter}`;
+
+const wait = (ms: number = DEMO_LATENCY) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Posts and comments created through one demo service
+ */
+class DemoContent {
+  private posts: DemoPost[] = [];
+
+  constructor(private readonly platform: Platform, private readonly prefix: string) {}
+
+  addPost(content: string, media: MediaItem[] = []): DemoPost {
+    const createdAt = new Date();
+    const post: DemoPost = {
+      id: demoId(this.prefix),
+      content,
+      media,
+      createdAt,
+      // Every new post gets a couple of comments to reply to
+      comments: SAMPLE_COMMENTS.slice(0, 2).map((sample, index) => ({
+        id: demoId(`${this.prefix}_comment`),
+        text: sample.text,
+        author: sample.author,
+        createdAt: new Date(createdAt.getTime() + (index + 1) * 60 * 1000),
+        likes: index * 3,
+      })),
+    };
+
+    this.posts.unshift(post);
+    return post;
+  }
+
+  listPosts(limit?: number): DemoPost[] {
+    return this.posts.slice(0, limit);
+  }
+
+  getPost(postId: string): DemoPost {
+    const post = this.posts.find(p => p.id === postId);
+    if (!post) {
+      throw new ApiError(`Demo post ${postId} not found`, { platform: this.platform, status: 404 });
+    }
+    return post;
+  }
+
+  addComment(postId: string, text: string, author: string, parentId?: string): DemoComment {
+    const comment: DemoComment = {
+      id: demoId(`${this.prefix}_comment`),
+      text,
+      author,
+      createdAt: new Date(),
+      likes: 0,
+      parentId,
+    };
+
+    this.getPost(postId).comments.push(comment);
+    return comment;
+  }
+
+  /**
+   * A post's top-level comments, oldest first
+   */
+  getComments(postId: string): DemoComment[] {
+    return this.getPost(postId).comments.filter(comment => !comment.parentId);
+  }
+
+  /**
+   * The replies to a comment, oldest first
+   */
+  getReplies(commentId: string): DemoComment[] {
+    return this.findCommentPost(commentId).comments.filter(comment => comment.parentId === commentId);
+  }
+
+  /**
+   * Find the post holding a comment, for APIs that address comments by ID alone
+   */
+  findCommentPost(commentId: string): DemoPost {
+    const post = this.posts.find(p => p.comments.some(c => c.id === commentId));
+    if (!post) {
+      throw new ApiError(`Demo comment ${commentId} not found`, { platform: this.platform, status: 404 });
+    }
+    return post;
+  }
+
+  findComment(commentId: string): DemoComment {
+    return this.findCommentPost(commentId).comments.find(c => c.id === commentId)!;
+  }
+
+  deleteComment(commentId: string) {
+    const post = this.findCommentPost(commentId);
+    post.comments = post.comments.filter(c => c.id !== commentId && c.parentId !== commentId);
+  }
+
+  getStats(): PlatformStats {
+    const totalComments = this.posts.reduce((sum, post) => sum + post.comments.length, 0);
+    const recentActivity = this.posts.flatMap(post => [
+      { date: post.createdAt, type: 'post' as const, content: post.content },
+      ...post.comments.map(comment => ({ date: comment.createdAt, type: 'comment' as const, content: comment.text })),
+    ]);
+
+    recentActivity.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    return {
+      platform: this.platform,
+      totalPosts: this.posts.length,
+      totalComments,
+      engagementRate: this.posts.length > 0 ? totalComments / this.posts.length : 0,
+      recentActivity: recentActivity.slice(0, 5),
+    };
+  }
+}
+
+/**
+ * Report upload progress in a few steps, as a real chunked upload would
+ */
+async function simulateUpload(media: File | string, onProgress?: (progress: UploadProgress) => void) {
+  const totalBytes = typeof media === 'string' ? 0 : media.size;
+
+  for (const percent of [0, 25, 50, 75, 100]) {
+    onProgress?.({ bytesUploaded: Math.round((totalBytes * percent) / 100), totalBytes, percent });
+    await wait(DEMO_LATENCY / 2);
+  }
+}
+
+/**
+ * A username-like handle from an account's display name
+ */
+function getDemoHandle(account: Account): string {
+  return account.displayName.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.|\.$/g, '') || `demo.${account.platform}`;
+}
+
+/**
+ * The PlatformAdapter operations, shared by every demo service
+ * Operations the real platform does not offer fail the same way here
+ */
+abstract class DemoPlatformAdapter<P extends Platform> implements PlatformAdapter {
+  abstract readonly capabilities: PlatformCapabilities;
+  protected content: DemoContent;
+
+  constructor(protected readonly account: PlatformAccount<P>, prefix: string) {
+    this.content = new DemoContent(account.platform, prefix);
+  }
+
+  abstract publish(post: Post, options?: AdapterPublishOptions): Promise<string>;
+
+  validateMedia(post: Post) {
+    assertValidMedia(post, this.account.platform);
+  }
+
+  async fetchPosts(limit?: number): Promise<PlatformPost[]> {
+    await wait();
+    return this.content.listPosts(limit).map(post => ({
+      id: post.id,
+      text: post.content,
+      createdAt: post.createdAt,
+      mediaUrl: post.media[0]?.url,
+      commentCount: post.comments.length,
+    }));
+  }
+
+  async fetchComments(postId: string, options: FetchCommentsOptions = {}): Promise<PlatformComment[]> {
+    this.requireCapability('fetchComments', 'Reading comments');
+    await wait();
+    const { since } = options;
+    return this.content.getComments(postId)
+      .filter(comment => !since || comment.createdAt >= since)
+      .reverse()
+      .map(comment => ({
+        ...this.toPlatformComment(postId, comment),
+        replyCount: this.content.getReplies(comment.id).length,
+      }));
+  }
+
+  async fetchReplies(postId: string, commentId: string): Promise<PlatformComment[]> {
+    this.requireCapability('fetchComments', 'Reading comments');
+    await wait();
+    return this.content.getReplies(commentId).map(reply => this.toPlatformComment(postId, reply));
+  }
+
+  async comment(postId: string, text: string): Promise<string> {
+    this.requireCapability('comment', 'Commenting');
+    await wait();
+    return this.content.addComment(postId, text, this.getReplyAuthor()).id;
+  }
+
+  async reply(postId: string, commentId: string, text: string): Promise<string> {
+    this.requireCapability('reply', 'Replying to comments');
+    await wait();
+    return this.content.addComment(postId, text, this.getReplyAuthor(), commentId).id;
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    this.requireCapability('deleteComment', 'Deleting comments');
+    await wait();
+    this.content.deleteComment(commentId);
+  }
+
+  async hideComment(commentId: string): Promise<void> {
+    this.requireCapability('hideComment', 'Hiding comments');
+    await wait();
+    this.content.findComment(commentId).hidden = true;
+  }
+
+  async unhideComment(commentId: string): Promise<void> {
+    this.requireCapability('hideComment', 'Hiding comments');
+    await wait();
+    this.content.findComment(commentId).hidden = false;
+  }
+
+  async markCommentAsSpam(commentId: string): Promise<void> {
+    this.requireCapability('markSpam', 'Reporting spam');
+    await wait();
+    this.content.findComment(commentId).spam = true;
+  }
+
+  async getStats(): Promise<PlatformStats> {
+    await wait();
+    return this.content.getStats();
+  }
+
+  /**
+   * The name our own replies are posted under
+   */
+  protected getReplyAuthor(): string {
+    return this.account.displayName;
+  }
+
+  private toPlatformComment(postId: string, comment: DemoComment): PlatformComment {
+    return {
+      id: comment.id,
+      postId,
+      text: comment.text,
+      author: { id: `demo_user_${comment.author.replace(/\s+/g, '')}`, name: comment.author },
+      likes: comment.likes,
+      createdAt: comment.createdAt,
+      parentId: comment.parentId,
+    };
+  }
+
+  private requireCapability(capability: keyof PlatformCapabilities, operation: string) {
+    if (!this.capabilities[capability]) {
+      throw new UnsupportedOperationError(`${operation} is not supported on ${this.account.platform}`, { platform: this.account.platform });
+    }
+  }
+}
+
+export class DemoInstagramApiService extends DemoPlatformAdapter<'instagram'> implements PublicApi<InstagramApiService> {
+  readonly capabilities = INSTAGRAM_CAPABILITIES;
+
+  constructor(account: PlatformAccount<'instagram'>) {
+    super(account, 'ig');
+  }
+
+  async publish(post: Post, options: AdapterPublishOptions = {}) {
+    this.validateMedia(post);
+    return this.createPost(post.content, post.media, post.instagramOptions, options);
+  }
+
+  async exchangeForLongLivedToken(_appSecret: string) {
+    await wait();
+    return { accessToken: demoId('ig_token'), expiresIn: DEMO_TOKEN_LIFETIME_SECONDS };
+  }
+
+  async refreshLongLivedToken() {
+    return this.exchangeForLongLivedToken('');
+  }
+
+  async getBasicProfileInfo() {
+    await wait();
+    return { id: `demo_ig_user_${this.account.id}`, username: getDemoHandle(this.account) };
+  }
+
+  async createPost(caption: string, media: MediaItem[], _options?: InstagramPostOptions, publishOptions: AdapterPublishOptions = {}) {
+    await wait();
+    publishOptions.onProcessing?.();
+    await wait();
+    return this.content.addPost(caption, media).id;
+  }
+
+  async getPostDetails(mediaId: string) {
+    await wait();
+    return this.toMedia(this.content.getPost(mediaId));
+  }
+
+  async getMedia(limit: number = 25, _forceRefresh?: boolean) {
+    await wait();
+    return this.content.listPosts(limit).map(post => this.toMedia(post));
+  }
+
+  async getComments(mediaId: string, _forceRefresh?: boolean) {
+    await wait();
+    return { data: this.content.getComments(mediaId).reverse().map(comment => this.toComment(comment)) };
+  }
+
+  async getReplies(commentId: string) {
+    await wait();
+    return { data: this.content.getReplies(commentId).map(reply => this.toComment(reply)) };
+  }
+
+  async replyToComment(mediaId: string, commentText: string, commentId?: string) {
+    await wait();
+    return { id: this.content.addComment(mediaId, commentText, this.getReplyAuthor(), commentId).id };
+  }
+
+  async setCommentHidden(commentId: string, hidden: boolean) {
+    await (hidden ? this.hideComment(commentId) : this.unhideComment(commentId));
+  }
+
+  protected getReplyAuthor() {
+    return getDemoHandle(this.account);
+  }
+
+  private toComment(comment: DemoComment) {
+    return {
+      id: comment.id,
+      text: comment.text,
+      timestamp: comment.createdAt.toISOString(),
+      username: comment.author.toLowerCase().replace(/\s+/g, '.'),
+      like_count: comment.likes,
+    };
+  }
+
+  private toMedia(post: DemoPost) {
+    const [firstMedia] = post.media;
+    return {
+      id: post.id,
+      media_type: post.media.length > 1 ? 'CAROUSEL_ALBUM' : firstMedia?.type === 'video' ? 'VIDEO' : 'IMAGE',
+      media_url: firstMedia?.url,
+      permalink: `https://www.instagram.com/p/${post.id}/`,
+      timestamp: post.createdAt.toISOString(),
+      caption: post.content,
+    };
+  }
+}
+
+export class DemoYouTubeApiService extends DemoPlatformAdapter<'youtube'> implements PublicApi<YouTubeApiService> {
+  readonly capabilities = YOUTUBE_CAPABILITIES;
+
+  constructor(account: PlatformAccount<'youtube'>) {
+    super(account, 'yt');
+  }
+
+  async publish(post: Post, options: AdapterPublishOptions = {}) {
+    this.validateMedia(post);
+    const [video] = post.media;
+    const { title, description } = getPlatformVariant(post, this.account.platform);
+    return this.createPost(title || '', description ?? post.content, video.file || video.url, options);
+  }
+
+  async createPost(title: string, _description: string, media: File | string, options: YouTubeUploadOptions = {}) {
+    await simulateUpload(media, options.onProgress);
+    return this.content.addPost(title).id;
+  }
+
+  async getComments(videoId: string, maxResults = 100) {
+    await wait();
+    return {
+      items: this.content.getComments(videoId).reverse().slice(0, maxResults).map(comment => ({
+        id: comment.id,
+        snippet: {
+          videoId,
+          topLevelComment: this.toCommentResource(videoId, comment),
+          totalReplyCount: this.content.getReplies(comment.id).length,
+          canReply: true,
+        },
+      })),
+    };
+  }
+
+  async getReplies(parentId: string, maxResults = 100) {
+    await wait();
+    const videoId = this.content.findCommentPost(parentId).id;
+    return {
+      items: this.content.getReplies(parentId).slice(0, maxResults).map(reply => this.toCommentResource(videoId, reply)),
+    };
+  }
+
+  async addComment(videoId: string, text: string) {
+    await wait();
+    return { id: this.content.addComment(videoId, text, this.getReplyAuthor()).id };
+  }
+
+  async replyToComment(commentId: string, text: string) {
+    await wait();
+    const post = this.content.findCommentPost(commentId);
+    return { id: this.content.addComment(post.id, text, this.getReplyAuthor(), commentId).id };
+  }
+
+  async setModerationStatus(commentIds: string[], moderationStatus: YouTubeModerationStatus, _banAuthor?: boolean) {
+    for (const commentId of commentIds) {
+      if (moderationStatus === 'rejected') {
+        await this.deleteComment(commentId);
+      } else {
+        await (moderationStatus === 'heldForReview' ? this.hideComment(commentId) : this.unhideComment(commentId));
+      }
+    }
+  }
+
+  async markAsSpam(commentIds: string[]) {
+    for (const commentId of commentIds) {
+      await this.markCommentAsSpam(commentId);
+    }
+  }
+
+  private toCommentResource(videoId: string, comment: DemoComment) {
+    return {
+      id: comment.id,
+      snippet: {
+        videoId,
+        parentId: comment.parentId,
+        textDisplay: comment.text,
+        textOriginal: comment.text,
+        authorDisplayName: comment.author,
+        authorProfileImageUrl: '',
+        authorChannelId: { value: `demo_channel_${comment.author.replace(/\s+/g, '')}` },
+        likeCount: comment.likes,
+        publishedAt: comment.createdAt.toISOString(),
+        updatedAt: comment.createdAt.toISOString(),
+      },
+    };
+  }
+}
+
+export class DemoTikTokApiService extends DemoPlatformAdapter<'tiktok'> implements PublicApi<TikTokApiService> {
+  readonly capabilities = TIKTOK_CAPABILITIES;
+
+  constructor(account: PlatformAccount<'tiktok'>) {
+    super(account, 'tt');
+  }
+
+  async publish(post: Post, options: AdapterPublishOptions = {}) {
+    this.validateMedia(post);
+    if (!post.tiktokOptions) {
+      throw new Error('TikTok post requires a privacy level');
+    }
+    const [video] = post.media;
+    return this.createPost(post.content, video.file || video.url, post.tiktokOptions, options);
+  }
+
+  async getCreatorInfo(): Promise<TikTokCreatorInfo> {
+    await wait();
+    return {
+      username: getDemoHandle(this.account),
+      nickname: this.account.displayName,
+      privacyLevelOptions: ['PUBLIC_TO_EVERYONE', 'MUTUAL_FOLLOW_FRIENDS', 'FOLLOWER_OF_CREATOR', 'SELF_ONLY'],
+      commentDisabled: false,
+      duetDisabled: false,
+      stitchDisabled: false,
+      maxVideoDurationSec: 600,
+    };
+  }
+
+  async createPost(description: string, media: File | string, _postOptions: TikTokPostOptions, uploadOptions: TikTokUploadOptions = {}) {
+    await simulateUpload(media, uploadOptions.onProgress);
+    uploadOptions.onProcessing?.();
+    await wait();
+    return this.content.addPost(description).id;
+  }
+}
+
+export class DemoFacebookApiService extends DemoPlatformAdapter<'facebook'> implements PublicApi<FacebookApiService> {
+  readonly capabilities = FACEBOOK_CAPABILITIES;
+
+  constructor(account: PlatformAccount<'facebook'>) {
+    super(account, 'fb');
+  }
+
+  async publish(post: Post) {
+    this.validateMedia(post);
+    const [media] = post.media;
+    if (media?.file && media.type === 'image') {
+      return this.createPostWithFile(post.content, media.file);
+    }
+    return this.createPost(post.content, media?.url, media?.type);
+  }
+
+  async debugToken() {
+    await wait();
+    return {
+      isValid: true,
+      expiresAt: Date.now() + DEMO_TOKEN_LIFETIME_SECONDS * 1000,
+      scopes: ['pages_show_list', 'pages_manage_posts', 'pages_read_engagement'],
+    };
+  }
+
+  async exchangeForLongLivedToken(_appId: string, _appSecret: string) {
+    await wait();
+    return { accessToken: demoId('fb_token'), expiresIn: DEMO_TOKEN_LIFETIME_SECONDS };
+  }
+
+  async listPages(): Promise<FacebookPage[]> {
+    await wait();
+    return [
+      { id: `demo_fb_page_${this.account.id}`, name: this.account.displayName, accessToken: demoId('fb_page_token'), category: 'Brand' },
+    ];
+  }
+
+  async getBasicProfileInfo() {
+    await wait();
+    return {
+      id: this.account.credentials.pageId || `demo_fb_page_${this.account.id}`,
+      name: this.account.credentials.pageName || this.account.displayName,
+    };
+  }
+
+  async createPostWithFile(message: string, file: File) {
+    await wait();
+    return this.content.addPost(message, [{ url: file.name, type: file.type.startsWith('video/') ? 'video' : 'image', file }]).id;
+  }
+
+  async createPost(message: string, mediaUrl?: string, mediaType?: 'image' | 'video') {
+    await wait();
+    return this.content.addPost(message, mediaUrl ? [{ url: mediaUrl, type: mediaType || 'image' }] : []).id;
+  }
+
+  async getPosts(limit: number = 10) {
+    await wait();
+    return {
+      data: this.content.listPosts(limit).map(post => ({
+        id: post.id,
+        message: post.content,
+        created_time: post.createdAt.toISOString(),
+        permalink_url: `https://www.facebook.com/${post.id}`,
+        full_picture: post.media[0]?.type === 'image' ? post.media[0].url : undefined,
+      })),
+    };
+  }
+
+  async getComments(postId: string) {
+    await wait();
+    return {
+      data: this.content.getComments(postId).reverse().map(comment => ({
+        ...this.toComment(comment),
+        comment_count: this.content.getReplies(comment.id).length,
+      })),
+    };
+  }
+
+  async getReplies(commentId: string) {
+    await wait();
+    return { data: this.content.getReplies(commentId).map(reply => this.toComment(reply)) };
+  }
+
+  async commentOnPost(postId: string, message: string) {
+    await wait();
+    return { id: this.content.addComment(postId, message, this.getReplyAuthor()).id };
+  }
+
+  async replyToComment(postId: string, message: string, commentId: string) {
+    await wait();
+    return { id: this.content.addComment(postId, message, this.getReplyAuthor(), commentId).id };
+  }
+
+  async setCommentHidden(commentId: string, hidden: boolean) {
+    await (hidden ? this.hideComment(commentId) : this.unhideComment(commentId));
+  }
+
+  async removeComment(commentId: string) {
+    await this.deleteComment(commentId);
+  }
+
+  private toComment(comment: DemoComment) {
+    return {
+      id: comment.id,
+      message: comment.text,
+      created_time: comment.createdAt.toISOString(),
+      from: { id: `demo_fb_user_${comment.author.replace(/\s+/g, '')}`, name: comment.author },
+      like_count: comment.likes,
+    };
+  }
+}
+
+export type DemoApiService = DemoInstagramApiService | DemoYouTubeApiService | DemoTikTokApiService | DemoFacebookApiService;
+
+/**
+ * Create the demo service for an account
+ */
+export function createDemoApiService(account: Account): DemoApiService {
+  switch (account.platform) {
+    case 'instagram':
+      return new DemoInstagramApiService(account);
+    case 'youtube':
+      return new DemoYouTubeApiService(account);
+    case 'tiktok':
+      return new DemoTikTokApiService(account);
+    case 'facebook':
+      return new DemoFacebookApiService(account);
+  }
+}
@@ -0,0 +1,211 @@
+import { Platform } from '../types';
+
+/**
+ * Typed API errors
+ *
+ * Every service turns failed requests into one of these classes so callers
+ * can react with `instanceof` instead of matching on message text. Each error
+ * carries the platform, the HTTP status, the platform's own error code and
+ * subcode, and whether trying again later could succeed.
+ */
+
+export interface ApiErrorDetails {
+  platform?: Platform;
+  status?: number;
+  code?: number | string;
+  subcode?: number | string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly platform?: Platform;
+  readonly status?: number;
+  readonly code?: number | string;
+  readonly subcode?: number | string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.platform = details.platform;
+    this.status = details.status;
+    this.code = details.code;
+    this.subcode = details.subcode;
+    this.retryable = details.retryable ?? false;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The access token is invalid, expired or was revoked; the user has to reconnect
+ */
+export class AuthExpiredError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: false });
+    this.name = 'AuthExpiredError';
+  }
+}
+
+/**
+ * The platform throttled us; `retryAfter` is how long it asked us to wait, in ms
+ */
+export class RateLimitedError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfter?: number } = {}) {
+    super(message, { retryable: true, ...details });
+    this.name = 'RateLimitedError';
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The platform refused the uploaded media (format, size, duration, unreachable URL)
+ */
+export class MediaRejectedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { retryable: false, ...details });
+    this.name = 'MediaRejectedError';
+  }
+}
+
+/**
+ * The token is valid but lacks a permission or scope needed for this call
+ */
+export class PermissionMissingError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: false });
+    this.name = 'PermissionMissingError';
+  }
+}
+
+/**
+ * No response was received from the platform
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The platform, or our integration with it, does not offer this operation
+ */
+export class UnsupportedOperationError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: false });
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
+/**
+ * None of the connected accounts is the one to use, e.g. the account a comment's post
+ * was published from was removed; the user has to connect it again
+ */
+export class AccountNotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: false });
+    this.name = 'AccountNotFoundError';
+  }
+}
+
+/**
+ * An earlier attempt may have published the post and we could not check, so it
+ * was not published again; retrying checks again
+ */
+export class PublishUnverifiedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { ...details, retryable: true });
+    this.name = 'PublishUnverifiedError';
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Extract the most useful message from an API error response body
+ */
+export function getResponseMessage(data: any, fallback: string): string {
+  if (data?.error?.message) {
+    return data.error.message;
+  } else if (data?.message) {
+    return data.message;
+  } else if (data?.error_message) {
+    return data.error_message;
+  } else if (typeof data === 'string' && data) {
+    return data;
+  }
+  return fallback;
+}
+
+// The body of a failed Graph API response
+export interface GraphErrorResponse {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: number;
+    error_subcode?: number;
+    error_user_msg?: string;
+    is_transient?: boolean;
+  };
+}
+
+// Graph API codes shared by Facebook and Instagram
+const GRAPH_AUTH_CODES = [102, 190];
+const GRAPH_PERMISSION_CODES = [3, 10];
+const GRAPH_RATE_LIMIT_CODES = [4, 17, 32, 613];
+const GRAPH_TEMPORARY_CODES = [1, 2];
+
+/**
+ * Whether a Graph API error code means "slow down" rather than "bad request"
+ * Business use case limits are reported as 80001-80014
+ */
+export function isGraphRateLimitCode(code: number | undefined): boolean {
+  return code !== undefined && (GRAPH_RATE_LIMIT_CODES.includes(code) || (code >= 80000 && code < 80100));
+}
+
+/**
+ * Map an error from the Facebook/Instagram Graph API to a typed error.
+ * Returns undefined when the response does not carry a Graph error object.
+ * https://developers.facebook.com/docs/graph-api/guides/error-handling
+ */
+export function mapGraphApiError(platform: Platform, error: any): ApiError | undefined {
+  const graphError = error?.response?.data?.error;
+  if (!graphError || typeof graphError.code !== 'number') {
+    return undefined;
+  }
+
+  const details: ApiErrorDetails = {
+    platform,
+    status: error.response.status,
+    code: graphError.code,
+    subcode: graphError.error_subcode,
+    cause: error,
+  };
+  const message = graphError.error_user_msg || graphError.message || 'Unknown Graph API error';
+  const code: number = graphError.code;
+
+  if (GRAPH_AUTH_CODES.includes(code)) {
+    return new AuthExpiredError(`Authentication error: ${message}. Please reconnect your ${platform} account.`, details);
+  }
+
+  // Codes 200-299 are all missing-permission errors
+  if (GRAPH_PERMISSION_CODES.includes(code) || (code >= 200 && code < 300)) {
+    return new PermissionMissingError(`Permission missing: ${message}`, details);
+  }
+
+  if (isGraphRateLimitCode(code)) {
+    return new RateLimitedError(`Rate limited by ${platform}: ${message}`, details);
+  }
+
+  if (GRAPH_TEMPORARY_CODES.includes(code) || graphError.is_transient) {
+    return new ApiError(`Temporary ${platform} error: ${message}`, { ...details, retryable: true });
+  }
+
+  return undefined;
+}
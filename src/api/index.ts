@@ -1,209 +1,386 @@
+import axios from 'axios';
 import InstagramApiService from './InstagramApiService';
 import YouTubeApiService from './YouTubeApiService';
 import TikTokApiService from './TikTokApiService';
 import FacebookApiService from './FacebookApiService';
 import useSettingsStore from '../store/useSettingsStore';
-import { Platform, Post } from '../types';
+import { Account, Platform, PlatformPublishResult, PlatformStats, Post, PostTarget, PublishEvent } from '../types';
+import { isApiError, PublishUnverifiedError, RateLimitedError } from './errors';
+import { createDemoApiService, DemoFacebookApiService, DemoInstagramApiService, DemoTikTokApiService, PublicApi } from './demoServices';
+import { findPublishedPost, PlatformAdapter } from './PlatformAdapter';
+import { applyPlatformVariant, getPlatformVariant } from '../lib/postVariants';
+import { whenPersisted } from '../lib/persistentStorage';
+import { isUsableAccount } from '../lib/accounts';
 
 /**
- * API factory that provides platform-specific API services
+ * API factory that provides account-specific API services
  */
 class SocialMediaApiFactory {
-  private instagramApi: InstagramApiService | null = null;
-  private youtubeApi: YouTubeApiService | null = null;
-  private tiktokApi: TikTokApiService | null = null;
-  private facebookApi: FacebookApiService | null = null;
+  // One service per account, created on first use
+  // These are the real services, or in demo mode the in-memory stand-ins of the demo accounts
+  private services: Map<string, PlatformAdapter> = new Map();
+  // Whether the cached services are demo services
+  private servicesDemoMode = false;
 
   /**
-   * Get API service for a specific platform
+   * Get API service for a specific account
    */
-  getApiService(platform: Platform) {
+  getApiService(accountId: string): PlatformAdapter {
     const settings = useSettingsStore.getState();
-    const isEnabled = settings.platformsEnabled[platform];
+    const account = settings.getAccount(accountId);
 
-    if (!isEnabled) {
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    if (!settings.platformsEnabled[account.platform]) {
+      throw new Error(`Platform ${account.platform} is not enabled`);
+    }
+
+    if (!isUsableAccount(account, settings.demoMode)) {
+      throw new Error(settings.demoMode
+        ? `${account.displayName} is a real account. Turn off demo mode to use it.`
+        : `${account.displayName} is a demo account and only works in demo mode`);
+    }
+
+    // Switching demo mode swaps every service
+    if (settings.demoMode !== this.servicesDemoMode) {
+      this.services.clear();
+      this.servicesDemoMode = settings.demoMode;
+    }
+
+    let service = this.services.get(accountId);
+    if (!service) {
+      service = settings.demoMode ? createDemoApiService(account) : this.createApiService(account);
+      this.services.set(accountId, service);
+    }
+
+    return service;
+  }
+
+  /**
+   * Get API service for the first usable account on a platform
+   * Used by views that show one account per platform
+   */
+  getDefaultApiService(platform: Platform): PlatformAdapter {
+    const settings = useSettingsStore.getState();
+
+    if (!settings.platformsEnabled[platform]) {
       throw new Error(`Platform ${platform} is not enabled`);
     }
 
-    switch (platform) {
-      case 'instagram':
-        if (!this.instagramApi) {
-          try {
-            this.instagramApi = new InstagramApiService();
-          } catch (error) {
-            console.error('Failed to initialize Instagram API', error);
-            throw new Error('Instagram API is not properly configured');
-          }
-        }
-        return this.instagramApi;
-
-      case 'youtube':
-        if (!this.youtubeApi) {
-          try {
-            this.youtubeApi = new YouTubeApiService();
-          } catch (error) {
-            console.error('Failed to initialize YouTube API', error);
-            throw new Error('YouTube API is not properly configured');
-          }
-        }
-        return this.youtubeApi;
-
-      case 'tiktok':
-        if (!this.tiktokApi) {
-          try {
-            this.tiktokApi = new TikTokApiService();
-          } catch (error) {
-            console.error('Failed to initialize TikTok API', error);
-            throw new Error('TikTok API is not properly configured');
-          }
-        }
-        return this.tiktokApi;
-
-      case 'facebook':
-        if (!this.facebookApi) {
-          try {
-            this.facebookApi = new FacebookApiService();
-          } catch (error) {
-            console.error('Failed to initialize Facebook API', error);
-            throw new Error('Facebook API is not properly configured');
-          }
-        }
-        return this.facebookApi;
+    const account = settings.getAccountsByPlatform(platform).find(account => isUsableAccount(account, settings.demoMode));
+    if (!account) {
+      throw new Error(`No ${platform} account is connected`);
+    }
+
+    return this.getApiService(account.id);
+  }
+
+  /**
+   * Get the Instagram service of an account, for Instagram-only calls
+   */
+  getInstagramService(accountId: string): PublicApi<InstagramApiService> {
+    const service = this.getApiService(accountId);
+    if (service instanceof InstagramApiService || service instanceof DemoInstagramApiService) {
+      return service;
+    }
+    throw new Error(`Account ${accountId} is not an Instagram account`);
+  }
 
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
+  /**
+   * Get the Facebook service of an account, for Facebook-only calls
+   */
+  getFacebookService(accountId: string): PublicApi<FacebookApiService> {
+    const service = this.getApiService(accountId);
+    if (service instanceof FacebookApiService || service instanceof DemoFacebookApiService) {
+      return service;
     }
+    throw new Error(`Account ${accountId} is not a Facebook account`);
   }
 
   /**
-   * Reset API services (e.g. after credentials change)
+   * Get the TikTok service of an account, for TikTok-only calls
    */
-  resetApiService(platform: Platform) {
-    switch (platform) {
-      case 'instagram':
-        this.instagramApi = null;
-        break;
-      case 'youtube':
-        this.youtubeApi = null;
-        break;
-      case 'tiktok':
-        this.tiktokApi = null;
-        break;
-      case 'facebook':
-        this.facebookApi = null;
-        break;
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
+  getTikTokService(accountId: string): PublicApi<TikTokApiService> {
+    const service = this.getApiService(accountId);
+    if (service instanceof TikTokApiService || service instanceof DemoTikTokApiService) {
+      return service;
+    }
+    throw new Error(`Account ${accountId} is not a TikTok account`);
+  }
+
+  private createApiService(account: Account): PlatformAdapter {
+    try {
+      switch (account.platform) {
+        case 'instagram':
+          return new InstagramApiService(account);
+        case 'youtube':
+          return new YouTubeApiService(account);
+        case 'tiktok':
+          return new TikTokApiService(account);
+        case 'facebook':
+          return new FacebookApiService(account);
+      }
+    } catch (error) {
+      console.error(`Failed to initialize ${account.platform} API for account ${account.displayName}`, error);
+      throw new Error(`${account.platform} API is not properly configured for ${account.displayName}`);
     }
   }
+
+  /**
+   * Reset an account's API service (e.g. after its credentials change)
+   */
+  resetApiService(accountId: string) {
+    this.services.delete(accountId);
+  }
 }
 
 export const apiFactory = new SocialMediaApiFactory();
 
+/**
+ * Whether the error was raised after a request went out to the platform
+ * Errors from checks made before calling the platform (missing options, an open circuit) were not
+ */
+function wasRequestSent(error: any): boolean {
+  if (isApiError(error)) {
+    return error.status !== undefined || wasRequestSent(error.cause);
+  }
+  return axios.isAxiosError(error) && !!error.request;
+}
+
+/**
+ * Extract an error code and a readable message from a failed publish
+ */
+function getPublishErrorDetails(error: any): Pick<PlatformPublishResult, 'errorCode' | 'errorMessage' | 'errorType' | 'retryable' | 'mayHavePublished'> {
+  if (isApiError(error)) {
+    const code = error.subcode !== undefined ? `${error.code}/${error.subcode}` : error.code ?? error.status;
+
+    return {
+      errorCode: code !== undefined ? String(code) : undefined,
+      errorMessage: error.message,
+      errorType: error.name,
+      retryable: error.retryable,
+      // A publish takes several requests, and any of them failing may leave the post created
+      // by an earlier one; temporary failures (timeouts, slow processing) can happen after it too
+      mayHavePublished: wasRequestSent(error) || (error.retryable && !(error instanceof RateLimitedError)),
+    };
+  }
+
+  // Raw axios errors still carry the platform's error payload
+  const platformError = error?.response?.data?.error;
+  const code = platformError?.code ?? error?.response?.status ?? error?.code;
+
+  return {
+    errorCode: code !== undefined ? String(code) : undefined,
+    errorMessage: platformError?.message || error?.message || 'Unknown error',
+    mayHavePublished: wasRequestSent(error),
+  };
+}
+
+// How many accounts a post is published to at once
+export const PUBLISH_CONCURRENCY = 3;
+
+/**
+ * The key of one attempt at publishing a post to an account
+ * Calls for the same attempt share one publish instead of creating a second post
+ */
+export function getPublishIdempotencyKey(post: Pick<Post, 'id'>, target: PostTarget, attempt: number): string {
+  return `${post.id}:${target.platform}:${target.accountId}:${attempt}`;
+}
+
+export interface PublishOptions {
+  concurrency?: number; // Defaults to PUBLISH_CONCURRENCY
+  // Called as publishing to each account moves from queued to published or failed
+  // Callers store the result an event carries on the post, including the one sent just before publishing
+  onEvent?: (event: PublishEvent) => void;
+}
+
 /**
  * Service to coordinate cross-platform posting
  */
 export class SocialMediaCoordinator {
+  // Attempts being published, keyed by idempotency key
+  private inFlight: Map<string, Promise<PlatformPublishResult>> = new Map();
+
   /**
-   * Post content to multiple platforms
+   * Post content to every account the post targets, a few accounts at a time
+   * so a slow upload to one platform doesn't hold up the others
+   * Accounts the post is already published to keep their earlier result
+   * Returns one result per account with the platform post ID or the error details
    */
   async publishToMultiplePlatforms(
-    post: Post
-  ): Promise<Record<Platform, string | null>> {
-    const results: Record<Platform, string | null> = {
-      instagram: null,
-      youtube: null,
-      tiktok: null,
-      facebook: null,
+    post: Post,
+    options: PublishOptions = {}
+  ): Promise<Record<string, PlatformPublishResult>> {
+    const results: Record<string, PlatformPublishResult> = {};
+    const queue: PostTarget[] = [];
+
+    for (const target of post.targets) {
+      const previous = post.publishResults?.[target.accountId];
+      if (previous?.status === 'published') {
+        results[target.accountId] = previous;
+      } else {
+        queue.push(target);
+      }
+    }
+
+    console.log("Publishing to accounts:", post.targets);
+    queue.forEach(target => options.onEvent?.({ target, stage: 'queued' }));
+
+    // Each worker takes the next account until none are left
+    const publishNext = async () => {
+      for (let target = queue.shift(); target; target = queue.shift()) {
+        results[target.accountId] = await this.publishToTarget(post, target, options);
+      }
     };
 
-    console.log("Publishing to platforms:", post.platforms);
+    const workers = Math.max(1, Math.min(options.concurrency ?? PUBLISH_CONCURRENCY, queue.length));
+    await Promise.all(Array.from({ length: workers }, publishNext));
+
+    console.log("Publishing results:", results);
+    return results;
+  }
+
+  /**
+   * Publish a post to a single account and describe the outcome
+   * A second call for an attempt that is still running waits for it instead, also when
+   * the post it was given already records that attempt as publishing
+   * Never throws; failures are returned as a failed result
+   */
+  private async publishToTarget(post: Post, target: PostTarget, options: PublishOptions): Promise<PlatformPublishResult> {
+    const previous = post.publishResults?.[target.accountId];
+    const runningKey = previous?.status === 'publishing' ? previous.idempotencyKey : undefined;
+    const isRunning = runningKey !== undefined && this.inFlight.has(runningKey);
+    const attempts = (previous?.attempts || 0) + (isRunning ? 0 : 1);
+    const idempotencyKey = isRunning ? runningKey : getPublishIdempotencyKey(post, target, attempts);
+
+    let attempt = this.inFlight.get(idempotencyKey);
+    if (attempt) {
+      console.log(`Already publishing ${idempotencyKey}, waiting for it`);
+    } else {
+      attempt = this.attemptPublish(post, target, attempts, idempotencyKey, options)
+        .finally(() => this.inFlight.delete(idempotencyKey));
+      this.inFlight.set(idempotencyKey, attempt);
+    }
+
+    const result = await attempt;
+    options.onEvent?.({ target, stage: result.status === 'published' ? 'published' : 'failed', result });
+    return result;
+  }
+
+  private async attemptPublish(
+    post: Post,
+    target: PostTarget,
+    attempts: number,
+    idempotencyKey: string,
+    options: PublishOptions
+  ): Promise<PlatformPublishResult> {
+    const { accountId, platform } = target;
+    const previous = post.publishResults?.[accountId];
+    const startedAt = new Date();
+    // Each platform gets its own caption and media
+    const platformPost = applyPlatformVariant(post, platform);
+    const variant = getPlatformVariant(platformPost, platform);
+
+    options.onEvent?.({ target, stage: 'uploading' });
 
     try {
-      // Process each platform sequentially to better catch and handle errors
-      for (const platform of post.platforms) {
-        try {
-          console.log(`Attempting to publish to ${platform}...`);
-
-          switch (platform) {
-            case 'instagram':
-              if (post.mediaUrl && post.mediaType) {
-                const instagramApi = apiFactory.getApiService('instagram') as InstagramApiService;
-                results[platform] = await instagramApi.createPost(post.content, post.mediaUrl, post.mediaType);
-                console.log(`Successfully published to Instagram with ID: ${results[platform]}`);
-              } else {
-                console.error("Instagram post requires media");
-                results[platform] = null;
-              }
-              break;
-
-            case 'youtube':
-              if (post.mediaUrl && post.mediaType === 'video') {
-                const youtubeApi = apiFactory.getApiService('youtube') as YouTubeApiService;
-                results[platform] = await youtubeApi.createPost(post.content.substring(0, 100), post.content, post.mediaUrl);
-                console.log(`Successfully published to YouTube with ID: ${results[platform]}`);
-              } else {
-                console.error("YouTube post requires video media");
-                results[platform] = null;
-              }
-              break;
-
-            case 'tiktok':
-              if (post.mediaUrl && post.mediaType === 'video') {
-                const tiktokApi = apiFactory.getApiService('tiktok') as TikTokApiService;
-                results[platform] = await tiktokApi.createPost(post.content, post.mediaUrl);
-                console.log(`Successfully published to TikTok with ID: ${results[platform]}`);
-              } else {
-                console.error("TikTok post requires video media");
-                results[platform] = null;
-              }
-              break;
-
-            case 'facebook':
-              try {
-                const facebookApi = apiFactory.getApiService('facebook') as FacebookApiService;
-
-                // If we have the original file, pass it to Facebook for direct upload
-                if (post.mediaFile && post.mediaType === 'image') {
-                  console.log("Using original file for Facebook upload:", post.mediaFile.name);
-                  results[platform] = await facebookApi.createPostWithFile(post.content, post.mediaFile);
-                } else {
-                  // Otherwise use the URL
-                  results[platform] = await facebookApi.createPost(post.content, post.mediaUrl, post.mediaType);
-                }
-
-                console.log(`Successfully published to Facebook with ID: ${results[platform]}`);
-              } catch (error) {
-                console.error("Error publishing to Facebook:", error);
-                results[platform] = null;
-              }
-              break;
-          }
-        } catch (error) {
-          console.error(`Error publishing to ${platform}:`, error);
-          results[platform] = null;
-        }
+      const adapter = apiFactory.getApiService(accountId);
+
+      // The last attempt failed, or was cut short by the app closing, in a way that
+      // may have created the post anyway; publishing again is only safe once we know it didn't
+      let platformPostId: string | undefined;
+      if (previous?.mayHavePublished) {
+        const texts = [variant.caption, variant.title, variant.description].filter((text): text is string => !!text);
+        platformPostId = await this.findEarlierAttempt(adapter, texts, previous);
+      }
+
+      if (platformPostId) {
+        console.log(`Found post ${platformPostId} on ${platform} account ${accountId} from attempt ${previous?.attempts}, not publishing again`);
+      } else {
+        console.log(`Attempting to publish to ${platform} account ${accountId} (${idempotencyKey})...`);
+
+        // Callers store this attempt before the platform can create the post, so if the
+        // app closes before it finishes, the next attempt looks for the post first
+        options.onEvent?.({
+          target,
+          stage: 'uploading',
+          result: { accountId, platform, status: 'publishing', mayHavePublished: true, attempts, idempotencyKey, startedAt },
+        });
+        await whenPersisted();
+
+        platformPostId = await adapter.publish(platformPost, {
+          onProgress: (progress) => options.onEvent?.({ target, stage: 'uploading', progress }),
+          onProcessing: () => options.onEvent?.({ target, stage: 'processing' }),
+        });
       }
+
+      console.log(`Successfully published to ${platform} account ${accountId} with ID: ${platformPostId}`);
+
+      // The post is live either way; a first comment that fails is only reported
+      const firstCommentError = variant.firstComment?.trim()
+        ? await this.addFirstComment(adapter, platformPostId, variant.firstComment)
+        : undefined;
+
+      return {
+        accountId,
+        platform,
+        status: 'published',
+        platformPostId,
+        firstCommentError,
+        attempts,
+        idempotencyKey,
+        startedAt,
+        completedAt: new Date(),
+      };
     } catch (error) {
-      console.error("Error in publishToMultiplePlatforms:", error);
-    }
+      console.error(`Error publishing to ${platform} account ${accountId}:`, error);
 
-    console.log("Publishing results:", results);
-    return results;
+      return {
+        accountId,
+        platform,
+        status: 'failed',
+        ...getPublishErrorDetails(error),
+        attempts,
+        idempotencyKey,
+        startedAt,
+        completedAt: new Date(),
+      };
+    }
   }
 
   /**
-   * Fetch comments from all enabled platforms
+   * Comment on a newly published post
+   * Returns why the comment could not be added, or undefined when it was
    */
-  async fetchAllPlatformComments() {
-    const settings = useSettingsStore.getState();
-    const enabledPlatforms = Object.entries(settings.platformsEnabled)
-      .filter(([_, enabled]) => enabled)
-      .map(([platform]) => platform as Platform);
+  private async addFirstComment(adapter: PlatformAdapter, platformPostId: string, text: string): Promise<string | undefined> {
+    if (!adapter.capabilities.comment) {
+      return 'This platform does not support comments';
+    }
 
-    // Implementation would depend on how posts are stored and tracked
-    // This is a placeholder for the actual implementation
-    console.log('Fetching comments from platforms:', enabledPlatforms);
+    try {
+      await adapter.comment(platformPostId, text.trim());
+      return undefined;
+    } catch (error) {
+      console.error(`Error adding the first comment to ${platformPostId}:`, error);
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  /**
+   * The platform ID of a post created by a failed attempt, if there is one
+   * Throws when the platform can't tell us, so we don't risk a duplicate
+   */
+  private async findEarlierAttempt(adapter: PlatformAdapter, texts: string[], previous: PlatformPublishResult): Promise<string | undefined> {
+    try {
+      return await findPublishedPost(adapter, texts, previous.startedAt);
+    } catch (error) {
+      throw new PublishUnverifiedError(
+        `Could not check whether the last attempt published to ${previous.platform}, so it was not published again: ${error instanceof Error ? error.message : error}`,
+        { platform: previous.platform, cause: error }
+      );
+    }
   }
 
   /**
@@ -215,21 +392,40 @@ export class SocialMediaCoordinator {
       .filter(([_, enabled]) => enabled)
       .map(([platform]) => platform as Platform);
 
-    const results = {};
-
     for (const platform of enabledPlatforms) {
-      try {
-        const api = apiFactory.getApiService(platform);
-        const stats = await api.getAccountStats();
-        if (stats) {
-          settings.updatePlatformStats(platform, stats);
+      // Combine the stats of every account on the platform
+      const accountStats: PlatformStats[] = [];
+
+      for (const account of settings.getAccountsByPlatform(platform)) {
+        try {
+          const api = apiFactory.getApiService(account.id);
+          const stats = await api.getStats();
+          if (stats) {
+            accountStats.push(stats);
+          }
+        } catch (error) {
+          console.error(`Error getting stats for ${platform} account ${account.displayName}:`, error);
         }
-      } catch (error) {
-        console.error(`Error getting stats for ${platform}:`, error);
+      }
+
+      if (accountStats.length > 0) {
+        const totalPosts = accountStats.reduce((sum, stats) => sum + stats.totalPosts, 0);
+        const totalComments = accountStats.reduce((sum, stats) => sum + stats.totalComments, 0);
+
+        settings.updatePlatformStats(platform, {
+          platform,
+          totalPosts,
+          totalComments,
+          engagementRate: totalPosts > 0 ? totalComments / totalPosts : 0,
+          recentActivity: accountStats
+            .flatMap(stats => stats.recentActivity)
+            .sort((a, b) => b.date.getTime() - a.date.getTime())
+            .slice(0, 5),
+        });
       }
     }
 
-    return settings.platformStats;
+    return useSettingsStore.getState().platformStats;
   }
 }
 
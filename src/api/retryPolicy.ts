@@ -0,0 +1,221 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { GraphErrorResponse, isGraphRateLimitCode } from './errors';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // How many times this request has been retried
+    retryCount?: number;
+    // Skip automatic retries for requests that handle recovery themselves
+    disableRetry?: boolean;
+  }
+}
+
+/**
+ * Retry policy used by BaseApiService.
+ * Each service can override any field; the hooks let a platform describe
+ * its own rate-limit signals (headers, error codes) on top of the defaults.
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number; // First backoff step in ms
+  maxDelay: number; // Upper bound for a single backoff in ms
+  maxRateLimitDelay: number; // Give up instead of waiting longer than this when rate limited
+  retryableStatuses: number[];
+  // Decide whether the platform rate limited this request (safe to retry any method)
+  isRateLimited?: (error: AxiosError) => boolean;
+  // Decide whether an error should never be retried (e.g. daily quota exhausted)
+  isFatal?: (error: AxiosError) => boolean;
+  // How long the platform asked us to wait, in ms
+  getRateLimitDelay?: (response: AxiosResponse) => number | undefined;
+  circuitBreaker: {
+    failureThreshold: number; // Consecutive failures before the circuit opens
+    resetTimeout: number; // How long the circuit stays open in ms
+  };
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 30 * 1000,
+  maxRateLimitDelay: 5 * 60 * 1000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeout: 60 * 1000,
+  },
+};
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into ms
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt));
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Read the highest usage percentage and wait time from Facebook's usage headers
+ * X-App-Usage: {"call_count":28,"total_time":25,"total_cputime":25}
+ * X-Business-Use-Case-Usage: {"<id>":[{"type":"pages","call_count":100,"estimated_time_to_regain_access":5}]}
+ */
+export function parseGraphUsageHeaders(headers: AxiosResponse['headers']): { usage: number; regainAccessMs: number } {
+  let usage = 0;
+  let regainAccessMs = 0;
+
+  const readUsage = (entry: Record<string, number>) => {
+    usage = Math.max(usage, entry.call_count || 0, entry.total_time || 0, entry.total_cputime || 0);
+    if (entry.estimated_time_to_regain_access) {
+      // Facebook reports this value in minutes
+      regainAccessMs = Math.max(regainAccessMs, entry.estimated_time_to_regain_access * 60 * 1000);
+    }
+  };
+
+  try {
+    const appUsage = headers?.['x-app-usage'];
+    if (appUsage) {
+      readUsage(JSON.parse(appUsage));
+    }
+
+    const businessUsage = headers?.['x-business-use-case-usage'];
+    if (businessUsage) {
+      const parsed = JSON.parse(businessUsage) as Record<string, Record<string, number>[]>;
+      Object.values(parsed).forEach(entries => entries.forEach(readUsage));
+    }
+  } catch (error) {
+    console.warn('Could not parse Graph API usage headers:', error);
+  }
+
+  return { usage, regainAccessMs };
+}
+
+/**
+ * Retry policy for the Facebook and Instagram Graph APIs
+ */
+export const graphApiRetryPolicy: Partial<RetryPolicy> = {
+  isRateLimited: (error) => {
+    const code = (error as AxiosError<GraphErrorResponse>).response?.data?.error?.code;
+    return error.response?.status === 429 || isGraphRateLimitCode(code);
+  },
+  getRateLimitDelay: (response) => {
+    const { usage, regainAccessMs } = parseGraphUsageHeaders(response.headers);
+
+    if (regainAccessMs > 0) {
+      return regainAccessMs;
+    }
+
+    // Back off for a minute once any usage metric reaches its limit
+    return usage >= 100 ? 60 * 1000 : undefined;
+  },
+};
+
+// YouTube error reasons: quota is a daily budget, rate limits are short-lived
+const YOUTUBE_QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
+const YOUTUBE_RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+// The body of a failed YouTube Data API response
+interface YouTubeErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    errors?: { reason?: string; domain?: string; message?: string }[];
+  };
+}
+
+function getYouTubeErrorReasons(error: AxiosError): string[] {
+  const errors = (error as AxiosError<YouTubeErrorResponse>).response?.data?.error?.errors;
+  return Array.isArray(errors) ? errors.map(e => e.reason || '') : [];
+}
+
+/**
+ * Retry policy for the YouTube Data API
+ */
+export const youtubeRetryPolicy: Partial<RetryPolicy> = {
+  isRateLimited: (error) =>
+    error.response?.status === 429 ||
+    getYouTubeErrorReasons(error).some(reason => YOUTUBE_RATE_LIMIT_REASONS.includes(reason)),
+  // The daily quota does not come back until midnight Pacific time, so retrying is pointless
+  isFatal: (error) =>
+    getYouTubeErrorReasons(error).some(reason => YOUTUBE_QUOTA_REASONS.includes(reason)),
+};
+
+/**
+ * Circuit breaker that stops calling a platform after repeated failures.
+ * closed -> open after `failureThreshold` consecutive failures,
+ * open -> half-open after `resetTimeout`, half-open -> closed on the next success.
+ * While half-open only one trial request is sent; if it never reports back,
+ * another one may go after `resetTimeout`.
+ */
+export class CircuitBreaker {
+  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialStartedAt?: number;
+
+  constructor(private name: string, private options: RetryPolicy['circuitBreaker']) {}
+
+  /**
+   * Whether a request may be sent right now
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half-open';
+      this.trialStartedAt = undefined;
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialStartedAt !== undefined && Date.now() - this.trialStartedAt < this.options.resetTimeout) {
+        return false;
+      }
+
+      console.log(`Circuit for ${this.name} is half-open, allowing a trial request`);
+      this.trialStartedAt = Date.now();
+      return true;
+    }
+
+    return this.state === 'closed';
+  }
+
+  getRemainingOpenTime(): number {
+    const since = this.state === 'half-open' ? this.trialStartedAt ?? 0 : this.openedAt;
+    return Math.max(0, this.options.resetTimeout - (Date.now() - since));
+  }
+
+  recordSuccess() {
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.name} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      console.warn(`Circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
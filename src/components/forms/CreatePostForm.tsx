@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Calendar, Calendar as CalendarIcon, Clock, AlertTriangle, Instagram, Youtube, TrendingUp, Facebook } from 'lucide-react';
 import Button from '../ui/Button';
 import Input from '../ui/Input';
@@ -6,16 +6,72 @@ import Toggle from '../ui/Toggle';
 import FileUpload from '../ui/FileUpload';
 import Card from '../ui/Card';
 import PlatformPreview from '../ui/PlatformPreview';
-import { Platform } from '../../types';
+import { InstagramPostFormat, InstagramPostOptions, MediaItem, Platform, PlatformPublishResult, Post, PostTarget, PostVariant, PublishEvent, PublishStage, TikTokCreatorInfo, TikTokPostOptions, TikTokPrivacyLevel } from '../../types';
 import usePostsStore from '../../store/usePostsStore';
 import useSettingsStore from '../../store/useSettingsStore';
 import { format } from 'date-fns';
 import ReactDatePicker from 'react-datepicker';
 import "react-datepicker/dist/react-datepicker.css";
 import { socialMediaCoordinator, apiFactory } from '../../api';
-import InstagramApiService from '../../api/InstagramApiService';
-import FacebookApiService from '../../api/FacebookApiService';
+import { MAX_CAROUSEL_ITEMS } from '../../api/InstagramApiService';
 import FileUploadService from '../../lib/fileUpload';
+import { getTargetPlatforms } from '../../lib/accounts';
+import { getPlatformConstraints, PostValidationIssue, validatePostForPlatform } from '../../lib/platformConstraints';
+import { MediaMetadata, readMediaMetadata } from '../../lib/mediaMetadata';
+import { getPlatformVariant, hasOverrides, YOUTUBE_TITLE_LENGTH } from '../../lib/postVariants';
+import ValidationMessages from '../ui/ValidationMessages';
+
+// How each platform is shown in the account picker
+const PLATFORM_OPTIONS: { platform: Platform; label: string; abbreviation: string; badgeClassName: string; color: 'pink' | 'red' | 'blue' }[] = [
+  { platform: 'instagram', label: 'Instagram', abbreviation: 'IG', badgeClassName: 'bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-500', color: 'pink' },
+  { platform: 'youtube', label: 'YouTube', abbreviation: 'YT', badgeClassName: 'bg-red-600', color: 'red' },
+  { platform: 'tiktok', label: 'TikTok', abbreviation: 'TT', badgeClassName: 'bg-black', color: 'blue' },
+  { platform: 'facebook', label: 'Facebook', abbreviation: 'FB', badgeClassName: 'bg-blue-600', color: 'blue' },
+];
+
+// Instagram post formats; what media each one takes is in lib/platformConstraints
+const INSTAGRAM_FORMAT_OPTIONS: { format: InstagramPostFormat; label: string; description: string }[] = [
+  { format: 'feed', label: 'Feed', description: 'An image, or a carousel of up to 10 images and videos' },
+  { format: 'reel', label: 'Reel', description: 'One vertical video' },
+  { format: 'story_image', label: 'Story (Image)', description: 'One image, shown for 24 hours' },
+  { format: 'story_video', label: 'Story (Video)', description: 'One video, shown for 24 hours' },
+];
+
+// How TikTok privacy levels are shown
+const TIKTOK_PRIVACY_LABELS: Record<TikTokPrivacyLevel, string> = {
+  PUBLIC_TO_EVERYONE: 'Everyone',
+  MUTUAL_FOLLOW_FRIENDS: 'Friends',
+  FOLLOWER_OF_CREATOR: 'Followers',
+  SELF_ONLY: 'Only me',
+};
+
+// How each publishing stage is shown
+const PUBLISH_STAGE_LABELS: Record<PublishStage, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  published: 'Published',
+  failed: 'Failed',
+};
+
+const PUBLISH_STAGE_CLASSES: Record<PublishStage, string> = {
+  queued: 'text-gray-500 dark:text-gray-400',
+  uploading: 'text-blue-600',
+  processing: 'text-blue-600',
+  published: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+// A platform's overrides as typed into the form; empty fields use the shared post
+interface VariantFields {
+  caption?: string;
+  title?: string;
+  description?: string;
+  tags?: string; // Comma-separated
+  firstComment?: string;
+}
+
+const textOrUndefined = (value?: string) => value?.trim() ? value : undefined;
 
 interface CreatePostFormProps {
   onSuccess?: () => void;
@@ -24,24 +80,66 @@ interface CreatePostFormProps {
 const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
   // Form state
   const [content, setContent] = useState('');
-  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  // Uploaded files, in the order they will appear in the post
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  // Preview URL and type of a public media URL
   const [mediaUrl, setMediaUrl] = useState<string | undefined>(undefined);
   const [mediaType, setMediaType] = useState<'image' | 'video' | undefined>(undefined);
   const [publicMediaUrl, setPublicMediaUrl] = useState<string>('');
   const [usePublicUrl, setUsePublicUrl] = useState<boolean>(false);
-  const [selectedPlatforms, setSelectedPlatforms] = useState<Platform[]>(['instagram', 'youtube', 'tiktok', 'facebook']);
+  // Every connected account is selected to start with
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>(
+    () => useSettingsStore.getState().accounts.map(account => account.id)
+  );
+  // How the post is published to Instagram
+  const [instagramFormat, setInstagramFormat] = useState<InstagramPostFormat>('feed');
+  const [reelCoverUrl, setReelCoverUrl] = useState('');
+  const [reelShareToFeed, setReelShareToFeed] = useState(true);
+  const [reelThumbOffset, setReelThumbOffset] = useState('');
+  // TikTok asks creators to choose these for every post, with nothing preselected
+  const [tiktokPrivacyLevel, setTiktokPrivacyLevel] = useState<TikTokPrivacyLevel | null>(null);
+  const [tiktokAllowComment, setTiktokAllowComment] = useState(false);
+  const [tiktokAllowDuet, setTiktokAllowDuet] = useState(false);
+  const [tiktokAllowStitch, setTiktokAllowStitch] = useState(false);
+  // Per-platform overrides; a platform with media files of its own doesn't use the shared media
+  const [variantFields, setVariantFields] = useState<Partial<Record<Platform, VariantFields>>>({});
+  const [variantMediaFiles, setVariantMediaFiles] = useState<Partial<Record<Platform, File[]>>>({});
+  // The platform whose overrides are being edited, or 'all' for the shared post
+  const [activeVariantTab, setActiveVariantTab] = useState<Platform | 'all'>('all');
   const [isScheduled, setIsScheduled] = useState(false);
   const [scheduleDate, setScheduleDate] = useState<Date | null>(null);
 
   // Form processing states
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set synchronously so a double click can't start a second post before isSubmitting re-renders
+  const submittingRef = useRef(false);
+  // The post last submitted, while some of its accounts failed. Submitting again retries
+  // it, as a new post would publish to the accounts that succeeded a second time.
+  const [failedPostId, setFailedPostId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activePreviewPlatform, setActivePreviewPlatform] = useState<Platform>('instagram');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
-
-  // Get platform credentials from settings
-  const { apiCredentials, platformsEnabled } = useSettingsStore();
+  // Where publishing to each account has got, keyed by account ID
+  const [publishEvents, setPublishEvents] = useState<Record<string, PublishEvent>>({});
+
+  // Get connected accounts from settings
+  const { accounts, platformsEnabled } = useSettingsStore();
+
+  // The accounts the post will be published to, and the platforms they cover
+  const selectedTargets: PostTarget[] = accounts
+    .filter(account => selectedAccountIds.includes(account.id))
+    .map(account => ({ accountId: account.id, platform: account.platform }));
+  const selectedPlatforms = getTargetPlatforms(selectedTargets);
+
+  // Show the profile of the first selected account of a platform (or its first account)
+  const getProfileAccount = (platform: Platform) =>
+    accounts.find(account => account.platform === platform && selectedAccountIds.includes(account.id)) ||
+    accounts.find(account => account.platform === platform);
+  const instagramAccount = getProfileAccount('instagram');
+  const facebookAccount = getProfileAccount('facebook');
+  const tiktokAccount = getProfileAccount('tiktok');
+  const isTiktokSelected = selectedPlatforms.includes('tiktok');
 
   // Track user data
   const [username, setUsername] = useState<string | null>(null);
@@ -50,23 +148,25 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
   const [isLoadingFacebookPage, setIsLoadingFacebookPage] = useState(false);
   const [usernameError, setUsernameError] = useState<string | null>(null);
   const [facebookPageError, setFacebookPageError] = useState<string | null>(null);
+  const [tiktokCreatorInfo, setTiktokCreatorInfo] = useState<TikTokCreatorInfo | null>(null);
+  const [tiktokCreatorError, setTiktokCreatorError] = useState<string | null>(null);
 
   // Access post store actions
   const createPost = usePostsStore(state => state.createPost);
   const schedulePost = usePostsStore(state => state.schedulePost);
-  const publishPost = usePostsStore(state => state.publishPost);
+  const recordPublishResults = usePostsStore(state => state.recordPublishResults);
   const markAsFailed = usePostsStore(state => state.markAsFailed);
 
   // Fetch usernames on component mount
   useEffect(() => {
     const fetchInstagramUsername = async () => {
-      if (apiCredentials.instagram && platformsEnabled.instagram) {
+      if (instagramAccount && platformsEnabled.instagram) {
         try {
           setIsLoadingUsername(true);
           setUsernameError(null);
 
           // Use API service to get basic account info
-          const instagramApi = apiFactory.getApiService('instagram') as InstagramApiService;
+          const instagramApi = apiFactory.getInstagramService(instagramAccount.id);
 
           // Fetch basic profile info directly
           const profileInfo = await instagramApi.getBasicProfileInfo();
@@ -94,13 +194,13 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
     };
 
     const fetchFacebookPageName = async () => {
-      if (apiCredentials.facebook && platformsEnabled.facebook) {
+      if (facebookAccount && platformsEnabled.facebook) {
         try {
           setIsLoadingFacebookPage(true);
           setFacebookPageError(null);
 
           // Use API service to get basic account info
-          const facebookApi = apiFactory.getApiService('facebook') as FacebookApiService;
+          const facebookApi = apiFactory.getFacebookService(facebookAccount.id);
 
           // Fetch basic profile info directly
           const profileInfo = await facebookApi.getBasicProfileInfo();
@@ -129,80 +229,239 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
 
     fetchInstagramUsername();
     fetchFacebookPageName();
-  }, [apiCredentials.instagram, platformsEnabled.instagram, apiCredentials.facebook, platformsEnabled.facebook]);
-
-  // Handle media file change
-  const handleFileChange = async (file: File | null) => {
-    if (file) {
-      setMediaFile(file);
-
-      // Determine media type
-      if (file.type.startsWith('image/')) {
-        setMediaType('image');
-      } else if (file.type.startsWith('video/')) {
-        setMediaType('video');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [instagramAccount?.id, platformsEnabled.instagram, facebookAccount?.id, platformsEnabled.facebook]);
+
+  // Fetch the TikTok creator's posting options when TikTok is selected
+  useEffect(() => {
+    if (!tiktokAccount || !isTiktokSelected || !platformsEnabled.tiktok) {
+      setTiktokCreatorInfo(null);
+      return;
+    }
+
+    const fetchCreatorInfo = async () => {
+      try {
+        setTiktokCreatorError(null);
+        const tiktokApi = apiFactory.getTikTokService(tiktokAccount.id);
+        const creatorInfo = await tiktokApi.getCreatorInfo();
+        setTiktokCreatorInfo(creatorInfo);
+
+        // Drop a privacy level this creator cannot use
+        setTiktokPrivacyLevel(level => level && creatorInfo.privacyLevelOptions.includes(level) ? level : null);
+      } catch (error) {
+        console.error('Error fetching TikTok creator info:', error);
+        setTiktokCreatorInfo(null);
+        setTiktokCreatorError(error instanceof Error ? error.message : 'Could not load your TikTok posting options.');
       }
+    };
+
+    fetchCreatorInfo();
+  }, [tiktokAccount?.id, isTiktokSelected, platformsEnabled.tiktok]);
+
+  // Local previews of the selected media, released when the selection changes
+  const fileMedia: MediaItem[] = useMemo(() => mediaFiles.map(file => ({
+    url: URL.createObjectURL(file),
+    type: file.type.startsWith('video/') ? 'video' : 'image',
+    file,
+  })), [mediaFiles]);
+  useEffect(() => {
+    return () => {
+      fileMedia.forEach(item => URL.revokeObjectURL(item.url));
+    };
+  }, [fileMedia]);
+
+  const previewMedia: MediaItem[] = usePublicUrl
+    ? (mediaUrl ? [{ url: mediaUrl, type: mediaType || 'image' }] : [])
+    : fileMedia;
+
+  // Local previews of each platform's own media
+  const variantFileMedia: Partial<Record<Platform, MediaItem[]>> = useMemo(() => {
+    const media: Partial<Record<Platform, MediaItem[]>> = {};
+    for (const [platform, files] of Object.entries(variantMediaFiles) as [Platform, File[]][]) {
+      media[platform] = files.map(file => ({
+        url: URL.createObjectURL(file),
+        type: file.type.startsWith('video/') ? 'video' : 'image',
+        file,
+      }));
+    }
+    return media;
+  }, [variantMediaFiles]);
+  useEffect(() => {
+    return () => {
+      Object.values(variantFileMedia).flat().forEach(item => item && URL.revokeObjectURL(item.url));
+    };
+  }, [variantFileMedia]);
+
+  // Dimensions and durations of the selected media, keyed by preview URL
+  const [mediaMetadata, setMediaMetadata] = useState<Record<string, MediaMetadata>>({});
+  useEffect(() => {
+    let cancelled = false;
+    [...previewMedia, ...Object.values(variantFileMedia).flat()]
+      .filter((item): item is MediaItem => !!item && !mediaMetadata[item.url])
+      .forEach(async item => {
+        const metadata = await readMediaMetadata(item);
+        if (!cancelled) {
+          setMediaMetadata(current => ({ ...current, [item.url]: metadata }));
+        }
+      });
 
-      // Create preview URL for the UI
-      const objectUrl = URL.createObjectURL(file);
-      setMediaUrl(objectUrl);
-
-      console.log(`File selected: ${file.name}, type: ${file.type}, size: ${file.size} bytes`);
-      console.log(`Created local preview URL for UI: ${objectUrl}`);
-    } else {
-      setMediaFile(null);
-      setMediaUrl(undefined);
-      setMediaType(undefined);
-      console.log('File selection cleared');
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fileMedia, variantFileMedia, mediaUrl, mediaType, usePublicUrl]);
+
+  // Media with what we know about it, as the platform rules see it
+  const withMetadata = (media: MediaItem[]) => media.map(item => ({ ...item, ...mediaMetadata[item.url] }));
+  const validatedMedia: MediaItem[] = withMetadata(previewMedia);
+
+  // The selected platforms' overrides, with each platform's own media where it has some
+  const buildVariants = (getMedia: (platform: Platform) => MediaItem[] | undefined): Post['variants'] => {
+    const variants: Partial<Record<Platform, PostVariant>> = {};
+    for (const platform of selectedPlatforms) {
+      const fields = variantFields[platform] || {};
+      const tags = fields.tags?.split(',').map(tag => tag.trim()).filter(Boolean);
+      const variant: PostVariant = {
+        caption: textOrUndefined(fields.caption),
+        title: textOrUndefined(fields.title)?.trim(),
+        description: textOrUndefined(fields.description),
+        tags: tags?.length ? tags : undefined,
+        media: getMedia(platform),
+        firstComment: textOrUndefined(fields.firstComment)?.trim(),
+      };
+      if (hasOverrides(variant)) {
+        variants[platform] = variant;
+      }
     }
+    return Object.keys(variants).length > 0 ? variants : undefined;
+  };
+  const previewVariants = buildVariants(platform => {
+    const media = variantFileMedia[platform];
+    return media ? withMetadata(media) : undefined;
+  });
+  const previewPost = { content, media: validatedMedia, variants: previewVariants };
+
+  // What each selected platform would reject (errors) or change (warnings) about the post
+  const validationIssues: PostValidationIssue[] = selectedPlatforms.flatMap(platform => {
+    const { errors, warnings } = validatePostForPlatform(
+      { ...previewPost, instagramOptions: { format: instagramFormat } },
+      platform,
+      platform === 'tiktok' ? { maxVideoDurationSec: tiktokCreatorInfo?.maxVideoDurationSec } : {}
+    );
+    return [...errors, ...warnings];
+  });
+  const validationErrors = validationIssues.filter(issue => issue.severity === 'error');
+
+  // The tightest caption limit of the selected platforms that publish the shared caption
+  const getCaptionLimit = (platforms: Platform[]) => platforms
+    .map(platform => getPlatformConstraints(platform, { instagramOptions: { format: instagramFormat } }))
+    .filter(constraints => !constraints.captionIgnored)
+    .reduce<number | undefined>((limit, constraints) => Math.min(limit ?? Infinity, constraints.caption.max), undefined);
+  const captionLimit = getCaptionLimit(selectedPlatforms.filter(platform =>
+    previewVariants?.[platform]?.caption === undefined && previewVariants?.[platform]?.description === undefined
+  ));
+
+  // Platforms that can't comment on their own posts get no first comment
+  const canComment = (platform: Platform) => {
+    const account = getProfileAccount(platform);
+    return !!account && platformsEnabled[platform] && apiFactory.getApiService(account.id).capabilities.comment;
+  };
+
+  const updateVariantFields = (platform: Platform, fields: VariantFields) => {
+    setVariantFields(current => ({ ...current, [platform]: { ...current[platform], ...fields } }));
+  };
+
+  const setVariantFiles = (platform: Platform, files: File[] | undefined) => {
+    setVariantMediaFiles(current => {
+      const { [platform]: _previous, ...rest } = current;
+      return files ? { ...rest, [platform]: files } : rest;
+    });
+  };
+
+  // The editor tab shown, falling back to the shared post when its platform is deselected
+  const variantTab = activeVariantTab !== 'all' && selectedPlatforms.includes(activeVariantTab) ? activeVariantTab : 'all';
+
+  // Handle media file changes (additions, removals and reordering)
+  const handleFilesChange = (files: File[]) => {
+    setMediaFiles(files);
+    console.log(`Media selection: ${files.map(file => file.name).join(', ') || 'none'}`);
   };
 
-  // Toggle platform selection
-  const togglePlatform = (platform: Platform) => {
-    setSelectedPlatforms(prev => {
-      if (prev.includes(platform)) {
-        // Remove platform if already selected
-        return prev.filter(p => p !== platform);
+  // Toggle account selection
+  const toggleAccount = (accountId: string) => {
+    setSelectedAccountIds(prev => {
+      if (prev.includes(accountId)) {
+        // Remove account if already selected
+        return prev.filter(id => id !== accountId);
       } else {
-        // Add platform if not already selected
-        return [...prev, platform];
+        // Add account if not already selected
+        return [...prev, accountId];
       }
     });
   };
 
-  // Verify platform availability
+  // Verify the selected accounts can be published to
   const verifyPlatforms = () => {
-    const enabledAndSelected = selectedPlatforms.filter(platform =>
-      platformsEnabled[platform] && apiCredentials[platform]
-    );
+    const enabledAndSelected = selectedTargets.filter(target => platformsEnabled[target.platform]);
 
     if (enabledAndSelected.length === 0) {
-      setError('None of the selected platforms are properly connected. Please check your Settings.');
+      setError('None of the selected accounts are properly connected. Please check your Settings.');
       return false;
     }
 
-    if (enabledAndSelected.length < selectedPlatforms.length) {
-      // Some platforms are selected but not available
-      setSelectedPlatforms(enabledAndSelected);
-      setError('Some selected platforms are not properly connected and have been deselected.');
+    if (enabledAndSelected.length < selectedTargets.length) {
+      // Some accounts are selected but their platform is disabled
+      setSelectedAccountIds(enabledAndSelected.map(target => target.accountId));
+      setError('Some selected accounts are not properly connected and have been deselected.');
       return true;
     }
 
     return true;
   };
 
+  const getAccountName = (accountId: string) =>
+    accounts.find(account => account.id === accountId)?.displayName || accountId;
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Validation checks
-    if (content.trim() === '') {
+    if (submittingRef.current) {
+      return;
+    }
+
+    submittingRef.current = true;
+    try {
+      await submitPost();
+    } finally {
+      submittingRef.current = false;
+    }
+  };
+
+  const submitPost = async () => {
+    const failedPost = failedPostId ? usePostsStore.getState().posts.find(post => post.id === failedPostId) : undefined;
+    if (failedPost) {
+      setIsSubmitting(true);
+      setPublishEvents({});
+      setError(null);
+
+      const published = await publishPost(failedPost);
+      setIsSubmitting(false);
+      if (published) {
+        resetForm();
+        onSuccess?.();
+      }
+      return;
+    }
+
+    // Validation checks; a platform with its own caption doesn't need the shared one
+    if (selectedPlatforms.some(platform => !getPlatformVariant(previewPost, platform).caption.trim())) {
       setError('Please enter some content for your post');
       return;
     }
 
-    if (selectedPlatforms.length === 0) {
-      setError('Please select at least one platform');
+    if (selectedTargets.length === 0) {
+      setError('Please select at least one account');
       return;
     }
 
@@ -211,9 +470,16 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
       return;
     }
 
-    // For Instagram posts, media is required
-    if (selectedPlatforms.includes('instagram') && !mediaFile && !(usePublicUrl && publicMediaUrl)) {
-      setError('Instagram posts require an image or video. Please upload media or provide a public URL.');
+    // What the platforms would refuse is listed next to the caption and media
+    if (validationErrors.length > 0) {
+      setError(validationErrors.length === 1
+        ? validationErrors[0].message
+        : `Please fix the ${validationErrors.length} problems listed above before posting.`);
+      return;
+    }
+
+    if (isTiktokSelected && !tiktokPrivacyLevel) {
+      setError('Please choose who can see your TikTok post.');
       return;
     }
 
@@ -223,19 +489,21 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
     }
 
     setIsSubmitting(true);
+    setPublishEvents({});
     setError(null);
 
     try {
-      let finalMediaUrl: string | undefined;
+      // The media attached to the post, in order
+      let media: MediaItem[] = [];
 
       // If using a public URL directly
       if (usePublicUrl && publicMediaUrl) {
         console.log("Using provided public URL:", publicMediaUrl);
-        finalMediaUrl = publicMediaUrl;
+        let publicType = mediaType;
 
         // Validate the URL
         try {
-          new URL(finalMediaUrl);
+          new URL(publicMediaUrl);
         } catch (e) {
           setError("Please enter a valid URL");
           setIsSubmitting(false);
@@ -243,9 +511,9 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         }
 
         // Make sure we have a media type
-        if (!mediaType) {
+        if (!publicType) {
           // Try to determine media type from URL
-          const url = finalMediaUrl.toLowerCase();
+          const url = publicMediaUrl.toLowerCase();
 
           // Check for common image extensions, handling query parameters
           const isImage = url.includes('.jpg') || url.includes('.jpeg') ||
@@ -257,41 +525,38 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
                          url.includes('.avi') || url.includes('.webm');
 
           if (isImage) {
-            setMediaType('image');
+            publicType = 'image';
             console.log("Detected as image URL");
           } else if (isVideo) {
-            setMediaType('video');
+            publicType = 'video';
             console.log("Detected as video URL");
           } else {
             // Default to image if we can't determine
-            setMediaType('image');
+            publicType = 'image';
             console.log("Could not determine media type, defaulting to image");
           }
+          setMediaType(publicType);
         }
 
-        console.log("Using public URL with media type:", mediaType);
+        console.log("Using public URL with media type:", publicType);
+        media = [{ url: publicMediaUrl, type: publicType, ...mediaMetadata[publicMediaUrl] }];
       }
       // If we have a media file, upload it to get a public URL
-      else if (mediaFile) {
+      else if (mediaFiles.length > 0) {
         try {
           setIsUploading(true);
           setUploadProgress(10);
 
-          // Upload file to get a public URL
+          // Upload each file to get a public URL
           // For Instagram API, we need a publicly accessible URL
-          console.log("Reading file and preparing media...");
-          setUploadProgress(30);
+          console.log(`Reading and preparing ${mediaFiles.length} media file(s)...`);
 
-          console.log("Processing media and preparing for Instagram...");
-          setUploadProgress(50);
+          for (const [index, file] of mediaFiles.entries()) {
+            const uploadResult = await FileUploadService.uploadFile(file);
+            media.push({ url: uploadResult.publicUrl, type: uploadResult.fileType, file, ...mediaMetadata[fileMedia[index].url] });
 
-          const uploadResult = await FileUploadService.uploadFile(mediaFile);
-          finalMediaUrl = uploadResult.publicUrl;
-
-          // If we have a local preview URL, use it for the UI
-          if (uploadResult.localPreviewUrl) {
-            // Update the UI preview with the local URL
-            setMediaUrl(uploadResult.localPreviewUrl);
+            console.log(`Processed ${file.name} (${uploadResult.fileType}):`, uploadResult.publicUrl);
+            setUploadProgress(10 + Math.round(((index + 1) / mediaFiles.length) * 80));
           }
 
           console.log("Upload complete, processing...");
@@ -302,11 +567,6 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
 
           setUploadProgress(100);
           console.log("Media processed successfully");
-          console.log("Public URL for API calls:", finalMediaUrl);
-          console.log("Media type:", uploadResult.fileType);
-
-          // Update media type from the upload result
-          setMediaType(uploadResult.fileType);
         } catch (uploadError) {
           console.error("Error processing media:", uploadError);
           setError(uploadError instanceof Error ? uploadError.message : 'Error processing media file');
@@ -318,25 +578,55 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         }
       }
 
-      // Create the post in the local store with the public URL
+      // Upload the media of platforms that have their own
+      const variantMedia: Partial<Record<Platform, MediaItem[]>> = {};
+      for (const platform of selectedPlatforms) {
+        const files = variantMediaFiles[platform];
+        if (!files) {
+          continue;
+        }
+
+        try {
+          setIsUploading(true);
+          variantMedia[platform] = [];
+          for (const [index, file] of files.entries()) {
+            const uploadResult = await FileUploadService.uploadFile(file);
+            const previewUrl = variantFileMedia[platform]?.[index]?.url;
+            variantMedia[platform].push({
+              url: uploadResult.publicUrl,
+              type: uploadResult.fileType,
+              file,
+              ...(previewUrl ? mediaMetadata[previewUrl] : undefined),
+            });
+          }
+        } catch (uploadError) {
+          console.error(`Error processing ${platform} media:`, uploadError);
+          setError(uploadError instanceof Error ? uploadError.message : 'Error processing media file');
+          setIsSubmitting(false);
+          return;
+        } finally {
+          setIsUploading(false);
+        }
+      }
+
+      // Create the post in the local store; uploaded items keep their original file
+      // for platforms that can use it directly
       const newPost = createPost(
         content,
-        finalMediaUrl,  // Use the final media URL (either from file upload or direct input)
-        mediaType,
-        selectedPlatforms
+        media,
+        selectedTargets.filter(target => platformsEnabled[target.platform]),
+        {
+          instagramOptions: selectedPlatforms.includes('instagram') ? getInstagramOptions() : undefined,
+          tiktokOptions: selectedPlatforms.includes('tiktok') ? getTiktokOptions() : undefined,
+          variants: buildVariants(platform => variantMedia[platform]),
+        }
       );
 
-      // Add the original file to the post for platforms that can use it directly
-      if (mediaFile) {
-        newPost.mediaFile = mediaFile;
-        console.log("Added original file to post for direct upload:", mediaFile.name);
-      }
-
       // If scheduled, update with schedule time
       if (isScheduled && scheduleDate) {
         schedulePost(newPost.id, scheduleDate);
 
-        // In a real app, we'd have a background job/service to publish at the scheduled time
+        // The background scheduler will publish it when the time arrives
         console.log(`Post scheduled for ${scheduleDate.toISOString()}`);
 
         setIsSubmitting(false);
@@ -346,75 +636,36 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
       }
 
       // If not scheduled (publish now), send to platforms
-      console.log("Publishing post to platforms:", selectedPlatforms);
-      console.log("Post data:", { content, mediaUrl: finalMediaUrl, mediaType });
+      console.log("Publishing post to accounts:", selectedTargets);
+      console.log("Post data:", { content, media });
+      console.log("Media for API:", media.map(item => `${item.type}: ${item.url}`));
+      console.log("Using direct public URL:", usePublicUrl);
 
-      try {
-        console.log("Publishing post to selected platforms:", selectedPlatforms);
-        console.log("Post content:", content);
-        console.log("Media URL for API:", finalMediaUrl);
-        console.log("Media type:", mediaType);
-        console.log("Using direct public URL:", usePublicUrl);
-
-        // Attempt to publish to all selected platforms
-        const platformResults = await socialMediaCoordinator.publishToMultiplePlatforms(newPost);
-
-        // Check which platforms succeeded and which failed
-        const successfulPlatforms = Object.entries(platformResults)
-          .filter(([_, id]) => id !== null)
-          .map(([platform]) => platform);
-
-        const failedPlatforms = Object.entries(platformResults)
-          .filter(([_, id]) => id === null)
-          .map(([platform]) => platform);
-
-        console.log("Successfully published to:", successfulPlatforms);
-        console.log("Failed to publish to:", failedPlatforms);
-
-        // Check if any platforms succeeded
-        const anySuccess = successfulPlatforms.length > 0;
-
-        if (anySuccess) {
-          // Update the post with the platform-specific IDs
-          publishPost(newPost.id, platformResults as Record<Platform, string>);
-          console.log("Post published successfully to some platforms:", platformResults);
-
-          if (failedPlatforms.length > 0) {
-            // Some platforms failed
-            setError(`Post published to ${successfulPlatforms.join(', ')} but failed on ${failedPlatforms.join(', ')}. Check settings for failed platforms.`);
-          }
-        } else {
-          // If all failed, mark the post as failed
-          markAsFailed(newPost.id, 'Failed to publish to all platforms');
-          console.error("Failed to publish to any platform:", platformResults);
-          setError("Failed to publish to any selected platform. Check your media format and connection.");
-        }
-      } catch (publishError) {
-        console.error("Error during post publishing:", publishError);
-        markAsFailed(newPost.id, publishError instanceof Error ? publishError.message : 'Unknown error during publishing');
-        setError(publishError instanceof Error ? publishError.message : 'Error occurred while publishing');
+      if (!(await publishPost(newPost))) {
         setIsSubmitting(false);
         return;
       }
 
       // Show success message if there were no errors
       if (!error) {
-        // Create a success message based on selected platforms
-        const platformNames = selectedPlatforms.map(p => p.charAt(0).toUpperCase() + p.slice(1)).join(', ');
+        // Create a success message based on selected accounts
+        const platformNames = selectedTargets.map(target => getAccountName(target.accountId)).join(', ');
 
         // Add a success message
         if (usePublicUrl) {
           alert(`Post published successfully to ${platformNames} with your caption and the provided public image URL! Check your accounts to see the post.`);
-        } else if (mediaFile && mediaType === 'image') {
+        } else if (media.length > 1) {
+          alert(`Post published successfully to ${platformNames} with your caption and your ${media.length} uploaded files! Check your accounts to see the post.`);
+        } else if (media[0]?.type === 'image') {
           alert(`Post published successfully to ${platformNames} with your caption and your uploaded image! Check your accounts to see the post.`);
-        } else if (mediaFile && mediaType === 'video') {
+        } else if (media[0]?.type === 'video') {
           alert(`Post published successfully to ${platformNames} with your caption and your uploaded video! Check your accounts to see the post.`);
         } else {
           alert(`Post published successfully to ${platformNames}! Check your accounts to see the post.`);
         }
 
         // Add a specific note about Facebook if it was selected
-        if (selectedPlatforms.includes('facebook') && mediaFile) {
+        if (selectedPlatforms.includes('facebook') && mediaFiles.length > 0) {
           alert("Your image has been directly uploaded to Facebook using our new direct upload feature. This should work much better than previous methods.");
         }
       }
@@ -430,22 +681,123 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
     }
   };
 
+  /**
+   * Publish a stored post to its accounts, storing each account's outcome on the post
+   * as soon as it finishes. Accounts that already have the post are skipped.
+   * Returns whether every account has it; when not, the error lists each account.
+   */
+  const publishPost = async (post: Post): Promise<boolean> => {
+    try {
+      const platformResults = await socialMediaCoordinator.publishToMultiplePlatforms(post, {
+        onEvent: (event) => {
+          setPublishEvents(current => ({ ...current, [event.target.accountId]: event }));
+          if (event.result) {
+            recordPublishResults(post.id, { [event.target.accountId]: event.result });
+          }
+        }
+      });
+
+      // Check which platforms succeeded and which failed
+      const results = Object.values(platformResults)
+        .filter((result): result is PlatformPublishResult => !!result);
+
+      const successfulPlatforms = results
+        .filter(result => result.status === 'published')
+        .map(result => getAccountName(result.accountId));
+
+      const failedPlatforms = results
+        .filter(result => result.status === 'failed')
+        .map(result => getAccountName(result.accountId));
+
+      console.log("Successfully published to:", successfulPlatforms);
+      console.log("Failed to publish to:", failedPlatforms);
+
+      if (failedPlatforms.length > 0) {
+        // e.g. "Brand Instagram OK, Brand YouTube failed: quota exceeded"
+        const summary = results
+          .map(result => {
+            const name = getAccountName(result.accountId);
+            return result.status === 'published'
+              ? `${name} OK`
+              : `${name} failed: ${result.errorMessage}`;
+          })
+          .join(', ');
+
+        setError(successfulPlatforms.length > 0
+          ? `Post partially published. ${summary}`
+          : `Failed to publish to any selected platform. ${summary}`);
+        setFailedPostId(post.id);
+        return false;
+      }
+
+      return true;
+    } catch (publishError) {
+      console.error("Error during post publishing:", publishError);
+      markAsFailed(post.id, publishError instanceof Error ? publishError.message : 'Unknown error during publishing');
+      setError(publishError instanceof Error ? publishError.message : 'Error occurred while publishing');
+      setFailedPostId(post.id);
+      return false;
+    }
+  };
+
+  // Instagram options for the selected format; Reel settings only apply to Reels
+  const getInstagramOptions = (): InstagramPostOptions => {
+    if (instagramFormat !== 'reel') {
+      return { format: instagramFormat };
+    }
+
+    const thumbOffset = parseInt(reelThumbOffset, 10);
+    return {
+      format: 'reel',
+      coverUrl: reelCoverUrl.trim() || undefined,
+      shareToFeed: reelShareToFeed,
+      thumbOffset: Number.isNaN(thumbOffset) ? undefined : thumbOffset,
+    };
+  };
+
+  // TikTok options from the toggles; interactions are disabled unless allowed
+  const getTiktokOptions = (): TikTokPostOptions | undefined => {
+    if (!tiktokPrivacyLevel) {
+      return undefined;
+    }
+
+    return {
+      privacyLevel: tiktokPrivacyLevel,
+      disableComment: !tiktokAllowComment,
+      disableDuet: !tiktokAllowDuet,
+      disableStitch: !tiktokAllowStitch,
+    };
+  };
+
   // Reset form after submission
   const resetForm = () => {
     setContent('');
-    setMediaFile(null);
+    setMediaFiles([]);
     setMediaUrl(undefined);
     setMediaType(undefined);
-    setSelectedPlatforms(['instagram', 'youtube', 'tiktok', 'facebook']);
+    setSelectedAccountIds(accounts.map(account => account.id));
+    setInstagramFormat('feed');
+    setReelCoverUrl('');
+    setReelShareToFeed(true);
+    setReelThumbOffset('');
+    setTiktokPrivacyLevel(null);
+    setTiktokAllowComment(false);
+    setTiktokAllowDuet(false);
+    setTiktokAllowStitch(false);
+    setVariantFields({});
+    setVariantMediaFiles({});
+    setActiveVariantTab('all');
     setIsScheduled(false);
     setScheduleDate(null);
     setError(null);
     setUploadProgress(0);
+    setPublishEvents({});
+    setFailedPostId(null);
   };
 
   // Check if platforms are properly connected
-  const isInstagramConnected = apiCredentials.instagram && platformsEnabled.instagram;
-  const isFacebookConnected = apiCredentials.facebook && platformsEnabled.facebook;
+  const isInstagramConnected = !!instagramAccount && platformsEnabled.instagram;
+  const isFacebookConnected = !!facebookAccount && platformsEnabled.facebook;
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -511,7 +863,7 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
               )}
 
               {/* Facebook image posting info */}
-              {mediaFile && selectedPlatforms.includes('facebook') && (
+              {mediaFiles.length > 0 && selectedPlatforms.includes('facebook') && (
                 <div className="mt-2 text-xs text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
                   <p className="font-medium">About Facebook image posting:</p>
                   <p>We now use direct file uploads for Facebook, which should work much better than URL-based posting.</p>
@@ -547,24 +899,151 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         </div>
       )}
 
-      {/* Content input */}
+      {/* Content input, shared by every platform or overridden for one */}
       <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-          Post Content
-        </label>
-        <textarea
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          rows={4}
-          className="block w-full rounded-lg border border-gray-300 dark:border-gray-600
-                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
-                   focus:ring-2 focus:ring-blue-500 focus:border-blue-500
-                   p-4 placeholder:text-gray-400"
-          placeholder="Write your caption or post content here..."
-        />
-        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-          {content.length} characters
-        </p>
+        {selectedPlatforms.length > 0 && (
+          <div className="flex border-b border-gray-200 dark:border-gray-700 mb-3">
+            {(['all', ...selectedPlatforms] as const).map(tab => (
+              <button
+                key={tab}
+                type="button"
+                className={`
+                  py-2 px-4 text-sm font-medium border-b-2
+                  ${variantTab === tab
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300'}
+                `}
+                onClick={() => {
+                  setActiveVariantTab(tab);
+                  if (tab !== 'all') {
+                    setActivePreviewPlatform(tab);
+                  }
+                }}
+              >
+                {tab === 'all' ? 'All platforms' : PLATFORM_OPTIONS.find(option => option.platform === tab)?.label}
+                {tab !== 'all' && previewVariants?.[tab] && <span className="ml-1 text-blue-500">•</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {variantTab === 'all' ? (
+          <>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Post Content
+            </label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={4}
+              className="block w-full rounded-lg border border-gray-300 dark:border-gray-600
+                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                       p-4 placeholder:text-gray-400"
+              placeholder="Write your caption or post content here..."
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {captionLimit !== undefined
+                ? `${content.length.toLocaleString()} / ${captionLimit.toLocaleString()} characters`
+                : `${content.length} characters`}
+            </p>
+          </>
+        ) : (
+          <div className="space-y-4">
+            {variantTab === 'youtube' ? (
+              <>
+                <Input
+                  label="Video Title"
+                  value={variantFields.youtube?.title || ''}
+                  onChange={(e) => updateVariantFields('youtube', { title: e.target.value })}
+                  placeholder={content.substring(0, YOUTUBE_TITLE_LENGTH) || 'Your video title'}
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Video Description
+                  </label>
+                  <textarea
+                    value={variantFields.youtube?.description || ''}
+                    onChange={(e) => updateVariantFields('youtube', { description: e.target.value })}
+                    rows={4}
+                    className="block w-full rounded-lg border border-gray-300 dark:border-gray-600
+                             bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                             focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                             p-4 placeholder:text-gray-400"
+                    placeholder={content || 'Uses the post content when empty'}
+                  />
+                </div>
+                <Input
+                  label="Tags (comma-separated)"
+                  value={variantFields.youtube?.tags || ''}
+                  onChange={(e) => updateVariantFields('youtube', { tags: e.target.value })}
+                  placeholder="travel, vlog, behind the scenes"
+                />
+              </>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {PLATFORM_OPTIONS.find(option => option.platform === variantTab)?.label} Caption
+                </label>
+                <textarea
+                  value={variantFields[variantTab]?.caption || ''}
+                  onChange={(e) => updateVariantFields(variantTab, { caption: e.target.value })}
+                  rows={4}
+                  className="block w-full rounded-lg border border-gray-300 dark:border-gray-600
+                           bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                           p-4 placeholder:text-gray-400"
+                  placeholder={content || 'Uses the post content when empty'}
+                />
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {(() => {
+                    const length = getPlatformVariant(previewPost, variantTab).caption.length;
+                    const limit = getCaptionLimit([variantTab]);
+                    return limit !== undefined
+                      ? `${length.toLocaleString()} / ${limit.toLocaleString()} characters`
+                      : `${length} characters`;
+                  })()}
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white">Use different media</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Replace the shared media on this platform only</p>
+              </div>
+              <Toggle
+                checked={!!variantMediaFiles[variantTab]}
+                onChange={(checked) => setVariantFiles(variantTab, checked ? [] : undefined)}
+              />
+            </div>
+
+            {variantMediaFiles[variantTab] && (
+              <FileUpload
+                files={variantMediaFiles[variantTab] || []}
+                onFilesChange={(files) => setVariantFiles(variantTab, files)}
+                maxFiles={variantTab === 'instagram' && instagramFormat === 'feed' ? MAX_CAROUSEL_ITEMS : 1}
+                accept={{
+                  'image/*': ['.jpg', '.jpeg', '.png', '.gif'],
+                  'video/*': ['.mp4', '.mov', '.avi']
+                }}
+                label="Media Upload"
+              />
+            )}
+
+            {canComment(variantTab) && (
+              <Input
+                label="First Comment (optional)"
+                value={variantFields[variantTab]?.firstComment || ''}
+                onChange={(e) => updateVariantFields(variantTab, { firstComment: e.target.value })}
+                placeholder="Posted as a comment right after the post is published"
+              />
+            )}
+          </div>
+        )}
+        <ValidationMessages issues={validationIssues.filter(issue =>
+          issue.field === 'caption' && (variantTab === 'all' || issue.platform === variantTab)
+        )} />
       </div>
 
       {/* Media Options */}
@@ -693,24 +1172,36 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         ) : (
           <div className="space-y-2">
             <FileUpload
-              onFileChange={handleFileChange}
+              files={mediaFiles}
+              onFilesChange={handleFilesChange}
+              maxFiles={selectedPlatforms.includes('instagram') && instagramFormat === 'feed' ? MAX_CAROUSEL_ITEMS : 1}
               accept={{
                 'image/*': ['.jpg', '.jpeg', '.png', '.gif'],
                 'video/*': ['.mp4', '.mov', '.avi']
               }}
               label="Media Upload"
-              mediaType={mediaType}
+              mediaType={mediaFiles.length === 1 ? fileMedia[0]?.type : undefined}
             />
 
-            {mediaFile && (
+            {mediaFiles.length === 1 && (
               <div className="text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 p-3 rounded-md">
                 <p className="font-medium">Media Processing:</p>
                 <p>Your image will be used for posting to social media platforms.</p>
                 <p className="mt-1">Click "Post Now" to publish your content with this image.</p>
               </div>
             )}
+
+            {mediaFiles.length > 1 && (
+              <div className="text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 p-3 rounded-md">
+                <p className="font-medium">Carousel:</p>
+                <p>Instagram will show these {mediaFiles.length} files as a carousel, in the order above.</p>
+                <p className="mt-1">Other platforms use the first file only.</p>
+              </div>
+            )}
           </div>
         )}
+
+        <ValidationMessages issues={validationIssues.filter(issue => issue.field === 'media')} />
       </div>
 
       {/* Upload progress indicator */}
@@ -739,70 +1230,186 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         </div>
       )}
 
-      {/* Platform selection */}
-      <Card title="Select Platforms">
+      {/* Account selection */}
+      <Card title="Select Accounts">
         <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center">
-              <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-500 flex items-center justify-center mr-3">
-                <span className="text-white text-xs">IG</span>
-              </div>
-              <span>Instagram {isInstagramConnected ? '' : '(Not Connected)'}</span>
-            </div>
-            <Toggle
-              checked={selectedPlatforms.includes('instagram')}
-              onChange={() => togglePlatform('instagram')}
-              color="pink"
-              disabled={!isInstagramConnected}
-            />
-          </div>
+          {PLATFORM_OPTIONS.map(({ platform, label, abbreviation, badgeClassName, color }) => {
+            const platformAccounts = accounts.filter(account => account.platform === platform);
+
+            // Platforms without accounts are listed so users know they can connect them
+            if (platformAccounts.length === 0) {
+              return (
+                <div key={platform} className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className={`w-8 h-8 rounded-full ${badgeClassName} flex items-center justify-center mr-3`}>
+                      <span className="text-white text-xs">{abbreviation}</span>
+                    </div>
+                    <span>{label} (Not Connected)</span>
+                  </div>
+                  <Toggle
+                    checked={false}
+                    onChange={() => {}}
+                    color={color}
+                    disabled
+                  />
+                </div>
+              );
+            }
 
-          <div className="flex items-center justify-between">
-            <div className="flex items-center">
-              <div className="w-8 h-8 rounded-full bg-red-600 flex items-center justify-center mr-3">
-                <span className="text-white text-xs">YT</span>
+            return platformAccounts.map(account => (
+              <div key={account.id} className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <div className={`w-8 h-8 rounded-full ${badgeClassName} flex items-center justify-center mr-3`}>
+                    <span className="text-white text-xs">{abbreviation}</span>
+                  </div>
+                  <span>
+                    {account.displayName}
+                    <span className="ml-1 text-sm text-gray-500 dark:text-gray-400">
+                      {label}{platformsEnabled[platform] ? '' : ' (Disabled)'}
+                    </span>
+                  </span>
+                </div>
+                <Toggle
+                  checked={selectedAccountIds.includes(account.id)}
+                  onChange={() => toggleAccount(account.id)}
+                  color={color}
+                  disabled={!platformsEnabled[platform]}
+                />
               </div>
-              <span>YouTube {platformsEnabled.youtube ? '' : '(Not Connected)'}</span>
+            ));
+          })}
+        </div>
+      </Card>
+
+      {/* Instagram format */}
+      {selectedPlatforms.includes('instagram') && (
+        <Card title="Instagram Format">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {INSTAGRAM_FORMAT_OPTIONS.map(option => (
+                <button
+                  key={option.format}
+                  type="button"
+                  onClick={() => setInstagramFormat(option.format)}
+                  className={`
+                    p-3 rounded-lg border text-left
+                    ${instagramFormat === option.format
+                      ? 'border-pink-500 bg-pink-50 dark:bg-pink-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'}
+                  `}
+                >
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">{option.description}</span>
+                </button>
+              ))}
             </div>
-            <Toggle
-              checked={selectedPlatforms.includes('youtube')}
-              onChange={() => togglePlatform('youtube')}
-              color="red"
-              disabled={!platformsEnabled.youtube}
-            />
-          </div>
 
-          <div className="flex items-center justify-between">
-            <div className="flex items-center">
-              <div className="w-8 h-8 rounded-full bg-black flex items-center justify-center mr-3">
-                <span className="text-white text-xs">TT</span>
+            {instagramFormat === 'reel' && (
+              <div className="space-y-2">
+                <Input
+                  label="Cover Image URL (optional)"
+                  type="url"
+                  value={reelCoverUrl}
+                  onChange={(e) => setReelCoverUrl(e.target.value)}
+                  placeholder="https://example.com/cover.jpg"
+                />
+                <Input
+                  label="Thumbnail Offset (ms, used when there is no cover)"
+                  type="number"
+                  min={0}
+                  value={reelThumbOffset}
+                  onChange={(e) => setReelThumbOffset(e.target.value)}
+                  placeholder="0"
+                  disabled={!!reelCoverUrl.trim()}
+                />
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">Share to feed</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Also show the Reel on your profile grid</p>
+                  </div>
+                  <Toggle
+                    checked={reelShareToFeed}
+                    onChange={setReelShareToFeed}
+                    color="pink"
+                  />
+                </div>
               </div>
-              <span>TikTok {platformsEnabled.tiktok ? '' : '(Not Connected)'}</span>
-            </div>
-            <Toggle
-              checked={selectedPlatforms.includes('tiktok')}
-              onChange={() => togglePlatform('tiktok')}
-              color="blue"
-              disabled={!platformsEnabled.tiktok}
-            />
+            )}
+
+            {(instagramFormat === 'story_image' || instagramFormat === 'story_video') && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Stories are published without a caption.
+              </p>
+            )}
           </div>
+        </Card>
+      )}
 
-          <div className="flex items-center justify-between">
-            <div className="flex items-center">
-              <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center mr-3">
-                <span className="text-white text-xs">FB</span>
-              </div>
-              <span>Facebook {platformsEnabled.facebook ? '' : '(Not Connected)'}</span>
-            </div>
-            <Toggle
-              checked={selectedPlatforms.includes('facebook')}
-              onChange={() => togglePlatform('facebook')}
-              color="blue"
-              disabled={!platformsEnabled.facebook}
-            />
+      {/* TikTok post settings */}
+      {isTiktokSelected && (
+        <Card title="TikTok Settings">
+          <div className="space-y-4">
+            {tiktokCreatorError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{tiktokCreatorError}</p>
+            )}
+
+            {!tiktokCreatorInfo && !tiktokCreatorError && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading your TikTok posting options...</p>
+            )}
+
+            {tiktokCreatorInfo && (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Posting as <span className="font-medium">@{tiktokCreatorInfo.username}</span>
+                  {' '}• videos up to {Math.floor(tiktokCreatorInfo.maxVideoDurationSec / 60)} min
+                </p>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Who can see this post</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {tiktokCreatorInfo.privacyLevelOptions.map(level => (
+                      <button
+                        key={level}
+                        type="button"
+                        onClick={() => setTiktokPrivacyLevel(level)}
+                        className={`
+                          px-3 py-1.5 rounded-lg border text-sm
+                          ${tiktokPrivacyLevel === level
+                            ? 'border-gray-900 bg-gray-900 text-white dark:border-gray-100 dark:bg-gray-100 dark:text-gray-900'
+                            : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'}
+                        `}
+                      >
+                        {TIKTOK_PRIVACY_LABELS[level] || level}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Interactions the creator has turned off in TikTok cannot be enabled here */}
+                {[
+                  { label: 'Allow comments', checked: tiktokAllowComment, onChange: setTiktokAllowComment, disabled: tiktokCreatorInfo.commentDisabled },
+                  { label: 'Allow Duet', checked: tiktokAllowDuet, onChange: setTiktokAllowDuet, disabled: tiktokCreatorInfo.duetDisabled },
+                  { label: 'Allow Stitch', checked: tiktokAllowStitch, onChange: setTiktokAllowStitch, disabled: tiktokCreatorInfo.stitchDisabled },
+                ].map(({ label, checked, onChange, disabled }) => (
+                  <div key={label} className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                      {label}
+                      {disabled && (
+                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Turned off in your TikTok settings</span>
+                      )}
+                    </h3>
+                    <Toggle
+                      checked={checked && !disabled}
+                      onChange={onChange}
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+              </>
+            )}
           </div>
-        </div>
-      </Card>
+        </Card>
+      )}
 
       {/* Preview section */}
       <Card title="Preview">
@@ -828,13 +1435,22 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
 
           {/* Preview content */}
           <div className="p-4 bg-white dark:bg-gray-900 rounded-lg border border-gray-100 dark:border-gray-800">
-            <PlatformPreview
-              platform={activePreviewPlatform}
-              content={content}
-              mediaUrl={mediaUrl}
-              mediaType={mediaType}
-              username={username || `${activePreviewPlatform}User`}
-            />
+            {(() => {
+              const variant = getPlatformVariant(previewPost, activePreviewPlatform);
+              return (
+                <PlatformPreview
+                  platform={activePreviewPlatform}
+                  content={variant.caption}
+                  media={variant.media}
+                  instagramFormat={instagramFormat}
+                  username={username || `${activePreviewPlatform}User`}
+                  title={variant.title}
+                  description={variant.description}
+                  tags={variant.tags}
+                  firstComment={variant.firstComment}
+                />
+              );
+            })()}
           </div>
         </div>
       </Card>
@@ -892,18 +1508,57 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onSuccess }) => {
         </div>
       )}
 
-      {/* Submit button */}
-      <div className="flex justify-end">
+      {/* Publishing progress for each account */}
+      {isSubmitting && Object.keys(publishEvents).length > 0 && (
+        <div className="space-y-2">
+          {Object.entries(publishEvents).map(([accountId, event]) => (
+            <div key={accountId}>
+              <div className={`flex justify-between text-xs font-semibold mb-1 ${PUBLISH_STAGE_CLASSES[event.stage]}`}>
+                <span>{getAccountName(accountId)}</span>
+                <span>
+                  {PUBLISH_STAGE_LABELS[event.stage]}
+                  {event.stage === 'uploading' && event.progress ? ` ${event.progress.percent}%` : ''}
+                </span>
+              </div>
+              {event.stage === 'uploading' && event.progress && (
+                <div className="overflow-hidden h-2 text-xs flex rounded bg-blue-200">
+                  <div style={{ width: `${event.progress.percent}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-blue-500"></div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Submit button; after a failure it retries the saved post */}
+      {failedPostId && !isSubmitting && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          The post was saved. Retrying publishes it as it was saved, and only to the accounts that don't have it yet.
+          Changes made here since are not included; start over to post something new.
+        </p>
+      )}
+      <div className="flex justify-end space-x-2">
+        {failedPostId && (
+          <Button
+            variant="outline"
+            onClick={resetForm}
+            disabled={isSubmitting}
+          >
+            Start Over
+          </Button>
+        )}
         <Button
           type="submit"
-          disabled={isSubmitting || isUploading || selectedPlatforms.length === 0}
+          disabled={isSubmitting || isUploading || (!failedPostId && (selectedTargets.length === 0 || validationErrors.length > 0))}
           className="min-w-[120px]"
         >
           {isSubmitting || isUploading
             ? isUploading ? 'Uploading...' : 'Posting...'
-            : isScheduled
-              ? 'Schedule Post'
-              : 'Post Now'}
+            : failedPostId
+              ? 'Retry Failed Accounts'
+              : isScheduled
+                ? 'Schedule Post'
+                : 'Post Now'}
         </Button>
       </div>
     </form>
@@ -0,0 +1,464 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Edit2, Play, Plus, Trash2, X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Toggle from '../ui/Toggle';
+import useSettingsStore from '../../store/useSettingsStore';
+import useCommentsStore from '../../store/useCommentsStore';
+import usePostsStore from '../../store/usePostsStore';
+import { ModerationAction, ModerationActionType, ModerationRule, Platform } from '../../types';
+import { compileRulePattern, describeModerationAction, isModerationCandidate, MODERATION_LANGUAGES, previewRule } from '../../lib/autoModeration';
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  markSpam: 'Mark as spam',
+  hide: 'Hide',
+  delete: 'Delete',
+  reply: 'Reply',
+  tag: 'Tag',
+  assign: 'Assign',
+};
+
+// In the order they run
+const ACTION_TYPES: ModerationActionType[] = ['tag', 'assign', 'reply', 'markSpam', 'hide', 'delete'];
+
+// A rule as typed into the form
+interface RuleFields {
+  name: string;
+  enabled: boolean;
+  keywords: string; // Comma-separated
+  pattern: string;
+  authors: string; // Comma-separated
+  hasLink: '' | 'yes' | 'no';
+  minEmojiPercent: string;
+  languages: string[];
+  platforms: Platform[];
+  postIds: string[];
+  actions: ModerationActionType[];
+  replyTemplate: string;
+  tag: string;
+  assignee: string;
+}
+
+const EMPTY_FIELDS: RuleFields = {
+  name: '',
+  enabled: true,
+  keywords: '',
+  pattern: '',
+  authors: '',
+  hasLink: '',
+  minEmojiPercent: '',
+  languages: [],
+  platforms: [],
+  postIds: [],
+  actions: [],
+  replyTemplate: 'Thanks {author}!',
+  tag: '',
+  assignee: '',
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+const listOrUndefined = <T,>(items: T[]) => items.length ? items : undefined;
+
+function toFields(rule: ModerationRule): RuleFields {
+  const { conditions } = rule;
+  const action = <T extends ModerationActionType>(type: T) =>
+    rule.actions.find(action => action.type === type) as Extract<ModerationAction, { type: T }> | undefined;
+
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    keywords: conditions.keywords?.join(', ') || '',
+    pattern: conditions.pattern || '',
+    authors: conditions.authors?.join(', ') || '',
+    hasLink: conditions.hasLink === undefined ? '' : conditions.hasLink ? 'yes' : 'no',
+    minEmojiPercent: conditions.minEmojiRatio === undefined ? '' : String(Math.round(conditions.minEmojiRatio * 100)),
+    languages: conditions.languages || [],
+    platforms: conditions.platforms || [],
+    postIds: conditions.postIds || [],
+    actions: rule.actions.map(action => action.type),
+    replyTemplate: action('reply')?.template ?? EMPTY_FIELDS.replyTemplate,
+    tag: action('tag')?.tag || '',
+    assignee: action('assign')?.assignee || '',
+  };
+}
+
+function toRule(fields: RuleFields): Omit<ModerationRule, 'id'> {
+  const emojiPercent = parseFloat(fields.minEmojiPercent);
+  const actions = ACTION_TYPES.filter(type => fields.actions.includes(type)).map((type): ModerationAction => {
+    switch (type) {
+      case 'reply':
+        return { type, template: fields.replyTemplate.trim() };
+      case 'tag':
+        return { type, tag: fields.tag.trim() };
+      case 'assign':
+        return { type, assignee: fields.assignee.trim() };
+      default:
+        return { type };
+    }
+  });
+
+  return {
+    name: fields.name.trim(),
+    enabled: fields.enabled,
+    conditions: {
+      keywords: listOrUndefined(splitList(fields.keywords)),
+      pattern: fields.pattern.trim() || undefined,
+      authors: listOrUndefined(splitList(fields.authors)),
+      hasLink: fields.hasLink === '' ? undefined : fields.hasLink === 'yes',
+      minEmojiRatio: emojiPercent > 0 ? Math.min(emojiPercent, 100) / 100 : undefined,
+      languages: listOrUndefined(fields.languages),
+      platforms: listOrUndefined(fields.platforms),
+      postIds: listOrUndefined(fields.postIds),
+    },
+    actions,
+  };
+}
+
+// Why the form can't be saved yet, if it can't
+function validateFields(fields: RuleFields): string | undefined {
+  if (!fields.name.trim()) {
+    return 'Give the rule a name';
+  }
+  if (fields.pattern.trim() && !compileRulePattern(fields.pattern)) {
+    return 'The regular expression is not valid';
+  }
+  if (fields.actions.length === 0) {
+    return 'Choose at least one action';
+  }
+  if (fields.actions.includes('reply') && !fields.replyTemplate.trim()) {
+    return 'Write the reply to send';
+  }
+  if (fields.actions.includes('tag') && !fields.tag.trim()) {
+    return 'Enter the tag to add';
+  }
+  if (fields.actions.includes('assign') && !fields.assignee.trim()) {
+    return 'Enter who to assign comments to';
+  }
+  return undefined;
+}
+
+const toggleItem = <T,>(items: T[], item: T) => items.includes(item) ? items.filter(other => other !== item) : [...items, item];
+
+const ModerationRulesForm: React.FC = () => {
+  const { moderationRules, addModerationRule, updateModerationRule, removeModerationRule } = useSettingsStore();
+  const { comments } = useCommentsStore();
+  const { posts } = usePostsStore();
+
+  // The rule being edited; 'new' for one being added
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [fields, setFields] = useState<RuleFields>(EMPTY_FIELDS);
+  const [error, setError] = useState<string | null>(null);
+  // The rule whose dry run is shown
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const publishedPosts = useMemo(() => posts.filter(post => post.platformPostIds), [posts]);
+
+  const previewedRule = moderationRules.find(rule => rule.id === previewId);
+  const preview = useMemo(
+    () => previewedRule ? previewRule(previewedRule, comments) : [],
+    [previewedRule, comments]
+  );
+  const ruleCandidates = comments.filter(isModerationCandidate).length;
+
+  const setField = <K extends keyof RuleFields>(key: K, value: RuleFields[K]) => {
+    setFields(current => ({ ...current, [key]: value }));
+    setError(null);
+  };
+
+  const startEditing = (rule?: ModerationRule) => {
+    setEditingId(rule ? rule.id : 'new');
+    setFields(rule ? toFields(rule) : EMPTY_FIELDS);
+    setError(null);
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateFields(fields);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    if (editingId === 'new') {
+      addModerationRule(toRule(fields));
+    } else if (editingId) {
+      updateModerationRule(editingId, toRule(fields));
+    }
+    stopEditing();
+  };
+
+  const handleRemove = (rule: ModerationRule) => {
+    if (window.confirm(`Delete the rule "${rule.name}"?`)) {
+      removeModerationRule(rule.id);
+      if (previewId === rule.id) {
+        setPreviewId(null);
+      }
+    }
+  };
+
+  const checkboxClassName = 'rounded border-gray-300 text-blue-600 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Rules run on every comment as it is synced, in the order listed, and each rule runs once per comment.
+        A rule applies when a comment matches all of its conditions. Use a dry run to see which of your stored comments a rule would act on.
+      </p>
+
+      {moderationRules.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No rules yet</p>
+      )}
+
+      {moderationRules.map(rule => (
+        <div key={rule.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="font-medium truncate">{rule.name}</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {rule.actions.map(describeModerationAction).join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <Toggle
+                checked={rule.enabled}
+                onChange={(enabled) => updateModerationRule(rule.id, { enabled })}
+                size="sm"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                icon={<Play size={14} />}
+                onClick={() => setPreviewId(previewId === rule.id ? null : rule.id)}
+              >
+                Dry Run
+              </Button>
+              <Button variant="outline" size="sm" icon={<Edit2 size={14} />} onClick={() => startEditing(rule)}>
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" icon={<Trash2 size={14} />} onClick={() => handleRemove(rule)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+
+          {previewId === rule.id && (
+            <div className="mt-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium">
+                  Would apply to {preview.length} of {ruleCandidates} stored comment{ruleCandidates === 1 ? '' : 's'}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setPreviewId(null)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+              {preview.length > 0 && (
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                  {preview.map(({ comment }) => (
+                    <li key={comment.id} className="text-sm">
+                      <span className="font-medium">{comment.author.name}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{PLATFORM_LABELS[comment.platform]}</span>
+                      {comment.appliedRuleIds?.includes(rule.id) && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(already applied)</span>
+                      )}
+                      <p className="text-gray-600 dark:text-gray-300 truncate">{comment.content}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {editingId === null ? (
+        <Button variant="outline" icon={<Plus size={16} />} onClick={() => startEditing()}>
+          Add Rule
+        </Button>
+      ) : (
+        <form onSubmit={handleSave} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+          <h4 className="font-medium mb-2">{editingId === 'new' ? 'New Rule' : 'Edit Rule'}</h4>
+
+          <Input
+            label="Name"
+            value={fields.name}
+            onChange={(e) => setField('name', e.target.value)}
+            placeholder="e.g. Hide crypto spam"
+          />
+
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">When a comment...</h5>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+            <Input
+              label="Contains any of these words (comma-separated)"
+              value={fields.keywords}
+              onChange={(e) => setField('keywords', e.target.value)}
+              placeholder="giveaway, crypto"
+            />
+            <Input
+              label="Matches this regular expression"
+              value={fields.pattern}
+              onChange={(e) => setField('pattern', e.target.value)}
+              placeholder="^follow\s+me"
+              error={fields.pattern.trim() && !compileRulePattern(fields.pattern) ? 'Not a valid regular expression' : undefined}
+            />
+            <Input
+              label="Is written by (comma-separated names)"
+              value={fields.authors}
+              onChange={(e) => setField('authors', e.target.value)}
+              placeholder="@spammer"
+            />
+            <Input
+              label="Is at least this much emoji (%)"
+              type="number"
+              min={0}
+              max={100}
+              value={fields.minEmojiPercent}
+              onChange={(e) => setField('minEmojiPercent', e.target.value)}
+              placeholder="50"
+            />
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Links</label>
+            <select
+              value={fields.hasLink}
+              onChange={(e) => setField('hasLink', e.target.value as RuleFields['hasLink'])}
+              className="block w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-4 py-2"
+            >
+              <option value="">With or without a link</option>
+              <option value="yes">Has a link</option>
+              <option value="no">Has no link</option>
+            </select>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Is written in (any language when none are checked)</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {Object.entries(MODERATION_LANGUAGES).map(([code, name]) => (
+                <label key={code} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    className={checkboxClassName}
+                    checked={fields.languages.includes(code)}
+                    onChange={() => setField('languages', toggleItem(fields.languages, code))}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Is on (any platform when none are checked)</label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {(Object.keys(PLATFORM_LABELS) as Platform[]).map(platform => (
+                <label key={platform} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    className={checkboxClassName}
+                    checked={fields.platforms.includes(platform)}
+                    onChange={() => setField('platforms', toggleItem(fields.platforms, platform))}
+                  />
+                  {PLATFORM_LABELS[platform]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {publishedPosts.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Is on these posts (any post when none are selected)</label>
+              <select
+                multiple
+                value={fields.postIds}
+                onChange={(e) => setField('postIds', Array.from(e.target.selectedOptions, option => option.value))}
+                className="block w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-4 py-2 h-28"
+              >
+                {publishedPosts.map(post => (
+                  <option key={post.id} value={post.id}>
+                    {post.content.substring(0, 60) || 'Untitled post'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">Then...</h5>
+
+          <div className="space-y-2 mb-4">
+            {ACTION_TYPES.map(type => (
+              <div key={type} className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-sm w-32 flex-shrink-0">
+                  <input
+                    type="checkbox"
+                    className={checkboxClassName}
+                    checked={fields.actions.includes(type)}
+                    onChange={() => setField('actions', toggleItem(fields.actions, type))}
+                  />
+                  {ACTION_LABELS[type]}
+                </label>
+                {type === 'reply' && fields.actions.includes('reply') && (
+                  <input
+                    value={fields.replyTemplate}
+                    onChange={(e) => setField('replyTemplate', e.target.value)}
+                    placeholder="Thanks {author}!"
+                    className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-1 text-sm"
+                  />
+                )}
+                {type === 'tag' && fields.actions.includes('tag') && (
+                  <input
+                    value={fields.tag}
+                    onChange={(e) => setField('tag', e.target.value)}
+                    placeholder="question"
+                    className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-1 text-sm"
+                  />
+                )}
+                {type === 'assign' && fields.actions.includes('assign') && (
+                  <input
+                    value={fields.assignee}
+                    onChange={(e) => setField('assignee', e.target.value)}
+                    placeholder="Alex"
+                    className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-1 text-sm"
+                  />
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Replies can use {'{author}'} and {'{platform}'}. Platforms without a spam report get spam hidden instead.
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
+              <AlertCircle size={16} className="mr-1" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit">{editingId === 'new' ? 'Add Rule' : 'Save Rule'}</Button>
+            <Button variant="outline" onClick={stopEditing}>Cancel</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ModerationRulesForm;
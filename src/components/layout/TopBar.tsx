@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Sun, Moon, Bell } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Sun, Moon, Bell, AlertTriangle } from 'lucide-react';
+import useSettingsStore from '../../store/useSettingsStore';
+import { getTokenWarnings } from '../../lib/tokenManager';
 
 interface TopBarProps {
   onToggleTheme: () => void;
@@ -8,6 +11,8 @@ interface TopBarProps {
 
 const TopBar: React.FC<TopBarProps> = ({ onToggleTheme, isDarkMode }) => {
   const [date, setDate] = useState(new Date());
+  const accounts = useSettingsStore(state => state.accounts);
+  const demoMode = useSettingsStore(state => state.demoMode);
   
   // Update the date every minute
   useEffect(() => {
@@ -26,6 +31,9 @@ const TopBar: React.FC<TopBarProps> = ({ onToggleTheme, isDarkMode }) => {
     month: 'long',
     day: 'numeric'
   });
+
+  // Tokens that have expired or are about to (re-evaluated when the date ticks)
+  const tokenWarnings = getTokenWarnings(accounts, undefined, date.getTime());
   
   return (
     <div className="bg-white dark:bg-gray-800 h-16 px-6 flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
@@ -36,6 +44,32 @@ const TopBar: React.FC<TopBarProps> = ({ onToggleTheme, isDarkMode }) => {
       
       {/* Right side - Actions */}
       <div className="flex items-center space-x-4">
+        {/* Demo mode: nothing is posted for real */}
+        {demoMode && (
+          <Link
+            to="/settings"
+            className="px-3 py-1 rounded-full text-xs font-bold tracking-wide bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300"
+            title="Demo mode is on: nothing is sent to the platforms"
+          >
+            DEMO
+          </Link>
+        )}
+
+        {/* Token expiry warnings */}
+        {tokenWarnings.map(warning => (
+          <Link
+            key={warning.accountId}
+            to="/settings"
+            className="flex items-center px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400"
+          >
+            <AlertTriangle size={14} className="mr-1" />
+            <span className="mr-1">{warning.displayName}</span>
+            {warning.expired
+              ? 'token expired'
+              : `token expires in ${warning.daysLeft} day${warning.daysLeft === 1 ? '' : 's'}`}
+          </Link>
+        ))}
+
         {/* Notifications */}
         <button 
           className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
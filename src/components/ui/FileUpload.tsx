@@ -1,30 +1,39 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, X, Image, Film } from 'lucide-react';
+import { Upload, X, ChevronLeft, ChevronRight } from 'lucide-react';
 import Button from './Button';
 
 interface FileUploadProps {
-  onFileChange: (file: File | null) => void;
+  files: File[]; // Selected files, in the order they will be posted
+  onFilesChange: (files: File[]) => void;
   accept: {
     [key: string]: string[];
   };
   maxSize?: number;
+  maxFiles?: number;
   label?: string;
-  initialPreview?: string;
   mediaType?: 'image' | 'video';
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({
-  onFileChange,
+  files,
+  onFilesChange,
   accept,
   maxSize = 50 * 1024 * 1024, // 50MB default
+  maxFiles = 1,
   label = 'Drop your file here, or click to browse',
-  initialPreview,
   mediaType,
 }) => {
-  const [preview, setPreview] = useState<string | null>(initialPreview || null);
   const [error, setError] = useState<string | null>(null);
-  
+
+  // Object URLs for the previews, released when the files change
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+  useEffect(() => {
+    return () => {
+      previews.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [previews]);
+
   const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
     if (rejectedFiles.length > 0) {
       const errors = rejectedFiles[0].errors.map((err: any) => err.message).join(', ');
@@ -33,31 +42,43 @@ const FileUpload: React.FC<FileUploadProps> = ({
     }
 
     if (acceptedFiles.length) {
-      const file = acceptedFiles[0];
-      onFileChange(file);
-      
-      // Generate preview
-      const reader = new FileReader();
-      reader.onload = () => {
-        setPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      setError(null);
+      const room = maxFiles - files.length;
+      if (acceptedFiles.length > room) {
+        setError(`You can add up to ${maxFiles} file${maxFiles === 1 ? '' : 's'}`);
+      } else {
+        setError(null);
+      }
+
+      if (room > 0) {
+        onFilesChange([...files, ...acceptedFiles.slice(0, room)]);
+      }
     }
-  }, [onFileChange]);
-  
+  }, [files, maxFiles, onFilesChange]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept,
     maxSize,
-    multiple: false
+    multiple: maxFiles > 1
   });
-  
-  const removeFile = () => {
-    setPreview(null);
-    onFileChange(null);
+
+  const removeFile = (index: number) => {
+    setError(null);
+    onFilesChange(files.filter((_, i) => i !== index));
   };
-  
+
+  // Swap a file with its neighbour to change the posting order
+  const moveFile = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= files.length) {
+      return;
+    }
+
+    const reordered = [...files];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onFilesChange(reordered);
+  };
+
   return (
     <div className="mb-4">
       {label && (
@@ -65,80 +86,117 @@ const FileUpload: React.FC<FileUploadProps> = ({
           {label}
         </label>
       )}
-      
-      {!preview ? (
+
+      {files.length > 0 && (
+        <div className={`grid gap-3 mb-3 ${files.length === 1 ? 'grid-cols-1' : 'grid-cols-2 sm:grid-cols-3'}`}>
+          {files.map((file, index) => (
+            <div
+              key={previews[index]}
+              className="relative rounded-2xl overflow-hidden border border-gray-300 dark:border-gray-700"
+            >
+              {/* Preview image or video */}
+              <div className={`${files.length === 1 ? 'aspect-video' : 'aspect-square'} bg-gray-100 dark:bg-gray-800 relative`}>
+                {file.type.startsWith('video/') ? (
+                  <video
+                    src={previews[index]}
+                    controls={files.length === 1}
+                    className="w-full h-full object-contain"
+                  />
+                ) : (
+                  <img
+                    src={previews[index]}
+                    alt={file.name}
+                    className="w-full h-full object-contain"
+                  />
+                )}
+              </div>
+
+              {/* Position in the post */}
+              {files.length > 1 && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs bg-black/60 text-white">
+                  {index + 1}
+                </span>
+              )}
+
+              {/* Remove button */}
+              <Button
+                variant="danger"
+                size="sm"
+                icon={<X size={16} />}
+                onClick={() => removeFile(index)}
+                className="absolute top-2 right-2"
+              >
+                {files.length === 1 ? 'Remove' : ''}
+              </Button>
+
+              {/* Reorder buttons */}
+              {files.length > 1 && (
+                <div className="absolute bottom-2 left-2 right-2 flex justify-between">
+                  <button
+                    type="button"
+                    onClick={() => moveFile(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded-full bg-black/60 text-white disabled:opacity-30"
+                    aria-label="Move earlier"
+                  >
+                    <ChevronLeft size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveFile(index, 1)}
+                    disabled={index === files.length - 1}
+                    className="p-1 rounded-full bg-black/60 text-white disabled:opacity-30"
+                    aria-label="Move later"
+                  >
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length < maxFiles && (
         <div
           {...getRootProps()}
           className={`
             border-2 border-dashed rounded-2xl p-8
             transition-colors flex flex-col items-center justify-center
             cursor-pointer
-            ${isDragActive 
-              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' 
+            ${isDragActive
+              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
               : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
             }
           `}
-          style={{ minHeight: '200px' }}
+          style={{ minHeight: files.length > 0 ? '120px' : '200px' }}
         >
           <input {...getInputProps()} />
-          
-          <Upload 
+
+          <Upload
             className={`mb-4 ${
               isDragActive ? 'text-blue-500' : 'text-gray-400 dark:text-gray-500'
-            }`} 
-            size={36} 
+            }`}
+            size={36}
           />
-          
+
           <p className="text-center text-gray-600 dark:text-gray-400 mb-2">
-            {isDragActive ? 'Drop the file here' : 'Drag & drop your file here, or click to browse'}
+            {isDragActive
+              ? 'Drop the files here'
+              : files.length > 0
+                ? 'Add more files'
+                : `Drag & drop your file${maxFiles > 1 ? 's' : ''} here, or click to browse`}
           </p>
-          
+
           <p className="text-xs text-gray-500 dark:text-gray-500 text-center">
-            {mediaType === 'image' ? 'Images: JPG, PNG, GIF up to 50MB' : 
+            {mediaType === 'image' ? 'Images: JPG, PNG, GIF up to 50MB' :
               mediaType === 'video' ? 'Videos: MP4, MOV up to 50MB' :
               'Files up to 50MB'}
+            {maxFiles > 1 && ` • up to ${maxFiles} files`}
           </p>
         </div>
-      ) : (
-        <div className="relative rounded-2xl overflow-hidden border border-gray-300 dark:border-gray-700">
-          {/* Preview image or video */}
-          <div className="aspect-video bg-gray-100 dark:bg-gray-800 relative">
-            {preview.startsWith('data:image/') ? (
-              <img 
-                src={preview} 
-                alt="Preview" 
-                className="w-full h-full object-contain"
-              />
-            ) : preview.startsWith('data:video/') ? (
-              <video 
-                src={preview} 
-                controls 
-                className="w-full h-full object-contain"
-              />
-            ) : (
-              <div className="w-full h-full flex items-center justify-center">
-                {mediaType === 'image' ? (
-                  <Image size={48} className="text-gray-400" />
-                ) : (
-                  <Film size={48} className="text-gray-400" />
-                )}
-              </div>
-            )}
-          </div>
-          
-          {/* Remove button */}
-          <Button
-            variant="danger"
-            size="sm"
-            icon={<X size={16} />}
-            onClick={removeFile}
-            className="absolute top-2 right-2"
-          >
-            Remove
-          </Button>
-        </div>
       )}
-      
+
       {error && (
         <p className="mt-2 text-sm text-red-600 dark:text-red-500">
           {error}
@@ -148,4 +206,4 @@ const FileUpload: React.FC<FileUploadProps> = ({
   );
 };
 
-export default FileUpload;
\ No newline at end of file
+export default FileUpload;
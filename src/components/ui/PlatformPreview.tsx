@@ -1,22 +1,39 @@
-import React from 'react';
-import { Platform } from '../../types';
-import { Instagram, Youtube } from 'lucide-react';
+import React, { useState } from 'react';
+import { InstagramPostFormat, MediaItem, Platform } from '../../types';
+import { Instagram, Youtube, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface PlatformPreviewProps {
   platform: Platform;
   content: string;
-  mediaUrl?: string;
-  mediaType?: 'image' | 'video';
+  media: MediaItem[]; // Post media in order; only Instagram shows more than the first item
+  instagramFormat?: InstagramPostFormat;
   username?: string;
+  title?: string; // YouTube: the video title; the first line of the content when not set
+  description?: string; // YouTube: the video description; the rest of the content when not set
+  tags?: string[];
+  firstComment?: string;
 }
 
 const PlatformPreview: React.FC<PlatformPreviewProps> = ({
   platform,
   content,
-  mediaUrl,
-  mediaType,
-  username = 'yourusername'
+  media,
+  instagramFormat = 'feed',
+  username = 'yourusername',
+  title,
+  description,
+  tags = [],
+  firstComment,
 }) => {
+  // Currently shown item of an Instagram carousel
+  const [carouselIndex, setCarouselIndex] = useState(0);
+  const activeIndex = Math.min(carouselIndex, Math.max(media.length - 1, 0));
+
+  // Platforms without carousels show the first item
+  const [firstMedia] = media;
+  const mediaUrl = firstMedia?.url;
+  const mediaType = firstMedia?.type;
+
   // Common preview components
   const ImagePreview = ({ url }: { url?: string }) => (
     url ? (
@@ -55,28 +72,82 @@ const PlatformPreview: React.FC<PlatformPreviewProps> = ({
             <Instagram size={16} className="text-white" />
           </div>
           <span className="ml-2 font-medium text-sm">{username}</span>
+          {instagramFormat !== 'feed' && (
+            <span className="ml-auto px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              {instagramFormat === 'reel' ? 'Reel' : 'Story'}
+            </span>
+          )}
         </div>
         
-        {/* Media */}
-        <div className="aspect-square bg-black">
-          {mediaType === 'image' ? (
-            <ImagePreview url={mediaUrl} />
-          ) : mediaType === 'video' ? (
-            <VideoPreview url={mediaUrl} />
+        {/* Media: Reels and Stories are vertical */}
+        <div className={`${instagramFormat === 'feed' ? 'aspect-square' : 'aspect-[9/16]'} bg-black relative`}>
+          {media[activeIndex]?.type === 'image' ? (
+            <ImagePreview url={media[activeIndex].url} />
+          ) : media[activeIndex]?.type === 'video' ? (
+            <VideoPreview url={media[activeIndex].url} />
           ) : (
             <div className="bg-gray-200 dark:bg-gray-700 w-full h-full flex items-center justify-center">
               <span className="text-gray-500 dark:text-gray-400">No media</span>
             </div>
           )}
+
+          {/* Carousel navigation */}
+          {media.length > 1 && (
+            <>
+              <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full text-xs bg-black/60 text-white">
+                {activeIndex + 1}/{media.length}
+              </span>
+              {activeIndex > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setCarouselIndex(activeIndex - 1)}
+                  className="absolute left-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-white/80 text-gray-900"
+                  aria-label="Previous item"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+              )}
+              {activeIndex < media.length - 1 && (
+                <button
+                  type="button"
+                  onClick={() => setCarouselIndex(activeIndex + 1)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-white/80 text-gray-900"
+                  aria-label="Next item"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              )}
+            </>
+          )}
         </div>
+
+        {/* Carousel position dots */}
+        {media.length > 1 && (
+          <div className="flex justify-center gap-1 pt-2">
+            {media.map((item, index) => (
+              <span
+                key={item.url}
+                className={`w-1.5 h-1.5 rounded-full ${index === activeIndex ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+              />
+            ))}
+          </div>
+        )}
         
-        {/* Caption */}
-        <div className="p-3">
-          <p className="text-sm">
-            <span className="font-semibold mr-1">{username}</span>
-            {content || 'Your caption will appear here'}
-          </p>
-        </div>
+        {/* Caption (Stories have none) */}
+        {instagramFormat !== 'story_image' && instagramFormat !== 'story_video' && (
+          <div className="p-3">
+            <p className="text-sm">
+              <span className="font-semibold mr-1">{username}</span>
+              {content || 'Your caption will appear here'}
+            </p>
+            {firstComment && (
+              <p className="text-sm mt-1">
+                <span className="font-semibold mr-1">{username}</span>
+                {firstComment}
+              </p>
+            )}
+          </div>
+        )}
       </div>
     );
   }
@@ -101,7 +172,7 @@ const PlatformPreview: React.FC<PlatformPreviewProps> = ({
         {/* Title & details */}
         <div className="p-3">
           <h3 className="font-semibold mb-1 line-clamp-2">
-            {content?.length > 0 ? content.split('\n')[0] : 'Your video title'}
+            {title || (content?.length > 0 ? content.split('\n')[0] : 'Your video title')}
           </h3>
           <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
             <span>{username}</span>
@@ -109,8 +180,19 @@ const PlatformPreview: React.FC<PlatformPreviewProps> = ({
             <span>Just now</span>
           </div>
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-            {content?.split('\n').slice(1).join('\n') || 'Your description will appear here'}
+            {(description ?? content?.split('\n').slice(1).join('\n')) || 'Your description will appear here'}
           </p>
+          {tags.length > 0 && (
+            <p className="mt-1 text-xs text-blue-600 dark:text-blue-400">
+              {tags.map(tag => `#${tag}`).join(' ')}
+            </p>
+          )}
+          {firstComment && (
+            <p className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 text-sm">
+              <span className="font-semibold mr-1">{username}</span>
+              {firstComment}
+            </p>
+          )}
         </div>
       </div>
     );
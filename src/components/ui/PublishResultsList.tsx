@@ -0,0 +1,57 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { PlatformPublishResult } from '../../types';
+import useSettingsStore from '../../store/useSettingsStore';
+
+interface PublishResultsListProps {
+  results: Record<string, PlatformPublishResult>; // Keyed by account ID
+}
+
+const PublishResultsList: React.FC<PublishResultsListProps> = ({ results }) => {
+  const accounts = useSettingsStore(state => state.accounts);
+  const entries = Object.values(results).filter(
+    (result): result is PlatformPublishResult => !!result
+  );
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  // Name the account when it is still connected, otherwise fall back to the platform
+  const getLabel = (result: PlatformPublishResult) =>
+    accounts.find(account => account.id === result.accountId)?.displayName || result.platform;
+
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {entries.map((result) => (
+        <li key={result.accountId} className="flex items-center text-xs">
+          {result.status === 'published' ? (
+            <CheckCircle size={12} className="mr-1 text-green-600 dark:text-green-400" />
+          ) : result.status === 'publishing' ? (
+            <Clock size={12} className="mr-1 text-yellow-600 dark:text-yellow-400" />
+          ) : (
+            <AlertCircle size={12} className="mr-1 text-red-600 dark:text-red-400" />
+          )}
+          <span className="capitalize font-medium mr-1">{getLabel(result)}</span>
+          {result.status === 'published' ? (
+            <span className="text-gray-500 dark:text-gray-400">
+              OK
+              {result.firstCommentError && (
+                <span className="text-yellow-600 dark:text-yellow-400"> (first comment not added: {result.firstCommentError})</span>
+              )}
+            </span>
+          ) : result.status === 'publishing' ? (
+            <span className="text-gray-500 dark:text-gray-400">publishing since {result.startedAt.toLocaleString()}</span>
+          ) : (
+            <span className="text-red-600 dark:text-red-400">
+              failed{result.errorCode ? ` (${result.errorCode})` : ''}: {result.errorMessage}
+              {result.attempts > 1 ? ` after ${result.attempts} attempts` : ''}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PublishResultsList;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { PostValidationIssue } from '../../lib/platformConstraints';
+
+interface ValidationMessagesProps {
+  issues: PostValidationIssue[];
+}
+
+// Errors first, then warnings
+const ValidationMessages: React.FC<ValidationMessagesProps> = ({ issues }) => {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {sorted.map((issue, index) => (
+        <li
+          key={`${issue.platform}-${issue.code}-${issue.mediaIndex ?? ''}-${index}`}
+          className={`flex items-start text-xs ${issue.severity === 'error'
+            ? 'text-red-600 dark:text-red-400'
+            : 'text-yellow-700 dark:text-yellow-400'}`}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+          )}
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ValidationMessages;
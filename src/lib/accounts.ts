@@ -0,0 +1,49 @@
+/**
+ * Account helpers
+ *
+ * Posts target accounts rather than platforms, so several accounts on the
+ * same platform (e.g. two brands' Instagram) can be published to at once.
+ * These helpers answer the platform-level questions the UI still asks.
+ */
+
+import { Account, Platform, Post, PostTarget } from '../types';
+
+/**
+ * ID given to the single account per platform that existed before
+ * multiple accounts were supported, so old posts can be linked to it
+ */
+export function legacyAccountId(platform: Platform): string {
+  return `${platform}-default`;
+}
+
+/**
+ * Whether an account can be used: demo mode only uses the demo accounts,
+ * so nothing it does reaches or changes a real account
+ */
+export function isUsableAccount(account: Account, demoMode: boolean): boolean {
+  return !!account.isDemo === demoMode;
+}
+
+/**
+ * The distinct platforms a list of targets covers
+ */
+export function getTargetPlatforms(targets: PostTarget[]): Platform[] {
+  return Array.from(new Set(targets.map(target => target.platform)));
+}
+
+/**
+ * The IDs of a post on a platform, one per account it was published to
+ */
+export function getPlatformPostIds(post: Post, platform: Platform): string[] {
+  return post.targets
+    .filter(target => target.platform === platform)
+    .map(target => post.platformPostIds?.[target.accountId])
+    .filter((id): id is string => !!id);
+}
+
+/**
+ * The first ID of a post on a platform
+ */
+export function getPlatformPostId(post: Post, platform: Platform): string | undefined {
+  return getPlatformPostIds(post, platform)[0];
+}
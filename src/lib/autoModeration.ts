@@ -0,0 +1,331 @@
+/**
+ * Auto-moderation
+ *
+ * Runs the moderation rules from Settings on new comments as they are synced.
+ * Rules only apply to top-level comments from other people; replies, ours or
+ * anyone else's, are left to the conversation. A rule applies to such a
+ * comment when it meets every one of its conditions, and its
+ * actions go through lib/commentModeration, so the platform changes before the
+ * comments store does. Each rule runs once per comment, even if one of its
+ * actions fails, so a flaky platform can't get the same comment two auto-replies.
+ *
+ * previewRule shows what a rule would do to the stored comments without doing it.
+ */
+
+import useCommentsStore from '../store/useCommentsStore';
+import useSettingsStore from '../store/useSettingsStore';
+import { Comment, ModerationAction, ModerationActionType, ModerationRule, ModerationRuleConditions } from '../types';
+import { deleteComment, hideComment, markCommentAsSpam, replyToComment } from './commentModeration';
+
+// Languages a rule can match, by code
+export const MODERATION_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  it: 'Italian',
+  ru: 'Russian',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+// Scripts only one of the languages is written in; checked in order, as Japanese uses Chinese characters too
+const LANGUAGE_SCRIPTS: Array<[string, RegExp]> = [
+  ['ja', /[぀-ヿ]/g],
+  ['ko', /[가-힯]/g],
+  ['zh', /[一-鿿]/g],
+  ['ru', /[Ѐ-ӿ]/g],
+  ['ar', /[؀-ۿ]/g],
+  ['hi', /[ऀ-ॿ]/g],
+];
+
+// Common short words that tell the languages written in Latin script apart
+const LANGUAGE_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'this', 'you', 'it', 'of', 'to', 'love', 'great', 'what', 'where', 'my', 'for'],
+  es: ['el', 'la', 'los', 'que', 'es', 'y', 'de', 'muy', 'por', 'para', 'con', 'gracias', 'hola', 'esto'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'de', 'je', 'vous', 'tres', 'très', 'merci', 'pour', 'avec', 'c\'est'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'sehr', 'danke', 'mit', 'für', 'ein', 'eine', 'auch'],
+  pt: ['o', 'os', 'que', 'e', 'é', 'de', 'muito', 'obrigado', 'obrigada', 'para', 'com', 'não', 'você', 'isso'],
+  it: ['il', 'che', 'e', 'è', 'di', 'molto', 'grazie', 'per', 'con', 'non', 'sono', 'questo', 'della', 'bello'],
+};
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|ly|co|xyz|info|biz|me|link|shop)\b/i;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+// One action of a rule that failed on a comment
+export interface AutoModerationError {
+  commentId: string;
+  ruleId: string;
+  action: ModerationActionType;
+  message: string;
+}
+
+export interface AutoModerationResult {
+  moderated: number; // Comments at least one rule applied to
+  errors: AutoModerationError[];
+}
+
+// A comment a rule matches, for a dry run
+export interface ModerationPreview {
+  comment: Comment;
+  actions: ModerationAction[];
+}
+
+/**
+ * The language a comment is most likely written in, or undefined when there's no telling
+ */
+export function detectLanguage(text: string): string | undefined {
+  const letters = text.replace(/[\s\p{P}\p{S}\p{N}]/gu, '').length;
+  for (const [language, script] of LANGUAGE_SCRIPTS) {
+    const matches = text.match(script)?.length ?? 0;
+    if (letters > 0 && matches / letters >= 0.3) {
+      return language;
+    }
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  let best: string | undefined;
+  let bestHits = 0;
+  for (const [language, common] of Object.entries(LANGUAGE_WORDS)) {
+    const hits = words.filter(word => common.includes(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    } else if (hits === bestHits) {
+      // A tie between languages says nothing
+      best = undefined;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The share of a text's characters (not counting spaces) that are emoji
+ */
+export function getEmojiRatio(text: string): number {
+  const characters = Array.from(text.replace(/\s/g, '')).length;
+  if (characters === 0) {
+    return 0;
+  }
+  return (text.match(EMOJI_PATTERN)?.length ?? 0) / characters;
+}
+
+export function hasLink(text: string): boolean {
+  return LINK_PATTERN.test(text);
+}
+
+/**
+ * A rule's regular expression, or undefined when it has none or it doesn't compile
+ */
+export function compileRulePattern(pattern?: string): RegExp | undefined {
+  if (!pattern?.trim()) {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a comment meets every condition of a rule
+ * A rule with a regular expression that doesn't compile matches nothing
+ */
+export function matchesConditions(comment: Comment, conditions: ModerationRuleConditions): boolean {
+  const text = comment.content;
+  const lowerText = text.toLowerCase();
+
+  if (conditions.platforms?.length && !conditions.platforms.includes(comment.platform)) {
+    return false;
+  }
+
+  if (conditions.postIds?.length && !conditions.postIds.includes(comment.postId)) {
+    return false;
+  }
+
+  const keywords = conditions.keywords?.map(keyword => keyword.trim().toLowerCase()).filter(Boolean) || [];
+  if (keywords.length && !keywords.some(keyword => lowerText.includes(keyword))) {
+    return false;
+  }
+
+  if (conditions.pattern?.trim()) {
+    const pattern = compileRulePattern(conditions.pattern);
+    if (!pattern?.test(text)) {
+      return false;
+    }
+  }
+
+  const authors = conditions.authors?.map(author => author.trim().replace(/^@/, '').toLowerCase()).filter(Boolean) || [];
+  if (authors.length) {
+    const names = [comment.author.name, comment.author.username].map(name => name?.replace(/^@/, '').toLowerCase());
+    if (!names.some(name => name && authors.includes(name))) {
+      return false;
+    }
+  }
+
+  if (conditions.hasLink !== undefined && hasLink(text) !== conditions.hasLink) {
+    return false;
+  }
+
+  if (conditions.minEmojiRatio !== undefined && getEmojiRatio(text) < conditions.minEmojiRatio) {
+    return false;
+  }
+
+  if (conditions.languages?.length) {
+    const language = detectLanguage(text);
+    if (!language || !conditions.languages.includes(language)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether moderation rules apply to a comment at all: top-level comments, not replies
+ */
+export function isModerationCandidate(comment: Comment): boolean {
+  return !comment.parentCommentId && !comment.isOwnReply;
+}
+
+/**
+ * Whether a rule would act on a comment
+ */
+function appliesTo(rule: ModerationRule, comment: Comment): boolean {
+  return isModerationCandidate(comment) && rule.actions.length > 0 && matchesConditions(comment, rule.conditions);
+}
+
+/**
+ * A reply template with the comment's details filled in
+ */
+export function renderReplyTemplate(template: string, comment: Comment): string {
+  return template
+    .replace(/\{author\}/g, comment.author.name || comment.author.username)
+    .replace(/\{platform\}/g, comment.platform)
+    .trim();
+}
+
+/**
+ * A short description of an action, for settings and dry runs
+ */
+export function describeModerationAction(action: ModerationAction): string {
+  switch (action.type) {
+    case 'markSpam':
+      return 'Mark as spam';
+    case 'hide':
+      return 'Hide';
+    case 'delete':
+      return 'Delete';
+    case 'reply':
+      return `Reply "${action.template}"`;
+    case 'tag':
+      return `Tag "${action.tag}"`;
+    case 'assign':
+      return `Assign to ${action.assignee}`;
+  }
+}
+
+/**
+ * The comments a rule would act on, whether or not it is enabled or has run on them already
+ */
+export function previewRule(rule: ModerationRule, comments: Comment[]): ModerationPreview[] {
+  return comments
+    .filter(comment => appliesTo(rule, comment))
+    .map(comment => ({ comment, actions: rule.actions }));
+}
+
+/**
+ * Run the enabled rules on comments, in order, skipping rules that already ran on a comment
+ * Callers pass the comments a sync just added, so rules don't reach back to older ones
+ * Failures are reported in the result rather than thrown
+ */
+export async function applyModerationRules(
+  comments: Comment[],
+  rules: ModerationRule[] = useSettingsStore.getState().moderationRules
+): Promise<AutoModerationResult> {
+  const result: AutoModerationResult = { moderated: 0, errors: [] };
+  const enabledRules = rules.filter(rule => rule.enabled);
+  if (enabledRules.length === 0) {
+    return result;
+  }
+
+  for (const comment of comments) {
+    let moderated = false;
+
+    for (const rule of enabledRules) {
+      const current = getStoredComment(comment.id);
+      // Gone when an earlier rule deleted it
+      if (!current || current.appliedRuleIds?.includes(rule.id) || !appliesTo(rule, current)) {
+        continue;
+      }
+
+      useCommentsStore.getState().updateComment(current.id, { appliedRuleIds: [...(current.appliedRuleIds || []), rule.id] });
+      moderated = true;
+
+      for (const action of rule.actions) {
+        const target = getStoredComment(comment.id);
+        if (!target) {
+          break;
+        }
+
+        try {
+          await runAction(action, target);
+        } catch (error) {
+          console.error(`Moderation rule "${rule.name}" could not ${action.type} comment ${target.platformCommentId}:`, error);
+          result.errors.push({
+            commentId: target.id,
+            ruleId: rule.id,
+            action: action.type,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (moderated) {
+      result.moderated++;
+    }
+  }
+
+  return result;
+}
+
+function getStoredComment(id: string): Comment | undefined {
+  return useCommentsStore.getState().comments.find(comment => comment.id === id);
+}
+
+async function runAction(action: ModerationAction, comment: Comment): Promise<void> {
+  switch (action.type) {
+    case 'markSpam':
+      if (!comment.isSpam) {
+        await markCommentAsSpam(comment);
+      }
+      return;
+    case 'hide':
+      if (!comment.isHidden) {
+        await hideComment(comment);
+      }
+      return;
+    case 'delete':
+      await deleteComment(comment);
+      return;
+    case 'reply':
+      await replyToComment(comment, renderReplyTemplate(action.template, comment));
+      return;
+    case 'tag':
+      if (!comment.tags?.includes(action.tag)) {
+        useCommentsStore.getState().updateComment(comment.id, { tags: [...(comment.tags || []), action.tag] });
+      }
+      return;
+    case 'assign':
+      useCommentsStore.getState().updateComment(comment.id, { assignee: action.assignee });
+      return;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Comment moderation
+ *
+ * Replies to, hides, deletes and reports comments on the platform they were
+ * left on, and only then changes them in the comments store, so what we show
+ * matches what the platform's users see. Each function throws when the
+ * platform refuses (or doesn't offer) the action, leaving the stored comment
+ * as it was.
+ */
+
+import usePostsStore from '../store/usePostsStore';
+import useCommentsStore from '../store/useCommentsStore';
+import useSettingsStore from '../store/useSettingsStore';
+import { apiFactory } from '../api';
+import { PlatformAdapter } from '../api/PlatformAdapter';
+import { AccountNotFoundError, UnsupportedOperationError } from '../api/errors';
+import { Account, Comment } from '../types';
+
+/**
+ * The account the comment's post was published from
+ * Throws an AccountNotFoundError when the post isn't known locally or its account was removed,
+ * rather than acting on the comment as another account of the platform
+ */
+export function getCommentAccount(comment: Comment): Account {
+  const post = usePostsStore.getState().posts.find(p => p.id === comment.postId);
+  const target = post?.targets.find(target =>
+    target.platform === comment.platform &&
+    post.platformPostIds?.[target.accountId] === comment.platformPostId
+  );
+  const account = target && useSettingsStore.getState().getAccount(target.accountId);
+
+  if (!account) {
+    throw new AccountNotFoundError(
+      `The ${comment.platform} account this comment's post was published from is not connected. Connect it again to manage its comments.`,
+      { platform: comment.platform }
+    );
+  }
+  return account;
+}
+
+/**
+ * The service for the comment's account, and the comment's platform ID
+ */
+export function getCommentAdapter(comment: Comment): { adapter: PlatformAdapter; platformCommentId: string } {
+  if (!comment.platformCommentId) {
+    throw new Error('This comment was not loaded from the platform. Refresh to load the real comments.');
+  }
+
+  const adapter = apiFactory.getApiService(getCommentAccount(comment).id);
+  return { adapter, platformCommentId: comment.platformCommentId };
+}
+
+/**
+ * Reply to a comment and keep the reply in its thread
+ * Returns the platform ID of the reply
+ */
+export async function replyToComment(comment: Comment, text: string): Promise<string> {
+  const { adapter, platformCommentId } = getCommentAdapter(comment);
+  if (!adapter.capabilities.reply) {
+    throw new UnsupportedOperationError(`Replying to comments on ${comment.platform} is not supported`, { platform: comment.platform });
+  }
+
+  const replyId = await adapter.reply(comment.platformPostId, platformCommentId, text);
+
+  const account = getCommentAccount(comment);
+  const name = account.displayName || 'You';
+  useCommentsStore.getState().addOwnReply(comment.id, {
+    platformCommentId: replyId,
+    content: text,
+    author: { id: account.id, name, username: name },
+  });
+  return replyId;
+}
+
+/**
+ * Hide a comment from the public; unhideComment undoes it
+ */
+export async function hideComment(comment: Comment): Promise<void> {
+  const { adapter, platformCommentId } = getCommentAdapter(comment);
+  await whileModerating(comment, async () => {
+    await adapter.hideComment(platformCommentId);
+    useCommentsStore.getState().updateComment(comment.id, { isHidden: true });
+  });
+}
+
+export async function unhideComment(comment: Comment): Promise<void> {
+  const { adapter, platformCommentId } = getCommentAdapter(comment);
+  await whileModerating(comment, async () => {
+    await adapter.unhideComment(platformCommentId);
+    useCommentsStore.getState().updateComment(comment.id, { isHidden: false });
+  });
+}
+
+/**
+ * Report a comment as spam
+ * Platforms without a spam report get the comment hidden instead
+ */
+export async function markCommentAsSpam(comment: Comment): Promise<void> {
+  const { adapter, platformCommentId } = getCommentAdapter(comment);
+
+  if (adapter.capabilities.markSpam) {
+    await adapter.markCommentAsSpam(platformCommentId);
+    useCommentsStore.getState().updateComment(comment.id, { isSpam: true });
+  } else if (adapter.capabilities.hideComment) {
+    await whileModerating(comment, async () => {
+      await adapter.hideComment(platformCommentId);
+      useCommentsStore.getState().updateComment(comment.id, { isSpam: true, isHidden: true });
+    });
+  } else {
+    throw new UnsupportedOperationError(`Spam can't be reported or hidden on ${comment.platform}`, { platform: comment.platform });
+  }
+}
+
+/**
+ * Delete a comment, with its replies
+ */
+export async function deleteComment(comment: Comment): Promise<void> {
+  const { adapter, platformCommentId } = getCommentAdapter(comment);
+  await adapter.deleteComment(platformCommentId);
+  useCommentsStore.getState().deleteComment(comment.id);
+}
+
+/**
+ * Change a comment on its platform with the comment marked as pending,
+ * so a sync that loaded it before the change doesn't undo it in the store
+ */
+async function whileModerating(comment: Comment, action: () => Promise<void>): Promise<void> {
+  const { setModerationPending } = useCommentsStore.getState();
+  setModerationPending(comment.id, true);
+
+  try {
+    await action();
+  } finally {
+    setModerationPending(comment.id, false);
+  }
+}
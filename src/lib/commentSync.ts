@@ -0,0 +1,353 @@
+/**
+ * CommentSyncService
+ *
+ * Loads the comments on every published post from the platforms it was
+ * published to and stores them in the comments store. Comments are keyed by
+ * their platform and platform comment ID, so syncing again updates them
+ * (likes, edited text) instead of adding duplicates.
+ *
+ * Each post keeps a sync cursor with the time of the newest comment seen, and
+ * later syncs only fetch comments from then on. While the app is open a poller
+ * syncs posts in the background, checking new posts more often than old ones.
+ *
+ * The replies to each comment fetched are loaded with it and stored with the
+ * platform ID of the comment they reply to. Threads from earlier syncs that had
+ * replies lately are asked for their replies again; new replies to other older
+ * comments only come in with a full sync, which fetches every comment again.
+ *
+ * The auto-moderation rules from Settings run on the new comments of each post
+ * as soon as they are stored.
+ */
+
+import usePostsStore from '../store/usePostsStore';
+import useCommentsStore, { commentSyncCursorKey, SyncedComment } from '../store/useCommentsStore';
+import useSettingsStore from '../store/useSettingsStore';
+import { apiFactory } from '../api';
+import { applyModerationRules } from './autoModeration';
+import { isUsableAccount } from './accounts';
+import { PlatformComment } from '../api/PlatformAdapter';
+import { Comment, CommentPollingSettings, Platform, Post, PostTarget } from '../types';
+
+// How often the poller looks for posts that are due a sync (1 minute)
+const DEFAULT_TICK_INTERVAL = 60 * 1000;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How recent a thread's last reply must be for its replies to be checked on every sync
+const ACTIVE_THREAD_AGE = 2 * DAY;
+
+// A post on one account whose comments could not be loaded
+export interface CommentSyncError {
+  accountId: string;
+  platform: Platform;
+  platformPostId: string;
+  message: string;
+}
+
+export interface CommentSyncOptions {
+  dueOnly?: boolean; // Skip posts synced more recently than their polling interval
+  full?: boolean; // Fetch every comment, not just those since the cursor, to pick up new replies to older ones
+  now?: Date;
+}
+
+export interface CommentSyncServiceOptions {
+  tickInterval?: number;
+}
+
+// A sync that was started or asked for, and what it was asked to do
+interface PendingSync {
+  options: CommentSyncOptions;
+  result: Promise<CommentSyncResult>;
+}
+
+export interface CommentSyncResult {
+  postsSynced: number;
+  added: number;
+  updated: number;
+  autoModerated: number; // Comments an auto-moderation rule applied to
+  errors: CommentSyncError[];
+  unsupportedPlatforms: Platform[]; // Platforms whose API doesn't let us read comments
+}
+
+/**
+ * A platform comment as stored for one of our posts
+ */
+export function toSyncedComment(comment: PlatformComment, post: Post, target: PostTarget, platformPostId: string): SyncedComment {
+  return {
+    platform: target.platform,
+    postId: post.id,
+    platformPostId,
+    platformCommentId: comment.id,
+    content: comment.text,
+    author: {
+      id: comment.author.id,
+      name: comment.author.name,
+      username: comment.author.username || comment.author.name,
+      avatarUrl: comment.author.avatarUrl,
+    },
+    likes: comment.likes,
+    createdAt: comment.createdAt,
+    parentCommentId: comment.parentId,
+    replyCount: comment.replyCount,
+  };
+}
+
+/**
+ * How long to wait between syncs of a post's comments; new posts get the most comments, so they are checked most often
+ */
+export function getCommentPollInterval(post: Post, settings: CommentPollingSettings, now: Date = new Date()): number {
+  const age = now.getTime() - new Date(post.publishedAt ?? post.createdAt).getTime();
+  const minutes = age < DAY
+    ? settings.recentPostMinutes
+    : age < 7 * DAY ? settings.weekOldPostMinutes : settings.olderPostMinutes;
+
+  return minutes * MINUTE;
+}
+
+/**
+ * Whether a sync made with the given options also does everything asked for by the other options
+ */
+function coversSync(running: CommentSyncOptions, requested: CommentSyncOptions): boolean {
+  return (!running.dueOnly || !!requested.dueOnly) && (!!running.full || !requested.full);
+}
+
+/**
+ * Options for one sync that does what both sets of options ask for
+ */
+function mergeSyncOptions(a: CommentSyncOptions, b: CommentSyncOptions): CommentSyncOptions {
+  return {
+    dueOnly: !!a.dueOnly && !!b.dueOnly,
+    full: !!a.full || !!b.full,
+    now: b.now ?? a.now,
+  };
+}
+
+/**
+ * The stored comments on a post with a reply made lately, other than those just fetched
+ */
+function getActiveThreads(
+  platform: Platform,
+  platformPostId: string,
+  fetched: SyncedComment[],
+  now: Date
+): Array<Pick<Comment, 'id'> & { platformCommentId: string }> {
+  const { comments } = useCommentsStore.getState();
+  const onPost = comments.filter(comment => comment.platform === platform && comment.platformPostId === platformPostId);
+  const fetchedIds = new Set(fetched.map(comment => comment.platformCommentId));
+
+  const lastReplyAt = new Map<string, number>();
+  for (const { parentCommentId, createdAt } of onPost) {
+    if (parentCommentId) {
+      lastReplyAt.set(parentCommentId, Math.max(lastReplyAt.get(parentCommentId) ?? 0, createdAt.getTime()));
+    }
+  }
+
+  return onPost.flatMap(({ id, platformCommentId }) =>
+    platformCommentId && !fetchedIds.has(platformCommentId) &&
+    now.getTime() - (lastReplyAt.get(platformCommentId) ?? 0) < ACTIVE_THREAD_AGE
+      ? [{ id, platformCommentId }]
+      : []
+  );
+}
+
+export class CommentSyncService {
+  private tickInterval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // The sync in progress; a second caller waits for it rather than starting another
+  private running: PendingSync | null = null;
+  // The sync to run next, for callers that asked for more than the running sync does
+  private queued: PendingSync | null = null;
+
+  constructor(options: CommentSyncServiceOptions = {}) {
+    this.tickInterval = options.tickInterval ?? DEFAULT_TICK_INTERVAL;
+  }
+
+  /**
+   * Start polling. Safe to call more than once.
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Comment sync started (checking every ${this.tickInterval / 1000}s)`);
+
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.tickInterval);
+
+    // Posts and sync cursors are loaded from IndexedDB asynchronously, so wait for them
+    const stores = [usePostsStore, useCommentsStore];
+    stores.forEach(store => {
+      if (!store.persist.hasHydrated()) {
+        const unsubscribe = store.persist.onFinishHydration(() => {
+          unsubscribe();
+          this.tick();
+        });
+      }
+    });
+    this.tick();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('Comment sync stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Sync the posts that are due, if polling is turned on and the stores are loaded
+   */
+  async tick(): Promise<void> {
+    const hydrated = usePostsStore.persist.hasHydrated() && useCommentsStore.persist.hasHydrated();
+    if (!this.timer || !hydrated || !useSettingsStore.getState().commentPolling.enabled) {
+      return;
+    }
+
+    try {
+      await this.sync({ dueOnly: true });
+    } catch (error) {
+      console.error('Error in comment sync tick:', error);
+    }
+  }
+
+  /**
+   * Load the new comments of every published post and store them
+   * A call made while a sync is running gets that sync's result when the running sync
+   * covers what it asks for; otherwise it runs once that sync ends, merged with any
+   * other such call made in the meantime
+   */
+  sync(options: CommentSyncOptions = {}): Promise<CommentSyncResult> {
+    if (!this.running) {
+      const result = this.syncAll(options).finally(() => {
+        this.running = null;
+      });
+      this.running = { options, result };
+      return result;
+    }
+
+    if (coversSync(this.running.options, options)) {
+      return this.running.result;
+    }
+
+    if (this.queued) {
+      this.queued.options = mergeSyncOptions(this.queued.options, options);
+      return this.queued.result;
+    }
+
+    const queued: PendingSync = {
+      options,
+      result: this.running.result.catch(() => undefined).then(() => {
+        this.queued = null;
+        return this.sync(queued.options);
+      }),
+    };
+    this.queued = queued;
+    return queued.result;
+  }
+
+  isSyncing(): boolean {
+    return this.running !== null;
+  }
+
+  private async syncAll({ dueOnly = false, full = false, now = new Date() }: CommentSyncOptions): Promise<CommentSyncResult> {
+    const { platformsEnabled, commentPolling, demoMode, getAccount } = useSettingsStore.getState();
+    const posts = usePostsStore.getState().posts.filter(post => post.platformPostIds);
+    const result: CommentSyncResult = { postsSynced: 0, added: 0, updated: 0, autoModerated: 0, errors: [], unsupportedPlatforms: [] };
+
+    for (const post of posts) {
+      for (const target of post.targets) {
+        const platformPostId = post.platformPostIds?.[target.accountId];
+        const account = getAccount(target.accountId);
+        // Demo mode leaves the comments of real accounts alone
+        if (!platformPostId || !platformsEnabled[target.platform] || (account && !isUsableAccount(account, demoMode))) {
+          continue;
+        }
+
+        const key = commentSyncCursorKey(target.accountId, platformPostId);
+        const cursor = useCommentsStore.getState().syncCursors[key];
+        if (dueOnly && cursor && now.getTime() - cursor.lastSyncedAt.getTime() < getCommentPollInterval(post, commentPolling, now)) {
+          continue;
+        }
+
+        let lastSeenAt = cursor?.lastSeenAt;
+        try {
+          const adapter = apiFactory.getApiService(target.accountId);
+          if (!adapter.capabilities.fetchComments) {
+            if (!result.unsupportedPlatforms.includes(target.platform)) {
+              result.unsupportedPlatforms.push(target.platform);
+            }
+            continue;
+          }
+
+          // Only comments from the newest one we have on; it comes again, and is updated
+          const platformComments = await adapter.fetchComments(platformPostId, { since: full ? undefined : cursor?.lastSeenAt });
+          const comments = platformComments.map(comment => toSyncedComment(comment, post, target, platformPostId));
+
+          const replies: SyncedComment[] = [];
+          const fetchReplies = async (platformCommentId: string) => {
+            const platformReplies = await adapter.fetchReplies(platformPostId, platformCommentId);
+            replies.push(...platformReplies.map(reply => ({
+              ...toSyncedComment(reply, post, target, platformPostId),
+              parentCommentId: platformCommentId,
+            })));
+            return platformReplies.length;
+          };
+
+          // Comments the platform says have no replies are not asked for them
+          for (const comment of comments.filter(comment => comment.replyCount !== 0)) {
+            comment.replyCount = await fetchReplies(comment.platformCommentId);
+          }
+
+          // Replies to older comments don't move them up the comment list; a full sync fetched them already
+          const threads = full ? [] : getActiveThreads(target.platform, platformPostId, comments, now);
+          for (const thread of threads) {
+            useCommentsStore.getState().updateComment(thread.id, { replyCount: await fetchReplies(thread.platformCommentId) });
+          }
+
+          const { added, updated, addedComments } = useCommentsStore.getState().upsertComments([...comments, ...replies]);
+
+          result.postsSynced++;
+          result.added += added;
+          result.updated += updated;
+          // Rule failures are logged by the rules engine; the comments are stored either way
+          result.autoModerated += (await applyModerationRules(addedComments)).moderated;
+          // Replies don't move the cursor; it follows the post's own comment list
+          lastSeenAt = comments.reduce<Date | undefined>(
+            (newest, comment) => !newest || comment.createdAt > newest ? comment.createdAt : newest,
+            lastSeenAt
+          );
+        } catch (error) {
+          console.error(`Error loading comments for ${target.platform} post ${platformPostId}:`, error);
+          result.errors.push({
+            accountId: target.accountId,
+            platform: target.platform,
+            platformPostId,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+
+        // A failed post waits for its next turn too, rather than being retried every tick
+        useCommentsStore.getState().setSyncCursor(key, { lastSyncedAt: now, lastSeenAt });
+      }
+    }
+
+    console.log(`Comment sync: ${result.postsSynced} post(s), ${result.added} new, ${result.updated} updated, ${result.autoModerated} auto-moderated, ${result.errors.length} failed`);
+    return result;
+  }
+}
+
+// Export a singleton instance
+export const commentSyncService = new CommentSyncService();
+
+export default commentSyncService;
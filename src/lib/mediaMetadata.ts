@@ -0,0 +1,43 @@
+/**
+ * Media metadata
+ *
+ * Platform rules depend on the dimensions and duration of the media, which
+ * the browser can read by loading the image or the video's metadata. Media it
+ * cannot load (e.g. a URL that does not allow it) resolves with nothing, and
+ * the rules that need those facts are skipped.
+ */
+
+import { MediaItem } from '../types';
+
+export type MediaMetadata = Pick<MediaItem, 'width' | 'height' | 'durationSec'>;
+
+// Give up on media that takes longer than this to load
+const METADATA_TIMEOUT = 10 * 1000;
+
+export function readMediaMetadata(item: MediaItem): Promise<MediaMetadata> {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout>;
+    const done = (metadata: MediaMetadata) => {
+      clearTimeout(timer);
+      resolve(metadata);
+    };
+    timer = setTimeout(() => done({}), METADATA_TIMEOUT);
+
+    if (item.type === 'image') {
+      const image = new Image();
+      image.onload = () => done({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => done({});
+      image.src = item.url;
+    } else {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => done({
+        width: video.videoWidth || undefined,
+        height: video.videoHeight || undefined,
+        durationSec: Number.isFinite(video.duration) ? video.duration : undefined,
+      });
+      video.onerror = () => done({});
+      video.src = item.url;
+    }
+  });
+}
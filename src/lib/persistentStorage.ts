@@ -0,0 +1,146 @@
+/**
+ * Persistent storage helpers for zustand stores
+ *
+ * Posts and comments can carry media payloads (File objects, long data URLs)
+ * that do not fit in localStorage, so they are stored in IndexedDB using the
+ * structured clone algorithm. Each persisted store has a schema version and a
+ * list of migrations that bring older saved data up to the current shape.
+ */
+
+import { createJSONStorage, PersistStorage, StorageValue } from 'zustand/middleware';
+
+const DB_NAME = 'social-media-manager';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+// A migration takes the state saved at version N and returns it at version N + 1
+export type Migration = (state: any) => any;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Writes that have not finished yet, see whenPersisted
+const pendingWrites: Set<Promise<void>> = new Set();
+
+/**
+ * Open (and create if needed) the app's IndexedDB database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Failed to open IndexedDB'));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request against the key/value object store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = callback(transaction.objectStore(STORE_NAME));
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Create a zustand persist storage backed by IndexedDB.
+ * Falls back to JSON in localStorage when IndexedDB is not available.
+ */
+export function createIndexedDbStorage<S>(): PersistStorage<S> | undefined {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, falling back to localStorage');
+    return createJSONStorage<S>(() => localStorage);
+  }
+
+  return {
+    getItem: async (name) => {
+      try {
+        const value = await withStore<StorageValue<S> | undefined>('readonly', store => store.get(name));
+        return value ?? null;
+      } catch (error) {
+        console.error(`Error reading ${name} from IndexedDB:`, error);
+        return null;
+      }
+    },
+
+    setItem: (name, value) => {
+      const write = withStore('readwrite', store => store.put(value, name))
+        .then(() => undefined)
+        .catch(error => console.error(`Error writing ${name} to IndexedDB:`, error))
+        .finally(() => pendingWrites.delete(write));
+      pendingWrites.add(write);
+      return write;
+    },
+
+    removeItem: async (name) => {
+      try {
+        await withStore('readwrite', store => store.delete(name));
+      } catch (error) {
+        console.error(`Error removing ${name} from IndexedDB:`, error);
+      }
+    },
+  };
+}
+
+/**
+ * Wait until every store write started so far has reached IndexedDB
+ * Stores save in the background; use this before something a crash must not lose
+ */
+export async function whenPersisted(): Promise<void> {
+  await Promise.all([...pendingWrites]);
+}
+
+/**
+ * Turn a stored date (Date, ISO string or timestamp) back into a Date
+ */
+export function reviveDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  return undefined;
+}
+
+/**
+ * Apply every migration between the saved version and the current one
+ */
+export function runMigrations(persistedState: unknown, fromVersion: number, migrations: Record<number, Migration>): any {
+  let state = persistedState;
+  let version = fromVersion;
+
+  while (migrations[version]) {
+    console.log(`Migrating persisted state from version ${version} to ${version + 1}`);
+    state = migrations[version](state);
+    version++;
+  }
+
+  return state;
+}
@@ -0,0 +1,419 @@
+/**
+ * What each platform accepts in a post
+ *
+ * One declarative entry per platform (and per Instagram format) describes
+ * caption, hashtag and mention limits, the media types, file formats, sizes,
+ * durations and aspect ratios it takes. `validatePostForPlatform` checks a
+ * post against these rules and returns structured errors and warnings, so the
+ * form can show them before submitting and the services can refuse bad media
+ * before uploading anything.
+ */
+
+import { InstagramPostFormat, MediaItem, Platform, Post } from '../types';
+import { getPlatformVariant, YOUTUBE_TITLE_LENGTH } from './postVariants';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+// A limit, and whether going over it stops the post (error) or the platform just drops the excess (warning)
+export interface Limit {
+  max: number;
+  severity: ValidationSeverity;
+}
+
+// A range of aspect ratios, as width / height
+export interface AspectRatioRange {
+  min: number;
+  max: number;
+}
+
+export interface MediaConstraints {
+  formats: string[]; // Accepted MIME types
+  codecs?: string[]; // Video and audio codecs inside those formats, as described by the platform
+  maxFileSize: number; // Bytes
+  minDurationSec?: number;
+  maxDurationSec?: number;
+  aspectRatio?: AspectRatioRange; // Refused outside this range
+  recommendedAspectRatio?: AspectRatioRange; // Accepted, but cropped or letterboxed outside this range
+  minResolution?: number; // Pixels on the shorter side
+}
+
+export interface PlatformConstraints {
+  label: string; // What a post is called in messages, e.g. "Instagram Reels"
+  caption: Limit;
+  captionIgnored?: boolean; // The caption is not published (Instagram Stories)
+  title?: Limit; // YouTube titles, taken from the start of the caption unless set
+  hashtags?: Limit;
+  mentions?: Limit;
+  requiresMedia: boolean;
+  mediaItems: Limit; // Items over a warning limit are left out
+  image?: MediaConstraints; // Undefined when images are not accepted
+  video?: MediaConstraints; // Undefined when videos are not accepted
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const MIME_LABELS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/gif': 'GIF',
+  'image/bmp': 'BMP',
+  'image/tiff': 'TIFF',
+  'image/webp': 'WebP',
+  'video/mp4': 'MP4',
+  'video/quicktime': 'MOV',
+  'video/webm': 'WebM',
+  'video/x-msvideo': 'AVI',
+  'video/mpeg': 'MPEG',
+  'video/3gpp': '3GP',
+  'video/x-flv': 'FLV',
+  'video/x-ms-wmv': 'WMV',
+};
+
+// MIME types of media known only by URL
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpeg',
+  '3gp': 'video/3gpp',
+  flv: 'video/x-flv',
+  wmv: 'video/x-ms-wmv',
+};
+
+// Vertical 9:16 video, with a little slack for odd resolutions
+const VERTICAL_VIDEO: AspectRatioRange = { min: 0.5, max: 0.6 };
+
+const INSTAGRAM_IMAGE: MediaConstraints = {
+  formats: ['image/jpeg'],
+  maxFileSize: 8 * MB,
+};
+
+const INSTAGRAM_VIDEO_FORMATS = ['video/mp4', 'video/quicktime'];
+const INSTAGRAM_VIDEO_CODECS = ['H.264', 'HEVC', 'AAC'];
+
+/**
+ * The rules for each platform
+ * https://developers.facebook.com/docs/instagram-platform/instagram-graph-api/reference/ig-user/media
+ * https://developers.facebook.com/docs/graph-api/reference/page/photos
+ * https://developers.google.com/youtube/v3/docs/videos#resource
+ * https://developers.tiktok.com/doc/content-posting-api-media-transfer-guide
+ */
+export const PLATFORM_CONSTRAINTS: Record<Platform, PlatformConstraints> = {
+  // Feed posts; the other Instagram formats adjust this below
+  instagram: {
+    label: 'Instagram posts',
+    caption: { max: 2200, severity: 'error' },
+    hashtags: { max: 30, severity: 'error' },
+    mentions: { max: 20, severity: 'error' },
+    requiresMedia: true,
+    mediaItems: { max: 10, severity: 'error' },
+    image: { ...INSTAGRAM_IMAGE, aspectRatio: { min: 4 / 5, max: 1.91 } },
+    video: {
+      formats: INSTAGRAM_VIDEO_FORMATS,
+      codecs: INSTAGRAM_VIDEO_CODECS,
+      maxFileSize: 100 * MB,
+      minDurationSec: 3,
+      maxDurationSec: 60,
+      aspectRatio: { min: 4 / 5, max: 16 / 9 },
+    },
+  },
+  facebook: {
+    label: 'Facebook posts',
+    caption: { max: 63206, severity: 'error' },
+    requiresMedia: false,
+    mediaItems: { max: 1, severity: 'warning' },
+    image: {
+      formats: ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/tiff'],
+      maxFileSize: 10 * MB,
+    },
+    // Videos are published from a URL, which Facebook limits like a non-resumable upload
+    video: {
+      formats: ['video/mp4', 'video/quicktime'],
+      codecs: ['H.264', 'AAC'],
+      maxFileSize: 1 * GB,
+      maxDurationSec: 20 * 60,
+    },
+  },
+  youtube: {
+    label: 'YouTube videos',
+    caption: { max: 5000, severity: 'error' }, // The description
+    title: { max: YOUTUBE_TITLE_LENGTH, severity: 'warning' }, // An error when the title is set
+    // YouTube ignores every hashtag on a video that has more than 60
+    hashtags: { max: 60, severity: 'warning' },
+    requiresMedia: true,
+    mediaItems: { max: 1, severity: 'warning' },
+    video: {
+      formats: ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-msvideo', 'video/mpeg', 'video/3gpp', 'video/x-flv', 'video/x-ms-wmv'],
+      maxFileSize: 256 * GB,
+      maxDurationSec: 12 * 60 * 60,
+      recommendedAspectRatio: { min: 16 / 9, max: 16 / 9 },
+    },
+  },
+  tiktok: {
+    label: 'TikTok videos',
+    caption: { max: 2200, severity: 'error' },
+    requiresMedia: true,
+    mediaItems: { max: 1, severity: 'warning' },
+    video: {
+      formats: ['video/mp4', 'video/webm', 'video/quicktime'],
+      codecs: ['H.264', 'H.265', 'VP8', 'VP9'],
+      maxFileSize: 4 * GB,
+      minDurationSec: 3,
+      maxDurationSec: 10 * 60, // Some creators have a lower limit, see TikTokCreatorInfo
+      recommendedAspectRatio: VERTICAL_VIDEO,
+      minResolution: 360,
+    },
+  },
+};
+
+// How each Instagram format differs from a feed post
+const INSTAGRAM_FORMAT_CONSTRAINTS: Record<InstagramPostFormat, Partial<PlatformConstraints>> = {
+  feed: {},
+  reel: {
+    label: 'Instagram Reels',
+    mediaItems: { max: 1, severity: 'error' },
+    image: undefined,
+    video: {
+      formats: INSTAGRAM_VIDEO_FORMATS,
+      codecs: INSTAGRAM_VIDEO_CODECS,
+      maxFileSize: 1 * GB,
+      minDurationSec: 3,
+      maxDurationSec: 15 * 60,
+      aspectRatio: { min: 0.01, max: 10 },
+      recommendedAspectRatio: VERTICAL_VIDEO,
+    },
+  },
+  story_image: {
+    label: 'Instagram image Stories',
+    captionIgnored: true,
+    mediaItems: { max: 1, severity: 'error' },
+    image: INSTAGRAM_IMAGE,
+    video: undefined,
+  },
+  story_video: {
+    label: 'Instagram video Stories',
+    captionIgnored: true,
+    mediaItems: { max: 1, severity: 'error' },
+    image: undefined,
+    video: {
+      formats: INSTAGRAM_VIDEO_FORMATS,
+      codecs: INSTAGRAM_VIDEO_CODECS,
+      maxFileSize: 100 * MB,
+      minDurationSec: 3,
+      maxDurationSec: 60,
+      recommendedAspectRatio: VERTICAL_VIDEO,
+    },
+  },
+};
+
+// The parts of a post the rules look at; each platform is checked with its own variant
+export type PostDraft = Pick<Post, 'content' | 'media' | 'instagramOptions' | 'variants'>;
+
+export interface ValidationOptions {
+  maxVideoDurationSec?: number; // A lower limit for this account, e.g. from TikTok's creator info
+}
+
+export interface PostValidationIssue {
+  platform: Platform;
+  severity: ValidationSeverity;
+  code:
+    | 'caption_too_long'
+    | 'caption_ignored'
+    | 'title_truncated'
+    | 'title_too_long'
+    | 'too_many_hashtags'
+    | 'too_many_mentions'
+    | 'media_required'
+    | 'too_many_media'
+    | 'media_type'
+    | 'media_format'
+    | 'file_too_large'
+    | 'video_too_short'
+    | 'video_too_long'
+    | 'aspect_ratio'
+    | 'resolution_too_low';
+  field: 'caption' | 'media';
+  message: string;
+  mediaIndex?: number; // The media item the issue is about
+}
+
+export interface PostValidationResult {
+  errors: PostValidationIssue[];
+  warnings: PostValidationIssue[];
+}
+
+/**
+ * The rules for a post on a platform, taking its Instagram format into account
+ */
+export function getPlatformConstraints(platform: Platform, post?: Pick<Post, 'instagramOptions'>): PlatformConstraints {
+  const constraints = PLATFORM_CONSTRAINTS[platform];
+  if (platform !== 'instagram') {
+    return constraints;
+  }
+
+  return { ...constraints, ...INSTAGRAM_FORMAT_CONSTRAINTS[post?.instagramOptions?.format || 'feed'] };
+}
+
+/**
+ * The MIME type of a media item, from its file or else its URL
+ * Undefined when neither tells us
+ */
+export function getMediaMimeType(item: MediaItem): string | undefined {
+  if (item.file?.type) {
+    return item.file.type;
+  }
+
+  if (item.url.startsWith('data:')) {
+    return item.url.slice(5, item.url.indexOf(';')) || undefined;
+  }
+
+  try {
+    const extension = new URL(item.url, 'http://localhost').pathname.split('.').pop()?.toLowerCase();
+    return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length || 0;
+
+const formatBytes = (bytes: number) =>
+  bytes >= GB ? `${Math.round((bytes / GB) * 10) / 10} GB` : `${Math.round((bytes / MB) * 10) / 10} MB`;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.round((seconds / 60) * 10) / 10} min` : `${Math.round(seconds)} s`;
+
+// "MP4 or MOV", "MP4, WebM or MOV"
+const formatList = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}` : items[0] || '';
+
+/**
+ * Check a post against a platform's rules
+ * Media facts we don't know (e.g. the duration of a video only known by URL) are not checked
+ */
+export function validatePostForPlatform(post: PostDraft, platform: Platform, options: ValidationOptions = {}): PostValidationResult {
+  const constraints = getPlatformConstraints(platform, post);
+  const { label } = constraints;
+  const issues: PostValidationIssue[] = [];
+  const report = (
+    severity: ValidationSeverity,
+    code: PostValidationIssue['code'],
+    field: PostValidationIssue['field'],
+    message: string,
+    mediaIndex?: number
+  ) => issues.push({ platform, severity, code, field, message, mediaIndex });
+
+  // Caption (the description, on YouTube)
+  const variant = getPlatformVariant(post, platform);
+  const content = variant.description ?? variant.caption;
+  const media = variant.media;
+  if (constraints.captionIgnored) {
+    if (content.trim()) {
+      report('warning', 'caption_ignored', 'caption', `${label} are published without the caption`);
+    }
+  } else {
+    if (content.length > constraints.caption.max) {
+      report(constraints.caption.severity, 'caption_too_long', 'caption',
+        `${label} can have at most ${constraints.caption.max.toLocaleString()} characters; this one has ${content.length.toLocaleString()}`);
+    }
+
+    const title = post.variants?.[platform]?.title?.trim();
+    if (constraints.title && title && title.length > constraints.title.max) {
+      report('error', 'title_too_long', 'caption',
+        `${label} can have titles of at most ${constraints.title.max} characters; this one has ${title.length}`);
+    } else if (constraints.title && !title && variant.caption.length > constraints.title.max) {
+      report(constraints.title.severity, 'title_truncated', 'caption',
+        `${label} are titled with the first ${constraints.title.max} characters of the post`);
+    }
+
+    const hashtags = countMatches(content, /#[\p{L}\p{N}_]+/gu);
+    if (constraints.hashtags && hashtags > constraints.hashtags.max) {
+      report(constraints.hashtags.severity, 'too_many_hashtags', 'caption',
+        constraints.hashtags.severity === 'error'
+          ? `${label} can have at most ${constraints.hashtags.max} hashtags; this one has ${hashtags}`
+          : `${label} with more than ${constraints.hashtags.max} hashtags lose all of them; this one has ${hashtags}`);
+    }
+
+    const mentions = countMatches(content, /(?:^|[^\w])@[\w.]+/g);
+    if (constraints.mentions && mentions > constraints.mentions.max) {
+      report(constraints.mentions.severity, 'too_many_mentions', 'caption',
+        `${label} can mention at most ${constraints.mentions.max} accounts; this one mentions ${mentions}`);
+    }
+  }
+
+  // Media
+  const acceptedTypes = [constraints.image && 'image', constraints.video && 'video'].filter(Boolean) as MediaItem['type'][];
+  if (media.length === 0) {
+    if (constraints.requiresMedia) {
+      report('error', 'media_required', 'media', `${label} need ${acceptedTypes.length > 1 ? 'an image or video' : `a ${acceptedTypes[0]}`}`);
+    }
+  } else if (media.length > constraints.mediaItems.max) {
+    const { max, severity } = constraints.mediaItems;
+    report(severity, 'too_many_media', 'media', severity === 'error'
+      ? `${label} can have at most ${max} ${max === 1 ? 'item' : 'items'}`
+      : `${label} use only the first ${max === 1 ? 'item' : `${max} items`}; the rest are left out`);
+  }
+
+  // Items the platform leaves out are not checked
+  media.slice(0, constraints.mediaItems.max).forEach((item, index) => {
+    const rules = item.type === 'image' ? constraints.image : constraints.video;
+    const name = item.file?.name || `${item.type} ${index + 1}`;
+
+    if (!rules) {
+      report('error', 'media_type', 'media', `${label} need ${acceptedTypes.length > 1 ? 'an image or video' : `a ${acceptedTypes[0]}`}, not ${item.type === 'image' ? 'an image' : 'a video'}`, index);
+      return;
+    }
+
+    const mimeType = getMediaMimeType(item);
+    if (mimeType && !rules.formats.includes(mimeType)) {
+      const formats = formatList(rules.formats.map(format => MIME_LABELS[format] || format));
+      const codecs = rules.codecs ? ` (${formatList(rules.codecs)})` : '';
+      report('error', 'media_format', 'media', `${label} accept ${formats}${codecs} ${item.type}s; ${name} is ${MIME_LABELS[mimeType] || mimeType}`, index);
+    }
+
+    if (item.file && item.file.size > rules.maxFileSize) {
+      report('error', 'file_too_large', 'media',
+        `${label} accept ${item.type}s up to ${formatBytes(rules.maxFileSize)}; ${name} is ${formatBytes(item.file.size)}`, index);
+    }
+
+    if (item.type === 'video' && item.durationSec !== undefined) {
+      const maxDuration = Math.min(rules.maxDurationSec ?? Infinity, options.maxVideoDurationSec ?? Infinity);
+      if (rules.minDurationSec !== undefined && item.durationSec < rules.minDurationSec) {
+        report('error', 'video_too_short', 'media', `${label} need videos of at least ${formatDuration(rules.minDurationSec)}; ${name} is ${formatDuration(item.durationSec)}`, index);
+      } else if (item.durationSec > maxDuration) {
+        report('error', 'video_too_long', 'media', `${label} accept videos up to ${formatDuration(maxDuration)}; ${name} is ${formatDuration(item.durationSec)}`, index);
+      }
+    }
+
+    if (item.width && item.height) {
+      const ratio = item.width / item.height;
+      if (rules.aspectRatio && (ratio < rules.aspectRatio.min - 0.01 || ratio > rules.aspectRatio.max + 0.01)) {
+        report('error', 'aspect_ratio', 'media', `${name} is ${item.width}×${item.height}, an aspect ratio ${label} do not accept`, index);
+      } else if (rules.recommendedAspectRatio && (ratio < rules.recommendedAspectRatio.min - 0.01 || ratio > rules.recommendedAspectRatio.max + 0.01)) {
+        const shape = rules.recommendedAspectRatio.max < 1 ? 'vertical (9:16)' : 'landscape (16:9)';
+        report('warning', 'aspect_ratio', 'media', `${label} look best ${shape}; ${name} will be cropped or letterboxed`, index);
+      }
+
+      if (rules.minResolution && Math.min(item.width, item.height) < rules.minResolution) {
+        report('error', 'resolution_too_low', 'media', `${label} need at least ${rules.minResolution}px on the shorter side; ${name} is ${item.width}×${item.height}`, index);
+      }
+    }
+  });
+
+  return {
+    errors: issues.filter(issue => issue.severity === 'error'),
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  };
+}
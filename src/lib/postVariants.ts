@@ -0,0 +1,55 @@
+/**
+ * Per-platform variants of a post
+ *
+ * A post has one shared caption and media list, and each platform can
+ * override them (and add a title, tags or a first comment) in `Post.variants`.
+ * These helpers resolve what a platform actually gets.
+ */
+
+import { MediaItem, Platform, Post, PostVariant } from '../types';
+
+// YouTube titles taken from the caption are cut to this length
+export const YOUTUBE_TITLE_LENGTH = 100;
+
+// A variant with the shared fields filled in
+export type ResolvedVariant = PostVariant & {
+  caption: string;
+  media: MediaItem[];
+};
+
+/**
+ * What a platform gets: its own variant, with the post's caption and media where it has none
+ */
+export function getPlatformVariant(post: Pick<Post, 'content' | 'media' | 'variants'>, platform: Platform): ResolvedVariant {
+  const variant = post.variants?.[platform] || {};
+  const caption = variant.caption ?? post.content;
+  const resolved: ResolvedVariant = { ...variant, caption, media: variant.media ?? post.media };
+
+  if (platform === 'youtube') {
+    resolved.title = variant.title?.trim() || caption.substring(0, YOUTUBE_TITLE_LENGTH);
+    resolved.description = variant.description ?? caption;
+  }
+
+  return resolved;
+}
+
+/**
+ * The post as it is published to one platform, with the platform's caption and media
+ */
+export function applyPlatformVariant(post: Post, platform: Platform): Post {
+  const variant = getPlatformVariant(post, platform);
+
+  return {
+    ...post,
+    content: variant.caption,
+    media: variant.media,
+    variants: { ...post.variants, [platform]: variant },
+  };
+}
+
+/**
+ * Whether a variant overrides anything
+ */
+export function hasOverrides(variant: PostVariant | undefined): boolean {
+  return Object.values(variant || {}).some(value => value !== undefined);
+}
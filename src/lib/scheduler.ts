@@ -0,0 +1,220 @@
+/**
+ * PostScheduler
+ *
+ * Background engine that publishes scheduled posts when their time arrives.
+ * It runs a tick loop while the app is open, builds a queue of due posts
+ * ordered by `scheduledFor`, and on start-up catches up on any slots that
+ * were missed while the app was closed.
+ *
+ * Every open tab runs a scheduler, so a tab takes a Web Lock on a post and
+ * reloads the stored posts before publishing it. A post whose last attempt
+ * was cut short is checked for on the platform before it is published again
+ * (see SocialMediaCoordinator).
+ */
+
+import usePostsStore from '../store/usePostsStore';
+import useSettingsStore from '../store/useSettingsStore';
+import { socialMediaCoordinator } from '../api';
+import { Post } from '../types';
+import { whenPersisted } from './persistentStorage';
+import { isUsableAccount } from './accounts';
+
+// How often the scheduler checks for due posts (30 seconds)
+const DEFAULT_TICK_INTERVAL = 30 * 1000;
+
+// Prefix of the Web Lock held while a post is published
+const POST_LOCK_PREFIX = 'publish-post:';
+
+export interface SchedulerOptions {
+  tickInterval?: number;
+}
+
+export class PostScheduler {
+  private tickInterval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+  private inFlight: Set<string> = new Set();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.tickInterval = options.tickInterval ?? DEFAULT_TICK_INTERVAL;
+  }
+
+  /**
+   * Start the tick loop. Safe to call more than once.
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Post scheduler started (tick every ${this.tickInterval / 1000}s)`);
+
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.tickInterval);
+
+    // Posts are loaded from IndexedDB asynchronously, so wait for them
+    // before catching up on slots missed while the app was closed
+    if (usePostsStore.persist.hasHydrated()) {
+      this.catchUp();
+    } else {
+      const unsubscribe = usePostsStore.persist.onFinishHydration(() => {
+        unsubscribe();
+        this.catchUp();
+      });
+    }
+  }
+
+  /**
+   * Publish any posts whose slot passed while the app was closed
+   */
+  private catchUp() {
+    if (!this.timer) {
+      return;
+    }
+
+    const overdue = this.getDueQueue();
+    if (overdue.length > 0) {
+      console.log(`Catching up on ${overdue.length} missed scheduled post(s)`);
+    }
+
+    this.tick();
+  }
+
+  /**
+   * Stop the tick loop
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('Post scheduler stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Get all scheduled posts whose time has come, oldest slot first
+   * Posts for real accounts wait while demo mode is on
+   */
+  getDueQueue(now: Date = new Date()): Post[] {
+    const { scheduled } = usePostsStore.getState();
+    const { demoMode, getAccount } = useSettingsStore.getState();
+    const isHeldBack = (post: Post) => post.targets.some(target => {
+      const account = getAccount(target.accountId);
+      return account && !isUsableAccount(account, demoMode);
+    });
+
+    return scheduled
+      .filter(post =>
+        post.scheduledFor &&
+        new Date(post.scheduledFor).getTime() <= now.getTime() &&
+        !this.inFlight.has(post.id) &&
+        !isHeldBack(post)
+      )
+      .sort((a, b) =>
+        new Date(a.scheduledFor as Date).getTime() - new Date(b.scheduledFor as Date).getTime()
+      );
+  }
+
+  /**
+   * Publish every post in the due queue, one at a time
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous tick is still publishing
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+
+    try {
+      const queue = this.getDueQueue();
+
+      for (const post of queue) {
+        await this.publishDuePost(post);
+      }
+    } catch (error) {
+      console.error('Error in scheduler tick:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Publish a single due post, unless another tab is publishing it
+   */
+  private async publishDuePost(post: Post): Promise<void> {
+    this.inFlight.add(post.id);
+
+    try {
+      await withPostLock(post.id, () => this.publishLockedPost(post));
+    } finally {
+      this.inFlight.delete(post.id);
+    }
+  }
+
+  /**
+   * Publish a due post this tab holds the lock on and move it to published or failed
+   */
+  private async publishLockedPost(post: Post): Promise<void> {
+    const { recordPublishResults, markAsFailed } = usePostsStore.getState();
+
+    // Another tab may have published the post since this one loaded it
+    await whenPersisted();
+    await usePostsStore.persist.rehydrate();
+
+    // The post may have been edited or deleted since the queue was built
+    const current = usePostsStore.getState().posts.find(p => p.id === post.id);
+    if (!current || current.status !== 'scheduled') {
+      return;
+    }
+
+    try {
+      console.log(`Publishing scheduled post ${post.id} (due ${new Date(post.scheduledFor as Date).toISOString()})`);
+
+      // Each account's result is recorded as soon as it finishes; the last one
+      // moves the post to published, partially_published or failed
+      const results = await socialMediaCoordinator.publishToMultiplePlatforms(current, {
+        onEvent: ({ target, result }) => {
+          if (result) {
+            recordPublishResults(post.id, { [target.accountId]: result });
+          }
+        },
+      });
+
+      const status = usePostsStore.getState().posts.find(p => p.id === post.id)?.status;
+      console.log(`Scheduled post ${post.id} finished with status ${status}:`, results);
+    } catch (error) {
+      console.error(`Error publishing scheduled post ${post.id}:`, error);
+      markAsFailed(post.id, error instanceof Error ? error.message : 'Unknown error during publishing');
+    }
+  }
+}
+
+/**
+ * Run a callback while holding this tab's lock on a post, so two tabs never publish it at once
+ * Skips the callback when another tab holds the lock, and runs it unlocked where Web Locks are unavailable
+ */
+async function withPostLock(postId: string, callback: () => Promise<void>): Promise<void> {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (!locks) {
+    return callback();
+  }
+
+  await locks.request(`${POST_LOCK_PREFIX}${postId}`, { ifAvailable: true }, async (lock) => {
+    if (lock) {
+      await callback();
+    } else {
+      console.log(`Post ${postId} is being published in another tab`);
+    }
+  });
+}
+
+// Export a singleton instance
+export const postScheduler = new PostScheduler();
+
+export default postScheduler;
@@ -0,0 +1,261 @@
+/**
+ * TokenManager
+ *
+ * Keeps the access tokens of Facebook and Instagram accounts alive. When a token is saved it
+ * is exchanged for a long-lived one (if the app secret was provided) and its
+ * expiry is looked up. While the app is open it periodically re-checks
+ * Facebook tokens and refreshes Instagram tokens before they expire.
+ */
+
+import useSettingsStore from '../store/useSettingsStore';
+import { apiFactory } from '../api';
+import { decryptData } from './encryption';
+import { isUsableAccount } from './accounts';
+import { Account, PlatformAccount } from '../types';
+
+// Warn this many days before a token expires
+export const TOKEN_WARNING_DAYS = 7;
+
+// How often tokens are checked while the app is open (6 hours)
+const CHECK_INTERVAL = 6 * 60 * 60 * 1000;
+// Re-run debug_token on Facebook tokens at most once a day
+const FACEBOOK_RECHECK_AGE = 24 * 60 * 60 * 1000;
+// Refresh Instagram tokens this long before they expire
+const INSTAGRAM_REFRESH_WINDOW = 10 * 24 * 60 * 60 * 1000;
+// Instagram only refreshes tokens that are at least 24 hours old
+const INSTAGRAM_MIN_REFRESH_AGE = 24 * 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type ExpiringPlatform = 'facebook' | 'instagram';
+
+export interface TokenWarning {
+  accountId: string;
+  displayName: string;
+  platform: ExpiringPlatform;
+  expiresAt: number;
+  daysLeft: number;
+  expired: boolean;
+}
+
+/**
+ * List tokens that have expired or will expire within `warningDays`
+ */
+export function getTokenWarnings(
+  accounts: Account[],
+  warningDays = TOKEN_WARNING_DAYS,
+  now = Date.now()
+): TokenWarning[] {
+  const warnings: TokenWarning[] = [];
+
+  accounts.forEach(account => {
+    if (account.platform !== 'facebook' && account.platform !== 'instagram') {
+      return;
+    }
+
+    const expiresAt = account.credentials.expiresAt;
+
+    // 0 means the token never expires; undefined means we don't know yet
+    if (!expiresAt) {
+      return;
+    }
+
+    const daysLeft = Math.floor((expiresAt - now) / DAY);
+    if (expiresAt - now <= warningDays * DAY) {
+      warnings.push({
+        accountId: account.id,
+        displayName: account.displayName,
+        platform: account.platform,
+        expiresAt,
+        daysLeft: Math.max(0, daysLeft),
+        expired: expiresAt <= now,
+      });
+    }
+  });
+
+  return warnings;
+}
+
+export class TokenManager {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  /**
+   * Start checking tokens periodically. Safe to call more than once.
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.checkTokens();
+    }, CHECK_INTERVAL);
+
+    // Settings are loaded from localStorage synchronously, so check right away
+    this.checkTokens();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every connected token, refreshing or re-inspecting it when due
+   */
+  async checkTokens(): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+
+    this.isChecking = true;
+
+    try {
+      const { accounts, demoMode } = useSettingsStore.getState();
+      const now = Date.now();
+
+      // Real tokens are left alone in demo mode
+      for (const account of accounts.filter(account => isUsableAccount(account, demoMode))) {
+        if (account.platform === 'facebook') {
+          const { checkedAt } = account.credentials;
+          if (!checkedAt || now - checkedAt > FACEBOOK_RECHECK_AGE) {
+            try {
+              await this.inspectFacebookToken(account.id);
+            } catch (error) {
+              console.error(`Error inspecting Facebook token for ${account.displayName}:`, error);
+            }
+          }
+        } else if (account.platform === 'instagram' && this.isInstagramRefreshDue(account, now)) {
+          try {
+            await this.refreshInstagramToken(account.id);
+          } catch (error) {
+            console.error(`Error refreshing Instagram token for ${account.displayName}:`, error);
+            // Remember the attempt so we don't retry on every check
+            useSettingsStore.getState().updateTokenExpiry(account.id, {});
+          }
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Called right after a token is saved in Settings: upgrade it to a long-lived
+   * token when possible and record when it expires
+   */
+  async onTokenSaved(accountId: string): Promise<void> {
+    const account = useSettingsStore.getState().getAccount(accountId);
+    if (!account) {
+      return;
+    }
+
+    if (account.platform === 'facebook') {
+      const { appId, appSecret } = account.credentials;
+      if (appId && appSecret) {
+        await this.exchangeFacebookToken(accountId, appId, decryptData(appSecret));
+      }
+      await this.inspectFacebookToken(accountId);
+    } else if (account.platform === 'instagram') {
+      const { appSecret } = account.credentials;
+      if (appSecret) {
+        await this.exchangeInstagramToken(accountId, decryptData(appSecret));
+      }
+    }
+  }
+
+  /**
+   * Record the Facebook token's expiry from debug_token
+   */
+  async inspectFacebookToken(accountId: string): Promise<void> {
+    const facebookApi = apiFactory.getFacebookService(accountId);
+    const info = await facebookApi.debugToken();
+
+    if (!info.isValid) {
+      console.warn('Facebook access token is no longer valid');
+    }
+
+    useSettingsStore.getState().updateTokenExpiry(accountId, {
+      // An invalid token is treated as already expired
+      expiresAt: info.isValid ? info.expiresAt : Date.now(),
+      dataAccessExpiresAt: info.dataAccessExpiresAt,
+    });
+
+    console.log('Facebook token expiry:', info.expiresAt ? new Date(info.expiresAt).toISOString() : 'never');
+  }
+
+  private async exchangeFacebookToken(accountId: string, appId: string, appSecret: string): Promise<void> {
+    const facebookApi = apiFactory.getFacebookService(accountId);
+    const { accessToken, expiresIn } = await facebookApi.exchangeForLongLivedToken(appId, appSecret);
+
+    useSettingsStore.getState().updateTokenExpiry(accountId, {
+      expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
+      issuedAt: Date.now(),
+    }, accessToken);
+
+    // Services read the token when they are created
+    apiFactory.resetApiService(accountId);
+    console.log('Exchanged Facebook token for a long-lived token');
+  }
+
+  private async exchangeInstagramToken(accountId: string, appSecret: string): Promise<void> {
+    const instagramApi = apiFactory.getInstagramService(accountId);
+    const { accessToken, expiresIn } = await instagramApi.exchangeForLongLivedToken(appSecret);
+
+    useSettingsStore.getState().updateTokenExpiry(accountId, {
+      expiresAt: Date.now() + expiresIn * 1000,
+      issuedAt: Date.now(),
+    }, accessToken);
+
+    apiFactory.resetApiService(accountId);
+    console.log('Exchanged Instagram token for a long-lived token');
+  }
+
+  /**
+   * Refresh the Instagram token for another 60 days
+   */
+  async refreshInstagramToken(accountId: string): Promise<void> {
+    const instagramApi = apiFactory.getInstagramService(accountId);
+    const { accessToken, expiresIn } = await instagramApi.refreshLongLivedToken();
+
+    useSettingsStore.getState().updateTokenExpiry(accountId, {
+      expiresAt: Date.now() + expiresIn * 1000,
+      issuedAt: Date.now(),
+    }, accessToken);
+
+    apiFactory.resetApiService(accountId);
+    console.log('Refreshed Instagram long-lived token');
+  }
+
+  /**
+   * Refresh when the token is close to expiring, or when its expiry is unknown
+   * (refreshing tells us the new expiry). Never refresh tokens under a day old.
+   */
+  private isInstagramRefreshDue(account: PlatformAccount<'instagram'>, now: number): boolean {
+    const instagram = account.credentials;
+
+    if (instagram.issuedAt && now - instagram.issuedAt < INSTAGRAM_MIN_REFRESH_AGE) {
+      return false;
+    }
+
+    // Already expired tokens cannot be refreshed; the user has to reconnect
+    if (instagram.expiresAt && instagram.expiresAt <= now) {
+      return false;
+    }
+
+    if (instagram.expiresAt === undefined) {
+      // Only try once a day when the expiry is unknown
+      return !instagram.checkedAt || now - instagram.checkedAt > DAY;
+    }
+
+    return instagram.expiresAt !== 0 && instagram.expiresAt - now <= INSTAGRAM_REFRESH_WINDOW;
+  }
+}
+
+// Export a singleton instance
+export const tokenManager = new TokenManager();
+
+export default tokenManager;
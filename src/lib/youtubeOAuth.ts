@@ -0,0 +1,246 @@
+/**
+ * YouTube OAuth helpers
+ *
+ * Runs Google's authorization-code flow with PKCE so users can connect
+ * YouTube with a button instead of pasting a refresh token. The pending
+ * request (verifier, state and the app credentials) is kept in
+ * sessionStorage while the browser is away on Google's consent screen.
+ * https://developers.google.com/identity/protocols/oauth2/web-server
+ */
+
+import axios from 'axios';
+import useSettingsStore from '../store/useSettingsStore';
+import { encryptData, decryptData } from './encryption';
+import { AuthExpiredError } from '../api/errors';
+
+const AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const CHANNELS_URL = 'https://www.googleapis.com/youtube/v3/channels';
+const PENDING_KEY = 'youtube-oauth-pending';
+
+// Upload videos and manage comments on the user's channel
+const SCOPES = [
+  'https://www.googleapis.com/auth/youtube.upload',
+  'https://www.googleapis.com/auth/youtube.force-ssl',
+];
+
+export interface YouTubeAppCredentials {
+  displayName: string; // Used when the channel name can't be looked up
+  apiKey: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  credentials: string; // Encrypted YouTubeAppCredentials
+}
+
+export interface YouTubeTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+  token_type?: string;
+}
+
+/**
+ * Random URL-safe string used for the PKCE verifier and the state parameter
+ */
+function randomString(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * S256 code challenge for a PKCE verifier
+ */
+async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * The callback URL for this app, used as the default redirect URI
+ */
+export function getDefaultRedirectUri(): string {
+  return `${window.location.origin}/auth/youtube/callback`;
+}
+
+/**
+ * Send the browser to Google's consent screen
+ */
+export async function startYouTubeAuthorization(credentials: YouTubeAppCredentials): Promise<void> {
+  const codeVerifier = randomString(64);
+  const state = randomString(16);
+
+  const pending: PendingAuthorization = {
+    state,
+    codeVerifier,
+    credentials: encryptData(JSON.stringify(credentials)),
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    client_id: credentials.clientId,
+    redirect_uri: credentials.redirectUri,
+    response_type: 'code',
+    scope: SCOPES.join(' '),
+    // Offline access returns a refresh token; prompt=consent makes sure we get a new one
+    access_type: 'offline',
+    prompt: 'consent',
+    include_granted_scopes: 'true',
+    state,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  console.log('Redirecting to Google to connect YouTube');
+  window.location.assign(`${AUTHORIZE_URL}?${params.toString()}`);
+}
+
+/**
+ * Handle the redirect back from Google: check the state, exchange the code
+ * for tokens and add the channel as a YouTube account, or give the channel's
+ * account the new tokens when it is already connected. Returns the account ID.
+ */
+export async function completeYouTubeAuthorization(search: string): Promise<string> {
+  const params = new URLSearchParams(search);
+
+  const error = params.get('error');
+  if (error) {
+    sessionStorage.removeItem(PENDING_KEY);
+    throw new Error(error === 'access_denied'
+      ? 'YouTube access was denied. Please try connecting again.'
+      : `YouTube authorization failed: ${error}`);
+  }
+
+  const code = params.get('code');
+  const state = params.get('state');
+  const pendingJson = sessionStorage.getItem(PENDING_KEY);
+
+  if (!code || !pendingJson) {
+    throw new Error('No YouTube authorization in progress. Please start again from Settings.');
+  }
+
+  const pending: PendingAuthorization = JSON.parse(pendingJson);
+  if (pending.state !== state) {
+    sessionStorage.removeItem(PENDING_KEY);
+    throw new Error('YouTube authorization state does not match. Please start again from Settings.');
+  }
+
+  const credentials: YouTubeAppCredentials = JSON.parse(decryptData(pending.credentials));
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: pending.codeVerifier,
+    client_id: credentials.clientId,
+    client_secret: credentials.clientSecret,
+    redirect_uri: credentials.redirectUri,
+  });
+
+  sessionStorage.removeItem(PENDING_KEY);
+
+  if (!tokens.refresh_token) {
+    throw new Error('Google did not return a refresh token. Remove the app from your Google account permissions and connect again.');
+  }
+
+  const channel = await getChannelProfile(tokens.access_token);
+
+  const accountId = useSettingsStore.getState().addYoutubeAccount(
+    channel?.title || credentials.displayName,
+    credentials.apiKey,
+    credentials.clientId,
+    credentials.clientSecret,
+    credentials.redirectUri,
+    tokens.refresh_token,
+    channel?.avatarUrl,
+    channel?.id
+  );
+
+  console.log('YouTube connected successfully');
+  return accountId;
+}
+
+/**
+ * Look up the ID, name and avatar of the channel that was just authorized.
+ * Not finding them shouldn't fail the connection, so errors are only logged.
+ */
+async function getChannelProfile(accessToken: string): Promise<{ id: string; title: string; avatarUrl?: string } | undefined> {
+  try {
+    const response = await axios.get<{ items?: any[] }>(CHANNELS_URL, {
+      params: { part: 'snippet', mine: true },
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    const channel = response.data.items?.[0];
+    const snippet = channel?.snippet;
+    if (!snippet) {
+      return undefined;
+    }
+
+    return {
+      id: channel.id,
+      title: snippet.title,
+      avatarUrl: snippet.thumbnails?.default?.url,
+    };
+  } catch (error) {
+    console.warn('Could not look up the YouTube channel name:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Get a new access token from a refresh token
+ */
+export async function refreshYouTubeAccessToken(
+  clientId: string,
+  clientSecret: string,
+  refreshToken: string,
+  tokenUrl: string = TOKEN_URL
+): Promise<YouTubeTokenResponse> {
+  return await requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: clientId,
+    client_secret: clientSecret,
+  }, tokenUrl);
+}
+
+/**
+ * Call Google's token endpoint (it expects a form-encoded body)
+ */
+async function requestTokens(body: Record<string, string>, tokenUrl: string = TOKEN_URL): Promise<YouTubeTokenResponse> {
+  try {
+    const response = await axios.post<YouTubeTokenResponse>(tokenUrl, new URLSearchParams(body), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    return response.data;
+  } catch (error: any) {
+    const data = error.response?.data;
+    console.error('YouTube token request failed:', data || error.message);
+
+    // The refresh token was revoked or has expired
+    if (data?.error === 'invalid_grant') {
+      throw new AuthExpiredError('YouTube authorization has expired or was revoked. Please reconnect YouTube in Settings.', {
+        platform: 'youtube',
+        status: error.response.status,
+        code: data.error,
+      });
+    }
+
+    throw new Error(`YouTube token request failed: ${data?.error_description || data?.error || error.message}`);
+  }
+}
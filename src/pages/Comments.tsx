@@ -2,13 +2,17 @@ import React, { useState, useEffect, useCallback } from 'react';
 import useCommentsStore from '../store/useCommentsStore';
 import usePostsStore from '../store/usePostsStore';
 import useSettingsStore from '../store/useSettingsStore';
-import { Search, ThumbsUp, MessageCircle, Flag, Trash2, RefreshCw, Camera, Video, TrendingUp, Filter, Facebook } from 'lucide-react';
+import { Search, ThumbsUp, MessageCircle, Flag, Trash2, RefreshCw, Camera, Video, TrendingUp, Facebook, EyeOff, Eye } from 'lucide-react';
 import { Platform, Comment } from '../types';
 import { format } from 'date-fns';
-import { apiFactory, socialMediaCoordinator } from '../api';
+import { apiFactory } from '../api';
+import { AuthExpiredError } from '../api/errors';
+import { getPlatformPostIds } from '../lib/accounts';
+import { commentSyncService } from '../lib/commentSync';
+import { deleteComment, hideComment, markCommentAsSpam, replyToComment, unhideComment } from '../lib/commentModeration';
 
 const CommentsPage: React.FC = () => {
-  const { comments, addManyComments, markAsReplied, markAsSpam, deleteComment, clearAllComments } = useCommentsStore();
+  const { comments, clearAllComments } = useCommentsStore();
   const { posts } = usePostsStore();
   const { platformsEnabled, platformStats } = useSettingsStore();
   const [selectedPlatform, setSelectedPlatform] = useState<Platform | null>(null);
@@ -18,121 +22,17 @@ const CommentsPage: React.FC = () => {
   const [replyText, setReplyText] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
-
-  // Define interfaces for API responses
-  interface InstagramComment {
-    id: string;
-    text: string;
-    timestamp: string;
-    username: string;
-    like_count: number;
-  }
-
-  interface InstagramCommentsResponse {
-    data: InstagramComment[];
-    paging?: {
-      cursors: {
-        before: string;
-        after: string;
-      };
-      next?: string;
-    };
-  }
-
-  // Extract comments from platform stats
-  const extractCommentsFromStats = useCallback(() => {
-    const extractedComments: Comment[] = [];
-
-    // Process Instagram stats
-    if (platformStats.instagram && platformStats.instagram.recentActivity) {
-      console.log("Extracting comments from Instagram platform stats");
-
-      // Filter for comment type activities
-      const commentActivities = platformStats.instagram.recentActivity.filter(
-        activity => activity.type === 'comment'
-      );
-
-      console.log(`Found ${commentActivities.length} comment activities in Instagram stats`);
-
-      // Get published Instagram posts to try to match comments to posts
-      // Filter out simulated posts (those with IDs starting with ig_post_)
-      const instagramPosts = posts.filter(
-        post => post.status === 'published' &&
-        post.platformPostIds &&
-        post.platforms.includes('instagram') &&
-        post.platformPostIds.instagram &&
-        !post.platformPostIds.instagram.startsWith('ig_post_')
-      );
-
-      // If no real posts exist, we won't extract comments from stats
-      if (instagramPosts.length === 0) {
-        console.log("No real Instagram posts found. Skipping comment extraction from stats.");
-        return extractedComments;
-      }
-
-      // Use the first real post's ID if we can't match comments to specific posts
-      const fallbackPostId = instagramPosts[0].platformPostIds?.instagram;
-
-      // Convert to Comment objects
-      // Note: This is a simplified conversion as platform stats don't contain all Comment fields
-      // In a real app, you'd need to fetch the full comment data
-      commentActivities.forEach((activity) => {
-        // Try to find a matching post for this comment based on timestamp
-        // This is a heuristic approach since we don't have direct post-comment relationships
-        const matchingPost = instagramPosts.find(post => {
-          // A comment should be newer than its post
-          return new Date(post.createdAt) < activity.date;
-        });
-
-        const postId = matchingPost?.id || '';
-        // Ensure we have a valid platformPostId (can't be undefined)
-        const platformPostId = matchingPost?.platformPostIds?.instagram || fallbackPostId || '';
-
-        // Create a more stable ID based on content and date to avoid duplicates
-        const stableId = `instagram_comment_${activity.content.substring(0, 10).replace(/\s+/g, '_')}_${activity.date.getTime()}`;
-
-        // Check if this comment already exists in the store (to prevent duplicates)
-        const existingComment = comments.find(c =>
-          c.id === stableId ||
-          (c.content === activity.content && c.platform === 'instagram')
-        );
-
-        if (!existingComment && activity.content) {
-          // Create a valid comment object with all required fields
-          extractedComments.push({
-            id: stableId,
-            platform: 'instagram',
-            postId: postId || '',
-            platformPostId: platformPostId || '', // Use the matched post ID or fallback
-            // For stats comments, we don't have a real platformCommentId
-            // We'll mark them clearly so they're not used for replies
-            platformCommentId: `stats_comment_${stableId}`,
-            content: activity.content || '',
-            author: {
-              id: 'unknown',
-              name: 'Instagram User',
-              username: 'instagram_user',
-              avatarUrl: undefined
-            },
-            likes: 0, // We don't have this info from stats
-            createdAt: activity.date || new Date(),
-            isHidden: false,
-            isSpam: false,
-            replied: false
-          });
-        }
-      });
-    }
-
-    // TODO: Add similar blocks for YouTube and TikTok
-
-    return extractedComments;
-  }, [platformStats, posts, comments]);
+  // Comments waiting on the platform to hide, report or delete them
+  const [moderating, setModerating] = useState<Record<string, boolean>>({});
+  // The comment hidden last, until it is shown again or the notice is dismissed
+  const [lastHidden, setLastHidden] = useState<Comment | null>(null);
 
   // Track if we're currently fetching comments to prevent duplicate calls
   const [isFetching, setIsFetching] = useState(false);
+  // Platforms whose comments can't be read through their API
+  const [unsupportedPlatforms, setUnsupportedPlatforms] = useState<Platform[]>([]);
 
-  // Fetch comments from all platforms
+  // Load the comments of every published post from the platforms
   const fetchAllComments = useCallback(async () => {
     // Check if we need to clear comments
     if (comments.length > 0 && posts.length === 0) {
@@ -140,9 +40,8 @@ const CommentsPage: React.FC = () => {
       clearAllComments();
     }
 
-    // Prevent duplicate fetches
-    if (isFetching) {
-      console.log("Already fetching comments, skipping duplicate call");
+    if (!Object.values(platformsEnabled).some(Boolean)) {
+      setFetchError('No platforms are enabled. Please enable platforms in Settings.');
       return;
     }
 
@@ -151,152 +50,13 @@ const CommentsPage: React.FC = () => {
       setIsLoading(true);
       setFetchError(null);
 
-      // Get enabled platforms
-      const enabledPlatforms = Object.entries(platformsEnabled)
-        .filter(([_, enabled]) => enabled)
-        .map(([platform]) => platform as Platform);
-
-      console.log("Fetching comments from platforms:", enabledPlatforms);
+      // A full sync, so new replies to older comments come in too
+      const result = await commentSyncService.sync({ full: true });
+      setUnsupportedPlatforms(result.unsupportedPlatforms);
 
-      if (enabledPlatforms.length === 0) {
-        setFetchError('No platforms are enabled. Please enable platforms in Settings.');
-        setIsLoading(false);
-        setIsFetching(false);
-        return;
-      }
-
-      // First, fetch platform stats to ensure we have the latest data
-      const updatedStats = await socialMediaCoordinator.getPlatformStats();
-      console.log("Updated platform stats:", updatedStats);
-
-      // Now fetch comments for each platform
-      const allFetchedComments: Comment[] = [];
-
-      // First, try to extract comments from platform stats
-      const statsComments = extractCommentsFromStats();
-      console.log(`Extracted ${statsComments.length} comments from platform stats`);
-
-      // Always add stats comments - we'll deduplicate later
-      allFetchedComments.push(...statsComments);
-      console.log(`Added ${statsComments.length} stats comments to the fetch batch`);
-
-
-      // Process Instagram comments from platformStats
-      if (enabledPlatforms.includes('instagram') && platformStats.instagram) {
-        try {
-          console.log("Processing Instagram comments from platform stats");
-
-          // Get published Instagram posts (excluding simulated posts)
-          const instagramPosts = posts.filter(
-            post => post.status === 'published' &&
-            post.platformPostIds &&
-            post.platforms.includes('instagram') &&
-            post.platformPostIds.instagram &&
-            !post.platformPostIds.instagram.startsWith('ig_post_')
-          );
-
-          console.log(`Found ${instagramPosts.length} published Instagram posts`);
-
-          // Always fetch from API to get the latest comments
-          if (instagramPosts.length > 0) {
-            console.log("Fetching latest comments directly from Instagram API");
-
-            // Import the specific service type to use its methods
-            const InstagramApiService = (await import('../api/InstagramApiService')).default;
-            const instagramApi = apiFactory.getApiService('instagram') as InstanceType<typeof InstagramApiService>;
-
-            // Fetch comments for all posts
-            for (const post of instagramPosts) {
-              if (post.platformPostIds?.instagram) {
-                try {
-                  const postId = post.platformPostIds.instagram;
-                  console.log(`Fetching comments for Instagram post ${postId}`);
-                  const commentsResponse = await instagramApi.getComments(postId) as InstagramCommentsResponse;
-
-                  // Process comments
-                  if (commentsResponse && commentsResponse.data) {
-                    console.log(`Retrieved ${commentsResponse.data.length} comments for post ${postId}`);
-
-                    // Map API response to our Comment type
-                    const postComments = commentsResponse.data.map((comment: InstagramComment) => {
-                      // Ensure all required fields are present
-                      if (!comment.id || !comment.text) {
-                        console.warn('Skipping invalid comment:', comment);
-                        return null;
-                      }
-
-                      return {
-                        id: comment.id,
-                        platform: 'instagram' as Platform,
-                        postId: post.id,
-                        platformPostId: postId,
-                        platformCommentId: comment.id, // Store the original Instagram comment ID
-                        content: comment.text || '',
-                        author: {
-                          id: comment.username || 'unknown',
-                          name: comment.username || '',
-                          username: comment.username || 'instagram_user',
-                          avatarUrl: undefined
-                        },
-                        likes: comment.like_count || 0,
-                        createdAt: new Date(comment.timestamp || Date.now()),
-                        isHidden: false,
-                        isSpam: false,
-                        replied: false
-                      };
-                    }).filter(Boolean) as Comment[];
-
-                    allFetchedComments.push(...postComments);
-                  }
-                } catch (error) {
-                  console.error(`Error fetching comments for post ${post.id}:`, error);
-                }
-              }
-            }
-          } else {
-            console.log("No Instagram posts found to fetch comments for");
-          }
-        } catch (error) {
-          console.error('Error processing Instagram comments:', error);
-        }
-      }
-
-      // TODO: Add similar blocks for YouTube and TikTok
-
-      // Add all fetched comments to the store
-      console.log(`Adding ${allFetchedComments.length} comments to the store`);
-      if (allFetchedComments.length > 0) {
-        // First, clear all existing comments to prevent duplicates
-        console.log("Clearing existing comments to prevent duplicates");
-        clearAllComments();
-
-        // Create a Map to deduplicate comments within the fetched batch
-        const uniqueComments = new Map<string, Comment>();
-
-        // Process all fetched comments and keep only unique ones
-        allFetchedComments.forEach(comment => {
-          // Create a unique key based on content, platform, and platformPostId
-          // This ensures we don't deduplicate across different platforms or posts
-          const key = `${comment.platform}_${comment.platformPostId}_${comment.content}`;
-
-          // Only add if we haven't seen this comment before
-          if (!uniqueComments.has(key)) {
-            uniqueComments.set(key, comment);
-          } else {
-            console.log(`Skipping duplicate comment: ${comment.platform} - ${comment.content.substring(0, 20)}...`);
-          }
-        });
-
-        // Convert the Map values back to an array
-        const newComments = Array.from(uniqueComments.values());
-
-        console.log(`Found ${newComments.length} unique comments to add (filtered out ${allFetchedComments.length - newComments.length} duplicates)`);
-
-        if (newComments.length > 0) {
-          addManyComments(newComments);
-        }
-      } else {
-        console.log("No comments found for any platform");
+      if (result.errors.length > 0) {
+        const platforms = [...new Set(result.errors.map(error => error.platform))].join(', ');
+        setFetchError(`Some comments could not be loaded (${platforms}): ${result.errors[0].message}`);
       }
     } catch (error) {
       console.error('Error fetching comments:', error);
@@ -305,26 +65,25 @@ const CommentsPage: React.FC = () => {
       setIsLoading(false);
       setIsFetching(false);
     }
-  }, [posts, addManyComments, platformsEnabled, platformStats, comments, extractCommentsFromStats, isFetching, clearAllComments]);
+  }, [posts.length, comments.length, platformsEnabled, clearAllComments]);
 
   // Debug function to log the current state
   const logState = useCallback(() => {
     console.log("Current comments in store:", comments);
     console.log("Current posts:", posts);
     console.log("Enabled platforms:", platformsEnabled);
-    console.log("Platform stats:", platformStats);
-
-    // Extract and log comments from stats
-    const statsComments = extractCommentsFromStats();
-    console.log("Comments extracted from stats:", statsComments);
-  }, [comments, posts, platformsEnabled, platformStats, extractCommentsFromStats]);
+  }, [comments, posts, platformsEnabled]);
 
   // Function to import real Instagram posts into the posts store
   const importRealInstagramPosts = useCallback(async () => {
     try {
       // Get the Instagram API service
-      const InstagramApiService = (await import('../api/InstagramApiService')).default;
-      const instagramApi = apiFactory.getApiService('instagram') as InstanceType<typeof InstagramApiService>;
+      const instagramAccount = useSettingsStore.getState().getAccountsByPlatform('instagram')[0];
+      if (!instagramAccount) {
+        console.log("No Instagram account connected. Skipping post import.");
+        return;
+      }
+      const instagramApi = apiFactory.getInstagramService(instagramAccount.id);
 
       // Fetch media from Instagram
       const mediaItems = await instagramApi.getMedia(5); // Limit to 5 posts to reduce duplicates
@@ -336,9 +95,7 @@ const CommentsPage: React.FC = () => {
 
         // Get existing Instagram post IDs to prevent duplicates
         const existingInstagramIds = new Set(
-          posts
-            .filter(post => post.platformPostIds?.instagram)
-            .map(post => post.platformPostIds?.instagram)
+          posts.flatMap(post => getPlatformPostIds(post, 'instagram'))
         );
 
         console.log(`Found ${existingInstagramIds.size} existing Instagram posts in store`);
@@ -382,16 +139,15 @@ const CommentsPage: React.FC = () => {
           // Create a new post in the store
           const newPost = postsStore.createPost(
             media.caption || 'Instagram post',
-            media.media_url,
-            media.media_type?.toLowerCase() === 'video' ? 'video' : 'image',
-            ['instagram']
+            media.media_url
+              ? [{ url: media.media_url, type: media.media_type?.toLowerCase() === 'video' ? 'video' : 'image' }]
+              : [],
+            [{ accountId: instagramAccount.id, platform: 'instagram' }]
           );
 
           // Mark it as published with the real Instagram post ID
           postsStore.publishPost(newPost.id, {
-            instagram: media.id,
-            youtube: '',
-            tiktok: ''
+            [instagramAccount.id]: media.id
           });
 
           console.log(`Imported Instagram post ${media.id} into posts store`);
@@ -415,8 +171,12 @@ const CommentsPage: React.FC = () => {
       }
 
       // Get the Facebook API service
-      const FacebookApiService = (await import('../api/FacebookApiService')).default;
-      const facebookApi = apiFactory.getApiService('facebook') as InstanceType<typeof FacebookApiService>;
+      const facebookAccount = useSettingsStore.getState().getAccountsByPlatform('facebook')[0];
+      if (!facebookAccount) {
+        console.log("No Facebook account connected. Skipping Facebook posts import.");
+        return;
+      }
+      const facebookApi = apiFactory.getFacebookService(facebookAccount.id);
 
       // Fetch posts from Facebook
       const postsResponse = await facebookApi.getPosts(5); // Limit to 5 posts to reduce duplicates
@@ -429,9 +189,7 @@ const CommentsPage: React.FC = () => {
 
         // Get existing Facebook post IDs to prevent duplicates
         const existingFacebookIds = new Set(
-          posts
-            .filter(post => post.platformPostIds?.facebook)
-            .map(post => post.platformPostIds?.facebook)
+          posts.flatMap(post => getPlatformPostIds(post, 'facebook'))
         );
 
         console.log(`Found ${existingFacebookIds.size} existing Facebook posts in store`);
@@ -458,17 +216,13 @@ const CommentsPage: React.FC = () => {
           // Create a new post in the store
           const newPost = postsStore.createPost(
             post.message || 'Facebook post',
-            post.permalink_url || '',
-            'image', // Default to image type
-            ['facebook']
+            post.permalink_url ? [{ url: post.permalink_url, type: 'image' }] : [], // Default to image type
+            [{ accountId: facebookAccount.id, platform: 'facebook' }]
           );
 
           // Mark it as published with the real Facebook post ID
           postsStore.publishPost(newPost.id, {
-            facebook: post.id,
-            instagram: '',
-            youtube: '',
-            tiktok: ''
+            [facebookAccount.id]: post.id
           });
 
           console.log(`Imported Facebook post ${post.id} into posts store`);
@@ -495,18 +249,10 @@ const CommentsPage: React.FC = () => {
       return;
     }
 
-    // For demo purposes, ensure Instagram is enabled
+    // Nothing to import until Instagram is connected in Settings (or demo mode is on)
     if (!platformsEnabled.instagram) {
-      console.log("Instagram platform is not enabled. Enabling it for demo purposes.");
-
-      // In a real app, you would redirect to settings page instead
-      // For demo, we'll simulate having Instagram enabled
-      const settings = useSettingsStore.getState();
-      settings.togglePlatform('instagram', true);
-
-      // Set the real Instagram access token
-      // This will override any existing token
-      settings.setInstagramCredentials('IGAATjSFtfFLBBZAE0tYlJCSXZAEZAzl2M2RlR2V2YU1NSlBfSFZArMHRHMFFWd3pnSFVlUWxmeHhacUFPVVI3VHdocTJYaGY3d0xWSUUxREVyc2EzT0pLZATRJWHlhTUcwcm5aa2NOQlN3WldTWDA4aXRWX2c5RkpUeElYNi11V3l1awZDZD');
+      console.log("Instagram platform is not enabled. Skipping post import.");
+      return;
     }
 
     // Import posts
@@ -543,14 +289,32 @@ const CommentsPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [posts.length]);
 
+  // Replies by the platform and platform ID of the comment they answer, oldest first
+  const repliesByParent = new Map<string, Comment[]>();
+  for (const reply of comments.filter(comment => comment.parentCommentId)) {
+    const key = `${reply.platform}:${reply.parentCommentId}`;
+    repliesByParent.set(key, [...(repliesByParent.get(key) || []), reply]);
+  }
+  repliesByParent.forEach(replies => replies.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+
+  const getReplies = (comment: Comment) => repliesByParent.get(`${comment.platform}:${comment.platformCommentId}`) || [];
+
+  // Each conversation is listed once, under the comment that started it
   const filteredComments = comments.filter(comment => {
+    if (comment.parentCommentId) {
+      return false;
+    }
+
+    const replies = getReplies(comment);
+
     // Filter by platform
     if (selectedPlatform && comment.platform !== selectedPlatform) {
       return false;
     }
 
-    // Filter by search query
-    if (searchQuery && !comment.content.toLowerCase().includes(searchQuery.toLowerCase())) {
+    // Filter by search query, in the comment or any reply to it
+    const query = searchQuery.toLowerCase();
+    if (query && ![comment, ...replies].some(c => c.content.toLowerCase().includes(query))) {
       return false;
     }
 
@@ -560,7 +324,7 @@ const CommentsPage: React.FC = () => {
     }
 
     // Show only replied comments if requested
-    if (showRepliedOnly && !comment.replied) {
+    if (showRepliedOnly && !comment.replied && !replies.some(reply => reply.isOwnReply)) {
       return false;
     }
 
@@ -582,153 +346,16 @@ const CommentsPage: React.FC = () => {
     const comment = comments.find(c => c.id === commentId);
     if (!comment) return;
 
-    try {
-      // Get the appropriate API service for the platform
-      switch (comment.platform) {
-        case 'instagram': {
-          try {
-            // Check if we have a valid platformPostId
-            if (!comment.platformPostId) {
-              console.error('Cannot reply to comment: missing platformPostId');
-              alert('Cannot reply to this comment. The post ID is missing.');
-              return;
-            }
-
-            // Log the comment details for debugging
-            console.log('Replying to comment:', {
-              commentId,
-              platformPostId: comment.platformPostId,
-              reply
-            });
-
-            // Import the specific service type to use its methods
-            const InstagramApiService = (await import('../api/InstagramApiService')).default;
-            const instagramApi = apiFactory.getApiService('instagram') as InstanceType<typeof InstagramApiService>;
-
-            // Check if this is a simulated post or comment
-            const isSimulatedComment = comment.id.includes('instagram_comment_');
-            const isSimulatedPost = comment.platformPostId && comment.platformPostId.startsWith('ig_post_');
-
-            if (isSimulatedComment || isSimulatedPost) {
-              console.error('Cannot reply to simulated comments or posts');
-              alert('This appears to be a demo comment. To reply to real Instagram comments, please connect your Instagram account and use real posts.');
-              return;
-            }
-
-            // Log detailed information for debugging
-            // Use the platformCommentId if available
-            const platformCommentId = comment.platformCommentId || comment.id;
-
-            console.log('Replying to real Instagram comment with:', {
-              commentId: comment.id,
-              platformCommentId,
-              postId: comment.postId,
-              platformPostId: comment.platformPostId,
-              content: comment.content,
-              reply: reply
-            });
-
-            try {
-              // Only proceed with real posts and comments
-              // Pass the comment ID as the third parameter to make it a threaded reply
-              // Use the platformCommentId if available, otherwise fall back to the internal id
-              const platformCommentId = comment.platformCommentId || comment.id;
-
-              // Log the IDs we're using
-              console.log(`Using platform comment ID: ${platformCommentId} for reply`);
-              console.log(`Internal comment ID: ${comment.id}`);
-
-              // Using the new /replies endpoint approach for threaded replies
-              await instagramApi.replyToComment(comment.platformPostId, reply, platformCommentId);
-              console.log(`Reply posted successfully as a threaded comment under comment ID: ${platformCommentId} using the /replies endpoint!`);
-            } catch (error) {
-              console.error('Error from Instagram API:', error);
-
-              // Check if the error is related to the access token
-              if (error instanceof Error &&
-                  (error.message.includes('access_token') ||
-                   error.message.includes('token') ||
-                   error.message.includes('auth'))) {
-                alert('Instagram authentication error. Your access token may be invalid or expired.');
-              } else {
-                // Re-throw the error to be caught by the outer catch block
-                throw error;
-              }
-            }
-          } catch (error) {
-            console.error('Error replying to Instagram comment:', error);
-
-            // Check if the error is related to platform not being enabled
-            if (error instanceof Error && error.message.includes('not enabled')) {
-              alert('Instagram platform is not enabled. Please enable it in Settings.');
-            } else {
-              alert('Error replying to comment: ' + (error instanceof Error ? error.message : 'Unknown error'));
-            }
-            return;
-          }
-          break;
-        }
-        case 'facebook': {
-          try {
-            console.log(`Replying to Facebook comment: ${comment.id}`);
-
-            // Check if Facebook is enabled
-            if (!platformsEnabled.facebook) {
-              throw new Error('Facebook platform is not enabled');
-            }
-
-            // Import the specific service type to use its methods
-            const FacebookApiService = (await import('../api/FacebookApiService')).default;
-            const facebookApi = apiFactory.getApiService('facebook') as InstanceType<typeof FacebookApiService>;
-
-            // Check if this is a simulated comment
-            const isSimulatedComment = comment.id.includes('facebook_comment_');
-
-            if (isSimulatedComment) {
-              console.error('Cannot reply to simulated comments');
-              alert('This appears to be a demo comment. To reply to real Facebook comments, please connect your Facebook account.');
-              return;
-            }
-
-            // Get the platform comment ID (remove the fb_ prefix if present)
-            const platformCommentId = comment.platformCommentId.startsWith('fb_')
-              ? comment.platformCommentId.substring(3)
-              : comment.platformCommentId;
-
-            // Reply to the comment
-            await facebookApi.replyToComment(comment.platformPostId, reply, platformCommentId);
-            console.log(`Reply posted successfully to Facebook comment ID: ${platformCommentId}`);
-
-            // Mark as replied in our store
-            markAsReplied(comment.id);
-
-            // Clear the reply text
-            setReplyText({
-              ...replyText,
-              [comment.id]: ''
-            });
-          } catch (error) {
-            console.error('Error replying to Facebook comment:', error);
-
-            // Check if the error is related to platform not being enabled
-            if (error instanceof Error && error.message.includes('not enabled')) {
-              alert('Facebook platform is not enabled. Please enable it in Settings.');
-            } else {
-              alert('Error replying to comment: ' + (error instanceof Error ? error.message : 'Unknown error'));
-            }
-            return;
-          }
-          break;
-        }
-        // TODO: Add cases for YouTube and TikTok
-        default:
-          console.warn(`Replying to comments on ${comment.platform} is not yet supported.`);
-          alert(`Replying to comments on ${comment.platform} is not yet supported.`);
-          return;
-      }
+    // Only comments loaded from the platform can be replied to
+    if (!comment.platformPostId || !comment.platformCommentId) {
+      alert('This comment was not loaded from the platform, so it cannot be replied to. Refresh to load the real comments.');
+      return;
+    }
 
-      // Mark as replied in our local state
-      markAsReplied(commentId);
+    try {
+      // The reply joins the thread, and the comment is marked as replied
+      const replyId = await replyToComment(comment, reply.trim());
+      console.log(`Reply ${replyId} posted to ${comment.platform} comment ${comment.platformCommentId}`);
 
       // Clear the reply text
       setReplyText(prev => {
@@ -737,11 +364,57 @@ const CommentsPage: React.FC = () => {
         return newState;
       });
 
-      // Show success message
-      alert('Reply posted successfully as a threaded comment using the /replies endpoint!');
+      alert('Reply posted successfully!');
+    } catch (error) {
+      console.error(`Error replying to ${comment.platform} comment:`, error);
+
+      if (error instanceof AuthExpiredError) {
+        alert(`${comment.platform} authentication error. Your access token may be invalid or expired.`);
+      } else {
+        alert('Error replying to comment: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    }
+  };
+
+  // Run a moderation action on the platform; the stored comment only changes once it succeeds
+  const moderate = async (comment: Comment, action: (comment: Comment) => Promise<void>, verb: string): Promise<boolean> => {
+    setModerating(prev => ({ ...prev, [comment.id]: true }));
+    try {
+      await action(comment);
+      return true;
     } catch (error) {
-      console.error('Error replying to comment:', error);
-      alert('Failed to post reply. Please try again.');
+      console.error(`Error trying to ${verb} ${comment.platform} comment:`, error);
+
+      if (error instanceof AuthExpiredError) {
+        alert(`${comment.platform} authentication error. Your access token may be invalid or expired.`);
+      } else {
+        alert(`Could not ${verb} the comment: ` + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return false;
+    } finally {
+      setModerating(prev => {
+        const newState = { ...prev };
+        delete newState[comment.id];
+        return newState;
+      });
+    }
+  };
+
+  const handleHide = async (comment: Comment) => {
+    if (await moderate(comment, hideComment, 'hide')) {
+      setLastHidden(comment);
+    }
+  };
+
+  const handleUnhide = async (comment: Comment) => {
+    if (await moderate(comment, unhideComment, 'unhide') && lastHidden?.id === comment.id) {
+      setLastHidden(null);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (window.confirm(`Delete this comment on ${comment.platform}? This can't be undone.`)) {
+      await moderate(comment, deleteComment, 'delete');
     }
   };
 
@@ -803,43 +476,6 @@ const CommentsPage: React.FC = () => {
                 Clear Comments
               </button>
 
-              <button
-                onClick={() => {
-                  // Deduplicate comments
-                  console.log("Manually deduplicating comments");
-
-                  // Create a Map to store unique comments
-                  const uniqueComments = new Map<string, Comment>();
-
-                  // Process all comments and keep only unique ones
-                  comments.forEach(comment => {
-                    // Create a unique key based on content, platform, and platformPostId
-                    // This ensures we don't deduplicate across different platforms or posts
-                    const key = `${comment.platform}_${comment.platformPostId}_${comment.content}`;
-
-                    // Only add if we haven't seen this comment before
-                    if (!uniqueComments.has(key)) {
-                      uniqueComments.set(key, comment);
-                    } else {
-                      console.log(`Skipping duplicate comment: ${comment.platform} - ${comment.content.substring(0, 20)}...`);
-                    }
-                  });
-
-                  // Convert the Map values back to an array
-                  const uniqueCommentsArray = Array.from(uniqueComments.values());
-
-                  // Clear all comments and add only the unique ones
-                  clearAllComments();
-                  addManyComments(uniqueCommentsArray);
-
-                  alert(`Deduplication complete. Kept ${uniqueCommentsArray.length} unique comments out of ${comments.length} total.`);
-                }}
-                className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors mr-2"
-              >
-                <Filter size={16} className="mr-2" />
-                Deduplicate Comments
-              </button>
-
               <button
                 onClick={() => {
                   if (window.confirm('This will reset all posts and comments and reimport them from Instagram. Continue?')) {
@@ -860,32 +496,11 @@ const CommentsPage: React.FC = () => {
                     window.location.reload();
                   }
                 }}
-                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors mr-2"
+                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
               >
                 <RefreshCw size={16} className="mr-2" />
                 Reset All
               </button>
-
-              <button
-                onClick={() => {
-                  if (window.confirm('This will reset all settings including your Instagram credentials. Continue?')) {
-                    // Clear settings
-                    const settings = useSettingsStore.getState();
-                    settings.resetStore();
-
-                    // Set the new access token
-                    settings.togglePlatform('instagram', true);
-                    settings.setInstagramCredentials('IGAATjSFtfFLBBZAE0tYlJCSXZAEZAzl2M2RlR2V2YU1NSlBfSFZArMHRHMFFWd3pnSFVlUWxmeHhacUFPVVI3VHdocTJYaGY3d0xWSUUxREVyc2EzT0pLZATRJWHlhTUcwcm5aa2NOQlN3WldTWDA4aXRWX2c5RkpUeElYNi11V3l1awZDZD');
-
-                    // Force a page refresh to ensure clean state
-                    window.location.reload();
-                  }
-                }}
-                className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-              >
-                <RefreshCw size={16} className="mr-2" />
-                Reset Credentials
-              </button>
             </>
           )}
         </div>
@@ -912,6 +527,35 @@ const CommentsPage: React.FC = () => {
         </div>
       )}
 
+      {unsupportedPlatforms.length > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+          Comments on {unsupportedPlatforms.join(', ')} can't be loaded through the platform's API.
+        </p>
+      )}
+
+      {lastHidden && (
+        <div className="bg-gray-50 dark:bg-gray-800 border-l-4 border-gray-400 p-4 mb-6 flex justify-between items-center">
+          <p className="text-sm text-gray-700 dark:text-gray-200">
+            Comment by {lastHidden.author.name || lastHidden.author.username} hidden on {lastHidden.platform}.
+          </p>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => handleUnhide(lastHidden)}
+              disabled={moderating[lastHidden.id]}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-blue-300"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => setLastHidden(null)}
+              className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Filters and Search */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 mb-8">
         <div className="flex flex-col md:flex-row gap-4">
@@ -1045,7 +689,7 @@ const CommentsPage: React.FC = () => {
         ) : (
           <div className="divide-y divide-gray-200 dark:divide-gray-700">
             {filteredComments.map(comment => (
-              <div key={comment.id} className={`p-6 ${comment.isSpam ? 'bg-red-50 dark:bg-red-900/10' : ''}`}>
+              <div key={comment.id} className={`p-6 ${comment.isSpam ? 'bg-red-50 dark:bg-red-900/10' : ''} ${comment.isHidden ? 'opacity-60' : ''}`}>
                 <div className="flex items-start mb-4">
                   <div className="h-10 w-10 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center mr-3">
                     {comment.author.avatarUrl ? (
@@ -1067,6 +711,21 @@ const CommentsPage: React.FC = () => {
                       <span className="text-sm text-gray-500 dark:text-gray-400">
                         {comment.createdAt ? format(new Date(comment.createdAt), 'MMM d, yyyy') : 'Unknown date'}
                       </span>
+                      {comment.isHidden && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                          Hidden
+                        </span>
+                      )}
+                      {comment.tags?.map(tag => (
+                        <span key={tag} className="ml-2 px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                          {tag}
+                        </span>
+                      ))}
+                      {comment.assignee && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          Assigned to {comment.assignee}
+                        </span>
+                      )}
                     </div>
                     <p className="mt-1 text-gray-800 dark:text-gray-200">{comment.content}</p>
                   </div>
@@ -1080,51 +739,89 @@ const CommentsPage: React.FC = () => {
                       <span>Like</span>
                     </button>
                     <button
-                      onClick={() => markAsSpam(comment.id)}
-                      className={`flex items-center space-x-1 ${comment.isSpam ? 'text-red-600' : 'text-gray-500 hover:text-red-600'} transition-colors`}
+                      onClick={() => comment.isHidden ? handleUnhide(comment) : handleHide(comment)}
+                      disabled={moderating[comment.id]}
+                      className="text-gray-500 hover:text-blue-600 flex items-center space-x-1 transition-colors disabled:opacity-50"
+                    >
+                      {comment.isHidden ? <Eye size={16} /> : <EyeOff size={16} />}
+                      <span>{comment.isHidden ? 'Unhide' : 'Hide'}</span>
+                    </button>
+                    <button
+                      onClick={() => moderate(comment, markCommentAsSpam, 'report')}
+                      disabled={comment.isSpam || moderating[comment.id]}
+                      className={`flex items-center space-x-1 ${comment.isSpam ? 'text-red-600' : 'text-gray-500 hover:text-red-600'} transition-colors disabled:cursor-default`}
                     >
                       <Flag size={16} />
                       <span>{comment.isSpam ? 'Marked as Spam' : 'Mark as Spam'}</span>
                     </button>
                     <button
-                      onClick={() => deleteComment(comment.id)}
-                      className="text-gray-500 hover:text-red-600 flex items-center space-x-1 transition-colors"
+                      onClick={() => handleDelete(comment)}
+                      disabled={moderating[comment.id]}
+                      className="text-gray-500 hover:text-red-600 flex items-center space-x-1 transition-colors disabled:opacity-50"
                     >
                       <Trash2 size={16} />
                       <span>Delete</span>
                     </button>
                   </div>
 
-                  {/* Reply Area */}
-                  {!comment.replied ? (
-                    <div className="mt-4">
-                      <div className="flex flex-col">
-                        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                          <span className="font-medium">Note:</span> Your reply will be posted as a threaded reply directly under this comment on {comment.platform === 'facebook' ? 'Facebook' : 'Instagram'} using the comment's /replies endpoint.
+                  {/* Replies, oldest first, with ours among them */}
+                  {getReplies(comment).length > 0 && (
+                    <div className="mb-3 space-y-3 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+                      {getReplies(comment).map(reply => (
+                        <div
+                          key={reply.id}
+                          className={`rounded-lg p-3 ${reply.isOwnReply ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-gray-50 dark:bg-gray-700/50'}`}
+                        >
+                          <div className="flex items-center text-sm">
+                            <span className="font-semibold text-gray-900 dark:text-white">
+                              {reply.author.name || reply.author.username}
+                            </span>
+                            {reply.isOwnReply && (
+                              <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-700 dark:bg-blue-800 dark:text-blue-200">
+                                You
+                              </span>
+                            )}
+                            <span className="mx-2 text-gray-300 dark:text-gray-600">•</span>
+                            <span className="text-gray-500 dark:text-gray-400">
+                              {format(new Date(reply.createdAt), 'MMM d, yyyy h:mm a')}
+                            </span>
+                          </div>
+                          <p className="mt-1 text-gray-800 dark:text-gray-200">{reply.content}</p>
                         </div>
-                        <div className="flex">
-                          <input
-                            type="text"
-                            className="flex-1 border border-gray-300 dark:border-gray-600 rounded-l-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                            placeholder="Write a reply..."
-                            value={replyText[comment.id] || ''}
-                            onChange={(e) => setReplyText(prev => ({ ...prev, [comment.id]: e.target.value }))}
-                          />
-                          <button
-                            className="bg-blue-600 text-white px-4 py-2 rounded-r-lg hover:bg-blue-700 transition-colors"
-                            onClick={() => handleReply(comment.id)}
-                          >
-                            Reply
-                          </button>
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ) : (
-                    <div className="mt-3 text-sm text-green-600 dark:text-green-400 flex items-center">
+                  )}
+
+                  {comment.replied && (
+                    <div className="text-sm text-green-600 dark:text-green-400 flex items-center">
                       <MessageCircle size={14} className="mr-1" />
-                      Replied as threaded comment on {comment.platform === 'facebook' ? 'Facebook' : 'Instagram'}
+                      Replied on {comment.platform}
                     </div>
                   )}
+
+                  {/* Reply Area */}
+                  <div className="mt-4">
+                    <div className="flex flex-col">
+                      <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                        <span className="font-medium">Note:</span> Your reply will be posted in this conversation on {comment.platform}.
+                      </div>
+                      <div className="flex">
+                        <input
+                          type="text"
+                          className="flex-1 border border-gray-300 dark:border-gray-600 rounded-l-lg px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                          placeholder="Write a reply..."
+                          value={replyText[comment.id] || ''}
+                          onChange={(e) => setReplyText(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                        />
+                        <button
+                          className="bg-blue-600 text-white px-4 py-2 rounded-r-lg hover:bg-blue-700 transition-colors"
+                          onClick={() => handleReply(comment.id)}
+                        >
+                          Reply
+                        </button>
+                      </div>
+                    </div>
+                  </div>
                 </div>
               </div>
             ))}
@@ -3,10 +3,12 @@ import { Link } from 'react-router-dom';
 import { BarChart3, Calendar, Plus, RefreshCw } from 'lucide-react';
 import Card from '../components/ui/Card';
 import Button from '../components/ui/Button';
+import PublishResultsList from '../components/ui/PublishResultsList';
 import usePostsStore from '../store/usePostsStore';
 import useSettingsStore from '../store/useSettingsStore';
-import { Platform } from '../types';
+import { Platform, Post } from '../types';
 import { socialMediaCoordinator } from '../api';
+import { getPlatformPostId, getTargetPlatforms } from '../lib/accounts';
 import { format } from 'date-fns';
 
 const Dashboard: React.FC = () => {
@@ -27,68 +29,34 @@ const Dashboard: React.FC = () => {
     }
   }, []);
 
-  // Track if we've already deduped posts
-  const [postsDeduped, setPostsDeduped] = useState(false);
-
-  // Function to deduplicate posts
-  const deduplicatePosts = useCallback(() => {
-    console.log("Checking for duplicate posts...");
-
-    // Get the posts store
-    const postsStore = usePostsStore.getState();
-
-    // Get unique post IDs by platform post ID
-    const uniquePostIds = new Map<string, string>();
-    const duplicates: string[] = [];
-
-    // First pass: collect unique posts by their Instagram post ID
-    posts.forEach(post => {
-      if (post.platformPostIds?.instagram) {
-        // If we haven't seen this Instagram post ID before, add it
-        if (!uniquePostIds.has(post.platformPostIds.instagram)) {
-          uniquePostIds.set(post.platformPostIds.instagram, post.id);
-        } else {
-          // This is a duplicate
-          duplicates.push(post.id);
-        }
-      }
-    });
-
-    // If we found duplicates, remove them
-    if (duplicates.length > 0) {
-      console.log(`Found ${duplicates.length} duplicate posts. Removing...`);
-
-      // Delete all duplicate posts
-      for (const postId of duplicates) {
-        postsStore.deletePost(postId);
-      }
-
-      console.log("Duplicate posts removed.");
-      return true;
-    } else {
-      console.log("No duplicate posts found.");
-      return false;
-    }
-  }, [posts]);
-
   useEffect(() => {
     // Fetch stats on initial load
     fetchStats();
+  }, [fetchStats]);
+
+  // Posts being published again, so their Retry button is disabled until it finishes
+  const [retryingPostIds, setRetryingPostIds] = useState<string[]>([]);
 
-    // Deduplicate posts if we haven't already
-    if (!postsDeduped) {
-      const duplicatesRemoved = deduplicatePosts();
-      setPostsDeduped(true);
+  // Publish a post again to the accounts it failed on; the coordinator skips
+  // the accounts it is already on and checks for posts an earlier attempt created
+  const retryPost = async (post: Post) => {
+    const { recordPublishResults } = usePostsStore.getState();
+    setRetryingPostIds(ids => [...ids, post.id]);
 
-      // If duplicates were removed, refresh stats
-      if (duplicatesRemoved) {
-        setTimeout(() => {
-          fetchStats();
-        }, 500);
-      }
+    try {
+      await socialMediaCoordinator.publishToMultiplePlatforms(post, {
+        onEvent: ({ target, result }) => {
+          if (result) {
+            recordPublishResults(post.id, { [target.accountId]: result });
+          }
+        },
+      });
+    } catch (error) {
+      console.error(`Error retrying post ${post.id}:`, error);
+    } finally {
+      setRetryingPostIds(ids => ids.filter(id => id !== post.id));
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  };
 
   // Get platforms that are enabled
   const enabledPlatforms = Object.entries(platformsEnabled)
@@ -143,19 +111,21 @@ const Dashboard: React.FC = () => {
 
                 // First pass: collect unique posts by their Instagram post ID
                 posts.forEach(post => {
-                  if (post.platformPostIds?.instagram) {
+                  const instagramPostId = getPlatformPostId(post, 'instagram');
+                  if (instagramPostId) {
                     // If we haven't seen this Instagram post ID before, add it
-                    if (!uniquePostIds.has(post.platformPostIds.instagram)) {
-                      uniquePostIds.set(post.platformPostIds.instagram, post.id);
+                    if (!uniquePostIds.has(instagramPostId)) {
+                      uniquePostIds.set(instagramPostId, post.id);
                     }
                   }
                 });
 
                 // Second pass: delete all posts except the unique ones
                 posts.forEach(post => {
-                  if (post.platformPostIds?.instagram) {
+                  const instagramPostId = getPlatformPostId(post, 'instagram');
+                  if (instagramPostId) {
                     // If this post's ID is not the one we want to keep for this Instagram post ID, delete it
-                    if (uniquePostIds.get(post.platformPostIds.instagram) !== post.id) {
+                    if (uniquePostIds.get(instagramPostId) !== post.id) {
                       postsStore.deletePost(post.id);
                     }
                   } else {
@@ -349,7 +319,7 @@ const Dashboard: React.FC = () => {
                             </p>
                           </div>
                           <div className="flex">
-                            {post.platforms.map((platform) => (
+                            {getTargetPlatforms(post.targets).map((platform) => (
                               <div
                                 key={platform}
                                 className="w-6 h-6 rounded-full flex items-center justify-center ml-1"
@@ -395,20 +365,36 @@ const Dashboard: React.FC = () => {
                               <span className={`
                                 px-2 py-0.5 rounded-full text-xs
                                 ${post.status === 'published' ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400' : ''}
+                                ${post.status === 'partially_published' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400' : ''}
                                 ${post.status === 'scheduled' ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400' : ''}
                                 ${post.status === 'draft' ? 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-400' : ''}
                                 ${post.status === 'failed' ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400' : ''}
                               `}>
-                                {post.status.charAt(0).toUpperCase() + post.status.slice(1)}
+                                {(post.status.charAt(0).toUpperCase() + post.status.slice(1)).replace('_', ' ')}
                               </span>
                               <span className="mx-2 text-gray-400">•</span>
                               <span className="text-gray-500 dark:text-gray-400">
                                 {format(new Date(post.updatedAt), 'PP')}
                               </span>
                             </div>
+                            {post.publishResults && (
+                              <PublishResultsList results={post.publishResults} />
+                            )}
+                            {(post.status === 'failed' || post.status === 'partially_published') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="mt-2"
+                                icon={<RefreshCw size={14} className={retryingPostIds.includes(post.id) ? 'animate-spin' : ''} />}
+                                onClick={() => retryPost(post)}
+                                disabled={retryingPostIds.includes(post.id)}
+                              >
+                                Retry
+                              </Button>
+                            )}
                           </div>
                           <div className="flex">
-                            {post.platforms.map((platform) => (
+                            {getTargetPlatforms(post.targets).map((platform) => (
                               <div
                                 key={platform}
                                 className="w-6 h-6 rounded-full flex items-center justify-center ml-1"
@@ -455,7 +441,7 @@ const Dashboard: React.FC = () => {
                   <p className="line-clamp-2">{nextScheduledPost.content}</p>
                 </div>
                 <div className="mt-3 flex">
-                  {nextScheduledPost.platforms.map((platform) => (
+                  {getTargetPlatforms(nextScheduledPost.targets).map((platform) => (
                     <div
                       key={platform}
                       className="mr-2 bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs px-2 py-1 rounded-full"
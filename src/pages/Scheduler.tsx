@@ -3,6 +3,7 @@ import usePostsStore from '../store/usePostsStore';
 import { Calendar, Clock, Edit2, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { Post, Platform } from '../types';
+import { getTargetPlatforms } from '../lib/accounts';
 
 const PlatformIcon: React.FC<{ platform: Platform }> = ({ platform }) => {
   return (
@@ -138,20 +139,25 @@ const SchedulerPage: React.FC = () => {
                       {post.content}
                     </div>
                     
-                    {post.mediaUrl && (
+                    {post.media.length > 0 && (
                       <div className="mb-4">
-                        <div className="w-full h-48 bg-gray-200 dark:bg-gray-600 rounded-lg overflow-hidden">
+                        <div className="relative w-full h-48 bg-gray-200 dark:bg-gray-600 rounded-lg overflow-hidden">
                           <img 
-                            src={post.mediaUrl} 
+                            src={post.media[0].url} 
                             alt="Post media" 
                             className="w-full h-full object-cover"
                           />
+                          {post.media.length > 1 && (
+                            <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full text-xs bg-black/60 text-white">
+                              +{post.media.length - 1}
+                            </span>
+                          )}
                         </div>
                       </div>
                     )}
                     
                     <div className="flex space-x-2 mt-2">
-                      {post.platforms.map(platform => (
+                      {getTargetPlatforms(post.targets).map(platform => (
                         <PlatformIcon key={platform} platform={platform} />
                       ))}
                     </div>
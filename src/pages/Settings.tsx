@@ -1,34 +1,61 @@
 import React, { useState } from 'react';
-import { Instagram, Youtube, TrendingUp, CheckCircle, AlertCircle, Facebook } from 'lucide-react';
+import { Instagram, Youtube, TrendingUp, CheckCircle, AlertCircle, Facebook, Clock } from 'lucide-react';
 import Card from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Toggle from '../components/ui/Toggle';
+import ModerationRulesForm from '../components/forms/ModerationRulesForm';
 import useSettingsStore from '../store/useSettingsStore';
 import { apiFactory } from '../api';
-import { Platform } from '../types';
+import { Account, FacebookPage, Platform } from '../types';
+import { FACEBOOK_API_BASE_URL } from '../api/FacebookApiService';
+import { TIKTOK_API_BASE_URL } from '../api/TikTokApiService';
+import { INSTAGRAM_API_BASE_URL } from '../api/InstagramApiService';
+import { getDefaultRedirectUri, startYouTubeAuthorization } from '../lib/youtubeOAuth';
+import { tokenManager, TOKEN_WARNING_DAYS } from '../lib/tokenManager';
+import { format } from 'date-fns';
 
 const Settings: React.FC = () => {
   // Settings store
   const {
-    apiCredentials,
+    accounts,
     platformsEnabled,
-    setInstagramCredentials,
-    setFacebookCredentials,
-    setYoutubeCredentials,
-    setTiktokCredentials,
-    clearCredentials,
-    togglePlatform
+    addInstagramAccount,
+    addFacebookAccount,
+    addTiktokAccount,
+    updateAccount,
+    setFacebookPages,
+    removeAccount,
+    togglePlatform,
+    demoMode,
+    setDemoMode,
+    commentPolling,
+    setCommentPolling
   } = useSettingsStore();
 
   // Form states
+  const [accountNames, setAccountNames] = useState<Record<Platform, string>>({
+    instagram: '',
+    facebook: '',
+    youtube: '',
+    tiktok: ''
+  });
   const [instagramToken, setInstagramToken] = useState('');
+  const [instagramAppSecret, setInstagramAppSecret] = useState('');
+  const [instagramBaseUrl, setInstagramBaseUrl] = useState(INSTAGRAM_API_BASE_URL);
   const [facebookToken, setFacebookToken] = useState('');
+  const [facebookAppId, setFacebookAppId] = useState('');
+  const [facebookAppSecret, setFacebookAppSecret] = useState('');
+  const [facebookBaseUrl, setFacebookBaseUrl] = useState(FACEBOOK_API_BASE_URL);
+  const [checkingToken, setCheckingToken] = useState<string | null>(null);
+  // Pages offered for a Facebook account, and which of them are ticked
+  const [pagePicker, setPagePicker] = useState<{ accountId: string; pages: FacebookPage[]; selectedPageIds: string[] } | null>(null);
+  const [loadingPages, setLoadingPages] = useState<string | null>(null);
   const [youtubeApiKey, setYoutubeApiKey] = useState('');
   const [youtubeClientId, setYoutubeClientId] = useState('');
   const [youtubeClientSecret, setYoutubeClientSecret] = useState('');
-  const [youtubeRedirectUri, setYoutubeRedirectUri] = useState('http://localhost:5173/auth/youtube/callback');
-  const [tiktokBaseUrl, setTiktokBaseUrl] = useState('https://open-api.tiktok.com/v2');
+  const [youtubeRedirectUri, setYoutubeRedirectUri] = useState(getDefaultRedirectUri());
+  const [tiktokBaseUrl, setTiktokBaseUrl] = useState(TIKTOK_API_BASE_URL);
   const [tiktokToken, setTiktokToken] = useState('');
 
   // Form submission states
@@ -46,6 +73,24 @@ const Settings: React.FC = () => {
     tiktok?: string;
   }>({});
 
+  const getPlatformAccounts = (platform: Platform) => accounts.filter(account => account.platform === platform);
+
+  // Name for a new account: what the user typed, or e.g. "Instagram 2"
+  const getNewAccountName = (platform: Platform) => {
+    const name = accountNames[platform].trim();
+    if (name) {
+      return name;
+    }
+
+    const platformName = platform.charAt(0).toUpperCase() + platform.slice(1);
+    const count = getPlatformAccounts(platform).length;
+    return count > 0 ? `${platformName} ${count + 1}` : platformName;
+  };
+
+  const setAccountName = (platform: Platform, name: string) => {
+    setAccountNames(prev => ({ ...prev, [platform]: name }));
+  };
+
   // Handle Instagram form submission
   const handleInstagramSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,15 +105,23 @@ const Settings: React.FC = () => {
         return;
       }
 
-      // Save the credentials
-      setInstagramCredentials(instagramToken);
-
-      // Reset API service to use new credentials
-      apiFactory.resetApiService('instagram');
+      // Save the account
+      const accountId = addInstagramAccount(getNewAccountName('instagram'), instagramToken, instagramAppSecret, instagramBaseUrl);
 
       // Show success message
-      setSuccessMessages(prev => ({ ...prev, instagram: 'Instagram credentials saved successfully' }));
+      setSuccessMessages(prev => ({ ...prev, instagram: 'Instagram account added successfully' }));
+      setAccountName('instagram', '');
       setInstagramToken('');
+      setInstagramAppSecret('');
+
+      // Upgrade to a long-lived token when the app secret was given
+      tokenManager.onTokenSaved(accountId).catch(exchangeError => {
+        console.error('Error exchanging Instagram token:', exchangeError);
+        setErrors(prev => ({
+          ...prev,
+          instagram: 'Token saved but could not be exchanged for a long-lived token. It may expire within hours.'
+        }));
+      });
     } catch (error: any) {
       console.error('Error saving Instagram credentials:', error);
       setErrors(prev => ({ ...prev, instagram: 'Failed to save Instagram credentials. Please check your access token and try again.' }));
@@ -93,26 +146,37 @@ const Settings: React.FC = () => {
 
       console.log("Saving Facebook token (first 10 chars):", facebookToken.substring(0, 10) + "...");
 
-      // Save the credentials
-      setFacebookCredentials(facebookToken);
-
-      // Reset API service to use new credentials
-      apiFactory.resetApiService('facebook');
+      // Save the account, named after the profile below unless the user picked a name
+      const hasCustomName = !!accountNames.facebook.trim();
+      const accountId = addFacebookAccount(getNewAccountName('facebook'), facebookToken, facebookAppId, facebookAppSecret, facebookBaseUrl);
 
       // Show success message
-      setSuccessMessages(prev => ({ ...prev, facebook: 'Facebook credentials saved successfully' }));
+      setSuccessMessages(prev => ({ ...prev, facebook: 'Facebook account added successfully' }));
+      setAccountName('facebook', '');
       setFacebookToken('');
+      setFacebookAppId('');
+      setFacebookAppSecret('');
 
       // Verify the token works by testing the API
       setTimeout(async () => {
         try {
-          const facebookApi = apiFactory.getApiService('facebook');
+          // Upgrade to a long-lived token when possible and record its expiry
+          await tokenManager.onTokenSaved(accountId);
+
+          const facebookApi = apiFactory.getFacebookService(accountId);
           const profileInfo = await facebookApi.getBasicProfileInfo();
           console.log("Facebook profile verification successful:", profileInfo);
+
+          if (!hasCustomName && profileInfo.name) {
+            updateAccount(accountId, { displayName: profileInfo.name });
+          }
+
           setSuccessMessages(prev => ({
             ...prev,
-            facebook: `Facebook credentials saved successfully. Connected to: ${profileInfo.name}`
+            facebook: `Facebook account added successfully. Connected to: ${profileInfo.name}. Choose the page to post to.`
           }));
+
+          await handleLoadPages(accountId);
         } catch (verifyError) {
           console.error("Error verifying Facebook token:", verifyError);
           setErrors(prev => ({
@@ -129,41 +193,31 @@ const Settings: React.FC = () => {
     }
   };
 
-  // Handle YouTube form submission
-  const handleYoutubeSubmit = (e: React.FormEvent) => {
+  // Handle YouTube form submission: start the OAuth flow, which returns to /auth/youtube/callback
+  const handleYoutubeSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSavingPlatform('youtube');
     setErrors({});
     setSuccessMessages({});
 
     try {
-      if (!youtubeApiKey || !youtubeClientId || !youtubeClientSecret) {
-        setErrors(prev => ({ ...prev, youtube: 'API Key, Client ID, and Client Secret are required' }));
+      if (!youtubeApiKey || !youtubeClientId || !youtubeClientSecret || !youtubeRedirectUri) {
+        setErrors(prev => ({ ...prev, youtube: 'API Key, Client ID, Client Secret and Redirect URI are required' }));
         setSavingPlatform(null);
         return;
       }
 
-      // Save the credentials
-      setYoutubeCredentials(
-        youtubeApiKey,
-        youtubeClientId,
-        youtubeClientSecret,
-        youtubeRedirectUri
-      );
-
-      // Reset API service to use new credentials
-      apiFactory.resetApiService('youtube');
-
-      // Show success message
-      setSuccessMessages(prev => ({ ...prev, youtube: 'YouTube credentials saved successfully' }));
-
-      // Clear form
-      setYoutubeApiKey('');
-      setYoutubeClientId('');
-      setYoutubeClientSecret('');
+      // The browser leaves for Google's consent screen; the account is added on the way back
+      await startYouTubeAuthorization({
+        displayName: getNewAccountName('youtube'),
+        apiKey: youtubeApiKey,
+        clientId: youtubeClientId,
+        clientSecret: youtubeClientSecret,
+        redirectUri: youtubeRedirectUri
+      });
     } catch (error) {
-      setErrors(prev => ({ ...prev, youtube: 'Failed to save YouTube credentials' }));
-    } finally {
+      console.error('Error starting YouTube authorization:', error);
+      setErrors(prev => ({ ...prev, youtube: 'Failed to start YouTube authorization' }));
       setSavingPlatform(null);
     }
   };
@@ -182,14 +236,12 @@ const Settings: React.FC = () => {
         return;
       }
 
-      // Save the credentials
-      setTiktokCredentials(tiktokBaseUrl, tiktokToken);
-
-      // Reset API service to use new credentials
-      apiFactory.resetApiService('tiktok');
+      // Save the account
+      addTiktokAccount(getNewAccountName('tiktok'), tiktokBaseUrl, tiktokToken);
 
       // Show success message
-      setSuccessMessages(prev => ({ ...prev, tiktok: 'TikTok credentials saved successfully' }));
+      setSuccessMessages(prev => ({ ...prev, tiktok: 'TikTok account added successfully' }));
+      setAccountName('tiktok', '');
       setTiktokToken('');
     } catch (error) {
       setErrors(prev => ({ ...prev, tiktok: 'Failed to save TikTok credentials' }));
@@ -198,11 +250,282 @@ const Settings: React.FC = () => {
     }
   };
 
-  // Handle clearing credentials for a platform
-  const handleClearCredentials = (platform: Platform) => {
-    clearCredentials(platform);
-    apiFactory.resetApiService(platform);
-    setSuccessMessages(prev => ({ ...prev, [platform]: `${platform.charAt(0).toUpperCase() + platform.slice(1)} credentials cleared` }));
+  // Look up (Facebook) or refresh (Instagram) the token expiry on demand
+  const handleCheckToken = async (account: Account) => {
+    setCheckingToken(account.id);
+    setErrors({});
+
+    try {
+      if (account.platform === 'facebook') {
+        await tokenManager.inspectFacebookToken(account.id);
+      } else {
+        await tokenManager.refreshInstagramToken(account.id);
+      }
+    } catch (error) {
+      console.error(`Error checking ${account.displayName} token:`, error);
+      setErrors(prev => ({
+        ...prev,
+        [account.platform]: error instanceof Error ? error.message : 'Failed to check the access token'
+      }));
+    } finally {
+      setCheckingToken(null);
+    }
+  };
+
+  // Expiry line shown under a connected Facebook or Instagram account
+  const renderTokenExpiry = (account: Account) => {
+    if (account.platform !== 'facebook' && account.platform !== 'instagram') {
+      return null;
+    }
+
+    const expiresAt = account.credentials.expiresAt;
+
+    if (expiresAt === undefined) {
+      return (
+        <p className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <Clock size={14} className="mr-1" />
+          Token expiry unknown
+        </p>
+      );
+    }
+
+    if (expiresAt === 0) {
+      return (
+        <p className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <Clock size={14} className="mr-1" />
+          Token never expires
+        </p>
+      );
+    }
+
+    const msLeft = expiresAt - Date.now();
+    const isExpired = msLeft <= 0;
+    const isExpiringSoon = msLeft <= TOKEN_WARNING_DAYS * 24 * 60 * 60 * 1000;
+
+    return (
+      <p className={`flex items-center text-xs mt-1 ${
+        isExpiringSoon ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+      }`}>
+        {isExpiringSoon ? <AlertCircle size={14} className="mr-1" /> : <Clock size={14} className="mr-1" />}
+        {isExpired
+          ? `Token expired on ${format(new Date(expiresAt), 'MMM d, yyyy')}. Please reconnect.`
+          : `Token expires on ${format(new Date(expiresAt), 'MMM d, yyyy')}`}
+      </p>
+    );
+  };
+
+  // Fetch the pages a Facebook account manages and open the picker
+  const handleLoadPages = async (accountId: string) => {
+    setLoadingPages(accountId);
+    setErrors(prev => ({ ...prev, facebook: undefined }));
+
+    try {
+      const facebookApi = apiFactory.getFacebookService(accountId);
+      const pages = await facebookApi.listPages();
+
+      if (pages.length === 0) {
+        setPagePicker(null);
+        setErrors(prev => ({ ...prev, facebook: 'This Facebook user does not manage any pages. Create a page or check the token has the pages_show_list permission.' }));
+        return;
+      }
+
+      // Start from the pages that already have an account
+      const connectedPageIds = useSettingsStore.getState().getAccountsByPlatform('facebook')
+        .map(account => account.platform === 'facebook' ? account.credentials.pageId : undefined);
+      setPagePicker({
+        accountId,
+        pages,
+        selectedPageIds: pages.filter(page => connectedPageIds.includes(page.id)).map(page => page.id)
+      });
+    } catch (error) {
+      console.error('Error listing Facebook pages:', error);
+      setErrors(prev => ({ ...prev, facebook: error instanceof Error ? error.message : 'Failed to list Facebook pages' }));
+    } finally {
+      setLoadingPages(null);
+    }
+  };
+
+  const togglePickedPage = (pageId: string) => {
+    setPagePicker(prev => prev && {
+      ...prev,
+      selectedPageIds: prev.selectedPageIds.includes(pageId)
+        ? prev.selectedPageIds.filter(id => id !== pageId)
+        : [...prev.selectedPageIds, pageId]
+    });
+  };
+
+  // Save the ticked pages; pages without an account yet are added as new accounts
+  const handleSavePages = () => {
+    if (!pagePicker || pagePicker.selectedPageIds.length === 0) {
+      return;
+    }
+
+    const pages = pagePicker.pages.filter(page => pagePicker.selectedPageIds.includes(page.id));
+    const accountIds = setFacebookPages(pagePicker.accountId, pages);
+
+    // Services read the page token when they are created
+    accountIds.forEach(id => apiFactory.resetApiService(id));
+
+    setSuccessMessages(prev => ({
+      ...prev,
+      facebook: `Posting to ${pages.map(page => page.name).join(', ')}`
+    }));
+    setPagePicker(null);
+  };
+
+  const renderPagePicker = () => {
+    if (!pagePicker) {
+      return null;
+    }
+
+    return (
+      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Choose the pages to post to. Each page is its own account; pages already connected keep theirs.
+          Disconnect a page's account to stop posting to it.
+        </p>
+        {pagePicker.pages.map(page => (
+          <div key={page.id} className="flex items-center">
+            <input
+              id={`facebook-page-${page.id}`}
+              type="checkbox"
+              className="form-checkbox h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              checked={pagePicker.selectedPageIds.includes(page.id)}
+              onChange={() => togglePickedPage(page.id)}
+            />
+            <label htmlFor={`facebook-page-${page.id}`} className="ml-2 text-sm text-gray-700 dark:text-gray-200">
+              {page.name}
+              {page.category && (
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{page.category}</span>
+              )}
+            </label>
+          </div>
+        ))}
+        <div className="flex space-x-2 pt-1">
+          <Button
+            size="sm"
+            onClick={handleSavePages}
+            disabled={pagePicker.selectedPageIds.length === 0}
+          >
+            Use Selected Pages
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPagePicker(null)}
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const handleRemoveAccount = (account: Account) => {
+    removeAccount(account.id);
+    apiFactory.resetApiService(account.id);
+    setSuccessMessages(prev => ({ ...prev, [account.platform]: `${account.displayName} disconnected` }));
+  };
+
+  // Connected accounts of a platform, each with its token status and actions
+  const renderAccountList = (platform: Platform) => {
+    const platformAccounts = getPlatformAccounts(platform);
+
+    if (platformAccounts.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="mb-6 space-y-3">
+        {platformAccounts.map(account => (
+          <div
+            key={account.id}
+            className="p-3 rounded-md border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center min-w-0">
+                {account.avatarUrl && (
+                  <img
+                    src={account.avatarUrl}
+                    alt=""
+                    className="w-8 h-8 rounded-full mr-3"
+                  />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{account.displayName}</p>
+                  {account.platform === 'facebook' && (
+                    <p className={`text-xs mt-1 ${account.credentials.pageId ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {account.credentials.pageId
+                        ? `Page: ${account.credentials.pageName || account.credentials.pageId}`
+                        : 'No page selected. Choose a page to post to.'}
+                    </p>
+                  )}
+                  {renderTokenExpiry(account)}
+                </div>
+              </div>
+
+              <div className="flex space-x-2 ml-4">
+                {account.platform === 'facebook' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleLoadPages(account.id)}
+                    disabled={loadingPages === account.id}
+                    size="sm"
+                  >
+                    {loadingPages === account.id ? 'Loading...' : 'Choose Page'}
+                  </Button>
+                )}
+                {(account.platform === 'facebook' || account.platform === 'instagram') && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleCheckToken(account)}
+                    disabled={checkingToken === account.id}
+                    size="sm"
+                  >
+                    {account.platform === 'facebook'
+                      ? (checkingToken === account.id ? 'Checking...' : 'Check Token')
+                      : (checkingToken === account.id ? 'Refreshing...' : 'Refresh Token')}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => handleRemoveAccount(account)}
+                  size="sm"
+                >
+                  Disconnect
+                </Button>
+              </div>
+            </div>
+
+            {pagePicker?.accountId === account.id && renderPagePicker()}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Heading above the form, which adds the first account or another one
+  const renderAddAccountHeading = (platform: Platform) => (
+    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+      {getPlatformAccounts(platform).length > 0 ? 'Add another account' : 'Connect an account'}
+    </h4>
+  );
+
+  const renderAccountNameInput = (platform: Platform) => (
+    <Input
+      label="Account Name (optional)"
+      value={accountNames[platform]}
+      onChange={(e) => setAccountName(platform, e.target.value)}
+      placeholder="How this account is shown when posting, e.g. your brand name"
+    />
+  );
+
+  const getConnectionStatus = (platform: Platform) => {
+    const count = getPlatformAccounts(platform).length;
+    if (count === 0) {
+      return 'Not connected';
+    }
+    return count === 1 ? '1 account connected' : `${count} accounts connected`;
   };
 
   return (
@@ -229,7 +552,7 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium">Instagram</h3>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {apiCredentials.instagram ? 'Connected' : 'Not connected'}
+                  {getConnectionStatus('instagram')}
                 </p>
               </div>
             </div>
@@ -237,68 +560,74 @@ const Settings: React.FC = () => {
             <Toggle
               checked={platformsEnabled.instagram}
               onChange={(checked) => togglePlatform('instagram', checked)}
-              disabled={!apiCredentials.instagram}
+              disabled={getPlatformAccounts('instagram').length === 0}
               color="pink"
             />
           </div>
 
-          {apiCredentials.instagram ? (
-            <div>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Your Instagram account is connected. You can disconnect at any time.
-              </p>
-              <Button
-                variant="outline"
-                onClick={() => handleClearCredentials('instagram')}
-                size="sm"
-              >
-                Disconnect Account
-              </Button>
-            </div>
-          ) : (
-            <form onSubmit={handleInstagramSubmit} className="space-y-4">
-              <Input
-                label="Access Token"
-                value={instagramToken}
-                onChange={(e) => setInstagramToken(e.target.value)}
-                placeholder="Enter your Instagram access token"
-                type="password"
-              />
+          {renderAccountList('instagram')}
 
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                You can get your access token from the Meta Developer Portal.
-                <a
-                  href="https://developers.facebook.com/docs/instagram-api/getting-started"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  Learn more
-                </a>
-              </p>
+          <form onSubmit={handleInstagramSubmit} className="space-y-4">
+            {renderAddAccountHeading('instagram')}
 
-              {errors.instagram && (
-                <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
-                  <AlertCircle size={16} className="mr-1" />
-                  {errors.instagram}
-                </div>
-              )}
+            {renderAccountNameInput('instagram')}
 
-              {successMessages.instagram && (
-                <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
-                  <CheckCircle size={16} className="mr-1" />
-                  {successMessages.instagram}
-                </div>
-              )}
+            <Input
+              label="API Base URL"
+              value={instagramBaseUrl}
+              onChange={(e) => setInstagramBaseUrl(e.target.value)}
+              placeholder={INSTAGRAM_API_BASE_URL}
+            />
+
+            <Input
+              label="Access Token"
+              value={instagramToken}
+              onChange={(e) => setInstagramToken(e.target.value)}
+              placeholder="Enter your Instagram access token"
+              type="password"
+            />
 
-              <Button
-                type="submit"
-                disabled={savingPlatform === 'instagram'}
+            <Input
+              label="App Secret (optional)"
+              value={instagramAppSecret}
+              onChange={(e) => setInstagramAppSecret(e.target.value)}
+              placeholder="Used to exchange the token for a long-lived one"
+              type="password"
+            />
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              You can get your access token from the Meta Developer Portal.
+              <a
+                href="https://developers.facebook.com/docs/instagram-api/getting-started"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
               >
-                {savingPlatform === 'instagram' ? (savingPlatform === 'instagram' ? 'Saving...' : 'Save Credentials') : 'Save Credentials'}
-              </Button>
-            </form>
-          )}
+                Learn more
+              </a>
+            </p>
+
+            {errors.instagram && (
+              <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
+                <AlertCircle size={16} className="mr-1" />
+                {errors.instagram}
+              </div>
+            )}
+
+            {successMessages.instagram && (
+              <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
+                <CheckCircle size={16} className="mr-1" />
+                {successMessages.instagram}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={savingPlatform === 'instagram'}
+            >
+              {savingPlatform === 'instagram' ? 'Saving...' : 'Add Account'}
+            </Button>
+          </form>
         </Card>
 
         {/* Facebook Settings */}
@@ -315,7 +644,7 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium">Facebook</h3>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {apiCredentials.facebook ? 'Connected' : 'Not connected'}
+                  {getConnectionStatus('facebook')}
                 </p>
               </div>
             </div>
@@ -323,68 +652,81 @@ const Settings: React.FC = () => {
             <Toggle
               checked={platformsEnabled.facebook}
               onChange={(checked) => togglePlatform('facebook', checked)}
-              disabled={!apiCredentials.facebook}
+              disabled={getPlatformAccounts('facebook').length === 0}
               color="blue"
             />
           </div>
 
-          {apiCredentials.facebook ? (
-            <div>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Your Facebook account is connected. You can disconnect at any time.
-              </p>
-              <Button
-                variant="outline"
-                onClick={() => handleClearCredentials('facebook')}
-                size="sm"
-              >
-                Disconnect Account
-              </Button>
-            </div>
-          ) : (
-            <form onSubmit={handleFacebookSubmit} className="space-y-4">
-              <Input
-                label="Access Token"
-                value={facebookToken}
-                onChange={(e) => setFacebookToken(e.target.value)}
-                placeholder="Enter your Facebook access token"
-                type="password"
-              />
+          {renderAccountList('facebook')}
 
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                You can get your access token from the Meta Developer Portal.
-                <a
-                  href="https://developers.facebook.com/docs/facebook-login/guides/access-tokens"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  Learn more
-                </a>
-              </p>
+          <form onSubmit={handleFacebookSubmit} className="space-y-4">
+            {renderAddAccountHeading('facebook')}
 
-              {errors.facebook && (
-                <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
-                  <AlertCircle size={16} className="mr-1" />
-                  {errors.facebook}
-                </div>
-              )}
+            {renderAccountNameInput('facebook')}
 
-              {successMessages.facebook && (
-                <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
-                  <CheckCircle size={16} className="mr-1" />
-                  {successMessages.facebook}
-                </div>
-              )}
+            <Input
+              label="API Base URL"
+              value={facebookBaseUrl}
+              onChange={(e) => setFacebookBaseUrl(e.target.value)}
+              placeholder={FACEBOOK_API_BASE_URL}
+            />
+
+            <Input
+              label="Access Token"
+              value={facebookToken}
+              onChange={(e) => setFacebookToken(e.target.value)}
+              placeholder="Enter your Facebook access token"
+              type="password"
+            />
+
+            <Input
+              label="App ID (optional)"
+              value={facebookAppId}
+              onChange={(e) => setFacebookAppId(e.target.value)}
+              placeholder="Used to exchange the token for a long-lived one"
+            />
+
+            <Input
+              label="App Secret (optional)"
+              value={facebookAppSecret}
+              onChange={(e) => setFacebookAppSecret(e.target.value)}
+              placeholder="Used to exchange the token for a long-lived one"
+              type="password"
+            />
 
-              <Button
-                type="submit"
-                disabled={savingPlatform === 'facebook'}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              You can get your access token from the Meta Developer Portal.
+              <a
+                href="https://developers.facebook.com/docs/facebook-login/guides/access-tokens"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
               >
-                {savingPlatform === 'facebook' ? 'Saving...' : 'Save Credentials'}
-              </Button>
-            </form>
-          )}
+                Learn more
+              </a>
+            </p>
+
+            {errors.facebook && (
+              <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
+                <AlertCircle size={16} className="mr-1" />
+                {errors.facebook}
+              </div>
+            )}
+
+            {successMessages.facebook && (
+              <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
+                <CheckCircle size={16} className="mr-1" />
+                {successMessages.facebook}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={savingPlatform === 'facebook'}
+            >
+              {savingPlatform === 'facebook' ? 'Saving...' : 'Add Account'}
+            </Button>
+          </form>
         </Card>
 
         {/* YouTube Settings */}
@@ -401,7 +743,7 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium">YouTube</h3>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {apiCredentials.youtube ? 'Connected' : 'Not connected'}
+                  {getConnectionStatus('youtube')}
                 </p>
               </div>
             </div>
@@ -409,91 +751,87 @@ const Settings: React.FC = () => {
             <Toggle
               checked={platformsEnabled.youtube}
               onChange={(checked) => togglePlatform('youtube', checked)}
-              disabled={!apiCredentials.youtube}
+              disabled={getPlatformAccounts('youtube').length === 0}
               color="red"
             />
           </div>
 
-          {apiCredentials.youtube ? (
-            <div>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Your YouTube account is connected. You can disconnect at any time.
-              </p>
-              <Button
-                variant="outline"
-                onClick={() => handleClearCredentials('youtube')}
-                size="sm"
-              >
-                Disconnect Account
-              </Button>
-            </div>
-          ) : (
-            <form onSubmit={handleYoutubeSubmit} className="space-y-4">
-              <Input
-                label="API Key"
-                value={youtubeApiKey}
-                onChange={(e) => setYoutubeApiKey(e.target.value)}
-                placeholder="Enter your YouTube API key"
-                type="password"
-              />
+          {renderAccountList('youtube')}
 
-              <Input
-                label="Client ID"
-                value={youtubeClientId}
-                onChange={(e) => setYoutubeClientId(e.target.value)}
-                placeholder="Enter your OAuth client ID"
-                type="password"
-              />
+          <form onSubmit={handleYoutubeSubmit} className="space-y-4">
+            {renderAddAccountHeading('youtube')}
 
-              <Input
-                label="Client Secret"
-                value={youtubeClientSecret}
-                onChange={(e) => setYoutubeClientSecret(e.target.value)}
-                placeholder="Enter your OAuth client secret"
-                type="password"
-              />
+            {renderAccountNameInput('youtube')}
 
-              <Input
-                label="Redirect URI"
-                value={youtubeRedirectUri}
-                onChange={(e) => setYoutubeRedirectUri(e.target.value)}
-                placeholder="Enter your OAuth redirect URI"
-              />
+            <Input
+              label="API Key"
+              value={youtubeApiKey}
+              onChange={(e) => setYoutubeApiKey(e.target.value)}
+              placeholder="Enter your YouTube API key"
+              type="password"
+            />
 
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                You can get these credentials from the Google Cloud Console.
-                <a
-                  href="https://developers.google.com/youtube/v3/getting-started"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  Learn more
-                </a>
-              </p>
+            <Input
+              label="Client ID"
+              value={youtubeClientId}
+              onChange={(e) => setYoutubeClientId(e.target.value)}
+              placeholder="Enter your OAuth client ID"
+              type="password"
+            />
 
-              {errors.youtube && (
-                <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
-                  <AlertCircle size={16} className="mr-1" />
-                  {errors.youtube}
-                </div>
-              )}
+            <Input
+              label="Client Secret"
+              value={youtubeClientSecret}
+              onChange={(e) => setYoutubeClientSecret(e.target.value)}
+              placeholder="Enter your OAuth client secret"
+              type="password"
+            />
 
-              {successMessages.youtube && (
-                <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
-                  <CheckCircle size={16} className="mr-1" />
-                  {successMessages.youtube}
-                </div>
-              )}
+            <Input
+              label="Redirect URI"
+              value={youtubeRedirectUri}
+              onChange={(e) => setYoutubeRedirectUri(e.target.value)}
+              placeholder="Enter your OAuth redirect URI"
+            />
 
-              <Button
-                type="submit"
-                disabled={savingPlatform === 'youtube'}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Add this redirect URI to your OAuth client in the Google Cloud Console.
+              You will be asked to sign in to Google and allow access to your channel.
+            </p>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              You can get these credentials from the Google Cloud Console.
+              <a
+                href="https://developers.google.com/youtube/v3/getting-started"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
               >
-                {savingPlatform === 'youtube' ? 'Saving...' : 'Save Credentials'}
-              </Button>
-            </form>
-          )}
+                Learn more
+              </a>
+            </p>
+
+            {errors.youtube && (
+              <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
+                <AlertCircle size={16} className="mr-1" />
+                {errors.youtube}
+              </div>
+            )}
+
+            {successMessages.youtube && (
+              <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
+                <CheckCircle size={16} className="mr-1" />
+                {successMessages.youtube}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={savingPlatform === 'youtube'}
+            >
+              {savingPlatform === 'youtube' ? 'Connecting...' : 'Connect YouTube'}
+            </Button>
+          </form>
         </Card>
 
         {/* TikTok Settings */}
@@ -510,7 +848,7 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium">TikTok</h3>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {apiCredentials.tiktok ? 'Connected' : 'Not connected'}
+                  {getConnectionStatus('tiktok')}
                 </p>
               </div>
             </div>
@@ -518,74 +856,71 @@ const Settings: React.FC = () => {
             <Toggle
               checked={platformsEnabled.tiktok}
               onChange={(checked) => togglePlatform('tiktok', checked)}
-              disabled={!apiCredentials.tiktok}
+              disabled={getPlatformAccounts('tiktok').length === 0}
             />
           </div>
 
-          {apiCredentials.tiktok ? (
-            <div>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                Your TikTok account is connected. You can disconnect at any time.
-              </p>
-              <Button
-                variant="outline"
-                onClick={() => handleClearCredentials('tiktok')}
-                size="sm"
-              >
-                Disconnect Account
-              </Button>
-            </div>
-          ) : (
-            <form onSubmit={handleTiktokSubmit} className="space-y-4">
-              <Input
-                label="API Base URL"
-                value={tiktokBaseUrl}
-                onChange={(e) => setTiktokBaseUrl(e.target.value)}
-                placeholder="https://open-api.tiktok.com/v2"
-              />
+          {renderAccountList('tiktok')}
 
-              <Input
-                label="Access Token"
-                value={tiktokToken}
-                onChange={(e) => setTiktokToken(e.target.value)}
-                placeholder="Enter your TikTok access token"
-                type="password"
-              />
+          <form onSubmit={handleTiktokSubmit} className="space-y-4">
+            {renderAddAccountHeading('tiktok')}
 
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                You can get your access token from the TikTok Developer Portal.
-                <a
-                  href="https://developers.tiktok.com/doc/login-kit-web"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  Learn more
-                </a>
-              </p>
+            {renderAccountNameInput('tiktok')}
 
-              {errors.tiktok && (
-                <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
-                  <AlertCircle size={16} className="mr-1" />
-                  {errors.tiktok}
-                </div>
-              )}
+            <Input
+              label="API Base URL"
+              value={tiktokBaseUrl}
+              onChange={(e) => setTiktokBaseUrl(e.target.value)}
+              placeholder={TIKTOK_API_BASE_URL}
+            />
 
-              {successMessages.tiktok && (
-                <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
-                  <CheckCircle size={16} className="mr-1" />
-                  {successMessages.tiktok}
-                </div>
-              )}
+            <Input
+              label="Access Token"
+              value={tiktokToken}
+              onChange={(e) => setTiktokToken(e.target.value)}
+              placeholder="Enter your TikTok access token"
+              type="password"
+            />
 
-              <Button
-                type="submit"
-                disabled={savingPlatform === 'tiktok'}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              You can get your access token from the TikTok Developer Portal.
+              Publishing needs the video.publish scope and stats need video.list.
+              <a
+                href="https://developers.tiktok.com/doc/login-kit-web"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
               >
-                {savingPlatform === 'tiktok' ? 'Saving...' : 'Save Credentials'}
-              </Button>
-            </form>
-          )}
+                Learn more
+              </a>
+            </p>
+
+            {errors.tiktok && (
+              <div className="flex items-center text-red-600 dark:text-red-400 text-sm">
+                <AlertCircle size={16} className="mr-1" />
+                {errors.tiktok}
+              </div>
+            )}
+
+            {successMessages.tiktok && (
+              <div className="flex items-center text-green-600 dark:text-green-400 text-sm">
+                <CheckCircle size={16} className="mr-1" />
+                {successMessages.tiktok}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={savingPlatform === 'tiktok'}
+            >
+              {savingPlatform === 'tiktok' ? 'Saving...' : 'Add Account'}
+            </Button>
+          </form>
+        </Card>
+
+        {/* Auto-Moderation */}
+        <Card title="Auto-Moderation Rules">
+          <ModerationRulesForm />
         </Card>
 
         {/* App Settings */}
@@ -598,6 +933,59 @@ const Settings: React.FC = () => {
               </p>
             </div>
 
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium mb-2">Demo Mode</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Try the app without real accounts. Posts, comments and stats stay in this browser tab
+                  and nothing is sent to the platforms. A demo account is added for each platform and removed when
+                  demo mode is turned off; your connected accounts are not used until then.
+                </p>
+              </div>
+              <Toggle
+                checked={demoMode}
+                onChange={setDemoMode}
+                color="purple"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium mb-2">Sync Comments in the Background</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Check your published posts for new comments while the app is open. Newer posts are checked more often.
+                </p>
+              </div>
+              <Toggle
+                checked={commentPolling.enabled}
+                onChange={(enabled) => setCommentPolling({ enabled })}
+              />
+            </div>
+
+            {commentPolling.enabled && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {([
+                  { key: 'recentPostMinutes', label: 'Posts from the last day' },
+                  { key: 'weekOldPostMinutes', label: 'Posts from the last week' },
+                  { key: 'olderPostMinutes', label: 'Older posts' },
+                ] as const).map(({ key, label }) => (
+                  <Input
+                    key={key}
+                    label={`${label} (minutes)`}
+                    type="number"
+                    min={1}
+                    value={commentPolling[key]}
+                    onChange={(e) => {
+                      const minutes = parseInt(e.target.value, 10);
+                      if (minutes > 0) {
+                        setCommentPolling({ [key]: minutes });
+                      }
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+
             <div>
               <h3 className="font-medium mb-2">About</h3>
               <p className="text-sm text-gray-600 dark:text-gray-400">
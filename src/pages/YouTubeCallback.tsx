@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { CheckCircle, AlertCircle, Youtube } from 'lucide-react';
+import Card from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import { completeYouTubeAuthorization } from '../lib/youtubeOAuth';
+import { apiFactory } from '../api';
+
+const YouTubeCallback: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<'exchanging' | 'connected' | 'error'>('exchanging');
+  const [error, setError] = useState<string | null>(null);
+
+  // An authorization code can only be exchanged once, so guard against effects running twice
+  const hasExchanged = useRef(false);
+
+  useEffect(() => {
+    if (hasExchanged.current) {
+      return;
+    }
+    hasExchanged.current = true;
+
+    const exchangeCode = async () => {
+      try {
+        const accountId = await completeYouTubeAuthorization(location.search);
+        // A channel that was connected before keeps its account, whose service has the old tokens
+        apiFactory.resetApiService(accountId);
+        setStatus('connected');
+
+        // Head back to settings after a moment
+        setTimeout(() => navigate('/settings', { replace: true }), 1500);
+      } catch (err) {
+        console.error('Error completing YouTube authorization:', err);
+        setError(err instanceof Error ? err.message : 'Failed to connect YouTube');
+        setStatus('error');
+      }
+    };
+
+    exchangeCode();
+  }, [location.search, navigate]);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Connect YouTube</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Finishing the connection to your YouTube channel
+        </p>
+      </div>
+
+      <Card>
+        {status === 'exchanging' && (
+          <div className="flex items-center text-gray-700 dark:text-gray-300">
+            <Youtube size={20} className="mr-2 text-red-500" />
+            Connecting your YouTube account...
+          </div>
+        )}
+
+        {status === 'connected' && (
+          <div className="flex items-center text-green-600 dark:text-green-400">
+            <CheckCircle size={20} className="mr-2" />
+            YouTube connected successfully. Returning to settings...
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="space-y-4">
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertCircle size={20} className="mr-2" />
+              {error}
+            </div>
+            <Button onClick={() => navigate('/settings', { replace: true })}>
+              Back to Settings
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default YouTubeCallback;
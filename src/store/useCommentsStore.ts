@@ -1,13 +1,77 @@
 import { create } from 'zustand';
-import { Comment, Platform } from '../types';
+import { persist } from 'zustand/middleware';
+import { Comment, CommentSyncCursor, Platform } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { createIndexedDbStorage, reviveDate, runMigrations, Migration } from '../lib/persistentStorage';
+
+// Bump this and add a migration whenever the persisted Comment shape changes
+const COMMENTS_STORE_VERSION = 2;
+
+const commentsMigrations: Record<number, Migration> = {
+  // Version 0 -> 1: comments were never persisted before, start from a clean list
+  0: (state) => ({ comments: Array.isArray(state?.comments) ? state.comments : [] }),
+  // Version 1 -> 2: drop comments pieced together from platform stats; the next sync loads the real ones
+  1: (state) => ({
+    ...state,
+    comments: state.comments.filter((comment: Partial<Comment>) =>
+      comment.platformCommentId && !comment.platformCommentId.startsWith('stats_comment_')
+    ),
+  }),
+};
+
+// A comment as loaded from its platform
+export type SyncedComment = Omit<Comment, 'id'> & { platformCommentId: string };
+
+// A reply we posted, as the platform accepted it
+export interface OwnReply {
+  platformCommentId: string;
+  content: string;
+  author: Comment['author'];
+}
+
+// The store key of a platform comment
+const platformCommentKey = (comment: Pick<Comment, 'platform' | 'platformCommentId'>) =>
+  `${comment.platform}:${comment.platformCommentId}`;
+
+/**
+ * The key of a post's sync cursor
+ */
+export const commentSyncCursorKey = (accountId: string, platformPostId: string) => `${accountId}:${platformPostId}`;
+
+/**
+ * Restore Date fields on a sync cursor loaded from storage
+ */
+function reviveSyncCursor(cursor: CommentSyncCursor): CommentSyncCursor {
+  return {
+    lastSyncedAt: reviveDate(cursor.lastSyncedAt) ?? new Date(0),
+    lastSeenAt: reviveDate(cursor.lastSeenAt),
+  };
+}
+
+/**
+ * Restore Date fields on a comment loaded from storage
+ */
+function reviveComment(comment: Comment): Comment {
+  return {
+    ...comment,
+    createdAt: reviveDate(comment.createdAt) ?? new Date(),
+  };
+}
 
 interface CommentsState {
   comments: Comment[];
+  // Where syncing got to for each post, keyed by commentSyncCursorKey
+  syncCursors: Record<string, CommentSyncCursor>;
+  // Comments a moderation action is being sent to the platform for; not persisted
+  pendingModerationIds: string[];
 
   // Actions
   addComment: (comment: Omit<Comment, 'id' | 'createdAt'>) => Comment;
   addManyComments: (comments: Omit<Comment, 'id' | 'createdAt'>[]) => Comment[];
+  upsertComments: (comments: SyncedComment[]) => { added: number; updated: number; stored: Comment[]; addedComments: Comment[] };
+  addOwnReply: (parentId: string, reply: OwnReply) => void;
+  setSyncCursor: (key: string, cursor: CommentSyncCursor) => void;
+  setModerationPending: (id: string, pending: boolean) => void;
   updateComment: (id: string, data: Partial<Comment>) => void;
   deleteComment: (id: string) => void;
   markAsReplied: (id: string) => void;
@@ -23,99 +87,229 @@ interface CommentsState {
   ) => Comment[];
 }
 
-const useCommentsStore = create<CommentsState>((set, get) => ({
-  comments: [],
-
-  addComment: (commentData) => {
-    const newComment: Comment = {
-      ...commentData,
-      id: uuidv4(),
-      createdAt: new Date(),
-    };
-
-    set(state => ({
-      comments: [...state.comments, newComment]
-    }));
-
-    return newComment;
-  },
-
-  addManyComments: (commentsData) => {
-    const newComments = commentsData.map(commentData => ({
-      ...commentData,
-      id: uuidv4(),
-      createdAt: new Date(),
-    }));
-
-    set(state => ({
-      comments: [...state.comments, ...newComments]
-    }));
-
-    return newComments;
-  },
-
-  updateComment: (id, data) => {
-    set(state => ({
-      comments: state.comments.map(comment =>
-        comment.id === id ? { ...comment, ...data } : comment
-      )
-    }));
-  },
-
-  deleteComment: (id) => {
-    set(state => ({
-      comments: state.comments.filter(comment => comment.id !== id)
-    }));
-  },
-
-  markAsReplied: (id) => {
-    get().updateComment(id, { replied: true });
-  },
-
-  hideComment: (id) => {
-    get().updateComment(id, { isHidden: true });
-  },
-
-  markAsSpam: (id) => {
-    get().updateComment(id, { isSpam: true });
-  },
-
-  clearAllComments: () => {
-    set({ comments: [] });
-  },
-
-  filterComments: (platform, postId, keyword, hideSpam = true, showRepliedOnly = false) => {
-    const { comments } = get();
-
-    return comments.filter(comment => {
-      // Filter by platform
-      if (platform && comment.platform !== platform) {
-        return false;
-      }
-
-      // Filter by post ID
-      if (postId && comment.postId !== postId) {
-        return false;
-      }
-
-      // Filter by keyword in content
-      if (keyword && !comment.content.toLowerCase().includes(keyword.toLowerCase())) {
-        return false;
-      }
-
-      // Filter out spam comments if requested
-      if (hideSpam && comment.isSpam) {
-        return false;
-      }
-
-      // Show only replied comments if requested
-      if (showRepliedOnly && !comment.replied) {
-        return false;
-      }
-
-      return true;
-    });
-  },
-}));
+const useCommentsStore = create<CommentsState>()(
+  persist(
+    (set, get) => ({
+      comments: [],
+      syncCursors: {},
+      pendingModerationIds: [],
+
+      addComment: (commentData) => {
+        const newComment: Comment = {
+          ...commentData,
+          id: uuidv4(),
+          createdAt: new Date(),
+        };
+
+        set(state => ({
+          comments: [...state.comments, newComment]
+        }));
+
+        return newComment;
+      },
+
+      addManyComments: (commentsData) => {
+        const newComments = commentsData.map(commentData => ({
+          ...commentData,
+          id: uuidv4(),
+          createdAt: new Date(),
+        }));
+
+        set(state => ({
+          comments: [...state.comments, ...newComments]
+        }));
+
+        return newComments;
+      },
+
+      upsertComments: (syncedComments) => {
+        let updated = 0;
+        // The comments as stored, in the order they were synced, and those of them that are new
+        const stored: Comment[] = [];
+        const addedComments: Comment[] = [];
+
+        set(state => {
+          const comments = [...state.comments];
+          const indexByKey = new Map(comments.map((comment, index) => [platformCommentKey(comment), index]));
+
+          for (const synced of syncedComments) {
+            const key = platformCommentKey(synced);
+            const index = indexByKey.get(key);
+
+            if (index === undefined) {
+              indexByKey.set(key, comments.length);
+              comments.push({ ...synced, id: uuidv4() });
+              stored.push(comments[comments.length - 1]);
+              addedComments.push(comments[comments.length - 1]);
+            } else {
+              // What the platform says replaces what we had; our own flags are kept,
+              // and so is whether it's hidden while we are still changing that on the platform
+              const { id, isHidden, isSpam, replied, isOwnReply, replyCount, tags, assignee, appliedRuleIds } = comments[index];
+              const moderating = state.pendingModerationIds.includes(id);
+              comments[index] = {
+                ...synced,
+                id,
+                replyCount: synced.replyCount ?? replyCount,
+                isHidden: moderating ? isHidden : synced.isHidden ?? isHidden,
+                isSpam: isSpam ?? synced.isSpam,
+                replied: replied ?? synced.replied,
+                isOwnReply: isOwnReply ?? synced.isOwnReply,
+                tags,
+                assignee,
+                appliedRuleIds,
+              };
+              stored.push(comments[index]);
+              updated++;
+            }
+          }
+
+          return { comments };
+        });
+
+        return { added: addedComments.length, updated, stored, addedComments };
+      },
+
+      // Stored with the platform's ID, so the next sync updates it rather than adding it again
+      addOwnReply: (parentId, reply) => {
+        const parent = get().comments.find(comment => comment.id === parentId);
+        if (!parent?.platformCommentId) {
+          return;
+        }
+
+        get().upsertComments([{
+          platform: parent.platform,
+          postId: parent.postId,
+          platformPostId: parent.platformPostId,
+          platformCommentId: reply.platformCommentId,
+          parentCommentId: parent.platformCommentId,
+          content: reply.content,
+          author: reply.author,
+          likes: 0,
+          createdAt: new Date(),
+          isOwnReply: true,
+        }]);
+        get().updateComment(parentId, { replied: true, replyCount: (parent.replyCount ?? 0) + 1 });
+      },
+
+      setSyncCursor: (key, cursor) => {
+        set(state => ({
+          syncCursors: { ...state.syncCursors, [key]: cursor }
+        }));
+      },
+
+      setModerationPending: (id, pending) => {
+        set(state => ({
+          pendingModerationIds: pending
+            ? [...state.pendingModerationIds, id]
+            : state.pendingModerationIds.filter(pendingId => pendingId !== id),
+        }));
+      },
+
+      updateComment: (id, data) => {
+        set(state => ({
+          comments: state.comments.map(comment =>
+            comment.id === id ? { ...comment, ...data } : comment
+          )
+        }));
+      },
+
+      // Replies go with the comment they answer
+      deleteComment: (id) => {
+        set(state => {
+          const deleted = state.comments.find(comment => comment.id === id);
+          if (!deleted) {
+            return state;
+          }
+
+          const isReply = (comment: Comment) => !!deleted.platformCommentId &&
+            comment.platform === deleted.platform && comment.parentCommentId === deleted.platformCommentId;
+          const isParent = (comment: Comment) => !!deleted.parentCommentId &&
+            comment.platform === deleted.platform && comment.platformCommentId === deleted.parentCommentId;
+
+          return {
+            comments: state.comments
+              .filter(comment => comment.id !== id && !isReply(comment))
+              .map(comment => isParent(comment) && comment.replyCount
+                ? { ...comment, replyCount: comment.replyCount - 1 }
+                : comment),
+          };
+        });
+      },
+
+      markAsReplied: (id) => {
+        get().updateComment(id, { replied: true });
+      },
+
+      hideComment: (id) => {
+        get().updateComment(id, { isHidden: true });
+      },
+
+      markAsSpam: (id) => {
+        get().updateComment(id, { isSpam: true });
+      },
+
+      // The cursors go too, so the next sync loads every comment again
+      clearAllComments: () => {
+        set({ comments: [], syncCursors: {} });
+      },
+
+      filterComments: (platform, postId, keyword, hideSpam = true, showRepliedOnly = false) => {
+        const { comments } = get();
+
+        return comments.filter(comment => {
+          // Filter by platform
+          if (platform && comment.platform !== platform) {
+            return false;
+          }
+
+          // Filter by post ID
+          if (postId && comment.postId !== postId) {
+            return false;
+          }
+
+          // Filter by keyword in content
+          if (keyword && !comment.content.toLowerCase().includes(keyword.toLowerCase())) {
+            return false;
+          }
+
+          // Filter out spam comments if requested
+          if (hideSpam && comment.isSpam) {
+            return false;
+          }
+
+          // Show only replied comments if requested
+          if (showRepliedOnly && !comment.replied) {
+            return false;
+          }
+
+          return true;
+        });
+      },
+    }),
+    {
+      name: 'social-media-comments',
+      storage: createIndexedDbStorage<Pick<CommentsState, 'comments' | 'syncCursors'>>(),
+      version: COMMENTS_STORE_VERSION,
+      partialize: (state) => ({
+        comments: state.comments,
+        syncCursors: state.syncCursors,
+      }),
+      migrate: (persistedState, version) => runMigrations(persistedState, version, commentsMigrations),
+      merge: (persistedState, currentState) => {
+        const stored = persistedState as Partial<CommentsState> | undefined;
+        const syncCursors: Record<string, CommentSyncCursor> = {};
+        for (const [key, cursor] of Object.entries(stored?.syncCursors || {})) {
+          syncCursors[key] = reviveSyncCursor(cursor);
+        }
+
+        return {
+          ...currentState,
+          comments: (stored?.comments || []).map(reviveComment),
+          syncCursors,
+        };
+      },
+    }
+  )
+);
 
 export default useCommentsStore;
\ No newline at end of file
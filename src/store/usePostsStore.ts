@@ -1,6 +1,97 @@
 import { create } from 'zustand';
-import { Post, Platform } from '../types';
+import { persist } from 'zustand/middleware';
+import { MediaItem, Post, Platform, PlatformPublishResult, PostTarget } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { createIndexedDbStorage, reviveDate, runMigrations, Migration } from '../lib/persistentStorage';
+import { legacyAccountId } from '../lib/accounts';
+
+// Bump this and add a migration whenever the persisted Post shape changes
+const POSTS_STORE_VERSION = 4;
+
+// A post as saved by an earlier version, with the fields later versions replaced
+type StoredPost = Partial<Post> & {
+  platforms?: Platform[]; // Until version 3, replaced by targets
+  mediaUrl?: string; // Until version 4, replaced by media
+  mediaType?: MediaItem['type'];
+  mediaFile?: File;
+};
+
+const postsMigrations: Record<number, Migration> = {
+  // Version 0 -> 1: posts were never persisted before, start from a clean list
+  0: (state) => ({ posts: Array.isArray(state?.posts) ? state.posts : [] }),
+  // Version 1 -> 2: derive per-platform publish results from the stored platform IDs
+  1: (state) => ({
+    ...state,
+    posts: state.posts.map((post: StoredPost) => {
+      if (post.status !== 'published' || !post.platformPostIds || post.publishResults) {
+        return post;
+      }
+
+      const publishResults: Record<string, Omit<PlatformPublishResult, 'accountId'>> = {};
+      for (const [platform, platformPostId] of Object.entries(post.platformPostIds)) {
+        if (platformPostId) {
+          publishResults[platform] = {
+            platform: platform as Platform,
+            status: 'published',
+            platformPostId: platformPostId as string,
+            attempts: 1,
+            startedAt: post.publishedAt ?? new Date(),
+            completedAt: post.publishedAt,
+          };
+        }
+      }
+
+      return { ...post, publishResults };
+    }),
+  }),
+  // Version 2 -> 3: posts target accounts; link platforms to the account migrated from their credentials
+  2: (state) => ({
+    ...state,
+    posts: state.posts.map((post: StoredPost) => {
+      const { platforms = [], ...rest } = post;
+      const targets: PostTarget[] = platforms.map((platform: Platform) => ({
+        accountId: legacyAccountId(platform),
+        platform,
+      }));
+
+      const rekey = (byPlatform: Record<string, any> | undefined, mapValue: (value: any, platform: Platform) => any) => {
+        if (!byPlatform) {
+          return undefined;
+        }
+        const byAccount: Record<string, any> = {};
+        for (const [platform, value] of Object.entries(byPlatform)) {
+          byAccount[legacyAccountId(platform as Platform)] = mapValue(value, platform as Platform);
+        }
+        return byAccount;
+      };
+
+      return {
+        ...rest,
+        targets,
+        platformPostIds: rekey(post.platformPostIds, (id) => id),
+        publishResults: rekey(post.publishResults, (result, platform) => ({
+          ...result,
+          accountId: legacyAccountId(platform),
+        })),
+      };
+    }),
+  }),
+  // Version 3 -> 4: the single media URL becomes an ordered list of media items
+  3: (state) => ({
+    ...state,
+    posts: state.posts.map((post: StoredPost) => {
+      const { mediaUrl, mediaType, mediaFile, ...rest } = post;
+      const media: MediaItem[] = mediaUrl
+        ? [{ url: mediaUrl, type: mediaType || 'image', file: mediaFile }]
+        : [];
+
+      return { ...rest, media };
+    }),
+  }),
+};
+
+// Per-platform publishing options set when a post is created
+type PostPlatformOptions = Pick<Post, 'instagramOptions' | 'tiktokOptions' | 'variants'>;
 
 interface PostsState {
   posts: Post[];
@@ -10,164 +101,228 @@ interface PostsState {
   failed: Post[];
 
   // Actions
-  createPost: (content: string, mediaUrl?: string, mediaType?: 'image' | 'video', platforms?: Platform[]) => Post;
+  createPost: (content: string, media?: MediaItem[], targets?: PostTarget[], platformOptions?: PostPlatformOptions) => Post;
   updatePost: (id: string, data: Partial<Post>) => void;
   deletePost: (id: string) => void;
   schedulePost: (id: string, scheduleDate: Date) => void;
-  publishPost: (id: string, platformPostIds: Record<Platform, string>) => void;
+  publishPost: (id: string, platformPostIds: Record<string, string>) => void;
+  recordPublishResults: (id: string, results: Record<string, PlatformPublishResult>) => void;
   markAsFailed: (id: string, error?: string) => void;
   filterPosts: (status?: Post['status'], platform?: Platform, startDate?: Date, endDate?: Date) => Post[];
 }
 
-const usePostsStore = create<PostsState>((set, get) => ({
-  posts: [],
-  drafts: [],
-  scheduled: [],
-  published: [],
-  failed: [],
-
-  createPost: (content, mediaUrl, mediaType, platforms = ['instagram', 'youtube', 'tiktok']) => {
-    const now = new Date();
-    const newPost: Post = {
-      id: uuidv4(),
-      content,
-      mediaUrl,
-      mediaType,
-      platforms,
-      scheduledFor: null,
-      status: 'draft',
-      createdAt: now,
-      updatedAt: now,
+/**
+ * Restore Date fields on a post loaded from storage
+ */
+function revivePost(post: Post): Post {
+  const publishResults: Post['publishResults'] = {};
+  for (const [accountId, result] of Object.entries(post.publishResults || {})) {
+    publishResults[accountId] = {
+      ...result,
+      startedAt: reviveDate(result.startedAt) ?? new Date(),
+      completedAt: reviveDate(result.completedAt),
     };
+  }
 
-    set(state => {
-      const updatedPosts = [...state.posts, newPost];
-      const updatedDrafts = [...state.drafts, newPost];
+  return {
+    ...post,
+    publishResults: post.publishResults ? publishResults : undefined,
+    scheduledFor: reviveDate(post.scheduledFor) ?? null,
+    publishedAt: reviveDate(post.publishedAt),
+    createdAt: reviveDate(post.createdAt) ?? new Date(),
+    updatedAt: reviveDate(post.updatedAt) ?? new Date(),
+  };
+}
 
-      return {
-        posts: updatedPosts,
-        drafts: updatedDrafts,
-      };
-    });
+/**
+ * Split posts into the categorized lists kept alongside `posts`
+ */
+function categorizePosts(posts: Post[]) {
+  return {
+    drafts: posts.filter(post => post.status === 'draft'),
+    scheduled: posts.filter(post => post.status === 'scheduled'),
+    published: posts.filter(post => post.status === 'published' || post.status === 'partially_published'),
+    failed: posts.filter(post => post.status === 'failed'),
+  };
+}
 
-    return newPost;
-  },
+const usePostsStore = create<PostsState>()(
+  persist(
+    (set, get) => ({
+      posts: [],
+      drafts: [],
+      scheduled: [],
+      published: [],
+      failed: [],
 
-  updatePost: (id, data) => {
-    set(state => {
-      const updatedPosts = state.posts.map(post =>
-        post.id === id ? { ...post, ...data, updatedAt: new Date() } : post
-      );
+      createPost: (content, media = [], targets = [], platformOptions = {}) => {
+        const now = new Date();
+        const newPost: Post = {
+          id: uuidv4(),
+          content,
+          media,
+          targets,
+          ...platformOptions,
+          scheduledFor: null,
+          status: 'draft',
+          createdAt: now,
+          updatedAt: now,
+        };
 
-      // Update categorized lists
-      const updatedDrafts = updatedPosts.filter(post => post.status === 'draft');
-      const updatedScheduled = updatedPosts.filter(post => post.status === 'scheduled');
-      const updatedPublished = updatedPosts.filter(post => post.status === 'published');
-      const updatedFailed = updatedPosts.filter(post => post.status === 'failed');
+        set(state => {
+          const updatedPosts = [...state.posts, newPost];
+          const updatedDrafts = [...state.drafts, newPost];
 
-      return {
-        posts: updatedPosts,
-        drafts: updatedDrafts,
-        scheduled: updatedScheduled,
-        published: updatedPublished,
-        failed: updatedFailed,
-      };
-    });
-  },
+          return {
+            posts: updatedPosts,
+            drafts: updatedDrafts,
+          };
+        });
 
-  deletePost: (id) => {
-    set(state => {
-      const filteredPosts = state.posts.filter(post => post.id !== id);
+        return newPost;
+      },
 
-      // Update categorized lists
-      const filteredDrafts = filteredPosts.filter(post => post.status === 'draft');
-      const filteredScheduled = filteredPosts.filter(post => post.status === 'scheduled');
-      const filteredPublished = filteredPosts.filter(post => post.status === 'published');
-      const filteredFailed = filteredPosts.filter(post => post.status === 'failed');
+      updatePost: (id, data) => {
+        set(state => {
+          const updatedPosts = state.posts.map(post =>
+            post.id === id ? { ...post, ...data, updatedAt: new Date() } : post
+          );
 
-      return {
-        posts: filteredPosts,
-        drafts: filteredDrafts,
-        scheduled: filteredScheduled,
-        published: filteredPublished,
-        failed: filteredFailed,
-      };
-    });
-  },
-
-  schedulePost: (id, scheduleDate) => {
-    get().updatePost(id, {
-      scheduledFor: scheduleDate,
-      status: 'scheduled',
-    });
-  },
-
-  publishPost: (id, platformPostIds) => {
-    // First, check if we already have a post with any of these platform IDs
-    const { posts } = get();
-    const duplicates = new Set();
-
-    // Check each platform
-    Object.entries(platformPostIds).forEach(([platform, platformId]) => {
-      if (platformId) {
-        // Find any existing posts with this platform ID
-        const existingPosts = posts.filter(
-          p => p.platformPostIds?.[platform as Platform] === platformId && p.id !== id
-        );
-
-        // If we found duplicates, mark them for deletion
-        existingPosts.forEach(p => duplicates.add(p.id));
-      }
-    });
-
-    // Delete any duplicates we found
-    if (duplicates.size > 0) {
-      console.log(`Found ${duplicates.size} duplicate posts. Removing them.`);
-      duplicates.forEach(duplicateId => {
-        get().deletePost(duplicateId as string);
-      });
-    }
+          // Update categorized lists
+          return {
+            posts: updatedPosts,
+            ...categorizePosts(updatedPosts),
+          };
+        });
+      },
 
-    // Now update the post
-    get().updatePost(id, {
-      publishedAt: new Date(),
-      status: 'published',
-      platformPostIds,
-    });
-  },
-
-  markAsFailed: (id, error) => {
-    get().updatePost(id, {
-      status: 'failed',
-    });
-  },
-
-  filterPosts: (status, platform, startDate, endDate) => {
-    const { posts } = get();
-
-    return posts.filter(post => {
-      // Filter by status
-      if (status && post.status !== status) {
-        return false;
-      }
+      deletePost: (id) => {
+        set(state => {
+          const filteredPosts = state.posts.filter(post => post.id !== id);
 
-      // Filter by platform
-      if (platform && !post.platforms.includes(platform)) {
-        return false;
-      }
+          // Update categorized lists
+          return {
+            posts: filteredPosts,
+            ...categorizePosts(filteredPosts),
+          };
+        });
+      },
 
-      // Filter by date range
-      if (startDate && post.createdAt < startDate) {
-        return false;
-      }
+      schedulePost: (id, scheduleDate) => {
+        get().updatePost(id, {
+          scheduledFor: scheduleDate,
+          status: 'scheduled',
+        });
+      },
 
-      if (endDate && post.createdAt > endDate) {
-        return false;
-      }
+      publishPost: (id, platformPostIds) => {
+        get().updatePost(id, {
+          publishedAt: new Date(),
+          status: 'published',
+          platformPostIds,
+        });
+      },
+
+      recordPublishResults: (id, results) => {
+        const post = get().posts.find(p => p.id === id);
+        if (!post) {
+          return;
+        }
+
+        // Merge with earlier results so retries only replace the accounts they touched
+        const publishResults = { ...post.publishResults, ...results };
+        const platformResults = post.targets
+          .map(target => publishResults[target.accountId])
+          .filter((result): result is PlatformPublishResult => !!result);
+
+        const succeeded = platformResults.filter(result => result.status === 'published');
+        const failed = platformResults.filter(result => result.status === 'failed');
+
+        const platformPostIds: Record<string, string> = { ...post.platformPostIds };
+        succeeded.forEach(result => {
+          if (result.platformPostId) {
+            platformPostIds[result.accountId] = result.platformPostId;
+          }
+        });
+
+        // Accounts without a final result are still being published to; the status waits for them
+        const finished = platformResults.filter(result => result.status !== 'publishing');
+        if (finished.length < post.targets.length) {
+          get().updatePost(id, { publishResults, platformPostIds });
+          return;
+        }
 
-      return true;
-    });
-  },
-}));
+        if (succeeded.length === 0) {
+          get().updatePost(id, { publishResults });
+          get().markAsFailed(id, failed.map(result => `${result.platform}: ${result.errorMessage}`).join('; '));
+          return;
+        }
+
+        get().publishPost(id, platformPostIds);
+        get().updatePost(id, {
+          status: failed.length > 0 ? 'partially_published' : 'published',
+          publishResults,
+          lastError: failed.length > 0
+            ? failed.map(result => `${result.platform}: ${result.errorMessage}`).join('; ')
+            : undefined,
+        });
+      },
+
+      markAsFailed: (id, error) => {
+        get().updatePost(id, {
+          status: 'failed',
+          lastError: error,
+        });
+      },
+
+      filterPosts: (status, platform, startDate, endDate) => {
+        const { posts } = get();
+
+        return posts.filter(post => {
+          // Filter by status
+          if (status && post.status !== status) {
+            return false;
+          }
+
+          // Filter by platform
+          if (platform && !post.targets.some(target => target.platform === platform)) {
+            return false;
+          }
+
+          // Filter by date range
+          if (startDate && post.createdAt < startDate) {
+            return false;
+          }
+
+          if (endDate && post.createdAt > endDate) {
+            return false;
+          }
+
+          return true;
+        });
+      },
+    }),
+    {
+      name: 'social-media-posts',
+      storage: createIndexedDbStorage<Pick<PostsState, 'posts'>>(),
+      version: POSTS_STORE_VERSION,
+      // Only store the posts; the categorized lists are derived from them
+      partialize: (state) => ({
+        posts: state.posts,
+      }),
+      migrate: (persistedState, version) => runMigrations(persistedState, version, postsMigrations),
+      merge: (persistedState, currentState) => {
+        const storedPosts = (persistedState as Partial<PostsState> | undefined)?.posts || [];
+        const posts = storedPosts.map(revivePost);
+
+        return {
+          ...currentState,
+          posts,
+          ...categorizePosts(posts),
+        };
+      },
+    }
+  )
+);
 
 export default usePostsStore;
\ No newline at end of file
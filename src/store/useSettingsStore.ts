@@ -1,23 +1,120 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ApiCredentials, Platform, PlatformStats } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Account, ApiCredentials, CommentPollingSettings, FacebookPage, ModerationRule, Platform, PlatformAccount, PlatformStats, TokenExpiry } from '../types';
 import { encryptData, decryptData } from '../lib/encryption';
+import { runMigrations, Migration } from '../lib/persistentStorage';
+import { legacyAccountId } from '../lib/accounts';
+import { TIKTOK_API_BASE_URL } from '../api/TikTokApiService';
+import { INSTAGRAM_API_BASE_URL } from '../api/InstagramApiService';
+import { FACEBOOK_API_BASE_URL } from '../api/FacebookApiService';
+
+// Bump this and add a migration whenever the persisted settings shape changes
+const SETTINGS_STORE_VERSION = 2;
+
+// Sync comments on new posts every few minutes and on old ones a couple of times a day
+export const DEFAULT_COMMENT_POLLING: CommentPollingSettings = {
+  enabled: true,
+  recentPostMinutes: 5,
+  weekOldPostMinutes: 60,
+  olderPostMinutes: 12 * 60,
+};
+
+// TikTok accounts saved with the retired Open API host
+const LEGACY_TIKTOK_BASE_URL = 'https://open-api.tiktok.com/v2';
+
+// Only keep a base URL that differs from the platform's own, so accounts follow future API versions
+function getBaseUrlOverride(baseUrl: string | undefined, defaultBaseUrl: string): string | undefined {
+  const trimmed = baseUrl?.trim().replace(/\/+$/, '');
+  return trimmed && trimmed !== defaultBaseUrl ? trimmed : undefined;
+}
+
+const settingsMigrations: Record<number, Migration> = {
+  // Version 0 -> 1: the single credential per platform becomes that platform's first account
+  0: (state) => {
+    const apiCredentials: ApiCredentials = state?.apiCredentials || {};
+    const accounts = (Object.keys(apiCredentials) as Platform[])
+      .filter(platform => apiCredentials[platform])
+      .map(platform => ({
+        id: legacyAccountId(platform),
+        platform,
+        displayName: platform.charAt(0).toUpperCase() + platform.slice(1),
+        credentials: apiCredentials[platform],
+      }));
+
+    const { apiCredentials: _removed, ...rest } = state || {};
+    return { ...rest, accounts };
+  },
+  // Version 1 -> 2: TikTok accounts move to the Content Posting API host
+  1: (state) => ({
+    ...state,
+    accounts: (state?.accounts || []).map((account: Account) =>
+      account.platform === 'tiktok' && account.credentials.baseUrl === LEGACY_TIKTOK_BASE_URL
+        ? { ...account, credentials: { ...account.credentials, baseUrl: TIKTOK_API_BASE_URL } }
+        : account
+    ),
+  }),
+};
+
+// A demo account for each platform, so demo mode works without connecting anything
+function createDemoAccounts(platforms: Platform[]): Account[] {
+  const demoToken = encryptData('demo');
+
+  return platforms.map((platform): Account => {
+    const base = { id: uuidv4(), isDemo: true };
+    switch (platform) {
+      case 'instagram':
+        return { ...base, platform, displayName: 'Demo Instagram', credentials: { accessToken: demoToken } };
+      case 'youtube':
+        return { ...base, platform, displayName: 'Demo YouTube', credentials: { apiKey: demoToken, clientId: demoToken, clientSecret: demoToken, redirectUri: '' } };
+      case 'tiktok':
+        return { ...base, platform, displayName: 'Demo TikTok', credentials: { baseUrl: TIKTOK_API_BASE_URL, accessToken: demoToken } };
+      case 'facebook':
+        return {
+          ...base,
+          platform,
+          displayName: 'Demo Page',
+          credentials: { accessToken: demoToken, pageId: `demo_fb_page_${base.id}`, pageName: 'Demo Page', pageAccessToken: demoToken },
+        };
+    }
+  });
+}
 
 interface SettingsState {
-  apiCredentials: ApiCredentials;
+  accounts: Account[];
   platformsEnabled: Record<Platform, boolean>;
   platformStats: Record<Platform, PlatformStats | null>;
+  // Use demo accounts backed by in-memory services; real accounts are not touched meanwhile
+  demoMode: boolean;
+  commentPolling: CommentPollingSettings;
+  // Run in order on every synced comment
+  moderationRules: ModerationRule[];
 
-  // API Credentials actions
-  setInstagramCredentials: (accessToken: string) => void;
-  setFacebookCredentials: (accessToken: string) => void;
-  setYoutubeCredentials: (apiKey: string, clientId: string, clientSecret: string, redirectUri: string, refreshToken?: string) => void;
-  setTiktokCredentials: (baseUrl: string, accessToken: string) => void;
-  clearCredentials: (platform: Platform) => void;
+  // Account actions (each add action returns the account ID)
+  addInstagramAccount: (displayName: string, accessToken: string, appSecret?: string, baseUrl?: string) => string;
+  addFacebookAccount: (displayName: string, accessToken: string, appId?: string, appSecret?: string, baseUrl?: string) => string;
+  addYoutubeAccount: (displayName: string, apiKey: string, clientId: string, clientSecret: string, redirectUri: string, refreshToken?: string, avatarUrl?: string, channelId?: string) => string;
+  addTiktokAccount: (displayName: string, baseUrl: string, accessToken: string) => string;
+  updateAccount: (id: string, changes: Partial<Pick<Account, 'displayName' | 'avatarUrl'>>) => void;
+  updateTokenExpiry: (accountId: string, expiry: TokenExpiry, accessToken?: string) => void;
+  setFacebookPages: (accountId: string, pages: FacebookPage[]) => string[];
+  removeAccount: (id: string) => void;
+  getAccount: (id: string) => Account | undefined;
+  getAccountsByPlatform: (platform: Platform) => Account[];
 
   // Platform toggle actions
   togglePlatform: (platform: Platform, enabled: boolean) => void;
 
+  // Demo mode actions
+  setDemoMode: (enabled: boolean) => void;
+
+  setCommentPolling: (changes: Partial<CommentPollingSettings>) => void;
+
+  // Moderation rule actions (adding returns the new rule ID)
+  addModerationRule: (rule: Omit<ModerationRule, 'id'>) => string;
+  updateModerationRule: (id: string, changes: Partial<Omit<ModerationRule, 'id'>>) => void;
+  removeModerationRule: (id: string) => void;
+
   // Stats actions
   updatePlatformStats: (platform: Platform, stats: PlatformStats) => void;
 
@@ -25,10 +122,23 @@ interface SettingsState {
   resetStore: () => void;
 }
 
+/**
+ * State changes for adding an account: store it and enable its platform
+ */
+function addAccountState(state: SettingsState, account: Account): Partial<SettingsState> {
+  return {
+    accounts: [...state.accounts, account],
+    platformsEnabled: {
+      ...state.platformsEnabled,
+      [account.platform]: true,
+    },
+  };
+}
+
 const useSettingsStore = create<SettingsState>()(
   persist(
-    (set) => ({
-      apiCredentials: {},
+    (set, get) => ({
+      accounts: [],
       platformsEnabled: {
         instagram: false,
         youtube: false,
@@ -41,96 +151,225 @@ const useSettingsStore = create<SettingsState>()(
         tiktok: null,
         facebook: null,
       },
+      demoMode: false,
+      commentPolling: DEFAULT_COMMENT_POLLING,
+      moderationRules: [],
 
-      setInstagramCredentials: (accessToken) => {
-        const encryptedToken = encryptData(accessToken);
-        set((state) => ({
-          apiCredentials: {
-            ...state.apiCredentials,
-            instagram: {
-              accessToken: encryptedToken,
-            },
+      addInstagramAccount: (displayName, accessToken, appSecret, baseUrl) => {
+        const account: Account = {
+          id: uuidv4(),
+          platform: 'instagram',
+          displayName,
+          credentials: {
+            accessToken: encryptData(accessToken),
+            appSecret: appSecret ? encryptData(appSecret) : undefined,
+            baseUrl: getBaseUrlOverride(baseUrl, INSTAGRAM_API_BASE_URL),
+            issuedAt: Date.now(),
           },
-          platformsEnabled: {
-            ...state.platformsEnabled,
-            instagram: true,
-          },
-        }));
+        };
+
+        set((state) => addAccountState(state, account));
+        return account.id;
       },
 
-      setFacebookCredentials: (accessToken) => {
-        const encryptedToken = encryptData(accessToken);
-        set((state) => ({
-          apiCredentials: {
-            ...state.apiCredentials,
-            facebook: {
-              accessToken: encryptedToken,
-            },
+      addFacebookAccount: (displayName, accessToken, appId, appSecret, baseUrl) => {
+        const account: Account = {
+          id: uuidv4(),
+          platform: 'facebook',
+          displayName,
+          credentials: {
+            accessToken: encryptData(accessToken),
+            appId: appId || undefined,
+            appSecret: appSecret ? encryptData(appSecret) : undefined,
+            baseUrl: getBaseUrlOverride(baseUrl, FACEBOOK_API_BASE_URL),
+            issuedAt: Date.now(),
           },
-          platformsEnabled: {
-            ...state.platformsEnabled,
-            facebook: true,
+        };
+
+        set((state) => addAccountState(state, account));
+        return account.id;
+      },
+
+      // A channel that is connected again keeps its account, with the new credentials,
+      // so its posts and comments stay with it
+      addYoutubeAccount: (displayName, apiKey, clientId, clientSecret, redirectUri, refreshToken, avatarUrl, channelId) => {
+        const credentials = {
+          apiKey: encryptData(apiKey),
+          clientId: encryptData(clientId),
+          clientSecret: encryptData(clientSecret),
+          redirectUri,
+          refreshToken: refreshToken ? encryptData(refreshToken) : undefined,
+          channelId,
+        };
+
+        const existing = channelId
+          ? get().accounts.find(a => a.platform === 'youtube' && a.credentials.channelId === channelId)
+          : undefined;
+        if (existing) {
+          set((state) => ({
+            accounts: state.accounts.map(a =>
+              a.id === existing.id && a.platform === 'youtube' ? { ...a, avatarUrl: avatarUrl ?? a.avatarUrl, credentials } : a
+            ),
+          }));
+          return existing.id;
+        }
+
+        const account: Account = {
+          id: uuidv4(),
+          platform: 'youtube',
+          displayName,
+          avatarUrl,
+          credentials,
+        };
+
+        set((state) => addAccountState(state, account));
+        return account.id;
+      },
+
+      addTiktokAccount: (displayName, baseUrl, accessToken) => {
+        const account: Account = {
+          id: uuidv4(),
+          platform: 'tiktok',
+          displayName,
+          credentials: {
+            baseUrl,
+            accessToken: encryptData(accessToken),
           },
-        }));
+        };
+
+        set((state) => addAccountState(state, account));
+        return account.id;
       },
 
-      setYoutubeCredentials: (apiKey, clientId, clientSecret, redirectUri, refreshToken) => {
-        const encryptedApiKey = encryptData(apiKey);
-        const encryptedClientId = encryptData(clientId);
-        const encryptedClientSecret = encryptData(clientSecret);
-        const encryptedRefreshToken = refreshToken ? encryptData(refreshToken) : undefined;
+      updateAccount: (id, changes) => {
+        set((state) => ({
+          accounts: state.accounts.map(account =>
+            account.id === id ? { ...account, ...changes } : account
+          ),
+        }));
+      },
 
+      updateTokenExpiry: (accountId, expiry, accessToken) => {
         set((state) => ({
-          apiCredentials: {
-            ...state.apiCredentials,
-            youtube: {
-              apiKey: encryptedApiKey,
-              clientId: encryptedClientId,
-              clientSecret: encryptedClientSecret,
-              redirectUri,
-              refreshToken: encryptedRefreshToken,
-            },
-          },
-          platformsEnabled: {
-            ...state.platformsEnabled,
-            youtube: true,
-          },
+          accounts: state.accounts.map(account => {
+            // Only Facebook and Instagram tokens carry an expiry
+            if (account.id !== accountId || (account.platform !== 'facebook' && account.platform !== 'instagram')) {
+              return account;
+            }
+
+            return {
+              ...account,
+              credentials: {
+                ...account.credentials,
+                ...expiry,
+                // A new token (after an exchange or refresh) replaces the old one
+                ...(accessToken ? { accessToken: encryptData(accessToken) } : {}),
+                checkedAt: Date.now(),
+              },
+            };
+          }),
         }));
       },
 
-      setTiktokCredentials: (baseUrl, accessToken) => {
-        const encryptedToken = encryptData(accessToken);
+      setFacebookPages: (accountId, pages) => {
+        const account = get().accounts.find(a => a.id === accountId);
+        if (!account || account.platform !== 'facebook' || pages.length === 0) {
+          return [];
+        }
 
-        set((state) => ({
-          apiCredentials: {
-            ...state.apiCredentials,
-            tiktok: {
-              baseUrl,
-              accessToken: encryptedToken,
+        // Each page is posted to as its own account, sharing the user token. Pages that
+        // already have an account keep it, so picking again doesn't add them twice, and an
+        // account never moves to another page, so its posts and comments stay with their page.
+        const facebookAccounts = get().accounts.filter((a): a is PlatformAccount<'facebook'> => a.platform === 'facebook');
+        // An account without a page yet takes the first page that has no account
+        let unusedAccountId = account.credentials.pageId ? undefined : account.id;
+        const pageAccounts: Account[] = pages.map(page => {
+          const existing = facebookAccounts.find(a => a.credentials.pageId === page.id);
+          const base = existing || account;
+          const id = existing?.id || unusedAccountId || uuidv4();
+          if (id === unusedAccountId) {
+            unusedAccountId = undefined;
+          }
+
+          return {
+            ...base,
+            id,
+            displayName: existing ? existing.displayName : page.name,
+            credentials: {
+              ...base.credentials,
+              pageId: page.id,
+              pageName: page.name,
+              pageAccessToken: encryptData(page.accessToken),
             },
-          },
-          platformsEnabled: {
-            ...state.platformsEnabled,
-            tiktok: true,
-          },
+          };
+        });
+
+        set((state) => ({
+          accounts: [
+            ...state.accounts.map(a => pageAccounts.find(pageAccount => pageAccount.id === a.id) || a),
+            ...pageAccounts.filter(pageAccount => !state.accounts.some(a => a.id === pageAccount.id)),
+          ],
         }));
+
+        return pageAccounts.map(a => a.id);
       },
 
-      clearCredentials: (platform) => {
+      removeAccount: (id) => {
         set((state) => {
-          const newCredentials = { ...state.apiCredentials };
-          delete newCredentials[platform];
+          const removed = state.accounts.find(account => account.id === id);
+          const accounts = state.accounts.filter(account => account.id !== id);
+
+          if (!removed) {
+            return {};
+          }
+
+          // Disable the platform when its last account is removed
+          const hasOtherAccounts = accounts.some(account => account.platform === removed.platform);
 
           return {
-            apiCredentials: newCredentials,
+            accounts,
             platformsEnabled: {
               ...state.platformsEnabled,
-              [platform]: false,
+              [removed.platform]: hasOtherAccounts && state.platformsEnabled[removed.platform],
             },
           };
         });
       },
 
+      getAccount: (id) => {
+        return get().accounts.find(account => account.id === id);
+      },
+
+      getAccountsByPlatform: (platform) => {
+        return get().accounts.filter(account => account.platform === platform);
+      },
+
+      setCommentPolling: (changes) => {
+        set((state) => ({
+          commentPolling: { ...state.commentPolling, ...changes },
+        }));
+      },
+
+      addModerationRule: (rule) => {
+        const id = uuidv4();
+        set((state) => ({
+          moderationRules: [...state.moderationRules, { ...rule, id }],
+        }));
+        return id;
+      },
+
+      updateModerationRule: (id, changes) => {
+        set((state) => ({
+          moderationRules: state.moderationRules.map(rule => rule.id === id ? { ...rule, ...changes } : rule),
+        }));
+      },
+
+      removeModerationRule: (id) => {
+        set((state) => ({
+          moderationRules: state.moderationRules.filter(rule => rule.id !== id),
+        }));
+      },
+
       togglePlatform: (platform, enabled) => {
         set((state) => ({
           platformsEnabled: {
@@ -140,6 +379,39 @@ const useSettingsStore = create<SettingsState>()(
         }));
       },
 
+      setDemoMode: (enabled) => {
+        set((state) => {
+          if (enabled) {
+            // Add a demo account for each platform, and enable every platform;
+            // real accounts are left alone until demo mode is turned off
+            const platforms = Object.keys(state.platformsEnabled) as Platform[];
+            const missing = platforms.filter(platform => !state.accounts.some(account => account.platform === platform && account.isDemo));
+
+            return {
+              demoMode: true,
+              accounts: [...state.accounts, ...createDemoAccounts(missing)],
+              platformsEnabled: Object.fromEntries(platforms.map(platform => [platform, true])) as Record<Platform, boolean>,
+              platformStats: { instagram: null, youtube: null, tiktok: null, facebook: null },
+            };
+          }
+
+          // Remove the demo accounts and disable platforms left without accounts
+          const accounts = state.accounts.filter(account => !account.isDemo);
+          const platformsEnabled = { ...state.platformsEnabled };
+          for (const platform of Object.keys(platformsEnabled) as Platform[]) {
+            platformsEnabled[platform] = platformsEnabled[platform] && accounts.some(account => account.platform === platform);
+          }
+
+          return {
+            demoMode: false,
+            accounts,
+            platformsEnabled,
+            // Demo stats must not linger as if they were real
+            platformStats: { instagram: null, youtube: null, tiktok: null, facebook: null },
+          };
+        });
+      },
+
       updatePlatformStats: (platform, stats) => {
         set((state) => ({
           platformStats: {
@@ -151,7 +423,7 @@ const useSettingsStore = create<SettingsState>()(
 
       resetStore: () => {
         set({
-          apiCredentials: {},
+          accounts: [],
           platformsEnabled: {
             instagram: false,
             youtube: false,
@@ -164,16 +436,24 @@ const useSettingsStore = create<SettingsState>()(
             tiktok: null,
             facebook: null,
           },
+          demoMode: false,
+          commentPolling: DEFAULT_COMMENT_POLLING,
+          moderationRules: [],
         });
       },
     }),
     {
       name: 'social-media-settings',
-      // Only store API credentials and enabled platforms
+      version: SETTINGS_STORE_VERSION,
+      // Only store accounts, enabled platforms, demo mode, comment polling and moderation rules
       partialize: (state) => ({
-        apiCredentials: state.apiCredentials,
+        accounts: state.accounts,
         platformsEnabled: state.platformsEnabled,
+        demoMode: state.demoMode,
+        commentPolling: state.commentPolling,
+        moderationRules: state.moderationRules,
       }),
+      migrate: (persistedState, version) => runMigrations(persistedState, version, settingsMigrations),
     }
   )
 );
@@ -1,18 +1,115 @@
 // Platform types
 export type Platform = 'instagram' | 'youtube' | 'tiktok' | 'facebook';
 
+// Outcome of publishing a post to a single account
+export interface PlatformPublishResult {
+  accountId: string;
+  platform: Platform;
+  status: 'publishing' | 'published' | 'failed'; // Publishing is stored before the platform is asked, so a reload can tell an attempt was cut short
+  platformPostId?: string; // ID of the post on the platform (when published)
+  errorCode?: string; // Platform or HTTP error code (when failed)
+  errorMessage?: string;
+  errorType?: string; // Typed error class name, e.g. AuthExpiredError (when failed)
+  retryable?: boolean; // Whether publishing again later could succeed (when failed)
+  mayHavePublished?: boolean; // The platform may have created the post anyway, e.g. after a timeout (when failed or publishing)
+  firstCommentError?: string; // Published, but the post's first comment could not be added (when published)
+  attempts: number; // How many times we have tried to publish to this account
+  idempotencyKey?: string; // Identifies this attempt, see getPublishIdempotencyKey
+  startedAt: Date;
+  completedAt?: Date; // Unset while publishing
+}
+
+// Progress of a media upload to a platform
+export interface UploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+  percent: number; // 0-100
+}
+
+// An account a post is published to
+export interface PostTarget {
+  accountId: string;
+  platform: Platform;
+}
+
+// How far publishing a post to one account has got
+export type PublishStage = 'queued' | 'uploading' | 'processing' | 'published' | 'failed';
+
+export interface PublishEvent {
+  target: PostTarget;
+  stage: PublishStage;
+  progress?: UploadProgress; // While uploading, for platforms that receive the file
+  result?: PlatformPublishResult; // When publishing starts, and once published or failed
+}
+
+// An image or video attached to a post
+export interface MediaItem {
+  url: string; // URL to image or video
+  type: 'image' | 'video';
+  file?: File; // Original file object (if available)
+  width?: number; // Pixels, when known
+  height?: number;
+  durationSec?: number; // Videos only, when known
+}
+
+// How a post appears on Instagram: in the feed (an image or a carousel), as a Reel, or as a Story
+export type InstagramPostFormat = 'feed' | 'reel' | 'story_image' | 'story_video';
+
+export interface InstagramPostOptions {
+  format: InstagramPostFormat;
+  coverUrl?: string; // Reels: public URL of the cover image
+  shareToFeed?: boolean; // Reels: also show the Reel in the profile feed
+  thumbOffset?: number; // Reels: milliseconds into the video for the thumbnail when there is no cover
+}
+
+// Who can see a TikTok post; the creator's account decides which levels are available
+export type TikTokPrivacyLevel = 'PUBLIC_TO_EVERYONE' | 'MUTUAL_FOLLOW_FRIENDS' | 'FOLLOWER_OF_CREATOR' | 'SELF_ONLY';
+
+export interface TikTokPostOptions {
+  privacyLevel: TikTokPrivacyLevel;
+  disableComment?: boolean;
+  disableDuet?: boolean;
+  disableStitch?: boolean;
+}
+
+// What a TikTok creator can post right now, from the creator info query
+export interface TikTokCreatorInfo {
+  username: string;
+  nickname: string;
+  avatarUrl?: string;
+  privacyLevelOptions: TikTokPrivacyLevel[];
+  commentDisabled: boolean; // Interactions the creator has turned off in the TikTok app
+  duetDisabled: boolean;
+  stitchDisabled: boolean;
+  maxVideoDurationSec: number;
+}
+
+// What one platform gets instead of the post's shared caption and media
+// Fields left unset fall back to the shared ones
+export interface PostVariant {
+  caption?: string;
+  title?: string; // YouTube: the video title; defaults to the start of the caption
+  description?: string; // YouTube: the video description; defaults to the caption
+  tags?: string[]; // YouTube: the video's tags
+  media?: MediaItem[];
+  firstComment?: string; // Commented on the post right after it is published
+}
+
 // Social media post type
 export interface Post {
   id: string;
-  content: string; // Caption/text content
-  mediaUrl?: string; // URL to image or video
-  mediaType?: 'image' | 'video';
-  mediaFile?: File; // Original file object (if available)
-  platforms: Platform[];
+  content: string; // Caption/text content, shared by every platform without its own
+  media: MediaItem[]; // In display order; several items make an Instagram carousel
+  variants?: Partial<Record<Platform, PostVariant>>; // Per-platform overrides of the caption and media
+  targets: PostTarget[]; // Accounts the post is published to
+  instagramOptions?: InstagramPostOptions; // Defaults to a feed post
+  tiktokOptions?: TikTokPostOptions; // Required to publish to TikTok
   scheduledFor: Date | null; // null means publish immediately
   publishedAt?: Date;
-  status: 'draft' | 'scheduled' | 'published' | 'failed';
-  platformPostIds?: Record<Platform, string>; // IDs of the posts on each platform
+  status: 'draft' | 'scheduled' | 'published' | 'partially_published' | 'failed';
+  platformPostIds?: Record<string, string>; // IDs of the posts on each platform, keyed by account ID
+  publishResults?: Record<string, PlatformPublishResult>; // Latest publish outcome, keyed by account ID
+  lastError?: string; // Why the last publish attempt failed
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,32 +130,124 @@ export interface Comment {
   };
   likes: number;
   createdAt: Date;
+  parentCommentId?: string; // The platformCommentId of the comment this replies to
+  replyCount?: number;
   isHidden?: boolean;
   isSpam?: boolean;
   replied?: boolean;
+  isOwnReply?: boolean; // A reply we posted
+  tags?: string[];
+  assignee?: string; // Who on the team should deal with it
+  appliedRuleIds?: string[]; // Moderation rules that have already run on it
 }
 
-// Platform API credentials
+// How far comment syncing has got for one post on one account
+export interface CommentSyncCursor {
+  lastSyncedAt: Date;
+  lastSeenAt?: Date; // When the newest comment seen so far was made; the next sync starts there
+}
+
+// How often comments are synced in the background, by the age of the post (minutes)
+export interface CommentPollingSettings {
+  enabled: boolean;
+  recentPostMinutes: number; // Posts published in the last day
+  weekOldPostMinutes: number; // Posts published in the last week
+  olderPostMinutes: number;
+}
+
+// What a comment must match for a moderation rule to apply; conditions left out match every comment
+export interface ModerationRuleConditions {
+  keywords?: string[]; // Any of these words or phrases, ignoring case
+  pattern?: string; // A regular expression, ignoring case
+  authors?: string[]; // Author names or usernames
+  hasLink?: boolean; // true for comments with a link, false for comments without one
+  minEmojiRatio?: number; // Share of the comment's characters that are emoji, from 0 to 1
+  languages?: string[]; // Language codes, e.g. 'en'
+  platforms?: Platform[];
+  postIds?: string[];
+}
+
+export type ModerationAction =
+  | { type: 'markSpam' }
+  | { type: 'hide' }
+  | { type: 'delete' }
+  | { type: 'reply'; template: string } // {author} and {platform} are filled in
+  | { type: 'tag'; tag: string }
+  | { type: 'assign'; assignee: string };
+
+export type ModerationActionType = ModerationAction['type'];
+
+// A rule run on every comment as it is synced
+export interface ModerationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: ModerationRuleConditions;
+  actions: ModerationAction[]; // Run in order; nothing runs after a delete
+}
+
+// What we know about the lifetime of an access token (timestamps in epoch ms)
+export interface TokenExpiry {
+  expiresAt?: number; // Undefined when unknown; 0 when the token never expires
+  dataAccessExpiresAt?: number; // Facebook: when the app loses access to user data
+  issuedAt?: number; // When the token was obtained or last refreshed
+  checkedAt?: number; // When the expiry was last looked up
+}
+
+// Credentials for each platform, stored encrypted on an Account
 export interface ApiCredentials {
   instagram?: {
     accessToken: string;
-  };
+    appSecret?: string; // Needed to exchange a short-lived token for a long-lived one
+    baseUrl?: string; // https://graph.instagram.com/v19.0 unless pointed at another server
+  } & TokenExpiry;
   youtube?: {
     apiKey: string;
     clientId: string;
     clientSecret: string;
     redirectUri: string;
     refreshToken?: string;
+    channelId?: string; // The channel the refresh token is for, when connected with Google sign-in
+    baseUrl?: string; // https://www.googleapis.com/youtube/v3 unless pointed at another server
   };
   tiktok?: {
-    baseUrl: string;
+    baseUrl: string; // https://open.tiktokapis.com/v2 unless pointed at another server
     accessToken: string;
   };
   facebook?: {
-    accessToken: string;
-  };
+    accessToken: string; // User access token
+    appId?: string; // App ID and secret are needed to exchange for a long-lived token
+    appSecret?: string;
+    pageId?: string; // The page this account posts to, chosen in Settings
+    pageName?: string;
+    pageAccessToken?: string;
+    baseUrl?: string; // https://graph.facebook.com/v19.0 unless pointed at another server
+  } & TokenExpiry;
+}
+
+// A Facebook page the user manages, with the token used to act as the page
+export interface FacebookPage {
+  id: string;
+  name: string;
+  accessToken: string;
+  category?: string;
 }
 
+// A connected account on one platform (e.g. one brand's Instagram)
+export type Account = {
+  [P in Platform]: {
+    id: string;
+    platform: P;
+    displayName: string;
+    avatarUrl?: string;
+    isDemo?: boolean; // Created by demo mode, removed when it is turned off
+    credentials: NonNullable<ApiCredentials[P]>;
+  };
+}[Platform];
+
+// An account on a specific platform
+export type PlatformAccount<P extends Platform> = Extract<Account, { platform: P }>;
+
 // Analytics data
 export interface PlatformStats {
   platform: Platform;
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import InstagramApiService from '../../src/api/InstagramApiService';
+import FacebookApiService from '../../src/api/FacebookApiService';
+import YouTubeApiService from '../../src/api/YouTubeApiService';
+import TikTokApiService from '../../src/api/TikTokApiService';
+import { MediaRejectedError, UnsupportedOperationError } from '../../src/api/errors';
+import { PlatformAdapter } from '../../src/api/PlatformAdapter';
+import { MockServer } from '../../mock-server/server';
+import { Platform, Post } from '../../src/types';
+import { facebookAccount, instagramAccount, tiktokAccount, useMockServer, youtubeAccount } from './helpers';
+
+const createAdapters = (server: MockServer): Record<Platform, PlatformAdapter> => ({
+  instagram: new InstagramApiService(instagramAccount(server)),
+  facebook: new FacebookApiService(facebookAccount(server)),
+  youtube: new YouTubeApiService(youtubeAccount(server)),
+  tiktok: new TikTokApiService(tiktokAccount(server)),
+});
+
+// The seeded post with comments on each platform that has a comment API
+const seededPostId = (server: MockServer, platform: Platform) => ({
+  instagram: server.state.instagram.media[0]?.id,
+  facebook: server.state.facebook.posts[0]?.id,
+  youtube: 'mockvideo01',
+  tiktok: undefined,
+}[platform]!);
+
+describe('PlatformAdapter against the mock server', () => {
+  const getServer = useMockServer();
+  const adapter = (platform: Platform) => createAdapters(getServer())[platform];
+
+  const videoPost = (): Post => ({
+    id: 'post-1',
+    content: 'One video for every platform',
+    media: [{ type: 'video', url: `${getServer().url}/media/clip.mp4?bytes=4096` }],
+    targets: [],
+    instagramOptions: { format: 'reel' },
+    tiktokOptions: { privacyLevel: 'PUBLIC_TO_EVERYONE' },
+    scheduledFor: null,
+    status: 'draft',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it.each<Platform>(['instagram', 'facebook', 'youtube', 'tiktok'])('publishes a video post to %s and lists it', async platform => {
+    const service = adapter(platform);
+
+    const postId = await service.publish(videoPost());
+    const posts = await service.fetchPosts();
+
+    expect(postId).toEqual(expect.any(String));
+    expect(posts.map(post => post.text)).toContain('One video for every platform');
+  });
+
+  it.each<Platform>(['instagram', 'facebook', 'youtube'])('reads and replies to %s comments', async platform => {
+    const service = adapter(platform);
+    const postId = seededPostId(getServer(), platform);
+
+    const [comment] = await service.fetchComments(postId);
+    expect(comment).toMatchObject({ postId, text: expect.any(String), author: { name: expect.any(String) } });
+    expect(comment.createdAt).toBeInstanceOf(Date);
+
+    const replyId = await service.reply(postId, comment.id, 'Thanks!');
+    expect(replyId).toEqual(expect.any(String));
+  });
+
+  it('rejects comment operations TikTok does not offer', async () => {
+    const service = adapter('tiktok');
+
+    expect(service.capabilities.fetchComments).toBe(false);
+    await expect(service.fetchComments('video')).rejects.toBeInstanceOf(UnsupportedOperationError);
+    await expect(service.reply('video', 'comment', 'Hi')).rejects.toBeInstanceOf(UnsupportedOperationError);
+  });
+
+  it.each<Platform>(['youtube', 'tiktok'])('refuses an image post for %s before uploading', async platform => {
+    const post = { ...videoPost(), media: [{ type: 'image' as const, url: `${getServer().url}/media/photo.jpg` }] };
+
+    await expect(adapter(platform).publish(post)).rejects.toBeInstanceOf(MediaRejectedError);
+    expect(getServer().state.youtube.videos).toHaveLength(1);
+    expect(getServer().state.tiktok.publishes.size).toBe(0);
+  });
+
+  it.each<Platform>(['instagram', 'facebook', 'youtube', 'tiktok'])('reports %s stats', async platform => {
+    const stats = await adapter(platform).getStats();
+
+    expect(stats.platform).toBe(platform);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { apiFactory } from '../../src/api';
+import { commentSyncService } from '../../src/lib/commentSync';
+import useCommentsStore from '../../src/store/useCommentsStore';
+import usePostsStore from '../../src/store/usePostsStore';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { ModerationRule, Post } from '../../src/types';
+import { instagramAccount, useMockServer, youtubeAccount } from './helpers';
+
+describe('auto-moderation during comment sync', () => {
+  const getServer = useMockServer();
+
+  const setRules = (rules: Omit<ModerationRule, 'id'>[]) => {
+    useSettingsStore.setState({ moderationRules: rules.map((rule, index) => ({ ...rule, id: `rule-${index}` })) });
+  };
+  const stored = (platformCommentId: string) =>
+    useCommentsStore.getState().comments.find(comment => comment.platformCommentId === platformCommentId);
+
+  beforeEach(() => {
+    const server = getServer();
+    const accounts = [instagramAccount(server), youtubeAccount(server)];
+    accounts.forEach(account => apiFactory.resetApiService(account.id));
+    useSettingsStore.setState({
+      accounts,
+      demoMode: false,
+      platformsEnabled: { instagram: true, facebook: false, youtube: true, tiktok: false },
+      moderationRules: [],
+    });
+
+    const { instagram, youtube } = server.state;
+    const post: Post = {
+      id: 'post-1',
+      content: 'Seeded everywhere',
+      media: [],
+      targets: accounts.map(account => ({ accountId: account.id, platform: account.platform })),
+      platformPostIds: {
+        'instagram-test': instagram.media[0].id,
+        'youtube-test': youtube.videos[0].id,
+      },
+      scheduledFor: null,
+      status: 'published',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    usePostsStore.setState({ posts: [post] });
+    useCommentsStore.setState({ comments: [], syncCursors: {} });
+  });
+
+  it('runs the actions of matching rules on the platform and in the store', async () => {
+    const { youtube } = getServer().state;
+    youtube.comments.push({ ...youtube.comments[0], id: 'Ugspam', textOriginal: 'Free followers at www.spam.xyz' });
+    setRules([
+      { name: 'Links', enabled: true, conditions: { hasLink: true }, actions: [{ type: 'tag', tag: 'link' }, { type: 'markSpam' }] },
+      { name: 'Off', enabled: false, conditions: {}, actions: [{ type: 'hide' }] },
+    ]);
+
+    const result = await commentSyncService.sync();
+
+    expect(result.autoModerated).toBe(1);
+    expect(youtube.comments.find(comment => comment.id === 'Ugspam')?.markedAsSpam).toBe(true);
+    expect(stored('Ugspam')).toMatchObject({ isSpam: true, tags: ['link'], appliedRuleIds: ['rule-0'] });
+    expect(stored(youtube.comments[0].id)?.isHidden).toBeUndefined();
+  });
+
+  it('auto-replies once, even when the comment is synced again', async () => {
+    const { youtube } = getServer().state;
+    const seeded = youtube.comments[0];
+    setRules([
+      { name: 'Thanks', enabled: true, conditions: { platforms: ['youtube'] }, actions: [{ type: 'reply', template: 'Thanks {author}!' }] },
+    ]);
+
+    await commentSyncService.sync();
+    await commentSyncService.sync({ full: true });
+
+    const replies = useCommentsStore.getState().comments.filter(comment => comment.parentCommentId === seeded.id);
+    expect(replies).toHaveLength(1);
+    expect(replies[0]).toMatchObject({ content: 'Thanks Viewer!', isOwnReply: true });
+    expect(youtube.comments.filter(comment => comment.parentId === seeded.id)).toHaveLength(1);
+  });
+
+  it('only moderates new top-level comments, not older comments or replies', async () => {
+    const { youtube } = getServer().state;
+    const [seeded] = youtube.comments;
+    await commentSyncService.sync();
+    youtube.comments.push({ ...seeded, id: 'Ugnew', publishedAt: new Date().toISOString() });
+    youtube.comments.push({ ...seeded, id: 'Ugreply', parentId: 'Ugnew', authorDisplayName: 'Someone else' });
+    setRules([{ name: 'Tag all', enabled: true, conditions: { platforms: ['youtube'] }, actions: [{ type: 'tag', tag: 'seen' }] }]);
+
+    const result = await commentSyncService.sync();
+
+    expect(result.autoModerated).toBe(1);
+    expect(stored('Ugnew')?.tags).toEqual(['seen']);
+    expect(stored(seeded.id)?.tags).toBeUndefined();
+    expect(stored('Ugreply')?.tags).toBeUndefined();
+  });
+
+  it('records rules whose actions fail so they are not retried', async () => {
+    const { instagram } = getServer().state;
+    const [seeded] = instagram.comments;
+    setRules([{ name: 'Hide all', enabled: true, conditions: { platforms: ['instagram'] }, actions: [{ type: 'hide' }] }]);
+    getServer().fail({ method: 'POST', path: seeded.id, status: 500, body: { error: { message: 'Oops', type: 'OAuthException', code: 1 } } });
+
+    await commentSyncService.sync();
+
+    expect(stored(seeded.id)).toMatchObject({ appliedRuleIds: ['rule-0'] });
+    expect(stored(seeded.id)?.isHidden).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { apiFactory } from '../../src/api';
+import { AccountNotFoundError } from '../../src/api/errors';
+import { commentSyncService } from '../../src/lib/commentSync';
+import { deleteComment, hideComment, markCommentAsSpam, unhideComment } from '../../src/lib/commentModeration';
+import useCommentsStore from '../../src/store/useCommentsStore';
+import usePostsStore from '../../src/store/usePostsStore';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { Platform, Post } from '../../src/types';
+import { facebookAccount, instagramAccount, useMockServer, youtubeAccount } from './helpers';
+
+describe('comment moderation against the mock server', () => {
+  const getServer = useMockServer();
+
+  beforeEach(async () => {
+    const server = getServer();
+    const accounts = [instagramAccount(server), facebookAccount(server), youtubeAccount(server)];
+    accounts.forEach(account => apiFactory.resetApiService(account.id));
+    useSettingsStore.setState({
+      accounts,
+      demoMode: false,
+      platformsEnabled: { instagram: true, facebook: true, youtube: true, tiktok: false },
+    });
+
+    const { instagram, facebook, youtube } = server.state;
+    const post: Post = {
+      id: 'post-1',
+      content: 'Seeded everywhere',
+      media: [],
+      targets: accounts.map(account => ({ accountId: account.id, platform: account.platform })),
+      platformPostIds: {
+        'instagram-test': instagram.media[0].id,
+        'facebook-test': facebook.posts[0].id,
+        'youtube-test': youtube.videos[0].id,
+      },
+      scheduledFor: null,
+      status: 'published',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    usePostsStore.setState({ posts: [post] });
+    useCommentsStore.setState({ comments: [], syncCursors: {} });
+    await commentSyncService.sync();
+  });
+
+  const storedComment = (platform: Platform) => useCommentsStore.getState().comments.find(comment => comment.platform === platform)!;
+  const reloaded = (id: string) => useCommentsStore.getState().comments.find(comment => comment.id === id);
+
+  it('hides comments on each platform and shows them again', async () => {
+    const { instagram, facebook, youtube } = getServer().state;
+
+    for (const platform of ['instagram', 'facebook', 'youtube'] as Platform[]) {
+      await hideComment(storedComment(platform));
+      expect(storedComment(platform).isHidden).toBe(true);
+    }
+    expect(instagram.comments.find(comment => comment.id === storedComment('instagram').platformCommentId)?.hidden).toBe(true);
+    expect(facebook.comments[0].is_hidden).toBe(true);
+    expect(youtube.comments[0].moderationStatus).toBe('heldForReview');
+
+    await unhideComment(storedComment('youtube'));
+    expect(youtube.comments[0].moderationStatus).toBe('published');
+    expect(storedComment('youtube').isHidden).toBe(false);
+  });
+
+  it('leaves the stored comment alone when the platform refuses', async () => {
+    const comment = storedComment('facebook');
+    getServer().fail({
+      method: 'POST',
+      path: comment.platformCommentId!,
+      status: 403,
+      body: { error: { message: '(#200) Permissions error', type: 'OAuthException', code: 200 } },
+    });
+
+    await expect(hideComment(comment)).rejects.toThrow();
+
+    expect(reloaded(comment.id)?.isHidden).toBeUndefined();
+    expect(getServer().state.facebook.comments[0].is_hidden).toBeUndefined();
+  });
+
+  it('does not act as another account when the one the post was published from is gone', async () => {
+    const comment = storedComment('instagram');
+    const other = { ...instagramAccount(getServer()), id: 'instagram-other' };
+    useSettingsStore.setState(state => ({ accounts: [...state.accounts.filter(account => account.id !== 'instagram-test'), other] }));
+
+    await expect(hideComment(comment)).rejects.toBeInstanceOf(AccountNotFoundError);
+
+    expect(reloaded(comment.id)?.isHidden).toBeUndefined();
+    expect(getServer().state.instagram.comments.find(c => c.id === comment.platformCommentId)?.hidden).toBeUndefined();
+  });
+
+  it('reports spam to YouTube and hides it where there is no spam report', async () => {
+    await markCommentAsSpam(storedComment('youtube'));
+    await markCommentAsSpam(storedComment('instagram'));
+
+    expect(getServer().state.youtube.comments[0].markedAsSpam).toBe(true);
+    expect(storedComment('youtube')).toMatchObject({ isSpam: true });
+    expect(storedComment('instagram')).toMatchObject({ isSpam: true, isHidden: true });
+  });
+
+  it('deletes comments, rejecting YouTube comments the channel did not write', async () => {
+    const instagramComment = storedComment('instagram');
+    const youtubeComment = storedComment('youtube');
+
+    await deleteComment(instagramComment);
+    await deleteComment(youtubeComment);
+
+    const { instagram, youtube } = getServer().state;
+    expect(instagram.comments.some(comment => comment.id === instagramComment.platformCommentId)).toBe(false);
+    expect(youtube.comments[0].moderationStatus).toBe('rejected');
+    expect(reloaded(instagramComment.id)).toBeUndefined();
+    expect(reloaded(youtubeComment.id)).toBeUndefined();
+
+    // Rejected comments are no longer listed, so syncing doesn't bring them back
+    await commentSyncService.sync({ full: true });
+    expect(useCommentsStore.getState().comments.some(comment => comment.platformCommentId === youtubeComment.platformCommentId)).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiFactory } from '../../src/api';
+import { commentSyncService } from '../../src/lib/commentSync';
+import useCommentsStore from '../../src/store/useCommentsStore';
+import usePostsStore from '../../src/store/usePostsStore';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { Post } from '../../src/types';
+import { facebookAccount, instagramAccount, tiktokAccount, useMockServer, youtubeAccount } from './helpers';
+
+describe('CommentSyncService against the mock server', () => {
+  const getServer = useMockServer();
+
+  beforeEach(() => {
+    const server = getServer();
+    const accounts = [instagramAccount(server), facebookAccount(server), youtubeAccount(server), tiktokAccount(server)];
+    accounts.forEach(account => apiFactory.resetApiService(account.id));
+    useSettingsStore.setState({
+      accounts,
+      demoMode: false,
+      platformsEnabled: { instagram: true, facebook: true, youtube: true, tiktok: true },
+    });
+
+    // One local post published to the seeded post of every platform
+    const { instagram, facebook, youtube, tiktok } = server.state;
+    const post: Post = {
+      id: 'post-1',
+      content: 'Seeded everywhere',
+      media: [],
+      targets: accounts.map(account => ({ accountId: account.id, platform: account.platform })),
+      platformPostIds: {
+        'instagram-test': instagram.media[0].id,
+        'facebook-test': facebook.posts[0].id,
+        'youtube-test': youtube.videos[0].id,
+        'tiktok-test': tiktok.videos[0].id,
+      },
+      scheduledFor: null,
+      status: 'published',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    usePostsStore.setState({ posts: [post] });
+    useCommentsStore.setState({ comments: [], syncCursors: {} });
+  });
+
+  it('stores the comments of every platform with their platform IDs', async () => {
+    const result = await commentSyncService.sync();
+
+    const { comments } = useCommentsStore.getState();
+    expect(result).toMatchObject({ added: 4, updated: 0, errors: [], unsupportedPlatforms: ['tiktok'] });
+    expect(comments.map(comment => comment.platform).sort()).toEqual(['facebook', 'instagram', 'instagram', 'youtube']);
+
+    const seeded = getServer().state.youtube.comments[0];
+    expect(comments.find(comment => comment.platform === 'youtube')).toMatchObject({
+      postId: 'post-1',
+      platformPostId: seeded.videoId,
+      platformCommentId: seeded.id,
+      content: 'First!',
+      author: { id: seeded.authorChannelId, name: 'Viewer' },
+      likes: 3,
+      createdAt: new Date(seeded.publishedAt),
+    });
+  });
+
+  it('updates comments it already has and keeps their local flags', async () => {
+    await commentSyncService.sync();
+    const stored = useCommentsStore.getState().comments.find(comment => comment.platform === 'youtube');
+    useCommentsStore.getState().markAsSpam(stored!.id);
+    getServer().state.youtube.comments[0].likeCount = 10;
+
+    const result = await commentSyncService.sync();
+
+    const { comments } = useCommentsStore.getState();
+    expect(result).toMatchObject({ added: 0, updated: 4 });
+    expect(comments).toHaveLength(4);
+    expect(comments.find(comment => comment.id === stored!.id)).toMatchObject({ likes: 10, isSpam: true });
+  });
+
+  it('reports posts whose comments could not be loaded and keeps the rest', async () => {
+    usePostsStore.setState({
+      posts: usePostsStore.getState().posts.map(post => ({
+        ...post,
+        platformPostIds: { ...post.platformPostIds, 'facebook-test': 'missing_post' },
+      })),
+    });
+
+    const result = await commentSyncService.sync();
+
+    expect(result.errors.map(error => error.platform)).toEqual(['facebook']);
+    expect(useCommentsStore.getState().comments.map(comment => comment.platform).sort()).toEqual(['instagram', 'instagram', 'youtube']);
+  });
+
+  describe('reply threads', () => {
+    const stored = (platformCommentId: string) =>
+      useCommentsStore.getState().comments.find(comment => comment.platformCommentId === platformCommentId);
+
+    it('stores the replies on every platform under the comment they answer', async () => {
+      const { instagram, facebook, youtube } = getServer().state;
+      const [igComment] = instagram.comments;
+      const [fbComment] = facebook.comments;
+      const [ytComment] = youtube.comments;
+      instagram.comments.push({ ...igComment, id: 'ig_reply', parentId: igComment.id, text: 'Thanks!', username: 'fan_two' });
+      facebook.comments.push({ ...fbComment, id: 'fb_reply', objectId: fbComment.id, message: 'Agreed' });
+      youtube.comments.push({ ...ytComment, id: 'yt_reply', parentId: ytComment.id, textOriginal: 'Second!' });
+
+      const result = await commentSyncService.sync();
+
+      expect(result.added).toBe(7);
+      expect(stored('ig_reply')).toMatchObject({ platform: 'instagram', parentCommentId: igComment.id, content: 'Thanks!' });
+      expect(stored('fb_reply')).toMatchObject({ platform: 'facebook', parentCommentId: fbComment.id, content: 'Agreed' });
+      expect(stored('yt_reply')).toMatchObject({ platform: 'youtube', parentCommentId: ytComment.id, content: 'Second!' });
+      expect(stored(igComment.id)?.replyCount).toBe(1);
+      expect(stored(fbComment.id)?.replyCount).toBe(1);
+      expect(stored(ytComment.id)?.replyCount).toBe(1);
+    });
+
+    it('keeps our own replies marked as ours when the platform returns them', async () => {
+      await commentSyncService.sync();
+      const parent = stored(getServer().state.youtube.comments[0].id)!;
+      const replyId = await apiFactory.getApiService('youtube-test').reply(parent.platformPostId, parent.platformCommentId!, 'Thank you!');
+      useCommentsStore.getState().addOwnReply(parent.id, {
+        platformCommentId: replyId,
+        content: 'Thank you!',
+        author: { id: 'youtube-test', name: 'Me', username: 'Me' },
+      });
+
+      await commentSyncService.sync();
+
+      const replies = useCommentsStore.getState().comments.filter(comment => comment.parentCommentId === parent.platformCommentId);
+      expect(replies).toHaveLength(1);
+      expect(replies[0]).toMatchObject({ platformCommentId: replyId, isOwnReply: true });
+      expect(stored(parent.platformCommentId!)).toMatchObject({ replied: true, replyCount: 1 });
+    });
+
+    it('only asks for the replies of comments the platform says have some', async () => {
+      const { instagram } = getServer().state;
+      const [igComment] = instagram.comments;
+      instagram.comments.push({ ...igComment, id: 'ig_reply', parentId: igComment.id, text: 'Thanks!' });
+      const fetchReplies = vi.spyOn(apiFactory.getApiService('instagram-test'), 'fetchReplies');
+
+      await commentSyncService.sync();
+
+      expect(fetchReplies.mock.calls.map(([, commentId]) => commentId)).toEqual([igComment.id]);
+      expect(stored(igComment.id)?.replyCount).toBe(1);
+      expect(stored(instagram.comments[1].id)?.replyCount).toBe(0);
+      fetchReplies.mockRestore();
+    });
+
+    it('keeps checking older comments with recent replies for new ones', async () => {
+      const { youtube } = getServer().state;
+      const [seeded] = youtube.comments;
+      youtube.comments.push({ ...seeded, id: 'Ugnewer', publishedAt: new Date().toISOString() });
+      youtube.comments.push({ ...seeded, id: 'Ugreply1', parentId: seeded.id, publishedAt: new Date().toISOString() });
+      await commentSyncService.sync();
+      youtube.comments.push({ ...seeded, id: 'Ugreply2', parentId: seeded.id, publishedAt: new Date().toISOString() });
+
+      await commentSyncService.sync();
+
+      expect(stored('Ugreply2')).toMatchObject({ parentCommentId: seeded.id });
+      expect(stored(seeded.id)?.replyCount).toBe(2);
+    });
+
+    it('picks up new replies to older comments on a full sync', async () => {
+      const { youtube } = getServer().state;
+      const [seeded] = youtube.comments;
+      youtube.comments.push({ ...seeded, id: 'Ugnewer', publishedAt: new Date().toISOString() });
+      await commentSyncService.sync();
+      youtube.comments.push({ ...seeded, id: 'Ugreply', parentId: seeded.id, textOriginal: 'Late reply' });
+
+      await commentSyncService.sync();
+      expect(stored('Ugreply')).toBeUndefined();
+
+      await commentSyncService.sync({ full: true });
+      expect(stored('Ugreply')).toMatchObject({ parentCommentId: seeded.id });
+    });
+  });
+
+  describe('incremental sync', () => {
+    // Comments on the seeded video, a minute apart, after the seeded one
+    const addVideoComments = (count: number, from = Date.now() - 3 * 60 * 60 * 1000) => {
+      const { youtube } = getServer().state;
+      for (let index = 0; index < count; index++) {
+        youtube.comments.push({
+          id: `Ugextra${youtube.comments.length}`,
+          videoId: youtube.videos[0].id,
+          textOriginal: `Comment ${index}`,
+          authorDisplayName: 'Viewer',
+          authorChannelId: 'UCviewer00000000000000000',
+          likeCount: 0,
+          publishedAt: new Date(from + index * 60 * 1000).toISOString(),
+        });
+      }
+    };
+    const youtubeComments = () => useCommentsStore.getState().comments.filter(comment => comment.platform === 'youtube');
+
+    it('pages through every comment on a post', async () => {
+      addVideoComments(150);
+
+      await commentSyncService.sync();
+
+      expect(youtubeComments()).toHaveLength(151);
+    });
+
+    it('only fetches comments from the newest one it has seen', async () => {
+      addVideoComments(150);
+      await commentSyncService.sync();
+      addVideoComments(2, Date.now());
+
+      const result = await commentSyncService.sync();
+
+      expect(youtubeComments()).toHaveLength(153);
+      expect(result.added).toBe(2);
+      // The newest comment of the last sync is fetched again; older ones aren't
+      expect(result.updated).toBeLessThan(10);
+    });
+
+    it('loads everything again after the comments are cleared', async () => {
+      await commentSyncService.sync();
+      useCommentsStore.getState().clearAllComments();
+
+      const result = await commentSyncService.sync();
+
+      expect(result.added).toBe(4);
+    });
+
+    it('leaves posts alone until their polling interval has passed', async () => {
+      const now = new Date();
+      await commentSyncService.sync({ now });
+
+      expect((await commentSyncService.sync({ dueOnly: true, now: new Date(now.getTime() + 60 * 1000) })).postsSynced).toBe(0);
+      expect((await commentSyncService.sync({ dueOnly: true, now: new Date(now.getTime() + 10 * 60 * 1000) })).postsSynced).toBe(3);
+    });
+
+    it('runs a full sync asked for while a due sync is running once that one ends', async () => {
+      const now = new Date();
+      await commentSyncService.sync({ now });
+
+      const [due, full] = await Promise.all([
+        commentSyncService.sync({ dueOnly: true, now: new Date(now.getTime() + 60 * 1000) }),
+        commentSyncService.sync({ full: true }),
+      ]);
+
+      expect(due.postsSynced).toBe(0);
+      expect(full.postsSynced).toBe(3);
+    });
+
+    it("gives a due sync asked for while a full sync is running that sync's result", async () => {
+      const full = commentSyncService.sync({ full: true });
+      const due = commentSyncService.sync({ dueOnly: true });
+
+      expect(await due).toBe(await full);
+    });
+  });
+});
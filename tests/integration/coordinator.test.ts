@@ -0,0 +1,225 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiFactory, getPublishIdempotencyKey, socialMediaCoordinator } from '../../src/api';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { PlatformPublishResult, Post, PublishEvent } from '../../src/types';
+import { instagramAccount, tiktokAccount, useMockServer, youtubeAccount } from './helpers';
+
+describe('SocialMediaCoordinator against the mock server', () => {
+  const getServer = useMockServer();
+
+  beforeEach(() => {
+    const server = getServer();
+    const accounts = [instagramAccount(server), youtubeAccount(server), tiktokAccount(server)];
+    accounts.forEach(account => apiFactory.resetApiService(account.id));
+    useSettingsStore.setState({
+      accounts,
+      demoMode: false,
+      platformsEnabled: { instagram: true, youtube: true, tiktok: true, facebook: false },
+    });
+  });
+
+  const videoPost = (): Post => ({
+    id: 'post-1',
+    content: 'Published everywhere at once',
+    media: [{ type: 'video', url: `${getServer().url}/media/clip.mp4?bytes=4096` }],
+    targets: [
+      { accountId: 'instagram-test', platform: 'instagram' },
+      { accountId: 'youtube-test', platform: 'youtube' },
+      { accountId: 'tiktok-test', platform: 'tiktok' },
+    ],
+    instagramOptions: { format: 'reel' },
+    tiktokOptions: { privacyLevel: 'PUBLIC_TO_EVERYONE' },
+    scheduledFor: null,
+    status: 'draft',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('publishes to every account and reports each stage', async () => {
+    const events: PublishEvent[] = [];
+
+    const results = await socialMediaCoordinator.publishToMultiplePlatforms(videoPost(), {
+      onEvent: event => events.push(event),
+    });
+
+    expect(Object.values(results).map(result => result.status)).toEqual(['published', 'published', 'published']);
+    for (const accountId of ['instagram-test', 'youtube-test', 'tiktok-test']) {
+      const stages = events.filter(event => event.target.accountId === accountId).map(event => event.stage);
+      expect(stages[0]).toBe('queued');
+      expect(stages[stages.length - 1]).toBe('published');
+    }
+    expect(events.some(event => event.target.platform === 'tiktok' && event.stage === 'processing')).toBe(true);
+    expect(events.find(event => event.stage === 'published')?.result?.platformPostId).toEqual(expect.any(String));
+  });
+
+  it('starts the next account before the first one finishes', async () => {
+    const stages: string[] = [];
+
+    await socialMediaCoordinator.publishToMultiplePlatforms(videoPost(), {
+      concurrency: 2,
+      onEvent: event => stages.push(`${event.target.platform}:${event.stage}`),
+    });
+
+    const firstFinished = stages.findIndex(stage => stage.endsWith(':published'));
+    expect(stages.slice(0, firstFinished)).toEqual(expect.arrayContaining(['instagram:uploading', 'youtube:uploading']));
+    expect(stages.indexOf('tiktok:uploading')).toBeGreaterThan(firstFinished);
+  });
+
+  it('reports a failure without stopping the other accounts', async () => {
+    const events: PublishEvent[] = [];
+    const post = { ...videoPost(), tiktokOptions: undefined };
+
+    const results = await socialMediaCoordinator.publishToMultiplePlatforms(post, {
+      onEvent: event => events.push(event),
+    });
+
+    expect(results['tiktok-test']).toMatchObject({
+      status: 'failed',
+      errorMessage: 'TikTok post requires a privacy level',
+      mayHavePublished: false,
+    });
+    expect(results['youtube-test'].status).toBe('published');
+    expect(events.find(event => event.stage === 'failed')?.target.accountId).toBe('tiktok-test');
+  });
+
+  it("publishes each platform's own variant and adds its first comment", async () => {
+    const post: Post = {
+      ...videoPost(),
+      variants: {
+        youtube: { title: 'A title of its own', tags: ['mock', 'test'], firstComment: 'Thanks for watching!' },
+        tiktok: { caption: 'Short and snappy #fyp', firstComment: 'Not supported here' },
+      },
+    };
+
+    const results = await socialMediaCoordinator.publishToMultiplePlatforms(post);
+
+    const { youtube, tiktok } = getServer().state;
+    const video = youtube.videos.find(video => video.id === results['youtube-test'].platformPostId);
+    expect(video).toMatchObject({ title: 'A title of its own', description: post.content, tags: ['mock', 'test'] });
+    expect(youtube.comments.find(comment => comment.videoId === video?.id)?.textOriginal).toBe('Thanks for watching!');
+    expect(results['youtube-test'].firstCommentError).toBeUndefined();
+
+    expect(tiktok.videos.map(video => video.title)).toContain('Short and snappy #fyp');
+    expect(results['tiktok-test']).toMatchObject({ status: 'published', firstCommentError: expect.any(String) });
+  });
+
+  describe('idempotency', () => {
+    const youtubePost = (): Post => ({ ...videoPost(), targets: [{ accountId: 'youtube-test', platform: 'youtube' }] });
+    const uploadedVideos = () => getServer().state.youtube.videos.length;
+
+    it('publishes once when the same attempt is started twice', async () => {
+      const before = uploadedVideos();
+      const post = youtubePost();
+
+      const [first, second] = await Promise.all([
+        socialMediaCoordinator.publishToMultiplePlatforms(post),
+        socialMediaCoordinator.publishToMultiplePlatforms(post),
+      ]);
+
+      expect(uploadedVideos()).toBe(before + 1);
+      expect(second['youtube-test']).toEqual(first['youtube-test']);
+      expect(first['youtube-test'].idempotencyKey).toBe(getPublishIdempotencyKey(post, post.targets[0], 1));
+    });
+
+    it('waits for the running attempt when given a post that records it as publishing', async () => {
+      const before = uploadedVideos();
+      const post = youtubePost();
+      let publishing: PlatformPublishResult | undefined;
+
+      const first = socialMediaCoordinator.publishToMultiplePlatforms(post, {
+        onEvent: event => {
+          if (event.result?.status === 'publishing') publishing = event.result;
+        },
+      });
+      await vi.waitFor(() => expect(publishing).toBeDefined());
+      const second = await socialMediaCoordinator.publishToMultiplePlatforms({
+        ...post,
+        publishResults: { 'youtube-test': publishing! },
+      });
+
+      expect(uploadedVideos()).toBe(before + 1);
+      expect(second['youtube-test']).toEqual((await first)['youtube-test']);
+      expect(second['youtube-test'].attempts).toBe(1);
+    });
+
+    it('remembers that the post may exist when a later step of publishing fails', async () => {
+      getServer().fail({
+        path: '/me/media_publish',
+        status: 400,
+        body: { error: { message: 'Invalid parameter', type: 'OAuthException', code: 100 } },
+      });
+
+      const results = await socialMediaCoordinator.publishToMultiplePlatforms({
+        ...videoPost(),
+        media: [{ type: 'image', url: `${getServer().url}/media/photo.jpg` }],
+        targets: [{ accountId: 'instagram-test', platform: 'instagram' }],
+        instagramOptions: { format: 'feed' },
+      });
+
+      expect(results['instagram-test']).toMatchObject({ status: 'failed', retryable: false, mayHavePublished: true });
+    });
+
+    it('does not publish again to accounts that already have the post', async () => {
+      const post = youtubePost();
+      const results = await socialMediaCoordinator.publishToMultiplePlatforms(post);
+      const before = uploadedVideos();
+
+      const retried = await socialMediaCoordinator.publishToMultiplePlatforms({ ...post, publishResults: results });
+
+      expect(uploadedVideos()).toBe(before);
+      expect(retried['youtube-test']).toEqual(results['youtube-test']);
+    });
+
+    it('finds the post a timed-out attempt created instead of publishing it again', async () => {
+      const post = youtubePost();
+      const startedAt = new Date();
+      const { 'youtube-test': published } = await socialMediaCoordinator.publishToMultiplePlatforms(post);
+      const before = uploadedVideos();
+
+      const retried = await socialMediaCoordinator.publishToMultiplePlatforms({
+        ...post,
+        publishResults: {
+          'youtube-test': {
+            accountId: 'youtube-test',
+            platform: 'youtube',
+            status: 'failed',
+            errorType: 'NetworkError',
+            retryable: true,
+            mayHavePublished: true,
+            attempts: 1,
+            startedAt,
+            completedAt: new Date(),
+          },
+        },
+      });
+
+      expect(uploadedVideos()).toBe(before);
+      expect(retried['youtube-test']).toMatchObject({ status: 'published', platformPostId: published.platformPostId, attempts: 2 });
+    });
+
+    it('publishes again after a failure that cannot have created the post', async () => {
+      const post = youtubePost();
+      const before = uploadedVideos();
+
+      const retried = await socialMediaCoordinator.publishToMultiplePlatforms({
+        ...post,
+        publishResults: {
+          'youtube-test': {
+            accountId: 'youtube-test',
+            platform: 'youtube',
+            status: 'failed',
+            errorType: 'RateLimitedError',
+            retryable: true,
+            mayHavePublished: false,
+            attempts: 1,
+            startedAt: new Date(),
+            completedAt: new Date(),
+          },
+        },
+      });
+
+      expect(uploadedVideos()).toBe(before + 1);
+      expect(retried['youtube-test'].status).toBe('published');
+    });
+  });
+});
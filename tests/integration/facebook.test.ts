@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import FacebookApiService from '../../src/api/FacebookApiService';
+import { ApiError, AuthExpiredError, PermissionMissingError } from '../../src/api/errors';
+import { expiredTokenFailure, serverErrorFailure } from '../../mock-server/failures';
+import { MOCK_PAGE_ID, MOCK_TOKENS } from '../../mock-server/state';
+import { facebookAccount, fakeFile, useMockServer } from './helpers';
+
+describe('FacebookApiService against the mock server', () => {
+  const getServer = useMockServer();
+  const createService = (withPage = true) => new FacebookApiService(facebookAccount(getServer(), withPage));
+  const findPost = (id: string) => getServer().state.facebook.posts.find(post => post.id === id);
+
+  it('lists the pages the user manages', async () => {
+    const pages = await createService(false).listPages();
+
+    expect(pages).toEqual([{ id: MOCK_PAGE_ID, name: 'Mock Page', accessToken: MOCK_TOKENS.facebookPage, category: 'Brand' }]);
+  });
+
+  it('posts text to the page feed and lists it with the page posts', async () => {
+    const service = createService();
+
+    const postId = await service.createPost('Hello page');
+    const posts = await service.getPosts();
+
+    expect(findPost(postId)).toMatchObject({ ownerId: MOCK_PAGE_ID, message: 'Hello page', type: 'status' });
+    expect(posts.data[0]).toMatchObject({ id: postId, message: 'Hello page' });
+  });
+
+  it('uploads an image from a URL as a page photo', async () => {
+    const service = createService();
+
+    await service.createPost('Photo post', `${getServer().url}/media/photo.jpg`, 'image');
+
+    const photos = getServer().state.facebook.posts.filter(post => post.type === 'photo');
+    expect(photos).toHaveLength(1);
+    expect(photos[0]).toMatchObject({ ownerId: MOCK_PAGE_ID, message: 'Photo post' });
+  });
+
+  it('uploads a file as a page photo', async () => {
+    const service = createService();
+
+    await service.createPostWithFile('File post', fakeFile('photo.jpg', 2048, 'image/jpeg'));
+
+    const photos = getServer().state.facebook.posts.filter(post => post.type === 'photo');
+    expect(photos[0]).toMatchObject({ ownerId: MOCK_PAGE_ID, message: 'File post' });
+  });
+
+  it('posts a video from a URL', async () => {
+    const service = createService();
+
+    await service.createPost('Video post', `${getServer().url}/media/clip.mp4`, 'video');
+
+    const videos = getServer().state.facebook.posts.filter(post => post.type === 'video');
+    expect(videos[0]).toMatchObject({ ownerId: MOCK_PAGE_ID, message: 'Video post' });
+  });
+
+  it('refuses to publish without a selected page', async () => {
+    await expect(createService(false).createPost('No page')).rejects.toBeInstanceOf(PermissionMissingError);
+  });
+
+  it('reports an expired token as AuthExpiredError', async () => {
+    const service = createService();
+    getServer().fail(expiredTokenFailure('facebook', '/feed'));
+
+    await expect(service.createPost('Hello')).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('does not post again another way when a publish fails', async () => {
+    const service = createService();
+    const before = getServer().state.facebook.posts.length;
+    getServer().fail(serverErrorFailure('/photos'));
+
+    await expect(service.createPostWithFile('File post', fakeFile('photo.jpg', 2048, 'image/jpeg'))).rejects.toBeInstanceOf(ApiError);
+
+    expect(getServer().state.facebook.posts).toHaveLength(before);
+  });
+
+  it('reports posts that could not be listed instead of an empty list', async () => {
+    const service = createService();
+    getServer().fail(expiredTokenFailure('facebook', '/posts'));
+
+    await expect(service.getPosts()).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('reads and replies to comments', async () => {
+    const service = createService();
+    const [seededPost] = getServer().state.facebook.posts;
+
+    const comments = await service.getComments(seededPost.id);
+    expect(comments.data).toHaveLength(1);
+
+    const reply = await service.replyToComment(seededPost.id, 'Thanks!', comments.data[0].id);
+    expect(getServer().state.facebook.comments.find(comment => comment.id === reply.id)).toMatchObject({
+      objectId: comments.data[0].id,
+      message: 'Thanks!',
+      from: { id: MOCK_PAGE_ID },
+    });
+  });
+
+  it('inspects the user token with debug_token', async () => {
+    const service = createService();
+
+    expect((await service.debugToken()).isValid).toBe(true);
+
+    getServer().state.expireToken(MOCK_TOKENS.facebookUser);
+    expect((await service.debugToken()).isValid).toBe(false);
+  });
+
+  it('builds account stats from page posts and comments', async () => {
+    const stats = await createService().getStats();
+
+    expect(stats).toMatchObject({ platform: 'facebook', totalPosts: 1, totalComments: 1 });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { MockServer, startMockServer } from '../../mock-server/server';
+import { MOCK_PAGE_ID, MOCK_TOKENS } from '../../mock-server/state';
+import { encryptData } from '../../src/lib/encryption';
+import { PlatformAccount } from '../../src/types';
+
+/**
+ * Start one mock server for the test file and reset its state before every test
+ */
+export function useMockServer(): () => MockServer {
+  let server: MockServer;
+
+  beforeAll(async () => {
+    server = await startMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  return () => server;
+}
+
+export function instagramAccount(server: MockServer, accessToken = MOCK_TOKENS.instagram): PlatformAccount<'instagram'> {
+  return {
+    id: 'instagram-test',
+    platform: 'instagram',
+    displayName: 'Instagram',
+    credentials: { accessToken: encryptData(accessToken), baseUrl: server.baseUrls.instagram },
+  };
+}
+
+export function facebookAccount(server: MockServer, withPage = true): PlatformAccount<'facebook'> {
+  return {
+    id: 'facebook-test',
+    platform: 'facebook',
+    displayName: 'Facebook',
+    credentials: {
+      accessToken: encryptData(MOCK_TOKENS.facebookUser),
+      baseUrl: server.baseUrls.facebook,
+      ...(withPage && {
+        pageId: MOCK_PAGE_ID,
+        pageName: 'Mock Page',
+        pageAccessToken: encryptData(MOCK_TOKENS.facebookPage),
+      }),
+    },
+  };
+}
+
+export function youtubeAccount(server: MockServer, withRefreshToken = true): PlatformAccount<'youtube'> {
+  return {
+    id: 'youtube-test',
+    platform: 'youtube',
+    displayName: 'YouTube',
+    credentials: {
+      apiKey: encryptData('mock-api-key'),
+      clientId: encryptData('mock-client-id'),
+      clientSecret: encryptData('mock-client-secret'),
+      redirectUri: 'http://localhost:5173/auth/youtube/callback',
+      refreshToken: withRefreshToken ? encryptData(MOCK_TOKENS.youtubeRefresh) : undefined,
+      baseUrl: server.baseUrls.youtube,
+    },
+  };
+}
+
+export function tiktokAccount(server: MockServer): PlatformAccount<'tiktok'> {
+  return {
+    id: 'tiktok-test',
+    platform: 'tiktok',
+    displayName: 'TikTok',
+    credentials: { accessToken: encryptData(MOCK_TOKENS.tiktok), baseUrl: server.baseUrls.tiktok },
+  };
+}
+
+/**
+ * A file of the given size, filled with dummy bytes
+ */
+export function fakeFile(name: string, size: number, type: string): File {
+  return new File([new Uint8Array(size).fill(1)], name, { type });
+}
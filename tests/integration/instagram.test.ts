@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import InstagramApiService from '../../src/api/InstagramApiService';
+import { AuthExpiredError, MediaRejectedError, RateLimitedError } from '../../src/api/errors';
+import { expiredTokenFailure, rateLimitedFailure, serverErrorFailure } from '../../mock-server/failures';
+import { MOCK_TOKENS } from '../../mock-server/state';
+import { instagramAccount, useMockServer } from './helpers';
+
+describe('InstagramApiService against the mock server', () => {
+  const getServer = useMockServer();
+  const createService = () => new InstagramApiService(instagramAccount(getServer()));
+  const image = (name: string) => ({ type: 'image' as const, url: `${getServer().url}/media/${name}` });
+
+  it('publishes an image and lists it with the account media', async () => {
+    const service = createService();
+
+    const mediaId = await service.createPost('Hello from the mock server', [image('photo.jpg')]);
+    const media = await service.getMedia(25, true);
+
+    expect(media[0]).toMatchObject({ id: mediaId, media_type: 'IMAGE', caption: 'Hello from the mock server' });
+  });
+
+  it('publishes a carousel with its items in order', async () => {
+    const service = createService();
+
+    const mediaId = await service.createPost('Carousel', [image('one.jpg'), image('two.jpg'), image('three.jpg')]);
+
+    const { instagram } = getServer().state;
+    const published = instagram.media.find(media => media.id === mediaId)!;
+    const childUrls = published.children!.map(id => instagram.containers.get(id)!.params.image_url);
+    expect(published.media_type).toBe('CAROUSEL_ALBUM');
+    expect(childUrls.map(url => url.split('/').pop())).toEqual(['one.jpg', 'two.jpg', 'three.jpg']);
+  });
+
+  it('publishes a Reel with its cover image', async () => {
+    const service = createService();
+    const video = { type: 'video' as const, url: `${getServer().url}/media/clip.mp4` };
+
+    const mediaId = await service.createPost('My Reel', [video], { format: 'reel', coverUrl: `${getServer().url}/media/cover.jpg` });
+
+    const container = [...getServer().state.instagram.containers.values()].find(candidate => candidate.mediaId === mediaId)!;
+    expect(container.params).toMatchObject({ media_type: 'REELS', share_to_feed: 'true' });
+    expect(container.params.cover_url).toContain('cover.jpg');
+  });
+
+  it('rejects the media when the container fails to process', async () => {
+    const service = createService();
+    getServer().state.instagram.nextContainerStatuses = ['ERROR'];
+
+    await expect(service.createPost('Broken', [image('photo.jpg')])).rejects.toBeInstanceOf(MediaRejectedError);
+    expect(getServer().state.instagram.media).toHaveLength(1); // Only the seeded post
+  });
+
+  it('reports an expired token as AuthExpiredError', async () => {
+    const service = createService();
+    getServer().fail(expiredTokenFailure('instagram', '/me/media'));
+
+    await expect(service.createPost('Hello', [image('photo.jpg')])).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('keeps failing with AuthExpiredError once the server expires the token', async () => {
+    const service = createService();
+    getServer().state.expireToken(MOCK_TOKENS.instagram);
+
+    await expect(service.getMedia(25, true)).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('reports rate limiting as RateLimitedError', async () => {
+    const service = createService();
+    getServer().fail(rateLimitedFailure('instagram', '/me/media_publish'));
+
+    await expect(service.createPost('Hello', [image('photo.jpg')])).rejects.toBeInstanceOf(RateLimitedError);
+  });
+
+  it('retries a read after a temporary server error', async () => {
+    const service = createService();
+    getServer().fail(serverErrorFailure('/me/media'));
+
+    const media = await service.getMedia(25, true);
+
+    expect(media).toHaveLength(1);
+  });
+
+  it('reads, replies to and deletes comments', async () => {
+    const service = createService();
+    const [seeded] = getServer().state.instagram.media;
+
+    const comments = await service.getComments(seeded.id, true);
+    expect(comments.data).toHaveLength(2);
+
+    const reply = await service.replyToComment(seeded.id, 'Thank you!', comments.data[0].id);
+    expect(getServer().state.instagram.comments.find(comment => comment.id === reply.id)).toMatchObject({
+      parentId: comments.data[0].id,
+      text: 'Thank you!',
+    });
+
+    await service.deleteComment(reply.id);
+    expect(getServer().state.instagram.comments.some(comment => comment.id === reply.id)).toBe(false);
+  });
+
+  it('reports a failed reply as a typed error', async () => {
+    const service = createService();
+    const [seeded] = getServer().state.instagram.comments;
+    getServer().fail(expiredTokenFailure('instagram', `/${seeded.id}/replies`));
+
+    await expect(service.replyToComment(seeded.mediaId, 'Thank you!', seeded.id)).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('exchanges the token on the unversioned token host', async () => {
+    const service = createService();
+
+    const { accessToken, expiresIn } = await service.exchangeForLongLivedToken('app-secret');
+
+    expect(accessToken).toMatch(/^mock-ig-long-lived-/);
+    expect(expiresIn).toBeGreaterThan(0);
+  });
+
+  it('builds account stats from media and comments', async () => {
+    const stats = await createService().getStats();
+
+    expect(stats).toMatchObject({ platform: 'instagram', totalPosts: 1, totalComments: 2 });
+  });
+});
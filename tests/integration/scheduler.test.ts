@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  // The posts store is only persisted where there is storage; keep it in memory like a browser would
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, String(value)),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+});
+
+import { apiFactory } from '../../src/api';
+import { PostScheduler } from '../../src/lib/scheduler';
+import usePostsStore from '../../src/store/usePostsStore';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { Post } from '../../src/types';
+import { instagramAccount, useMockServer } from './helpers';
+
+const POSTS_STORAGE_KEY = 'social-media-posts';
+
+describe('PostScheduler against the mock server', () => {
+  const getServer = useMockServer();
+  const scheduler = new PostScheduler({ tickInterval: 60 * 60 * 1000 });
+
+  beforeEach(() => {
+    const account = instagramAccount(getServer());
+    apiFactory.resetApiService(account.id);
+    useSettingsStore.setState({
+      accounts: [account],
+      demoMode: false,
+      platformsEnabled: { instagram: true, youtube: false, tiktok: false, facebook: false },
+    });
+    usePostsStore.setState({ posts: [], drafts: [], scheduled: [], published: [], failed: [] });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.restoreAllMocks();
+  });
+
+  const scheduledPost = (id: string, minutesFromNow: number): Post => ({
+    id,
+    content: `Scheduled post ${id}, going out to everyone who follows the account`,
+    media: [{ type: 'image', url: `${getServer().url}/media/photo.jpg` }],
+    targets: [{ accountId: 'instagram-test', platform: 'instagram' }],
+    instagramOptions: { format: 'feed' },
+    scheduledFor: new Date(Date.now() + minutesFromNow * 60 * 1000),
+    status: 'scheduled',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const schedule = (...posts: Post[]) => {
+    usePostsStore.setState({ posts, scheduled: posts });
+  };
+
+  const getPost = (id: string) => usePostsStore.getState().posts.find(post => post.id === id);
+
+  it('queues the posts that are due, oldest slot first', () => {
+    schedule(scheduledPost('later', -5), scheduledPost('future', 5), scheduledPost('earlier', -10));
+
+    expect(scheduler.getDueQueue().map(post => post.id)).toEqual(['earlier', 'later']);
+  });
+
+  it('publishes posts missed while the app was closed once the stored posts are loaded', async () => {
+    schedule(scheduledPost('missed', -60));
+    vi.spyOn(usePostsStore.persist, 'hasHydrated').mockReturnValue(false);
+
+    scheduler.start();
+    expect(getPost('missed')?.status).toBe('scheduled');
+
+    await usePostsStore.persist.rehydrate();
+
+    await vi.waitFor(() => expect(getPost('missed')?.status).toBe('published'));
+    expect(getServer().state.instagram.media).toHaveLength(2); // The seeded post and this one
+  });
+
+  it('does not publish again when the app closed while the platform was publishing', async () => {
+    schedule(scheduledPost('interrupted', -1));
+
+    // Keep what was stored when the platform had the post but the app had not heard back yet
+    const adapter = apiFactory.getApiService('instagram-test');
+    const publish = adapter.publish.bind(adapter);
+    let storedWhilePublishing: string | null = null;
+    vi.spyOn(adapter, 'publish').mockImplementation(async (...args) => {
+      const platformPostId = await publish(...args);
+      storedWhilePublishing = localStorage.getItem(POSTS_STORAGE_KEY);
+      return platformPostId;
+    });
+
+    await scheduler.tick();
+    const { platformPostId } = getPost('interrupted')!.publishResults!['instagram-test'];
+
+    // Reload from what was stored at that moment
+    localStorage.setItem(POSTS_STORAGE_KEY, storedWhilePublishing!);
+    await usePostsStore.persist.rehydrate();
+    expect(getPost('interrupted')).toMatchObject({
+      status: 'scheduled',
+      publishResults: { 'instagram-test': { status: 'publishing', mayHavePublished: true } },
+    });
+
+    await scheduler.tick();
+
+    expect(getServer().state.instagram.media).toHaveLength(2);
+    expect(getPost('interrupted')).toMatchObject({
+      status: 'published',
+      publishResults: { 'instagram-test': { status: 'published', platformPostId, attempts: 2 } },
+    });
+  });
+});
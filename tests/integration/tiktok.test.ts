@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import TikTokApiService from '../../src/api/TikTokApiService';
+import { AuthExpiredError, MediaRejectedError, PermissionMissingError, RateLimitedError } from '../../src/api/errors';
+import { expiredTokenFailure, rateLimitedFailure } from '../../mock-server/failures';
+import { UploadProgress } from '../../src/types';
+import { fakeFile, tiktokAccount, useMockServer } from './helpers';
+
+const MB = 1024 * 1024;
+
+describe('TikTokApiService against the mock server', () => {
+  const getServer = useMockServer();
+  const createService = () => new TikTokApiService(tiktokAccount(getServer()));
+  const videoUrl = () => `${getServer().url}/media/clip.mp4`;
+
+  it('reads the creator info', async () => {
+    const info = await createService().getCreatorInfo();
+
+    expect(info).toMatchObject({
+      username: 'mock_creator',
+      privacyLevelOptions: ['PUBLIC_TO_EVERYONE', 'MUTUAL_FOLLOW_FRIENDS', 'SELF_ONLY'],
+      stitchDisabled: true,
+    });
+  });
+
+  it('posts a video from a URL and returns the public post ID', async () => {
+    const postId = await createService().createPost('From URL', videoUrl(), { privacyLevel: 'PUBLIC_TO_EVERYONE' });
+
+    expect(getServer().state.tiktok.videos.some(video => video.id === postId)).toBe(true);
+  });
+
+  it('returns the publish ID for posts that are not public', async () => {
+    const publishId = await createService().createPost('Private', videoUrl(), { privacyLevel: 'SELF_ONLY' });
+
+    expect(getServer().state.tiktok.publishes.has(publishId)).toBe(true);
+  });
+
+  it('uploads a file in chunks, with the remainder in the last chunk', async () => {
+    const progress: UploadProgress[] = [];
+    const file = fakeFile('clip.mp4', 11 * MB, 'video/mp4');
+
+    const postId = await createService().createPost('Chunked', file, { privacyLevel: 'PUBLIC_TO_EVERYONE' }, {
+      chunkSize: 5 * MB,
+      onProgress: update => progress.push(update),
+    });
+
+    const publish = [...getServer().state.tiktok.publishes.values()].find(candidate => candidate.videoId === postId);
+    expect(publish).toMatchObject({ source: 'FILE_UPLOAD', receivedBytes: 11 * MB });
+    expect(progress[progress.length - 1].percent).toBe(100);
+  });
+
+  it('keeps interactions the creator disabled turned off', async () => {
+    await createService().createPost('Stitch', videoUrl(), { privacyLevel: 'PUBLIC_TO_EVERYONE', disableStitch: false });
+
+    const [publish] = getServer().state.tiktok.publishes.values();
+    expect(publish.postInfo).toMatchObject({ disable_comment: false, disable_stitch: true });
+  });
+
+  it('refuses a privacy level the creator cannot use', async () => {
+    getServer().state.tiktok.creator.privacy_level_options = ['SELF_ONLY'];
+
+    await expect(createService().createPost('Public', videoUrl(), { privacyLevel: 'PUBLIC_TO_EVERYONE' }))
+      .rejects.toBeInstanceOf(PermissionMissingError);
+  });
+
+  it('reports a failed publish as MediaRejectedError', async () => {
+    getServer().state.tiktok.nextPublishFailure = 'file_format_check_failed';
+
+    await expect(createService().createPost('Broken', videoUrl(), { privacyLevel: 'SELF_ONLY' }))
+      .rejects.toBeInstanceOf(MediaRejectedError);
+  });
+
+  it('reports an expired token as AuthExpiredError', async () => {
+    getServer().fail(expiredTokenFailure('tiktok', '/creator_info/query/'));
+
+    await expect(createService().getCreatorInfo()).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('reports rate limiting as RateLimitedError', async () => {
+    getServer().fail(rateLimitedFailure('tiktok', '/video/init/'));
+
+    await expect(createService().createPost('Busy', videoUrl(), { privacyLevel: 'SELF_ONLY' }))
+      .rejects.toBeInstanceOf(RateLimitedError);
+  });
+
+  it('builds account stats from the video list', async () => {
+    const stats = await createService().getStats();
+
+    expect(stats).toMatchObject({ platform: 'tiktok', totalPosts: 1, totalComments: 4 });
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { apiFactory } from '../../src/api';
+import { TokenManager } from '../../src/lib/tokenManager';
+import { decryptData, encryptData } from '../../src/lib/encryption';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { Account, TokenExpiry } from '../../src/types';
+import { MOCK_TOKENS } from '../../mock-server/state';
+import { facebookAccount, instagramAccount, useMockServer } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('TokenManager against the mock server', () => {
+  const getServer = useMockServer();
+  const tokenManager = new TokenManager();
+
+  beforeEach(() => {
+    const server = getServer();
+    const facebook = facebookAccount(server);
+    const instagram = instagramAccount(server);
+    const accounts: Account[] = [
+      { ...facebook, credentials: { ...facebook.credentials, appId: encryptData('app-id'), appSecret: encryptData('app-secret') } },
+      { ...instagram, credentials: { ...instagram.credentials, appSecret: encryptData('app-secret') } },
+    ];
+    accounts.forEach(account => apiFactory.resetApiService(account.id));
+    useSettingsStore.setState({
+      accounts,
+      demoMode: false,
+      platformsEnabled: { instagram: true, facebook: true, youtube: false, tiktok: false },
+    });
+  });
+
+  const credentialsOf = (accountId: string) =>
+    useSettingsStore.getState().getAccount(accountId)!.credentials as { accessToken: string } & TokenExpiry;
+
+  const setInstagramExpiry = (expiry: TokenExpiry) => {
+    useSettingsStore.setState(state => ({
+      accounts: state.accounts.map(account => account.platform === 'instagram'
+        ? { ...account, credentials: { ...account.credentials, ...expiry } }
+        : account),
+    }));
+  };
+
+  it('exchanges a saved Facebook token for a long-lived one and records when it expires', async () => {
+    await tokenManager.onTokenSaved('facebook-test');
+
+    const credentials = credentialsOf('facebook-test');
+    expect(decryptData(credentials.accessToken)).toMatch(/^mock-fb-long-lived-/);
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now() + 50 * DAY);
+    expect(credentials.dataAccessExpiresAt).toBeGreaterThan(Date.now());
+    expect(credentials.checkedAt).toBeDefined();
+  });
+
+  it('exchanges a saved Instagram token for a long-lived one', async () => {
+    await tokenManager.onTokenSaved('instagram-test');
+
+    const credentials = credentialsOf('instagram-test');
+    expect(decryptData(credentials.accessToken)).toMatch(/^mock-ig-long-lived-/);
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now() + 50 * DAY);
+    expect(credentials.issuedAt).toBeDefined();
+  });
+
+  it('records a Facebook token the platform no longer accepts as expired', async () => {
+    getServer().state.expireToken(MOCK_TOKENS.facebookUser);
+
+    await tokenManager.inspectFacebookToken('facebook-test');
+
+    expect(credentialsOf('facebook-test').expiresAt).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('refreshes an Instagram token that is about to expire', async () => {
+    setInstagramExpiry({ expiresAt: Date.now() + 2 * DAY, issuedAt: Date.now() - 58 * DAY, checkedAt: Date.now() });
+
+    await tokenManager.checkTokens();
+
+    const credentials = credentialsOf('instagram-test');
+    expect(decryptData(credentials.accessToken)).toMatch(/^mock-ig-long-lived-/);
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now() + 50 * DAY);
+  });
+
+  it('leaves Instagram tokens alone until they are due for a refresh', async () => {
+    setInstagramExpiry({ expiresAt: Date.now() + 30 * DAY, issuedAt: Date.now() - 30 * DAY, checkedAt: Date.now() });
+
+    await tokenManager.checkTokens();
+
+    expect(decryptData(credentialsOf('instagram-test').accessToken)).toBe(MOCK_TOKENS.instagram);
+  });
+
+  it('leaves real accounts alone in demo mode', async () => {
+    setInstagramExpiry({ expiresAt: Date.now() + 2 * DAY, issuedAt: Date.now() - 58 * DAY, checkedAt: 0 });
+    useSettingsStore.getState().setDemoMode(true);
+    const realAccounts = useSettingsStore.getState().accounts.filter(account => !account.isDemo);
+
+    await tokenManager.checkTokens();
+
+    expect(useSettingsStore.getState().accounts.filter(account => !account.isDemo)).toEqual(realAccounts);
+    expect(() => apiFactory.getApiService('instagram-test')).toThrow(/demo mode/);
+  });
+
+  it('keeps the token and remembers the attempt when a refresh fails', async () => {
+    setInstagramExpiry({ expiresAt: Date.now() + 2 * DAY, issuedAt: Date.now() - 58 * DAY, checkedAt: 0 });
+    getServer().fail({
+      path: '/refresh_access_token',
+      status: 400,
+      body: { error: { message: 'Invalid OAuth access token', type: 'OAuthException', code: 100 } },
+    });
+
+    await tokenManager.checkTokens();
+
+    const credentials = credentialsOf('instagram-test');
+    expect(decryptData(credentials.accessToken)).toBe(MOCK_TOKENS.instagram);
+    expect(credentials.checkedAt).toBeGreaterThan(0);
+  });
+});
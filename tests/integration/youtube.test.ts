@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import YouTubeApiService from '../../src/api/YouTubeApiService';
+import { AuthExpiredError, RateLimitedError } from '../../src/api/errors';
+import { rateLimitedFailure } from '../../mock-server/failures';
+import { MOCK_TOKENS } from '../../mock-server/state';
+import { UploadProgress } from '../../src/types';
+import { fakeFile, useMockServer, youtubeAccount } from './helpers';
+
+// Chunks must be multiples of 256 KiB
+const CHUNK_SIZE = 256 * 1024;
+
+describe('YouTubeApiService against the mock server', () => {
+  const getServer = useMockServer();
+  const createService = (withRefreshToken = true) => new YouTubeApiService(youtubeAccount(getServer(), withRefreshToken));
+
+  it('uploads a video in chunks and reports progress', async () => {
+    const service = createService();
+    const progress: UploadProgress[] = [];
+
+    const videoId = await service.createPost('My video', 'Described', fakeFile('clip.mp4', 3 * CHUNK_SIZE + 100, 'video/mp4'), {
+      chunkSize: CHUNK_SIZE,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(getServer().state.youtube.videos.find(video => video.id === videoId)).toMatchObject({
+      title: 'My video',
+      description: 'Described',
+      bytes: 3 * CHUNK_SIZE + 100,
+    });
+    expect(progress[progress.length - 1].percent).toBe(100);
+  });
+
+  it('downloads a video from a URL before uploading it', async () => {
+    const service = createService();
+
+    const videoId = await service.createPost('From URL', '', `${getServer().url}/media/clip.mp4?bytes=4096`);
+
+    expect(getServer().state.youtube.videos.find(video => video.id === videoId)?.bytes).toBe(4096);
+  });
+
+  it('resumes an upload after a chunk is interrupted', async () => {
+    const service = createService();
+    getServer().fail({ method: 'PUT', path: '/upload/youtube/v3/videos', status: 503 });
+
+    const videoId = await service.createPost('Resumed', '', fakeFile('clip.mp4', 2 * CHUNK_SIZE, 'video/mp4'), { chunkSize: CHUNK_SIZE });
+
+    expect(getServer().state.youtube.videos.find(video => video.id === videoId)?.bytes).toBe(2 * CHUNK_SIZE);
+  });
+
+  it('reads, replies to and deletes comments', async () => {
+    const service = createService();
+
+    const threads = await service.getComments('mockvideo01');
+    expect(threads.items).toHaveLength(1);
+
+    const reply = await service.replyToComment(threads.items[0].id, 'Thanks for watching');
+    expect(getServer().state.youtube.comments.find(comment => comment.id === reply.id)?.textOriginal).toBe('Thanks for watching');
+
+    await service.deleteComment(reply.id);
+    expect(getServer().state.youtube.comments.some(comment => comment.id === reply.id)).toBe(false);
+  });
+
+  it('reads public data with the API key when there is no refresh token', async () => {
+    const threads = await createService(false).getComments('mockvideo01');
+
+    expect(threads.items).toHaveLength(1);
+  });
+
+  it('reports a revoked refresh token as AuthExpiredError', async () => {
+    const service = createService();
+    getServer().state.expireToken(MOCK_TOKENS.youtubeRefresh);
+
+    await expect(service.getComments('mockvideo01')).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it('reports rate limiting as RateLimitedError', async () => {
+    const service = createService();
+    getServer().fail(rateLimitedFailure('youtube', '/commentThreads'));
+
+    await expect(service.getComments('mockvideo01')).rejects.toBeInstanceOf(RateLimitedError);
+  });
+
+  it('builds channel stats from recent uploads', async () => {
+    const stats = await createService().getStats();
+
+    expect(stats).toMatchObject({ platform: 'youtube', totalPosts: 1, totalComments: 1 });
+  });
+});
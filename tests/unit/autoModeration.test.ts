@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, getEmojiRatio, matchesConditions, previewRule, renderReplyTemplate } from '../../src/lib/autoModeration';
+import { Comment, ModerationRule } from '../../src/types';
+
+const comment = (overrides: Partial<Comment> = {}): Comment => ({
+  id: 'comment-1',
+  postId: 'post-1',
+  platform: 'instagram',
+  platformPostId: 'media-1',
+  platformCommentId: 'ig-1',
+  content: 'Love this post!',
+  author: { id: 'user-1', name: 'Sam', username: 'sam_shoots' },
+  likes: 0,
+  createdAt: new Date('2026-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+const rule = (overrides: Partial<ModerationRule> = {}): ModerationRule => ({
+  id: 'rule-1',
+  name: 'Spam',
+  enabled: true,
+  conditions: {},
+  actions: [{ type: 'hide' }],
+  ...overrides,
+});
+
+describe('matchesConditions', () => {
+  it('needs every condition to match', () => {
+    const spam = comment({ content: 'Free crypto at www.example.xyz' });
+    const conditions = { keywords: ['CRYPTO', 'giveaway'], hasLink: true, platforms: ['instagram' as const] };
+
+    expect(matchesConditions(spam, conditions)).toBe(true);
+    expect(matchesConditions({ ...spam, platform: 'youtube' }, conditions)).toBe(false);
+    expect(matchesConditions({ ...spam, content: 'Free crypto' }, conditions)).toBe(false);
+  });
+
+  it('matches authors by name or username, with or without an @', () => {
+    expect(matchesConditions(comment(), { authors: ['@SAM_SHOOTS'] })).toBe(true);
+    expect(matchesConditions(comment(), { authors: ['sam'] })).toBe(true);
+    expect(matchesConditions(comment(), { authors: ['someone_else'] })).toBe(false);
+  });
+
+  it('matches nothing when the regular expression does not compile', () => {
+    expect(matchesConditions(comment(), { pattern: '^love' })).toBe(true);
+    expect(matchesConditions(comment(), { pattern: '(love' })).toBe(false);
+  });
+
+  it('compares the share of emoji', () => {
+    expect(getEmojiRatio('🔥🔥 ok')).toBe(0.5);
+    expect(matchesConditions(comment({ content: '🔥🔥🔥🔥' }), { minEmojiRatio: 0.8 })).toBe(true);
+    expect(matchesConditions(comment(), { minEmojiRatio: 0.1 })).toBe(false);
+  });
+
+  it('matches the language a comment is written in', () => {
+    expect(detectLanguage('Muchas gracias por el video')).toBe('es');
+    expect(detectLanguage('Это отличное видео')).toBe('ru');
+    expect(detectLanguage('素晴らしいですね')).toBe('ja');
+    expect(detectLanguage('👍')).toBeUndefined();
+    expect(matchesConditions(comment({ content: 'What is the song?' }), { languages: ['en'] })).toBe(true);
+    expect(matchesConditions(comment({ content: 'Merci pour la vidéo' }), { languages: ['en'] })).toBe(false);
+  });
+});
+
+describe('previewRule', () => {
+  it('lists the comments a rule would act on, leaving out our own replies', () => {
+    const comments = [
+      comment({ id: 'a', content: 'Check my page www.spam.com' }),
+      comment({ id: 'b', content: 'Nice shot' }),
+      comment({ id: 'c', content: 'See www.example.com', isOwnReply: true }),
+    ];
+    // Disabled rules and rules that already ran are previewed all the same
+    const linkRule = rule({ enabled: false, conditions: { hasLink: true } });
+    comments[0].appliedRuleIds = [linkRule.id];
+
+    expect(previewRule(linkRule, comments).map(match => match.comment.id)).toEqual(['a']);
+  });
+
+  it('fills in reply templates', () => {
+    expect(renderReplyTemplate('Thanks {author}, see you on {platform}!', comment())).toBe('Thanks Sam, see you on instagram!');
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/api/retryPolicy';
+
+describe('CircuitBreaker', () => {
+  const resetTimeout = 60 * 1000;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeout });
+    breaker.recordFailure();
+    breaker.recordFailure();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops requests once the failures reach the threshold', () => {
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getRemainingOpenTime()).toBe(resetTimeout);
+  });
+
+  it('lets a single trial request through when half-open', () => {
+    vi.advanceTimersByTime(resetTimeout);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens again when the trial request fails', () => {
+    vi.advanceTimersByTime(resetTimeout);
+    breaker.canRequest();
+
+    breaker.recordFailure();
+
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getRemainingOpenTime()).toBe(resetTimeout);
+  });
+
+  it('allows another trial when the first one never reports back', () => {
+    vi.advanceTimersByTime(resetTimeout);
+    breaker.canRequest();
+
+    vi.advanceTimersByTime(resetTimeout);
+
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
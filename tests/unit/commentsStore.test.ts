@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import useCommentsStore, { SyncedComment } from '../../src/store/useCommentsStore';
+
+const synced = (data: Partial<SyncedComment> = {}): SyncedComment => ({
+  platform: 'facebook',
+  postId: 'post-1',
+  platformPostId: 'fb-post-1',
+  platformCommentId: 'fb-comment-1',
+  content: 'Nice post',
+  author: { id: 'fan', name: 'Fan', username: 'fan' },
+  likes: 0,
+  createdAt: new Date('2026-03-01T12:00:00Z'),
+  ...data,
+});
+
+describe('upsertComments', () => {
+  beforeEach(() => {
+    useCommentsStore.setState({ comments: [], syncCursors: {}, pendingModerationIds: [] });
+  });
+
+  const storeHidden = () => {
+    const [stored] = useCommentsStore.getState().upsertComments([synced()]).stored;
+    useCommentsStore.getState().updateComment(stored.id, { isHidden: true });
+    return stored.id;
+  };
+
+  it('takes whether a comment is hidden from the platform when it says', () => {
+    storeHidden();
+
+    const [updated] = useCommentsStore.getState().upsertComments([synced({ isHidden: false })]).stored;
+
+    expect(updated.isHidden).toBe(false);
+  });
+
+  it('keeps whether a comment is hidden when the platform does not say', () => {
+    storeHidden();
+
+    const [updated] = useCommentsStore.getState().upsertComments([synced()]).stored;
+
+    expect(updated.isHidden).toBe(true);
+  });
+
+  it('keeps whether a comment is hidden while it is being moderated', () => {
+    const id = storeHidden();
+    useCommentsStore.getState().setModerationPending(id, true);
+
+    const [updated] = useCommentsStore.getState().upsertComments([synced({ isHidden: false })]).stored;
+
+    expect(updated.isHidden).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { encryptData } from '../../src/lib/encryption';
+import { FacebookPage, PlatformAccount } from '../../src/types';
+
+const page = (id: string): FacebookPage => ({ id, name: `Page ${id}`, accessToken: `token-${id}` });
+
+const userAccount: PlatformAccount<'facebook'> = {
+  id: 'facebook-user',
+  platform: 'facebook',
+  displayName: 'Facebook',
+  credentials: { accessToken: encryptData('user-token') },
+};
+
+const pageIds = () => useSettingsStore.getState().getAccountsByPlatform('facebook')
+  .map(account => ({ id: account.id, pageId: account.platform === 'facebook' ? account.credentials.pageId : undefined }));
+
+describe('setFacebookPages', () => {
+  beforeEach(() => {
+    useSettingsStore.setState({ accounts: [userAccount] });
+  });
+
+  it('keeps the account of every page already connected when pages are picked again', () => {
+    const first = useSettingsStore.getState().setFacebookPages(userAccount.id, [page('1'), page('2')]);
+    const second = useSettingsStore.getState().setFacebookPages(userAccount.id, [page('1'), page('2'), page('3')]);
+
+    expect(first[0]).toBe(userAccount.id);
+    expect(second.slice(0, 2)).toEqual(first);
+    expect(pageIds().map(account => account.pageId)).toEqual(['1', '2', '3']);
+  });
+
+  it('adds a new account for another page instead of moving the existing one', () => {
+    useSettingsStore.getState().setFacebookPages(userAccount.id, [page('1')]);
+    const [newAccountId] = useSettingsStore.getState().setFacebookPages(userAccount.id, [page('2')]);
+
+    expect(newAccountId).not.toBe(userAccount.id);
+    expect(pageIds()).toEqual([
+      { id: userAccount.id, pageId: '1' },
+      { id: newAccountId, pageId: '2' },
+    ]);
+  });
+});
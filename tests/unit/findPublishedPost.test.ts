@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { findPublishedPost, PlatformAdapter, PlatformPost } from '../../src/api/PlatformAdapter';
+
+const since = new Date('2026-03-01T12:00:00Z');
+
+// Only fetchPosts is used to look for the post
+const adapterWith = (posts: Omit<PlatformPost, 'createdAt'>[]) => ({
+  fetchPosts: async () => posts.map(post => ({ ...post, createdAt: new Date(since.getTime() + 60 * 1000) })),
+}) as unknown as PlatformAdapter;
+
+describe('findPublishedPost', () => {
+  it('finds a post by its full text, ignoring spacing', async () => {
+    const adapter = adapterWith([{ id: 'other', text: 'Something else' }, { id: 'ours', text: 'Launch day!\n\nSee you there' }]);
+
+    expect(await findPublishedPost(adapter, ['Launch day!  See you there'], since)).toBe('ours');
+  });
+
+  it('does not take a short post that starts like ours for it', async () => {
+    const adapter = adapterWith([{ id: 'other', text: 'Launch' }]);
+
+    expect(await findPublishedPost(adapter, ['Launch day! See you there'], since)).toBeUndefined();
+  });
+
+  it('finds a post whose long text the platform shortened', async () => {
+    const title = 'A'.repeat(120);
+    const adapter = adapterWith([{ id: 'ours', text: title.substring(0, 100) }]);
+
+    expect(await findPublishedPost(adapter, [title], since)).toBe('ours');
+  });
+
+  it('throws when there is no text to tell the posts apart by', async () => {
+    await expect(findPublishedPost(adapterWith([]), ['  '], since)).rejects.toThrow();
+    await expect(findPublishedPost(adapterWith([{ id: 'story', text: '' }]), ['Launch day!'], since)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { validatePostForPlatform } from '../../src/lib/platformConstraints';
+import { MediaItem } from '../../src/types';
+
+const video = (overrides: Partial<MediaItem> = {}): MediaItem => ({ type: 'video', url: 'https://cdn.example.com/clip.mp4', ...overrides });
+const image = (overrides: Partial<MediaItem> = {}): MediaItem => ({ type: 'image', url: 'https://cdn.example.com/photo.jpg', ...overrides });
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe('validatePostForPlatform', () => {
+  it('accepts a post within every limit', () => {
+    const result = validatePostForPlatform({ content: 'Hello #world', media: [image({ width: 1080, height: 1080 })] }, 'instagram');
+
+    expect(result).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('refuses Instagram captions over 2,200 characters and more than 30 hashtags', () => {
+    const hashtags = Array.from({ length: 31 }, (_, index) => `#tag${index}`).join(' ');
+    const result = validatePostForPlatform({ content: `${hashtags} ${'a'.repeat(2200)}`, media: [image()] }, 'instagram');
+
+    expect(codes(result.errors)).toEqual(['caption_too_long', 'too_many_hashtags']);
+  });
+
+  it('warns that YouTube titles are cut at 100 characters', () => {
+    const result = validatePostForPlatform({ content: 'a'.repeat(120), media: [video()] }, 'youtube');
+
+    expect(result.errors).toEqual([]);
+    expect(codes(result.warnings)).toEqual(['title_truncated']);
+  });
+
+  it('applies the rules of the Instagram format', () => {
+    const post = { content: 'Caption', media: [image()], instagramOptions: { format: 'reel' as const } };
+
+    expect(codes(validatePostForPlatform(post, 'instagram').errors)).toEqual(['media_type']);
+    expect(codes(validatePostForPlatform({ ...post, instagramOptions: { format: 'story_image' } }, 'instagram').warnings))
+      .toEqual(['caption_ignored']);
+  });
+
+  it('checks formats, durations and resolution when they are known', () => {
+    const result = validatePostForPlatform(
+      { content: '', media: [video({ url: 'https://cdn.example.com/clip.avi', durationSec: 700, width: 320, height: 240 })] },
+      'tiktok'
+    );
+
+    expect(codes(result.errors)).toEqual(['media_format', 'video_too_long', 'resolution_too_low']);
+    expect(codes(result.warnings)).toEqual(['aspect_ratio']);
+  });
+
+  it('uses a lower video length limit for the account', () => {
+    const post = { content: '', media: [video({ durationSec: 200 })] };
+
+    expect(validatePostForPlatform(post, 'tiktok').errors).toEqual([]);
+    expect(codes(validatePostForPlatform(post, 'tiktok', { maxVideoDurationSec: 180 }).errors)).toEqual(['video_too_long']);
+  });
+
+  it("validates each platform's own caption, title and media", () => {
+    const post = {
+      content: 'a'.repeat(120),
+      media: [image()],
+      variants: {
+        youtube: { title: 'b'.repeat(101), media: [video()] },
+        instagram: { caption: 'c'.repeat(2300) },
+      },
+    };
+
+    expect(codes(validatePostForPlatform(post, 'youtube').errors)).toEqual(['title_too_long']);
+    expect(validatePostForPlatform(post, 'youtube').warnings).toEqual([]);
+    expect(codes(validatePostForPlatform(post, 'instagram').errors)).toEqual(['caption_too_long']);
+    expect(validatePostForPlatform(post, 'facebook').errors).toEqual([]);
+  });
+
+  it('warns when a platform leaves out extra media', () => {
+    const result = validatePostForPlatform({ content: 'Hi', media: [image(), image()] }, 'facebook');
+
+    expect(codes(result.warnings)).toEqual(['too_many_media']);
+  });
+});
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import useSettingsStore from '../../src/store/useSettingsStore';
+import { decryptData } from '../../src/lib/encryption';
+
+const connect = (refreshToken: string, channelId?: string) => useSettingsStore.getState().addYoutubeAccount(
+  'My Channel', 'api-key', 'client-id', 'client-secret', 'http://localhost/auth/youtube/callback', refreshToken, undefined, channelId
+);
+
+const youtubeAccounts = () => useSettingsStore.getState().getAccountsByPlatform('youtube');
+
+describe('addYoutubeAccount', () => {
+  beforeEach(() => {
+    useSettingsStore.setState({ accounts: [] });
+  });
+
+  it('gives a channel that is connected again its new refresh token instead of a second account', () => {
+    const firstId = connect('first-token', 'channel-1');
+    useSettingsStore.getState().updateAccount(firstId, { displayName: 'Renamed' });
+
+    const secondId = connect('second-token', 'channel-1');
+
+    const accounts = youtubeAccounts();
+    expect(secondId).toBe(firstId);
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0].displayName).toBe('Renamed');
+    expect(accounts[0].platform === 'youtube' && decryptData(accounts[0].credentials.refreshToken!)).toBe('second-token');
+  });
+
+  it('adds an account for another channel', () => {
+    connect('first-token', 'channel-1');
+    connect('second-token', 'channel-2');
+
+    expect(youtubeAccounts()).toHaveLength(2);
+  });
+});
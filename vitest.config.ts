@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests cover pure logic; integration tests run the API services against the local mock server (mock-server/)
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // The services log every request; run with --silent=false to see it
+    silent: true,
+    testTimeout: 20 * 1000,
+  },
+});